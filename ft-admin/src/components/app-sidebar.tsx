@@ -15,7 +15,7 @@ import {
   SidebarMenuItem,
 } from "@/components/ui/sidebar"
 import { Badge } from "@/components/ui/badge"
-import { LayoutDashboardIcon, UsersIcon, ShieldCheckIcon, CommandIcon, DollarSignIcon, MegaphoneIcon, CarIcon } from "lucide-react"
+import { LayoutDashboardIcon, UsersIcon, ShieldCheckIcon, CommandIcon, DollarSignIcon, MegaphoneIcon, CarIcon, WalletIcon, TicketPercentIcon } from "lucide-react"
 
 function useNavMain(canAccessAdminManagement: boolean) {
   const { t } = useTranslation()
@@ -24,6 +24,8 @@ function useNavMain(canAccessAdminManagement: boolean) {
     { title: t("sidebar.userManagement"), path: "/users", icon: <UsersIcon className="size-4" /> },
     { title: t("sidebar.driverManagement"), path: "/drivers", icon: <CarIcon className="size-4" /> },
     { title: t("sidebar.pricing"), path: "/pricing", icon: <DollarSignIcon className="size-4" /> },
+    { title: t("sidebar.promos"), path: "/promos", icon: <TicketPercentIcon className="size-4" /> },
+    { title: t("sidebar.payments"), path: "/payments", icon: <WalletIcon className="size-4" /> },
     { title: t("sidebar.content"), path: "/content", icon: <MegaphoneIcon className="size-4" /> },
   ]
   if (canAccessAdminManagement) {
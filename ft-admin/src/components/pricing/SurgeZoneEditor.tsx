@@ -0,0 +1,492 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  Circle,
+  CircleMarker,
+  MapContainer,
+  TileLayer,
+  Tooltip,
+  useMapEvents,
+} from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  deleteSurgeZone,
+  getSurgeZones,
+  saveSurgeZone,
+  type SurgeZoneDto,
+  type SurgeZoneInput,
+} from "@/lib/pricing-api";
+import { PlusIcon, PencilIcon, Trash2Icon } from "lucide-react";
+
+// ── Helpers ──
+
+/** Yangon city centre — initial map view. */
+const DEFAULT_CENTER: [number, number] = [16.8409, 96.1735];
+
+type ZoneState = "live" | "scheduled" | "ended" | "inactive";
+
+function zoneState(z: SurgeZoneDto, now = new Date()): ZoneState {
+  if (!z.isActive) return "inactive";
+  if (z.endsAt && new Date(z.endsAt) <= now) return "ended";
+  if (z.startsAt && new Date(z.startsAt) > now) return "scheduled";
+  return "live";
+}
+
+const STATE_COLOR: Record<ZoneState, string> = {
+  live: "#dc2626",
+  scheduled: "#f59e0b",
+  ended: "#6b7280",
+  inactive: "#6b7280",
+};
+
+/** ISO → value for <input type="datetime-local"> (local time). */
+function toLocalInput(iso: string | null): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function formatWindow(z: SurgeZoneDto, always: string): string {
+  if (!z.startsAt && !z.endsAt) return always;
+  const fmt = (iso: string | null) =>
+    iso ? new Date(iso).toLocaleString() : "…";
+  return `${fmt(z.startsAt)} – ${fmt(z.endsAt)}`;
+}
+
+interface ZoneForm {
+  name: string;
+  centerLat: number | null;
+  centerLng: number | null;
+  radiusMeters: number;
+  multiplier: number;
+  isActive: boolean;
+  startsAt: string; // datetime-local
+  endsAt: string;
+}
+
+const EMPTY_FORM: ZoneForm = {
+  name: "",
+  centerLat: null,
+  centerLng: null,
+  radiusMeters: 1000,
+  multiplier: 1.5,
+  isActive: true,
+  startsAt: "",
+  endsAt: "",
+};
+
+/** Places the zone centre wherever the map is clicked while drawing. */
+function MapClickHandler({
+  onClick,
+}: {
+  onClick: (lat: number, lng: number) => void;
+}) {
+  useMapEvents({
+    click: (e) => onClick(e.latlng.lat, e.latlng.lng),
+  });
+  return null;
+}
+
+// ── Component ──
+
+export function SurgeZoneEditor({
+  onError,
+}: {
+  onError: (message: string) => void;
+}) {
+  const { t } = useTranslation();
+  const [zones, setZones] = useState<SurgeZoneDto[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Draft being drawn / edited (null = not editing)
+  const [form, setForm] = useState<ZoneForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const loadZones = useCallback(async () => {
+    try {
+      setZones(await getSurgeZones());
+    } catch (e) {
+      onError(
+        e instanceof Error ? e.message : t("pricing.surgeZones.errors.load")
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [onError, t]);
+
+  useEffect(() => {
+    loadZones();
+  }, [loadZones]);
+
+  function openAdd() {
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM });
+  }
+
+  function openEdit(z: SurgeZoneDto) {
+    setEditingId(z.id);
+    setForm({
+      name: z.name,
+      centerLat: z.centerLat,
+      centerLng: z.centerLng,
+      radiusMeters: z.radiusMeters,
+      multiplier: z.multiplier,
+      isActive: z.isActive,
+      startsAt: toLocalInput(z.startsAt),
+      endsAt: toLocalInput(z.endsAt),
+    });
+  }
+
+  function closeForm() {
+    setForm(null);
+    setEditingId(null);
+  }
+
+  function updateForm(patch: Partial<ZoneForm>) {
+    setForm((f) => (f ? { ...f, ...patch } : f));
+  }
+
+  async function handleSave() {
+    if (!form || form.centerLat === null || form.centerLng === null) return;
+    setSaving(true);
+    try {
+      const body: SurgeZoneInput = {
+        name: form.name.trim(),
+        centerLat: form.centerLat,
+        centerLng: form.centerLng,
+        radiusMeters: form.radiusMeters,
+        multiplier: form.multiplier,
+        isActive: form.isActive,
+        startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+        endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : null,
+      };
+      await saveSurgeZone(body, editingId ?? undefined);
+      closeForm();
+      loadZones();
+    } catch (e) {
+      onError(
+        e instanceof Error ? e.message : t("pricing.surgeZones.errors.save")
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!deletingId) return;
+    try {
+      await deleteSurgeZone(deletingId);
+      if (editingId === deletingId) closeForm();
+      loadZones();
+    } catch (e) {
+      onError(
+        e instanceof Error ? e.message : t("pricing.surgeZones.errors.delete")
+      );
+    } finally {
+      setDeletingId(null);
+    }
+  }
+
+  const canSave =
+    !!form &&
+    !!form.name.trim() &&
+    form.centerLat !== null &&
+    form.radiusMeters > 0 &&
+    form.multiplier >= 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("pricing.surgeZones.title")}</CardTitle>
+        <CardDescription>{t("pricing.surgeZones.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!form && (
+          <Button onClick={openAdd}>
+            <PlusIcon className="mr-2 size-4" />
+            {t("pricing.surgeZones.addButton")}
+          </Button>
+        )}
+
+        <div className="grid gap-4 lg:grid-cols-3">
+          <div className="overflow-hidden rounded-md border lg:col-span-2">
+            <MapContainer
+              center={DEFAULT_CENTER}
+              zoom={12}
+              className="h-[420px] w-full"
+            >
+              <TileLayer
+                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+              />
+              {form && (
+                <MapClickHandler
+                  onClick={(lat, lng) =>
+                    updateForm({ centerLat: lat, centerLng: lng })
+                  }
+                />
+              )}
+              {zones
+                .filter((z) => z.id !== editingId)
+                .map((z) => {
+                  const color = STATE_COLOR[zoneState(z)];
+                  return (
+                    <Circle
+                      key={z.id}
+                      center={[z.centerLat, z.centerLng]}
+                      radius={z.radiusMeters}
+                      pathOptions={{ color, fillColor: color, fillOpacity: 0.15 }}
+                      eventHandlers={form ? undefined : { click: () => openEdit(z) }}
+                    >
+                      <Tooltip>
+                        {z.name} · {z.multiplier}×
+                      </Tooltip>
+                    </Circle>
+                  );
+                })}
+              {form && form.centerLat !== null && form.centerLng !== null && (
+                <>
+                  <Circle
+                    center={[form.centerLat, form.centerLng]}
+                    radius={form.radiusMeters}
+                    pathOptions={{
+                      color: "#2563eb",
+                      fillColor: "#2563eb",
+                      fillOpacity: 0.2,
+                      dashArray: "6 4",
+                    }}
+                  />
+                  <CircleMarker
+                    center={[form.centerLat, form.centerLng]}
+                    radius={5}
+                    pathOptions={{ color: "#2563eb", fillOpacity: 1 }}
+                  />
+                </>
+              )}
+            </MapContainer>
+          </div>
+
+          {!form ? (
+            <div className="text-muted-foreground flex items-center justify-center rounded-md border border-dashed p-4 text-center text-sm">
+              {t("pricing.surgeZones.selectHint")}
+            </div>
+          ) : (
+            <div className="flex flex-col gap-4 rounded-md border p-4">
+              <p className="font-medium">
+                {editingId
+                  ? t("pricing.surgeZones.editTitle")
+                  : t("pricing.surgeZones.addTitle")}
+              </p>
+              <p className="text-muted-foreground text-xs">
+                {form.centerLat === null
+                  ? t("pricing.surgeZones.clickToPlace")
+                  : t("pricing.surgeZones.clickToMove", {
+                      lat: form.centerLat.toFixed(5),
+                      lng: form.centerLng?.toFixed(5),
+                    })}
+              </p>
+              <div className="space-y-1.5">
+                <Label>{t("pricing.surgeZones.nameLabel")}</Label>
+                <Input
+                  className="h-9"
+                  placeholder={t("pricing.surgeZones.namePlaceholder")}
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label>{t("pricing.surgeZones.multiplierLabel")}</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={9.99}
+                    step={0.1}
+                    className="h-9"
+                    value={form.multiplier}
+                    onChange={(e) =>
+                      updateForm({ multiplier: Number(e.target.value) || 1 })
+                    }
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label>{t("pricing.surgeZones.radiusLabel")}</Label>
+                  <Input
+                    type="number"
+                    min={100}
+                    step={100}
+                    className="h-9"
+                    value={form.radiusMeters}
+                    onChange={(e) =>
+                      updateForm({ radiusMeters: Number(e.target.value) || 0 })
+                    }
+                  />
+                </div>
+              </div>
+              <div className="space-y-1.5">
+                <Label>{t("pricing.surgeZones.startsAtLabel")}</Label>
+                <Input
+                  type="datetime-local"
+                  className="h-9"
+                  value={form.startsAt}
+                  onChange={(e) => updateForm({ startsAt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label>{t("pricing.surgeZones.endsAtLabel")}</Label>
+                <Input
+                  type="datetime-local"
+                  className="h-9"
+                  value={form.endsAt}
+                  onChange={(e) => updateForm({ endsAt: e.target.value })}
+                />
+              </div>
+              <p className="text-muted-foreground text-xs">
+                {t("pricing.surgeZones.windowHelp")}
+              </p>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => updateForm({ isActive: e.target.checked })}
+                />
+                {t("pricing.surgeZones.activeLabel")}
+              </label>
+              <div className="mt-auto flex gap-2 border-t pt-4">
+                <Button variant="outline" className="flex-1" onClick={closeForm}>
+                  {t("common.cancel")}
+                </Button>
+                <Button
+                  className="flex-1"
+                  onClick={handleSave}
+                  disabled={saving || !canSave}
+                >
+                  {saving
+                    ? t("common.saving")
+                    : editingId
+                      ? t("common.update")
+                      : t("common.create")}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <p className="text-muted-foreground text-sm">{t("common.loading")}</p>
+        ) : zones.length === 0 ? (
+          <p className="text-muted-foreground text-sm">
+            {t("pricing.surgeZones.empty")}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("pricing.surgeZones.nameCol")}</TableHead>
+                <TableHead>{t("pricing.surgeZones.multiplierCol")}</TableHead>
+                <TableHead>{t("pricing.surgeZones.radiusCol")}</TableHead>
+                <TableHead>{t("pricing.surgeZones.windowCol")}</TableHead>
+                <TableHead>{t("common.status")}</TableHead>
+                <TableHead className="w-[80px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {zones.map((z) => {
+                const state = zoneState(z);
+                return (
+                  <TableRow key={z.id}>
+                    <TableCell className="font-medium">{z.name}</TableCell>
+                    <TableCell>{z.multiplier}×</TableCell>
+                    <TableCell>{z.radiusMeters.toLocaleString()} m</TableCell>
+                    <TableCell className="text-sm">
+                      {formatWindow(z, t("pricing.surgeZones.always"))}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={state === "live" ? "default" : "secondary"}
+                      >
+                        {t(`pricing.surgeZones.state.${state}`)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openEdit(z)}
+                        >
+                          <PencilIcon className="size-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDeletingId(z.id)}
+                        >
+                          <Trash2Icon className="size-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <AlertDialog
+        open={!!deletingId}
+        onOpenChange={(open) => !open && setDeletingId(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t("pricing.surgeZones.deleteTitle")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("pricing.surgeZones.deleteDescription")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>
+              {t("common.delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
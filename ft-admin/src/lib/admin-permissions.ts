@@ -5,23 +5,29 @@ import { defaultStatements } from "better-auth/plugins/admin/access";
  * Must match ft-api admin-permissions (same statement and role definitions).
  * Roles: ADMIN, MANAGER, OPERATION, SUPERADMIN.
  */
-const statement = { ...defaultStatements } as const;
+const statement = {
+  ...defaultStatements,
+  promo: ["list", "create", "update", "delete"],
+} as const;
 
 const ac = createAccessControl(statement);
 
 const adminRole = ac.newRole({
   user: ["list", "ban"],
   session: ["revoke"],
+  promo: ["list"],
 });
 
 const managerRole = ac.newRole({
   user: ["list", "ban", "delete"],
   session: ["revoke"],
+  promo: ["list", "create", "update"],
 });
 
 const operationRole = ac.newRole({
   user: ["list", "ban", "delete"],
   session: ["revoke"],
+  promo: ["list", "create", "update"],
 });
 
 const superadminRole = ac.newRole({
@@ -37,6 +43,7 @@ const superadminRole = ac.newRole({
     "update",
   ],
   session: ["list", "revoke", "delete"],
+  promo: ["list", "create", "update", "delete"],
 });
 
 export const adminAccessControl = ac;
@@ -13,9 +13,68 @@ export interface Vehicle {
   color: string;
   plateNumber: string;
   capacity: number;
+  vehicleImageUrl?: string | null;
   isActive: boolean;
 }
 
+export interface RatingBreakdown {
+  /** Count of ratings per star value, keyed 1–5. */
+  distribution: Record<string, number>;
+  topTags: { tag: string; count: number }[];
+  recentComments: {
+    rideId: string;
+    rating: number;
+    comment: string | null;
+    tags: string[];
+    raterName: string;
+    createdAt: string;
+  }[];
+}
+
+export type ExpiringDocumentType =
+  | "DRIVER_LICENSE"
+  | "VEHICLE_REGISTRATION"
+  | "VEHICLE_INSURANCE";
+
+/** A document expired or due within 30 days; `daysLeft` ≤ 0 once expired. */
+export interface ExpiringDocument {
+  document: ExpiringDocumentType;
+  expiresAt: string;
+  daysLeft: number;
+}
+
+/** Document types in display order. */
+export const DRIVER_DOCUMENT_TYPES = [
+  "NRC_FRONT",
+  "NRC_BACK",
+  "LICENSE_FRONT",
+  "LICENSE_BACK",
+  "VEHICLE_REGISTRATION",
+  "VEHICLE_INSURANCE",
+  "VEHICLE_FRONT",
+  "VEHICLE_BACK",
+  "VEHICLE_LEFT",
+  "VEHICLE_RIGHT",
+] as const;
+
+export type DriverDocumentType = (typeof DRIVER_DOCUMENT_TYPES)[number];
+
+export type DocumentReviewStatus = "PENDING" | "APPROVED" | "REJECTED";
+
+export interface DriverDocument {
+  id: string;
+  type: DriverDocumentType;
+  imageUrl: string;
+  number: string | null;
+  expiresAt: string | null;
+  status: DocumentReviewStatus;
+  rejectionReason: string | null;
+  reviewedById: string | null;
+  reviewerName: string | null;
+  reviewedAt: string | null;
+  updatedAt: string;
+}
+
 export interface Driver {
   id: string;
   userId: string;
@@ -25,6 +84,12 @@ export interface Driver {
   phone?: string | null;
   banned?: boolean;
   approvalStatus: "PENDING" | "APPROVED" | "REJECTED" | "SUSPENDED";
+  /** Set when suspended automatically, e.g. "DOCUMENT_EXPIRED". */
+  suspensionReason?: string | null;
+  /** Admin's note to a rejected applicant. */
+  rejectionReason?: string | null;
+  /** Set when a self-registered applicant submits for review. */
+  applicationSubmittedAt?: string | null;
   status: "OFFLINE" | "ONLINE" | "ON_TRIP";
   petFriendly?: boolean;
   isVip?: boolean;
@@ -37,7 +102,15 @@ export interface Driver {
   totalEarnings?: string | number;
   averageRating: string | number;
   ratingCount?: number;
+  /** Only returned by the single-driver endpoint. */
+  ratingBreakdown?: RatingBreakdown;
   vehicle?: Vehicle | null;
+  /** Soonest first; empty when nothing expires within 30 days. */
+  expiringDocuments?: ExpiringDocument[];
+  /** Documents awaiting review; only returned by the list endpoint. */
+  pendingDocuments?: number;
+  /** Only returned by the single-driver endpoint. */
+  documents?: DriverDocument[];
   createdAt: string;
 }
 
@@ -81,9 +154,11 @@ export async function approveDriver(id: string) {
   return res.json();
 }
 
-export async function rejectDriver(id: string) {
+export async function rejectDriver(id: string, reason?: string) {
   const res = await authFetch(`${BASE}/admin/drivers/${id}/reject`, {
     method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ reason }),
   });
   return res.json();
 }
@@ -148,14 +223,15 @@ export async function revokeDriverSessions(id: string) {
   return res.json();
 }
 
+/** Upload (or replace) a document; admin uploads are approved immediately. */
 export async function uploadDriverDocument(
   id: string,
-  field: "licenseImageUrl" | "nationalIdImageUrl",
+  type: DriverDocumentType,
   file: File
 ) {
   const formData = new FormData();
   formData.append("file", file);
-  formData.append("field", field);
+  formData.append("type", type);
 
   const res = await authFetch(`${BASE}/admin/drivers/${id}/documents`, {
     method: "POST",
@@ -163,3 +239,20 @@ export async function uploadDriverDocument(
   });
   return res.json();
 }
+
+export async function reviewDriverDocument(
+  id: string,
+  documentId: string,
+  status: "APPROVED" | "REJECTED",
+  reason?: string
+): Promise<DriverDocument> {
+  const res = await authFetch(
+    `${BASE}/admin/drivers/${id}/documents/${documentId}/review`,
+    {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ status, reason }),
+    }
+  );
+  return res.json() as Promise<DriverDocument>;
+}
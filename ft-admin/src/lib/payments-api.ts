@@ -0,0 +1,47 @@
+/** API helpers for payments and cash reconciliation. */
+
+const BASE = import.meta.env.VITE_BETTER_AUTH_URL ?? "http://localhost:3000";
+
+/** Outstanding cash-ride platform fees held by one driver. */
+export interface CashReconciliationRow {
+  driverId: string;
+  name: string;
+  email: string;
+  currency: string;
+  /** Platform fees on collected cash rides not yet handed over. */
+  owed: number;
+  collectedRides: number;
+  /** Cash rides the driver hasn't confirmed collecting yet. */
+  pendingRides: number;
+  pendingAmount: number;
+  oldestAt: string;
+}
+
+async function authFetch(url: string, init?: RequestInit): Promise<Response> {
+  const res = await fetch(url, {
+    ...init,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(
+      (body as { message?: string }).message ?? `Request failed (${res.status})`
+    );
+  }
+  return res;
+}
+
+export async function getCashReconciliation(): Promise<CashReconciliationRow[]> {
+  const res = await authFetch(`${BASE}/admin/payments/cash-reconciliation`);
+  return res.json() as Promise<CashReconciliationRow[]>;
+}
+
+export async function markFeesRemitted(
+  driverId: string,
+): Promise<{ driverId: string; remittedRides: number; amount: number }> {
+  const res = await authFetch(
+    `${BASE}/admin/payments/drivers/${driverId}/remit`,
+    { method: "POST" },
+  );
+  return res.json();
+}
@@ -44,6 +44,10 @@ export interface PricingConfigDto {
   timeRate: number;
   bookingFee: number;
   surgeMultiplier: number;
+  /** % the actual (GPS) fare may differ from the quote before it applies. */
+  fareTolerancePercent?: number;
+  /** Platform commission (%) taken from the final fare. */
+  commissionPercent?: number;
   currency: string;
   timeRules?: TimeRuleDto[];
   distanceBands?: DistanceBandDto[];
@@ -124,12 +128,74 @@ export async function deleteTownshipSurcharge(id: string): Promise<void> {
   if (!res.ok) throw new Error(await res.text());
 }
 
+// ── Surge zone types ──
+
+export interface SurgeZoneDto {
+  id: string;
+  name: string;
+  centerLat: number;
+  centerLng: number;
+  radiusMeters: number;
+  multiplier: number;
+  isActive: boolean;
+  startsAt: string | null; // ISO; null = always
+  endsAt: string | null;
+  updatedAt?: string;
+}
+
+export type SurgeZoneInput = Omit<SurgeZoneDto, "id" | "updatedAt">;
+
+// ── Surge zone API calls ──
+
+export async function getSurgeZones(): Promise<SurgeZoneDto[]> {
+  const res = await fetch(`${BASE}/pricing/surge-zones`, {
+    headers: await getAuthHeaders(),
+    credentials: "include",
+  });
+  if (!res.ok) throw new Error(await res.text());
+  return res.json();
+}
+
+export async function saveSurgeZone(
+  body: SurgeZoneInput,
+  id?: string
+): Promise<SurgeZoneDto> {
+  const res = await fetch(
+    id ? `${BASE}/pricing/surge-zones/${id}` : `${BASE}/pricing/surge-zones`,
+    {
+      method: id ? "PUT" : "POST",
+      headers: await getAuthHeaders(),
+      credentials: "include",
+      body: JSON.stringify(body),
+    }
+  );
+  if (!res.ok) throw new Error(await res.text());
+  return res.json();
+}
+
+export async function deleteSurgeZone(id: string): Promise<void> {
+  const res = await fetch(`${BASE}/pricing/surge-zones/${id}`, {
+    method: "DELETE",
+    headers: await getAuthHeaders(),
+    credentials: "include",
+  });
+  if (!res.ok) throw new Error(await res.text());
+}
+
 // ── Dispatch config types ──
 
+/** How a round offers the ride: one driver at a time, top N at once, or everyone. */
+export type DispatchMode = "SEQUENTIAL" | "TOP_N" | "BROADCAST";
+
+export const DISPATCH_MODES: DispatchMode[] = ["SEQUENTIAL", "TOP_N", "BROADCAST"];
+
 export interface DispatchRoundDto {
   roundIndex: number;
   radiusMeters: number;
   intervalMs: number;
+  mode: DispatchMode;
+  /** Drivers offered at once when mode is TOP_N. */
+  batchSize: number;
 }
 
 // ── Dispatch config API calls ──
@@ -0,0 +1,98 @@
+/** API helpers for promo code management. */
+
+const BASE = import.meta.env.VITE_BETTER_AUTH_URL ?? "http://localhost:3000";
+
+export type PromoDiscountType = "percentage" | "fixed";
+
+export interface Promo {
+  id: string;
+  code: string;
+  description: string | null;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  /** Cap for percentage discounts. */
+  maxDiscount: number | null;
+  minimumFare: number | null;
+  /** Total redemptions allowed; null = unlimited. */
+  usageLimit: number | null;
+  usageCount: number;
+  perUserLimit: number;
+  validFrom: string;
+  validUntil: string | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  /** Sum of discounts given so far (list endpoint only). */
+  totalDiscount?: number;
+}
+
+export type PromoPayload = Omit<
+  Promo,
+  "id" | "usageCount" | "createdAt" | "updatedAt" | "totalDiscount"
+>;
+
+export interface PromoUsage {
+  id: string;
+  userId: string;
+  userName: string | null;
+  userEmail: string | null;
+  discountApplied: number;
+  createdAt: string;
+  ride: {
+    id: string;
+    status: string;
+    totalFare: number;
+    currency: string;
+    dropoffAddress: string;
+  } | null;
+}
+
+async function authFetch(url: string, init?: RequestInit): Promise<Response> {
+  const res = await fetch(url, {
+    ...init,
+    credentials: "include",
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(
+      (body as { message?: string }).message ?? `Request failed (${res.status})`
+    );
+  }
+  return res;
+}
+
+export async function getPromos(): Promise<Promo[]> {
+  const res = await authFetch(`${BASE}/admin/promos`);
+  return res.json() as Promise<Promo[]>;
+}
+
+export async function createPromo(payload: PromoPayload): Promise<Promo> {
+  const res = await authFetch(`${BASE}/admin/promos`, {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+  return res.json() as Promise<Promo>;
+}
+
+export async function updatePromo(
+  id: string,
+  payload: Partial<PromoPayload>,
+): Promise<Promo> {
+  const res = await authFetch(`${BASE}/admin/promos/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify(payload),
+  });
+  return res.json() as Promise<Promo>;
+}
+
+export async function deletePromo(id: string): Promise<void> {
+  await authFetch(`${BASE}/admin/promos/${id}`, { method: "DELETE" });
+}
+
+export async function getPromoUsages(
+  id: string,
+): Promise<{ promo: Promo; usages: PromoUsage[] }> {
+  const res = await authFetch(`${BASE}/admin/promos/${id}/usages`);
+  return res.json();
+}
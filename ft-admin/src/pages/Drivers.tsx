@@ -11,9 +11,15 @@ import {
   revokeDriverSessions,
   updateDriver,
   uploadDriverDocument,
+  reviewDriverDocument,
   upsertVehicle,
   getDriver,
+  DRIVER_DOCUMENT_TYPES,
+  type DocumentReviewStatus,
   type Driver,
+  type DriverDocument,
+  type ExpiringDocument,
+  type RatingBreakdown,
 } from "@/lib/drivers-api";
 import { Button } from "@/components/ui/button";
 import {
@@ -59,6 +65,8 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   MoreHorizontalIcon,
   PlusIcon,
@@ -69,6 +77,7 @@ import {
   PauseCircleIcon,
   EyeIcon,
   UploadIcon,
+  TriangleAlertIcon,
 } from "lucide-react";
 
 // ── Helpers ──
@@ -105,6 +114,248 @@ function driverStatusKey(status: string): string {
   }
 }
 
+type DriverFilter = "all" | "expiring";
+
+// ── Expiry Badge ──
+
+/** Badge for a driver's soonest expiring (or expired) document. */
+function ExpiryBadge({ documents }: { documents?: ExpiringDocument[] }) {
+  const { t } = useTranslation();
+  if (!documents?.length) return null;
+  const soonest = documents[0];
+
+  const document = t(`drivers.expiry.documents.${soonest.document}`);
+  return (
+    <Badge
+      variant={soonest.daysLeft <= 0 ? "destructive" : "outline"}
+      title={documents
+        .map((d) =>
+          t(
+            d.daysLeft <= 0 ? "drivers.expiry.expired" : "drivers.expiry.dueIn",
+            {
+              document: t(`drivers.expiry.documents.${d.document}`),
+              count: d.daysLeft,
+              date: new Date(d.expiresAt).toLocaleDateString(),
+            },
+          ),
+        )
+        .join("\n")}
+    >
+      <TriangleAlertIcon className="mr-1 size-3" />
+      {soonest.daysLeft <= 0
+        ? t("drivers.expiry.expiredBadge", { document })
+        : t("drivers.expiry.dueBadge", { document, count: soonest.daysLeft })}
+    </Badge>
+  );
+}
+
+// ── Document Review ──
+
+function documentVariant(
+  status: DocumentReviewStatus,
+): "default" | "secondary" | "destructive" {
+  if (status === "APPROVED") return "default";
+  if (status === "REJECTED") return "destructive";
+  return "secondary";
+}
+
+/** Every document type with its upload, review status and review actions. */
+function DocumentReviewSection({
+  driverId,
+  documents,
+  canEdit,
+  onChanged,
+}: {
+  driverId: string;
+  documents: DriverDocument[];
+  canEdit: boolean;
+  onChanged: () => Promise<void>;
+}) {
+  const { t } = useTranslation();
+  const [busy, setBusy] = useState<string | null>(null);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(key: string, action: () => Promise<unknown>) {
+    setBusy(key);
+    setError(null);
+    try {
+      await action();
+      await onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function handleReject(doc: DriverDocument) {
+    if (!reason.trim()) return;
+    void run(doc.id, async () => {
+      await reviewDriverDocument(driverId, doc.id, "REJECTED", reason.trim());
+      setRejectingId(null);
+      setReason("");
+    });
+  }
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold">
+        {t("drivers.documents.title")}
+      </h3>
+      <Separator className="my-2" />
+      {error && <p className="mb-2 text-xs text-destructive">{error}</p>}
+      <ul className="space-y-3">
+        {DRIVER_DOCUMENT_TYPES.map((type) => {
+          const doc = documents.find((d) => d.type === type);
+          return (
+            <li key={type} className="rounded border p-2 text-sm">
+              <div className="flex items-start gap-3">
+                {doc ? (
+                  <a href={doc.imageUrl} target="_blank" rel="noreferrer">
+                    <img
+                      src={doc.imageUrl}
+                      alt={t(`drivers.documents.types.${type}`)}
+                      className="h-16 w-24 rounded border object-cover"
+                    />
+                  </a>
+                ) : (
+                  <div className="flex h-16 w-24 items-center justify-center rounded border text-xs text-muted-foreground">
+                    {t("drivers.detail.noImage")}
+                  </div>
+                )}
+                <div className="min-w-0 flex-1 space-y-0.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">
+                      {t(`drivers.documents.types.${type}`)}
+                    </span>
+                    {doc && (
+                      <Badge variant={documentVariant(doc.status)}>
+                        {t(`drivers.documents.status.${doc.status}`)}
+                      </Badge>
+                    )}
+                  </div>
+                  {doc?.number && (
+                    <p className="text-xs text-muted-foreground">
+                      {t("drivers.documents.number", { number: doc.number })}
+                    </p>
+                  )}
+                  {doc?.expiresAt && (
+                    <p className="text-xs text-muted-foreground">
+                      {t("drivers.documents.expires", {
+                        date: new Date(doc.expiresAt).toLocaleDateString(),
+                      })}
+                    </p>
+                  )}
+                  {doc?.reviewedAt && (
+                    <p className="text-xs text-muted-foreground">
+                      {t("drivers.documents.reviewedBy", {
+                        name: doc.reviewerName ?? "—",
+                        date: new Date(doc.reviewedAt).toLocaleDateString(),
+                      })}
+                    </p>
+                  )}
+                  {doc?.status === "REJECTED" && doc.rejectionReason && (
+                    <p className="text-xs text-destructive">
+                      {doc.rejectionReason}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {canEdit && (
+                <div className="mt-2 flex flex-wrap items-center gap-2">
+                  {doc && doc.status !== "APPROVED" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!!busy}
+                      onClick={() =>
+                        void run(doc.id, () =>
+                          reviewDriverDocument(driverId, doc.id, "APPROVED"),
+                        )
+                      }
+                    >
+                      <CheckCircle2Icon className="size-4" />
+                      {t("drivers.documents.approve")}
+                    </Button>
+                  )}
+                  {doc && doc.status !== "REJECTED" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!!busy}
+                      onClick={() => {
+                        setRejectingId(doc.id);
+                        setReason("");
+                      }}
+                    >
+                      <XCircleIcon className="size-4" />
+                      {t("drivers.documents.reject")}
+                    </Button>
+                  )}
+                  <label className="inline-flex cursor-pointer items-center gap-1 text-sm text-primary hover:underline">
+                    <UploadIcon className="size-4" />
+                    {busy === type
+                      ? t("common.loading")
+                      : doc
+                        ? t("drivers.documents.replace")
+                        : t("drivers.detail.uploadImage")}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="sr-only"
+                      aria-label={t(`drivers.documents.types.${type}`)}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) {
+                          void run(type, () =>
+                            uploadDriverDocument(driverId, type, file),
+                          );
+                        }
+                      }}
+                      disabled={!!busy}
+                    />
+                  </label>
+                </div>
+              )}
+
+              {doc && rejectingId === doc.id && (
+                <div className="mt-2 space-y-2">
+                  <Textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder={t("drivers.documents.reasonPlaceholder")}
+                    rows={2}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setRejectingId(null)}
+                    >
+                      {t("common.cancel")}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={!reason.trim() || !!busy}
+                      onClick={() => handleReject(doc)}
+                    >
+                      {t("drivers.documents.confirmReject")}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
 // ── Create Driver Dialog ──
 
 function CreateDriverDialog({
@@ -200,6 +451,89 @@ function CreateDriverDialog({
 
 // ── Driver Detail Sheet ──
 
+function RatingBreakdownSection({
+  breakdown,
+}: {
+  breakdown: RatingBreakdown;
+}) {
+  const { t } = useTranslation();
+  const total = Object.values(breakdown.distribution).reduce(
+    (sum, n) => sum + n,
+    0,
+  );
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold">
+        {t("drivers.detail.ratings")}
+      </h3>
+      <Separator className="my-2" />
+      {total === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {t("drivers.detail.noRatings")}
+        </p>
+      ) : (
+        <div className="space-y-4 text-sm">
+          <div className="space-y-1">
+            {[5, 4, 3, 2, 1].map((stars) => {
+              const count = breakdown.distribution[stars] ?? 0;
+              return (
+                <div key={stars} className="flex items-center gap-2">
+                  <span className="w-6 text-muted-foreground">{stars}★</span>
+                  <div className="h-2 flex-1 rounded bg-muted">
+                    <div
+                      className="h-2 rounded bg-primary"
+                      style={{ width: `${(count / total) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-8 text-right">{count}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          {breakdown.topTags.length > 0 && (
+            <div>
+              <p className="mb-1 text-muted-foreground">
+                {t("drivers.detail.topTags")}
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {breakdown.topTags.map(({ tag, count }) => (
+                  <Badge key={tag} variant="secondary">
+                    {t(`drivers.ratingTags.${tag}`, { defaultValue: tag })} ·{" "}
+                    {count}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {breakdown.recentComments.length > 0 && (
+            <div>
+              <p className="mb-1 text-muted-foreground">
+                {t("drivers.detail.recentComments")}
+              </p>
+              <ul className="space-y-2">
+                {breakdown.recentComments.map((c) => (
+                  <li key={c.rideId} className="rounded border p-2">
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>
+                        {c.rating}★ · {c.raterName}
+                      </span>
+                      <span>{new Date(c.createdAt).toLocaleDateString()}</span>
+                    </div>
+                    <p className="mt-1">{c.comment}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function DriverDetailSheet({
   driverId,
   onClose,
@@ -219,7 +553,6 @@ function DriverDetailSheet({
   const [licenseExpiry, setLicenseExpiry] = useState("");
   const [nationalId, setNationalId] = useState("");
   const [saving, setSaving] = useState(false);
-  const [uploading, setUploading] = useState<string | null>(null);
 
   // Vehicle form state
   const [vehicleEditing, setVehicleEditing] = useState(false);
@@ -291,23 +624,6 @@ function DriverDetailSheet({
     }
   }
 
-  async function handleUpload(
-    field: "licenseImageUrl" | "nationalIdImageUrl",
-    file: File,
-  ) {
-    if (!driverId) return;
-    setUploading(field);
-    try {
-      await uploadDriverDocument(driverId, field, file);
-      await loadDriver();
-      onUpdated();
-    } catch {
-      // silent
-    } finally {
-      setUploading(null);
-    }
-  }
-
   async function handleSaveVehicle() {
     if (!driverId || !vMake.trim() || !vModel.trim() || !vPlate.trim() || !vYear.trim()) return;
     setSavingVehicle(true);
@@ -387,6 +703,39 @@ function DriverDetailSheet({
                     </Badge>
                   </dd>
                 </div>
+                {driver.suspensionReason === "DOCUMENT_EXPIRED" && (
+                  <p className="text-xs text-destructive">
+                    {t("drivers.expiry.suspendedReason")}
+                  </p>
+                )}
+                {driver.approvalStatus === "REJECTED" &&
+                  driver.rejectionReason && (
+                    <p className="text-xs text-destructive">
+                      {t("drivers.application.rejectionReason", {
+                        reason: driver.rejectionReason,
+                      })}
+                    </p>
+                  )}
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">
+                    {t("drivers.application.submitted")}
+                  </dt>
+                  <dd>
+                    {driver.applicationSubmittedAt
+                      ? new Date(driver.applicationSubmittedAt).toLocaleString()
+                      : t("drivers.application.notSubmitted")}
+                  </dd>
+                </div>
+                {(driver.expiringDocuments?.length ?? 0) > 0 && (
+                  <div className="flex justify-between items-center">
+                    <dt className="text-muted-foreground">
+                      {t("drivers.expiry.label")}
+                    </dt>
+                    <dd>
+                      <ExpiryBadge documents={driver.expiringDocuments} />
+                    </dd>
+                  </div>
+                )}
                 <div className="flex justify-between items-center">
                   <dt className="text-muted-foreground">
                     {t("drivers.detail.driverStatus")}
@@ -500,78 +849,16 @@ function DriverDetailSheet({
               )}
             </div>
 
-            {/* Document Images */}
-            <div>
-              <h3 className="mb-2 text-sm font-semibold">
-                {t("drivers.detail.licenseImage")}
-              </h3>
-              {driver.licenseImageUrl ? (
-                <img
-                  src={driver.licenseImageUrl}
-                  alt="License"
-                  className="w-full max-h-48 object-contain rounded border"
-                />
-              ) : (
-                <p className="text-sm text-muted-foreground">
-                  {t("drivers.detail.noImage")}
-                </p>
-              )}
-              {canEdit && (
-                <label className="mt-2 inline-flex items-center gap-1 cursor-pointer text-sm text-primary hover:underline">
-                  <UploadIcon className="size-4" />
-                  {uploading === "licenseImageUrl"
-                    ? t("common.loading")
-                    : t("drivers.detail.uploadImage")}
-                  <input
-                    type="file"
-                    accept="image/*"
-                    className="sr-only"
-                    aria-label="Upload license image"
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) handleUpload("licenseImageUrl", file);
-                    }}
-                    disabled={!!uploading}
-                  />
-                </label>
-              )}
-            </div>
-
-            <div>
-              <h3 className="mb-2 text-sm font-semibold">
-                {t("drivers.detail.nationalIdImage")}
-              </h3>
-              {driver.nationalIdImageUrl ? (
-                <img
-                  src={driver.nationalIdImageUrl}
-                  alt="National ID"
-                  className="w-full max-h-48 object-contain rounded border"
-                />
-              ) : (
-                <p className="text-sm text-muted-foreground">
-                  {t("drivers.detail.noImage")}
-                </p>
-              )}
-              {canEdit && (
-                <label className="mt-2 inline-flex items-center gap-1 cursor-pointer text-sm text-primary hover:underline">
-                  <UploadIcon className="size-4" />
-                  {uploading === "nationalIdImageUrl"
-                    ? t("common.loading")
-                    : t("drivers.detail.uploadImage")}
-                  <input
-                    type="file"
-                    accept="image/*"
-                    className="sr-only"
-                    aria-label="Upload national ID image"
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) handleUpload("nationalIdImageUrl", file);
-                    }}
-                    disabled={!!uploading}
-                  />
-                </label>
-              )}
-            </div>
+            {/* Documents */}
+            <DocumentReviewSection
+              driverId={driver.id}
+              documents={driver.documents ?? []}
+              canEdit={canEdit}
+              onChanged={async () => {
+                await loadDriver();
+                onUpdated();
+              }}
+            />
 
             {/* Vehicle Details */}
             <div>
@@ -730,8 +1017,19 @@ function DriverDetailSheet({
                   </dt>
                   <dd>{Number(driver.averageRating).toFixed(1)}</dd>
                 </div>
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">
+                    {t("drivers.detail.ratingCount")}
+                  </dt>
+                  <dd>{driver.ratingCount ?? 0}</dd>
+                </div>
               </dl>
             </div>
+
+            {/* Ratings */}
+            {driver.ratingBreakdown && (
+              <RatingBreakdownSection breakdown={driver.ratingBreakdown} />
+            )}
           </div>
         )}
       </SheetContent>
@@ -756,10 +1054,20 @@ export default function DriversPage() {
   const [detailId, setDetailId] = useState<string | null>(null);
   const [approveTarget, setApproveTarget] = useState<Driver | null>(null);
   const [rejectTarget, setRejectTarget] = useState<Driver | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
   const [suspendTarget, setSuspendTarget] = useState<Driver | null>(null);
   const [deleteTarget, setDeleteTarget] = useState<Driver | null>(null);
   const [revokeTarget, setRevokeTarget] = useState<Driver | null>(null);
 
+  const [filter, setFilter] = useState<DriverFilter>("all");
+  const expiringCount = drivers.filter(
+    (d) => (d.expiringDocuments?.length ?? 0) > 0,
+  ).length;
+  const visibleDrivers =
+    filter === "expiring"
+      ? drivers.filter((d) => (d.expiringDocuments?.length ?? 0) > 0)
+      : drivers;
+
   const loadDrivers = useCallback(async () => {
     setLoading(true);
     setError(null);
@@ -791,8 +1099,9 @@ export default function DriversPage() {
 
   async function handleReject(id: string) {
     try {
-      await rejectDriver(id);
+      await rejectDriver(id, rejectReason.trim() || undefined);
       setRejectTarget(null);
+      setRejectReason("");
       await loadDrivers();
     } catch {
       // silent
@@ -850,6 +1159,19 @@ export default function DriversPage() {
           <CardDescription>
             {t("drivers.cardDescription", { count: drivers.length })}
           </CardDescription>
+          <Tabs
+            value={filter}
+            onValueChange={(v) => setFilter(v as DriverFilter)}
+            className="pt-2"
+          >
+            <TabsList>
+              <TabsTrigger value="all">{t("drivers.filters.all")}</TabsTrigger>
+              <TabsTrigger value="expiring" className="gap-1.5">
+                <TriangleAlertIcon className="size-4" />
+                {t("drivers.filters.expiring", { count: expiringCount })}
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
         </CardHeader>
         <CardContent>
           {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
@@ -857,9 +1179,11 @@ export default function DriversPage() {
             <p className="text-muted-foreground text-sm">
               {t("common.loading")}
             </p>
-          ) : drivers.length === 0 ? (
+          ) : visibleDrivers.length === 0 ? (
             <p className="text-muted-foreground text-sm">
-              {t("drivers.empty")}
+              {filter === "expiring"
+                ? t("drivers.expiry.empty")
+                : t("drivers.empty")}
             </p>
           ) : (
             <Table>
@@ -876,9 +1200,21 @@ export default function DriversPage() {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {drivers.map((d) => (
+                {visibleDrivers.map((d) => (
                   <TableRow key={d.id}>
-                    <TableCell className="font-medium">{d.name}</TableCell>
+                    <TableCell className="font-medium">
+                      <div className="flex flex-wrap items-center gap-2">
+                        {d.name}
+                        <ExpiryBadge documents={d.expiringDocuments} />
+                        {(d.pendingDocuments ?? 0) > 0 && (
+                          <Badge variant="secondary">
+                            {t("drivers.documents.pendingBadge", {
+                              count: d.pendingDocuments,
+                            })}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>{d.email}</TableCell>
                     <TableCell>
                       <Badge variant={approvalVariant(d.approvalStatus)}>
@@ -1008,7 +1344,10 @@ export default function DriversPage() {
       {/* Reject Dialog */}
       <AlertDialog
         open={!!rejectTarget}
-        onOpenChange={() => setRejectTarget(null)}
+        onOpenChange={() => {
+          setRejectTarget(null);
+          setRejectReason("");
+        }}
       >
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -1021,6 +1360,18 @@ export default function DriversPage() {
               })}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-1.5">
+            <Label htmlFor="reject-reason">
+              {t("drivers.dialogs.rejectReasonLabel")}
+            </Label>
+            <Textarea
+              id="reject-reason"
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              placeholder={t("drivers.dialogs.rejectReasonPlaceholder")}
+              rows={3}
+            />
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
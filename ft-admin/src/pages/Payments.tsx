@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useSession } from "@/lib/auth-client";
+import {
+  getCashReconciliation,
+  markFeesRemitted,
+  type CashReconciliationRow,
+} from "@/lib/payments-api";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { RefreshCwIcon } from "lucide-react";
+
+// ── Helpers ──
+
+const ELEVATED_ROLES = ["SUPERADMIN", "MANAGER", "OPERATION"];
+
+function isElevated(role: string | undefined | null): boolean {
+  return ELEVATED_ROLES.includes((role ?? "").toUpperCase());
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return `${amount.toLocaleString()} ${currency}`;
+}
+
+// ── Main Page ──
+
+export default function PaymentsPage() {
+  const { t } = useTranslation();
+  const { data: session } = useSession();
+  const canEdit = isElevated(session?.user?.role as string | undefined);
+
+  const [rows, setRows] = useState<CashReconciliationRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [remitTarget, setRemitTarget] = useState<CashReconciliationRow | null>(
+    null,
+  );
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setRows(await getCashReconciliation());
+    } catch (e) {
+      setError(
+        e instanceof Error ? e.message : t("payments.errors.failedToLoad"),
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function handleRemit(driverId: string) {
+    try {
+      await markFeesRemitted(driverId);
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : t("payments.errors.remit"));
+    }
+  }
+
+  const totalOwed = rows.reduce((sum, r) => sum + r.owed, 0);
+  const currency = rows[0]?.currency ?? "MMK";
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4 md:gap-6 md:p-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="mb-4 text-2xl font-bold tracking-tight">
+            {t("payments.title")}
+          </h1>
+          <p className="text-muted-foreground">{t("payments.description")}</p>
+        </div>
+        <Button variant="outline" onClick={load} disabled={loading}>
+          <RefreshCwIcon className="mr-2 size-4" />
+          {t("payments.refresh")}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("payments.cashTitle")}</CardTitle>
+          <CardDescription>
+            {t("payments.cashDescription", {
+              amount: formatMoney(totalOwed, currency),
+              count: rows.length,
+            })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+          {loading ? (
+            <p className="text-muted-foreground text-sm">
+              {t("common.loading")}
+            </p>
+          ) : rows.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              {t("payments.empty")}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("payments.table.driver")}</TableHead>
+                  <TableHead>{t("payments.table.owed")}</TableHead>
+                  <TableHead>{t("payments.table.collectedRides")}</TableHead>
+                  <TableHead>{t("payments.table.pending")}</TableHead>
+                  <TableHead>{t("payments.table.oldest")}</TableHead>
+                  {canEdit && <TableHead className="w-[140px]"></TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((r) => (
+                  <TableRow key={r.driverId}>
+                    <TableCell>
+                      <div className="font-medium">{r.name}</div>
+                      <div className="text-muted-foreground text-xs">
+                        {r.email}
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {formatMoney(r.owed, r.currency)}
+                    </TableCell>
+                    <TableCell>{r.collectedRides}</TableCell>
+                    <TableCell>
+                      {r.pendingRides > 0
+                        ? t("payments.pendingSummary", {
+                            count: r.pendingRides,
+                            amount: formatMoney(r.pendingAmount, r.currency),
+                          })
+                        : "—"}
+                    </TableCell>
+                    <TableCell>
+                      {new Date(r.oldestAt).toLocaleDateString()}
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={r.owed <= 0}
+                          onClick={() => setRemitTarget(r)}
+                        >
+                          {t("payments.actions.markRemitted")}
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Remit Dialog */}
+      <AlertDialog
+        open={!!remitTarget}
+        onOpenChange={() => setRemitTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("payments.dialogs.remitTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("payments.dialogs.remitMessage", {
+                name: remitTarget?.name,
+                amount: remitTarget
+                  ? formatMoney(remitTarget.owed, remitTarget.currency)
+                  : "",
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => remitTarget && handleRemit(remitTarget.driverId)}
+            >
+              {t("payments.actions.markRemitted")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -57,8 +57,11 @@ import {
   type TimeRuleDto,
   type TownshipSurchargeDto,
   type DispatchRoundDto,
+  type DispatchMode,
+  DISPATCH_MODES,
 } from "@/lib/pricing-api";
 import { PlusIcon, PencilIcon, Trash2Icon } from "lucide-react";
+import { SurgeZoneEditor } from "@/components/pricing/SurgeZoneEditor";
 
 // ── Helpers ──
 
@@ -93,6 +96,8 @@ interface ConfigForm {
   timeRate: number;
   bookingFee: number;
   surgeMultiplier: number;
+  fareTolerancePercent: number;
+  commissionPercent: number;
   currency: string;
   timeRules: TimeRuleDto[];
   distanceBands: DistanceBandDto[];
@@ -106,6 +111,8 @@ const DEFAULT_FORM: ConfigForm = {
   timeRate: 0,
   bookingFee: 0,
   surgeMultiplier: 1.0,
+  fareTolerancePercent: 15,
+  commissionPercent: 15,
   currency: "MMK",
   timeRules: [],
   distanceBands: [],
@@ -213,6 +220,8 @@ export default function PricingPage() {
       timeRate: config.timeRate,
       bookingFee: config.bookingFee,
       surgeMultiplier: config.surgeMultiplier,
+      fareTolerancePercent: config.fareTolerancePercent ?? 15,
+      commissionPercent: config.commissionPercent ?? 15,
       currency: config.currency,
       timeRules: Array.isArray(config.timeRules) ? config.timeRules : [],
       distanceBands: Array.isArray(config.distanceBands)
@@ -667,6 +676,9 @@ export default function PricingPage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* ── Surge zones section ── */}
+      <SurgeZoneEditor onError={setError} />
+
       {/* ── Dispatch config section ── */}
       <Card>
         <CardHeader>
@@ -691,6 +703,8 @@ export default function PricingPage() {
                       <TableHead className="w-[80px]">{t("pricing.dispatch.round")}</TableHead>
                       <TableHead>{t("pricing.dispatch.radiusKm")}</TableHead>
                       <TableHead>{t("pricing.dispatch.intervalSec")}</TableHead>
+                      <TableHead>{t("pricing.dispatch.mode")}</TableHead>
+                      <TableHead>{t("pricing.dispatch.batchSize")}</TableHead>
                       <TableHead className="w-[48px]" />
                     </TableRow>
                   </TableHeader>
@@ -736,6 +750,53 @@ export default function PricingPage() {
                             }}
                           />
                         </TableCell>
+                        <TableCell>
+                          <Select
+                            value={round.mode}
+                            onValueChange={(v) =>
+                              setDispatchRounds((prev) =>
+                                prev.map((r, i) =>
+                                  i === idx
+                                    ? { ...r, mode: v as DispatchMode }
+                                    : r
+                                )
+                              )
+                            }
+                          >
+                            <SelectTrigger className="h-8 w-40">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {DISPATCH_MODES.map((mode) => (
+                                <SelectItem key={mode} value={mode}>
+                                  {t(`pricing.dispatch.modes.${mode}`)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={2}
+                            max={10}
+                            step={1}
+                            className="h-8 w-20"
+                            disabled={round.mode !== "TOP_N"}
+                            value={round.batchSize}
+                            onChange={(e) => {
+                              const n = Math.min(
+                                10,
+                                Math.max(2, Math.round(Number(e.target.value) || 2))
+                              );
+                              setDispatchRounds((prev) =>
+                                prev.map((r, i) =>
+                                  i === idx ? { ...r, batchSize: n } : r
+                                )
+                              );
+                            }}
+                          />
+                        </TableCell>
                         <TableCell>
                           <Button
                             variant="ghost"
@@ -772,6 +833,8 @@ export default function PricingPage() {
                           ? prev[prev.length - 1].radiusMeters + 500
                           : 800,
                         intervalMs: 20_000,
+                        mode: "SEQUENTIAL",
+                        batchSize: 3,
                       },
                     ])
                   }
@@ -791,6 +854,8 @@ export default function PricingPage() {
                           roundIndex: i,
                           radiusMeters: r.radiusMeters,
                           intervalMs: r.intervalMs,
+                          mode: r.mode,
+                          batchSize: r.batchSize,
                         }))
                       );
                       setDispatchRounds(saved);
@@ -888,7 +953,28 @@ export default function PricingPage() {
                   min={1}
                   step={0.1}
                 />
+                <NumField
+                  label={t("pricing.configSheet.fareTolerancePercent")}
+                  value={form.fareTolerancePercent}
+                  onChange={(v) =>
+                    setForm((s) => ({ ...s, fareTolerancePercent: v }))
+                  }
+                />
+                <NumField
+                  label={t("pricing.configSheet.commissionPercent")}
+                  value={form.commissionPercent}
+                  onChange={(v) =>
+                    setForm((s) => ({ ...s, commissionPercent: v }))
+                  }
+                  step={0.5}
+                />
               </div>
+              <p className="text-muted-foreground text-xs">
+                {t("pricing.configSheet.fareToleranceDesc")}
+              </p>
+              <p className="text-muted-foreground text-xs">
+                {t("pricing.configSheet.commissionDesc")}
+              </p>
             </Section>
 
             {/* ── Distance bands ── */}
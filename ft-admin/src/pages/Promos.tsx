@@ -0,0 +1,772 @@
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { authClient, useSession } from "@/lib/auth-client";
+import {
+  createPromo,
+  deletePromo,
+  getPromoUsages,
+  getPromos,
+  updatePromo,
+  type Promo,
+  type PromoDiscountType,
+  type PromoPayload,
+  type PromoUsage,
+} from "@/lib/promos-api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MoreHorizontalIcon, PlusIcon, RefreshCwIcon } from "lucide-react";
+
+// ── Helpers ──
+
+type PromoState = "active" | "inactive" | "expired" | "scheduled" | "exhausted";
+
+function promoState(p: Promo): PromoState {
+  const now = Date.now();
+  if (!p.isActive) return "inactive";
+  if (p.validUntil && new Date(p.validUntil).getTime() <= now) return "expired";
+  if (new Date(p.validFrom).getTime() > now) return "scheduled";
+  if (p.usageLimit !== null && p.usageCount >= p.usageLimit) return "exhausted";
+  return "active";
+}
+
+function stateVariant(
+  state: PromoState,
+): "default" | "secondary" | "destructive" | "outline" {
+  switch (state) {
+    case "active":
+      return "default";
+    case "scheduled":
+      return "outline";
+    case "inactive":
+      return "secondary";
+    default:
+      return "destructive";
+  }
+}
+
+function formatDate(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleDateString() : "—";
+}
+
+/** ISO → value for <input type="datetime-local"> (local time, no seconds). */
+function toLocalInput(iso: string | null): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function usePromoPermissions(role: string | undefined) {
+  const r = (role ?? "") as "ADMIN" | "MANAGER" | "OPERATION" | "SUPERADMIN";
+  return {
+    canCreate: authClient.admin.checkRolePermission({
+      permissions: { promo: ["create"] },
+      role: r,
+    }),
+    canUpdate: authClient.admin.checkRolePermission({
+      permissions: { promo: ["update"] },
+      role: r,
+    }),
+    canDelete: authClient.admin.checkRolePermission({
+      permissions: { promo: ["delete"] },
+      role: r,
+    }),
+  };
+}
+
+// ── Main Page ──
+
+export default function PromosPage() {
+  const { t } = useTranslation();
+  const { data: session } = useSession();
+  const permissions = usePromoPermissions(
+    session?.user?.role as string | undefined,
+  );
+
+  const [promos, setPromos] = useState<Promo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Promo | null>(null);
+  const [usagesFor, setUsagesFor] = useState<Promo | null>(null);
+  const [toggleTarget, setToggleTarget] = useState<Promo | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Promo | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setPromos(await getPromos());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : t("promos.errors.failedToLoad"));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function handleToggleActive(promo: Promo) {
+    try {
+      await updatePromo(promo.id, { isActive: !promo.isActive });
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : t("promos.errors.update"));
+    }
+  }
+
+  async function handleDelete(promo: Promo) {
+    try {
+      await deletePromo(promo.id);
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : t("promos.errors.delete"));
+    }
+  }
+
+  function openCreate() {
+    setEditing(null);
+    setFormOpen(true);
+  }
+
+  function openEdit(promo: Promo) {
+    setEditing(promo);
+    setFormOpen(true);
+  }
+
+  function formatDiscount(p: Promo): string {
+    if (p.discountType === "percentage") {
+      return p.maxDiscount !== null
+        ? t("promos.percentWithCap", {
+            value: p.discountValue,
+            cap: p.maxDiscount.toLocaleString(),
+          })
+        : `${p.discountValue}%`;
+    }
+    return p.discountValue.toLocaleString();
+  }
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4 md:gap-6 md:p-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="mb-4 text-2xl font-bold tracking-tight">
+            {t("promos.title")}
+          </h1>
+          <p className="text-muted-foreground">{t("promos.description")}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={load} disabled={loading}>
+            <RefreshCwIcon className="mr-2 size-4" />
+            {t("promos.refresh")}
+          </Button>
+          {permissions.canCreate && (
+            <Button onClick={openCreate}>
+              <PlusIcon className="mr-2 size-4" />
+              {t("promos.newPromo")}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("promos.listTitle")}</CardTitle>
+          <CardDescription>
+            {t("promos.listDescription", { count: promos.length })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+          {loading ? (
+            <p className="text-muted-foreground text-sm">
+              {t("common.loading")}
+            </p>
+          ) : promos.length === 0 ? (
+            <p className="text-muted-foreground text-sm">{t("promos.empty")}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("promos.table.code")}</TableHead>
+                  <TableHead>{t("promos.table.discount")}</TableHead>
+                  <TableHead>{t("promos.table.minimumFare")}</TableHead>
+                  <TableHead>{t("promos.table.usage")}</TableHead>
+                  <TableHead>{t("promos.table.perUser")}</TableHead>
+                  <TableHead>{t("promos.table.validity")}</TableHead>
+                  <TableHead>{t("promos.table.status")}</TableHead>
+                  <TableHead className="w-[50px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promos.map((p) => {
+                  const state = promoState(p);
+                  return (
+                    <TableRow key={p.id}>
+                      <TableCell>
+                        <div className="font-mono font-medium">{p.code}</div>
+                        {p.description && (
+                          <div className="text-muted-foreground text-xs">
+                            {p.description}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatDiscount(p)}</TableCell>
+                      <TableCell>
+                        {p.minimumFare !== null
+                          ? p.minimumFare.toLocaleString()
+                          : "—"}
+                      </TableCell>
+                      <TableCell>
+                        <div>
+                          {p.usageCount} / {p.usageLimit ?? "∞"}
+                        </div>
+                        {!!p.totalDiscount && (
+                          <div className="text-muted-foreground text-xs">
+                            {t("promos.totalDiscount", {
+                              amount: p.totalDiscount.toLocaleString(),
+                            })}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{p.perUserLimit}</TableCell>
+                      <TableCell className="text-sm">
+                        {formatDate(p.validFrom)} –{" "}
+                        {p.validUntil
+                          ? formatDate(p.validUntil)
+                          : t("promos.noEnd")}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={stateVariant(state)}>
+                          {t(`promos.status.${state}`)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon">
+                              <MoreHorizontalIcon className="size-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => setUsagesFor(p)}>
+                              {t("promos.actions.viewUsages")}
+                            </DropdownMenuItem>
+                            {permissions.canUpdate && (
+                              <>
+                                <DropdownMenuItem onClick={() => openEdit(p)}>
+                                  {t("promos.actions.edit")}
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => setToggleTarget(p)}
+                                >
+                                  {p.isActive
+                                    ? t("promos.actions.deactivate")
+                                    : t("promos.actions.activate")}
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                            {permissions.canDelete && p.usageCount === 0 && (
+                              <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                  className="text-destructive"
+                                  onClick={() => setDeleteTarget(p)}
+                                >
+                                  {t("promos.actions.delete")}
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <PromoFormSheet
+        open={formOpen}
+        promo={editing}
+        onOpenChange={setFormOpen}
+        onSaved={load}
+      />
+
+      <PromoUsagesSheet
+        key={usagesFor?.id ?? "none"}
+        promo={usagesFor}
+        onClose={() => setUsagesFor(null)}
+      />
+
+      {/* Activate / Deactivate Dialog */}
+      <AlertDialog
+        open={!!toggleTarget}
+        onOpenChange={() => setToggleTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {toggleTarget?.isActive
+                ? t("promos.dialogs.deactivateTitle")
+                : t("promos.dialogs.activateTitle")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {toggleTarget?.isActive
+                ? t("promos.dialogs.deactivateMessage", {
+                    code: toggleTarget?.code,
+                  })
+                : t("promos.dialogs.activateMessage", {
+                    code: toggleTarget?.code,
+                  })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => toggleTarget && handleToggleActive(toggleTarget)}
+            >
+              {toggleTarget?.isActive
+                ? t("promos.actions.deactivate")
+                : t("promos.actions.activate")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Delete Dialog */}
+      <AlertDialog
+        open={!!deleteTarget}
+        onOpenChange={() => setDeleteTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("promos.dialogs.deleteTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("promos.dialogs.deleteMessage", { code: deleteTarget?.code })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-white hover:bg-destructive/90"
+              onClick={() => deleteTarget && handleDelete(deleteTarget)}
+            >
+              {t("promos.actions.delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+// ── Create / Edit Sheet ──
+
+interface PromoForm {
+  code: string;
+  description: string;
+  discountType: PromoDiscountType;
+  discountValue: string;
+  maxDiscount: string;
+  minimumFare: string;
+  usageLimit: string;
+  perUserLimit: string;
+  validFrom: string;
+  validUntil: string;
+}
+
+function toForm(promo: Promo | null): PromoForm {
+  return {
+    code: promo?.code ?? "",
+    description: promo?.description ?? "",
+    discountType: promo?.discountType ?? "percentage",
+    discountValue: promo ? String(promo.discountValue) : "",
+    maxDiscount: promo?.maxDiscount != null ? String(promo.maxDiscount) : "",
+    minimumFare: promo?.minimumFare != null ? String(promo.minimumFare) : "",
+    usageLimit: promo?.usageLimit != null ? String(promo.usageLimit) : "",
+    perUserLimit: promo ? String(promo.perUserLimit) : "1",
+    validFrom: toLocalInput(promo?.validFrom ?? new Date().toISOString()),
+    validUntil: toLocalInput(promo?.validUntil ?? null),
+  };
+}
+
+function PromoFormSheet({
+  open,
+  promo,
+  onOpenChange,
+  onSaved,
+}: {
+  open: boolean;
+  promo: Promo | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}) {
+  const { t } = useTranslation();
+  const [form, setForm] = useState<PromoForm>(() => toForm(promo));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Reset the form each time the sheet opens
+  useEffect(() => {
+    if (open) {
+      setForm(toForm(promo));
+      setError(null);
+    }
+  }, [open, promo]);
+
+  function set<K extends keyof PromoForm>(key: K, value: PromoForm[K]) {
+    setForm((f) => ({ ...f, [key]: value }));
+  }
+
+  const optional = (v: string) => (v.trim() === "" ? null : Number(v));
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+    const payload: PromoPayload = {
+      code: form.code.trim().toUpperCase(),
+      description: form.description.trim() || null,
+      discountType: form.discountType,
+      discountValue: Number(form.discountValue),
+      maxDiscount:
+        form.discountType === "percentage" ? optional(form.maxDiscount) : null,
+      minimumFare: optional(form.minimumFare),
+      usageLimit: optional(form.usageLimit),
+      perUserLimit: Number(form.perUserLimit) || 1,
+      validFrom: new Date(form.validFrom || Date.now()).toISOString(),
+      validUntil: form.validUntil
+        ? new Date(form.validUntil).toISOString()
+        : null,
+      isActive: promo?.isActive ?? true,
+    };
+    try {
+      if (promo) {
+        await updatePromo(promo.id, payload);
+      } else {
+        await createPromo(payload);
+      }
+      onOpenChange(false);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("promos.errors.save"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>
+            {promo ? t("promos.form.editTitle") : t("promos.form.createTitle")}
+          </SheetTitle>
+          <SheetDescription>{t("promos.form.description")}</SheetDescription>
+        </SheetHeader>
+
+        <form onSubmit={onSubmit} className="space-y-4 px-4">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="space-y-2">
+            <Label htmlFor="promo-code">{t("promos.form.code")}</Label>
+            <Input
+              id="promo-code"
+              value={form.code}
+              onChange={(e) => set("code", e.target.value.toUpperCase())}
+              placeholder="WELCOME10"
+              className="font-mono"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="promo-description">
+              {t("promos.form.descriptionLabel")}
+            </Label>
+            <Input
+              id="promo-description"
+              value={form.description}
+              onChange={(e) => set("description", e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t("promos.form.discountType")}</Label>
+              <Select
+                value={form.discountType}
+                onValueChange={(v) =>
+                  set("discountType", v as PromoDiscountType)
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percentage">
+                    {t("promos.form.percentage")}
+                  </SelectItem>
+                  <SelectItem value="fixed">{t("promos.form.fixed")}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-value">
+                {form.discountType === "percentage"
+                  ? t("promos.form.percentValue")
+                  : t("promos.form.fixedValue")}
+              </Label>
+              <Input
+                id="promo-value"
+                type="number"
+                min={0}
+                max={form.discountType === "percentage" ? 100 : undefined}
+                step="any"
+                value={form.discountValue}
+                onChange={(e) => set("discountValue", e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {form.discountType === "percentage" && (
+              <div className="space-y-2">
+                <Label htmlFor="promo-max">{t("promos.form.maxDiscount")}</Label>
+                <Input
+                  id="promo-max"
+                  type="number"
+                  min={0}
+                  value={form.maxDiscount}
+                  onChange={(e) => set("maxDiscount", e.target.value)}
+                  placeholder={t("promos.form.noLimit")}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="promo-min">{t("promos.form.minimumFare")}</Label>
+              <Input
+                id="promo-min"
+                type="number"
+                min={0}
+                value={form.minimumFare}
+                onChange={(e) => set("minimumFare", e.target.value)}
+                placeholder={t("promos.form.noLimit")}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="promo-usage">{t("promos.form.usageLimit")}</Label>
+              <Input
+                id="promo-usage"
+                type="number"
+                min={0}
+                value={form.usageLimit}
+                onChange={(e) => set("usageLimit", e.target.value)}
+                placeholder={t("promos.form.noLimit")}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-per-user">
+                {t("promos.form.perUserLimit")}
+              </Label>
+              <Input
+                id="promo-per-user"
+                type="number"
+                min={1}
+                value={form.perUserLimit}
+                onChange={(e) => set("perUserLimit", e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="promo-from">{t("promos.form.validFrom")}</Label>
+              <Input
+                id="promo-from"
+                type="datetime-local"
+                value={form.validFrom}
+                onChange={(e) => set("validFrom", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-until">{t("promos.form.validUntil")}</Label>
+              <Input
+                id="promo-until"
+                type="datetime-local"
+                value={form.validUntil}
+                onChange={(e) => set("validUntil", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <SheetFooter className="px-0">
+            <Button type="submit" disabled={saving}>
+              {saving ? t("common.saving") : t("promos.form.save")}
+            </Button>
+          </SheetFooter>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+// ── Usages Sheet ──
+
+function PromoUsagesSheet({
+  promo,
+  onClose,
+}: {
+  promo: Promo | null;
+  onClose: () => void;
+}) {
+  const { t } = useTranslation();
+  const [usages, setUsages] = useState<PromoUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Remounted per promo (keyed by id), so state starts fresh for each code
+  useEffect(() => {
+    if (!promo) return;
+    getPromoUsages(promo.id)
+      .then((res) => setUsages(res.usages))
+      .catch((e) =>
+        setError(
+          e instanceof Error ? e.message : t("promos.errors.failedToLoad"),
+        ),
+      )
+      .finally(() => setLoading(false));
+  }, [promo, t]);
+
+  return (
+    <Sheet open={!!promo} onOpenChange={(v) => !v && onClose()}>
+      <SheetContent className="sm:max-w-2xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>
+            {t("promos.usages.title", { code: promo?.code })}
+          </SheetTitle>
+          <SheetDescription>
+            {t("promos.usages.description", {
+              count: promo?.usageCount ?? 0,
+            })}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4">
+          {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+          {loading ? (
+            <p className="text-muted-foreground text-sm">
+              {t("common.loading")}
+            </p>
+          ) : usages.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              {t("promos.usages.empty")}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("promos.usages.rider")}</TableHead>
+                  <TableHead>{t("promos.usages.discount")}</TableHead>
+                  <TableHead>{t("promos.usages.ride")}</TableHead>
+                  <TableHead>{t("promos.usages.date")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {usages.map((u) => (
+                  <TableRow key={u.id}>
+                    <TableCell>
+                      <div className="font-medium">{u.userName ?? "—"}</div>
+                      <div className="text-muted-foreground text-xs">
+                        {u.userEmail ?? u.userId}
+                      </div>
+                    </TableCell>
+                    <TableCell>{u.discountApplied.toLocaleString()}</TableCell>
+                    <TableCell>
+                      {u.ride ? (
+                        <>
+                          <div className="max-w-[200px] truncate text-sm">
+                            {u.ride.dropoffAddress}
+                          </div>
+                          <div className="text-muted-foreground text-xs">
+                            {u.ride.totalFare.toLocaleString()}{" "}
+                            {u.ride.currency} · {u.ride.status}
+                          </div>
+                        </>
+                      ) : (
+                        "—"
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {new Date(u.createdAt).toLocaleString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
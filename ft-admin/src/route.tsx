@@ -9,8 +9,10 @@ import VerifyOtpPage from "@/pages/VerifyOtp";
 import UsersPage from "@/pages/Users";
 import AdminUsersPage from "@/pages/AdminUsers";
 import PricingPage from "@/pages/Pricing";
+import PromosPage from "@/pages/Promos";
 import ContentPage from "@/pages/Content";
 import DriversPage from "@/pages/Drivers";
+import PaymentsPage from "@/pages/Payments";
 
 export const router = createBrowserRouter([
   {
@@ -58,6 +60,22 @@ export const router = createBrowserRouter([
           </AdminGuard>
         ),
       },
+      {
+        path: "promos",
+        element: (
+          <AdminGuard>
+            <PromosPage />
+          </AdminGuard>
+        ),
+      },
+      {
+        path: "payments",
+        element: (
+          <AdminGuard>
+            <PaymentsPage />
+          </AdminGuard>
+        ),
+      },
       {
         path: "content",
         element: (
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "RideEventActor" AS ENUM ('PASSENGER', 'DRIVER', 'SYSTEM', 'ADMIN');
+
+-- CreateTable
+CREATE TABLE "ride_event" (
+    "id" TEXT NOT NULL,
+    "rideId" TEXT NOT NULL,
+    "fromStatus" "RideStatus",
+    "toStatus" "RideStatus" NOT NULL,
+    "actorType" "RideEventActor" NOT NULL,
+    "actorId" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ride_event_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ride_event_rideId_createdAt_idx" ON "ride_event"("rideId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ride_event" ADD CONSTRAINT "ride_event_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "ride_stop" (
+    "id" TEXT NOT NULL,
+    "routeQuoteId" TEXT,
+    "rideId" TEXT,
+    "sequence" INTEGER NOT NULL,
+    "address" TEXT NOT NULL,
+    "mainText" TEXT,
+    "lat" DECIMAL(10,8) NOT NULL,
+    "lng" DECIMAL(11,8) NOT NULL,
+    "reachedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ride_stop_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ride_stop_routeQuoteId_idx" ON "ride_stop"("routeQuoteId");
+
+-- CreateIndex
+CREATE INDEX "ride_stop_rideId_idx" ON "ride_stop"("rideId");
+
+-- AddForeignKey
+ALTER TABLE "ride_stop" ADD CONSTRAINT "ride_stop_routeQuoteId_fkey" FOREIGN KEY ("routeQuoteId") REFERENCES "route_quote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ride_stop" ADD CONSTRAINT "ride_stop_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
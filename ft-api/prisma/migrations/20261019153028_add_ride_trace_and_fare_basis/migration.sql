@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "FareBasis" AS ENUM ('QUOTED', 'ACTUAL');
+
+-- AlterTable
+ALTER TABLE "ride" ADD COLUMN     "actualDistanceMeters" INTEGER,
+ADD COLUMN     "actualDurationSeconds" INTEGER,
+ADD COLUMN     "fareBasis" "FareBasis",
+ADD COLUMN     "quotedFare" DECIMAL(10,2);
+
+-- AlterTable
+ALTER TABLE "pricing_config" ADD COLUMN     "fareTolerancePercent" DECIMAL(5,2) NOT NULL DEFAULT 15;
+
+-- CreateTable
+CREATE TABLE "ride_location_point" (
+    "id" TEXT NOT NULL,
+    "rideId" TEXT NOT NULL,
+    "latitude" DECIMAL(10,8) NOT NULL,
+    "longitude" DECIMAL(11,8) NOT NULL,
+    "speed" DECIMAL(5,2),
+    "accuracy" DECIMAL(6,2),
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ride_location_point_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ride_location_point_rideId_recordedAt_idx" ON "ride_location_point"("rideId", "recordedAt");
+
+-- AddForeignKey
+ALTER TABLE "ride_location_point" ADD CONSTRAINT "ride_location_point_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "rating_rideId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rating_rideId_raterId_key" ON "rating"("rideId", "raterId");
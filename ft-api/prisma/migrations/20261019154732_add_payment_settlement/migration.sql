@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "ride" ADD COLUMN     "paymentMethod" "PaymentMethod" NOT NULL DEFAULT 'CASH';
+
+-- Backfill: rides that already have a payment keep its method
+UPDATE "ride" SET "paymentMethod" = "payment"."method"
+FROM "payment"
+WHERE "payment"."rideId" = "ride"."id";
+
+-- AlterTable
+ALTER TABLE "payment" ADD COLUMN     "remittedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "pricing_config" ADD COLUMN     "commissionPercent" DECIMAL(5,2) NOT NULL DEFAULT 15;
+
+-- CreateIndex
+CREATE INDEX "payment_method_remittedAt_idx" ON "payment"("method", "remittedAt");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "driver_online_session" (
+    "id" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "driver_online_session_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "driver_online_session_driverId_startedAt_idx" ON "driver_online_session"("driverId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "driver_online_session_driverId_endedAt_idx" ON "driver_online_session"("driverId", "endedAt");
+
+-- AddForeignKey
+ALTER TABLE "driver_online_session" ADD CONSTRAINT "driver_online_session_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "driver"("id") ON DELETE CASCADE ON UPDATE CASCADE;
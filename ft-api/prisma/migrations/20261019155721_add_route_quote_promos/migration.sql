@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "route_quote" ADD COLUMN     "promoCodeId" TEXT,
+ADD COLUMN     "standardDiscountMmkt" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxiPlusDiscountMmkt" DECIMAL(10,2) NOT NULL DEFAULT 0;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "DispatchPhase" AS ENUM ('START_ROUND', 'AWAITING_DRIVER', 'RETRY_WAIT');
+
+-- CreateTable
+CREATE TABLE "dispatch_job" (
+    "rideId" TEXT NOT NULL,
+    "passengerId" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "filters" JSONB NOT NULL,
+    "phase" "DispatchPhase" NOT NULL DEFAULT 'START_ROUND',
+    "roundIndex" INTEGER NOT NULL DEFAULT 0,
+    "driverQueue" JSONB NOT NULL DEFAULT '[]',
+    "currentDriverIdx" INTEGER NOT NULL DEFAULT 0,
+    "currentDriverUserId" TEXT,
+    "currentDriverAcked" BOOLEAN NOT NULL DEFAULT false,
+    "skippedUserIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "nextRunAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "ownerId" TEXT,
+    "leaseExpiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "dispatch_job_pkey" PRIMARY KEY ("rideId")
+);
+
+-- CreateIndex
+CREATE INDEX "dispatch_job_nextRunAt_idx" ON "dispatch_job"("nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "dispatch_job_ownerId_idx" ON "dispatch_job"("ownerId");
+
+-- AddForeignKey
+ALTER TABLE "dispatch_job" ADD CONSTRAINT "dispatch_job_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "DispatchMode" AS ENUM ('SEQUENTIAL', 'TOP_N', 'BROADCAST');
+
+-- AlterTable
+ALTER TABLE "dispatch_config" ADD COLUMN     "batchSize" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "mode" "DispatchMode" NOT NULL DEFAULT 'SEQUENTIAL';
+
+-- AlterTable
+ALTER TABLE "dispatch_job" ADD COLUMN     "ackedUserIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "offeredUserIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Backfill: an in-flight offer becomes a batch of one
+UPDATE "dispatch_job"
+SET "offeredUserIds" = ARRAY["currentDriverUserId"],
+    "ackedUserIds" = CASE WHEN "currentDriverAcked" THEN ARRAY["currentDriverUserId"] ELSE ARRAY[]::TEXT[] END
+WHERE "currentDriverUserId" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "dispatch_job" DROP COLUMN "currentDriverAcked",
+DROP COLUMN "currentDriverUserId";
@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "RideStatus" ADD VALUE 'SCHEDULED';
+
+-- AlterTable
+ALTER TABLE "ride" ADD COLUMN     "scheduledFor" TIMESTAMP(3),
+ADD COLUMN     "vehicleTypePreference" TEXT;
+
+-- AlterTable
+ALTER TABLE "route_quote" ADD COLUMN     "scheduledFor" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "ride_status_scheduledFor_idx" ON "ride"("status", "scheduledFor");
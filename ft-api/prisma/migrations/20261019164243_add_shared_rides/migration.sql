@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "RidePassengerStatus" AS ENUM ('BOOKED', 'ONBOARD', 'DROPPED_OFF', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "RideStopKind" AS ENUM ('WAYPOINT', 'PICKUP', 'DROPOFF');
+
+-- AlterTable
+ALTER TABLE "ride" ADD COLUMN     "isShared" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "ride_stop" ADD COLUMN     "kind" "RideStopKind" NOT NULL DEFAULT 'WAYPOINT',
+ADD COLUMN     "passengerId" TEXT;
+
+-- AlterTable
+ALTER TABLE "route_quote" ADD COLUMN     "sharedFareMmkt" DECIMAL(10,2);
+
+-- CreateTable
+CREATE TABLE "ride_passenger" (
+    "id" TEXT NOT NULL,
+    "rideId" TEXT NOT NULL,
+    "passengerId" TEXT NOT NULL,
+    "isLead" BOOLEAN NOT NULL DEFAULT false,
+    "status" "RidePassengerStatus" NOT NULL DEFAULT 'BOOKED',
+    "fare" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'MMK',
+    "detourSeconds" INTEGER NOT NULL DEFAULT 0,
+    "pickedUpAt" TIMESTAMP(3),
+    "droppedOffAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ride_passenger_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ride_passenger_passengerId_status_idx" ON "ride_passenger"("passengerId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ride_passenger_rideId_passengerId_key" ON "ride_passenger"("rideId", "passengerId");
+
+-- CreateIndex
+CREATE INDEX "ride_isShared_status_idx" ON "ride"("isShared", "status");
+
+-- AddForeignKey
+ALTER TABLE "ride_passenger" ADD CONSTRAINT "ride_passenger_rideId_fkey" FOREIGN KEY ("rideId") REFERENCES "ride"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ride_passenger" ADD CONSTRAINT "ride_passenger_passengerId_fkey" FOREIGN KEY ("passengerId") REFERENCES "user"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "ExpiringDocument" AS ENUM ('DRIVER_LICENSE', 'VEHICLE_REGISTRATION', 'VEHICLE_INSURANCE');
+
+-- AlterTable
+ALTER TABLE "driver" ADD COLUMN     "suspensionReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "document_expiry_notice" (
+    "id" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "document" "ExpiringDocument" NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "thresholdDays" INTEGER NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "document_expiry_notice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_expiry_notice_driverId_document_expiresAt_threshol_key" ON "document_expiry_notice"("driverId", "document", "expiresAt", "thresholdDays");
+
+-- AddForeignKey
+ALTER TABLE "document_expiry_notice" ADD CONSTRAINT "document_expiry_notice_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "driver"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "driver" ADD COLUMN     "applicationSubmittedAt" TIMESTAMP(3),
+ADD COLUMN     "rejectionReason" TEXT;
@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "DriverDocumentType" AS ENUM ('NRC_FRONT', 'NRC_BACK', 'LICENSE_FRONT', 'LICENSE_BACK', 'VEHICLE_REGISTRATION', 'VEHICLE_INSURANCE', 'VEHICLE_FRONT', 'VEHICLE_BACK', 'VEHICLE_LEFT', 'VEHICLE_RIGHT');
+
+-- CreateEnum
+CREATE TYPE "DocumentReviewStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "driver_document" (
+    "id" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "type" "DriverDocumentType" NOT NULL,
+    "imageUrl" TEXT NOT NULL,
+    "number" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "status" "DocumentReviewStatus" NOT NULL DEFAULT 'PENDING',
+    "rejectionReason" TEXT,
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "driver_document_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "driver_document_status_idx" ON "driver_document"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "driver_document_driverId_type_key" ON "driver_document"("driverId", "type");
+
+-- AddForeignKey
+ALTER TABLE "driver_document" ADD CONSTRAINT "driver_document_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "driver"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "driver_document" ADD CONSTRAINT "driver_document_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: documents already on file become reviewable documents, approved
+-- for drivers that were approved with them
+INSERT INTO "driver_document" ("id", "driverId", "type", "imageUrl", "number", "expiresAt", "status", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, "id", 'LICENSE_FRONT', "licenseImageUrl", "licenseNumber", "licenseExpiry",
+       CASE WHEN "approvalStatus" = 'APPROVED' THEN 'APPROVED' ELSE 'PENDING' END::"DocumentReviewStatus",
+       CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "driver"
+WHERE "licenseImageUrl" IS NOT NULL;
+
+INSERT INTO "driver_document" ("id", "driverId", "type", "imageUrl", "number", "status", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, "id", 'NRC_FRONT', "nationalIdImageUrl", "nationalId",
+       CASE WHEN "approvalStatus" = 'APPROVED' THEN 'APPROVED' ELSE 'PENDING' END::"DocumentReviewStatus",
+       CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "driver"
+WHERE "nationalIdImageUrl" IS NOT NULL;
+
+INSERT INTO "driver_document" ("id", "driverId", "type", "imageUrl", "status", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, "vehicle"."driverId", 'VEHICLE_FRONT', "vehicle"."vehicleImageUrl",
+       CASE WHEN "driver"."approvalStatus" = 'APPROVED' THEN 'APPROVED' ELSE 'PENDING' END::"DocumentReviewStatus",
+       CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "vehicle"
+JOIN "driver" ON "driver"."id" = "vehicle"."driverId"
+WHERE "vehicle"."vehicleImageUrl" IS NOT NULL;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "user" ADD COLUMN     "locale" TEXT NOT NULL DEFAULT 'en';
+
+-- AlterTable
+ALTER TABLE "ride" ADD COLUMN     "bookingFee" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "townshipSurcharge" DECIMAL(10,2) NOT NULL DEFAULT 0;
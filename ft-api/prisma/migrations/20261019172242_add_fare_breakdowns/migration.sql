@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ride" ADD COLUMN     "fareBreakdown" JSONB;
+
+-- AlterTable
+ALTER TABLE "route_quote" ADD COLUMN     "fareBreakdowns" JSONB;
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "route_quote_fare" (
+    "id" TEXT NOT NULL,
+    "routeQuoteId" TEXT NOT NULL,
+    "vehicleType" "VehicleType" NOT NULL,
+    "fareMmkt" DECIMAL(10,2) NOT NULL,
+    "discountMmkt" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "breakdown" JSONB,
+
+    CONSTRAINT "route_quote_fare_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "route_quote_fare_routeQuoteId_vehicleType_key" ON "route_quote_fare"("routeQuoteId", "vehicleType");
+
+-- AddForeignKey
+ALTER TABLE "route_quote_fare" ADD CONSTRAINT "route_quote_fare_routeQuoteId_fkey" FOREIGN KEY ("routeQuoteId") REFERENCES "route_quote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "route_quote" ADD COLUMN     "sharedFareBreakdown" JSONB;
+
+-- Backfill: the Standard / Plus fare columns become fare rows, keeping their
+-- discounts and stored breakdowns
+INSERT INTO "route_quote_fare" ("id", "routeQuoteId", "vehicleType", "fareMmkt", "discountMmkt", "breakdown")
+SELECT gen_random_uuid()::text, "id", 'STANDARD', "standardFareMmkt", "standardDiscountMmkt", "fareBreakdowns"->'STANDARD'
+FROM "route_quote";
+
+INSERT INTO "route_quote_fare" ("id", "routeQuoteId", "vehicleType", "fareMmkt", "discountMmkt", "breakdown")
+SELECT gen_random_uuid()::text, "id", 'PLUS', "taxiPlusFareMmkt", "taxiPlusDiscountMmkt", "fareBreakdowns"->'PLUS'
+FROM "route_quote";
+
+UPDATE "route_quote" SET "sharedFareBreakdown" = "fareBreakdowns"->'SHARED'
+WHERE "fareBreakdowns" ? 'SHARED';
+
+-- AlterTable
+ALTER TABLE "route_quote" DROP COLUMN "fareBreakdowns",
+DROP COLUMN "standardDiscountMmkt",
+DROP COLUMN "standardFareMmkt",
+DROP COLUMN "taxiPlusDiscountMmkt",
+DROP COLUMN "taxiPlusFareMmkt";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "driver" ADD COLUMN     "ratingPenalty" DECIMAL(2,1) NOT NULL DEFAULT 0;
@@ -17,6 +17,9 @@ import { ContentModule } from './content/content.module.js';
 import { RidesModule } from './rides/rides.module.js';
 import { DriversModule } from './drivers/drivers.module.js';
 import { DispatchModule } from './dispatch/dispatch.module.js';
+import { PaymentsModule } from './payments/payments.module.js';
+import { PromosModule } from './promos/promos.module.js';
+import { RealtimeModule } from './realtime/realtime.module.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -40,6 +43,9 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url));
     RidesModule,
     DriversModule,
     DispatchModule,
+    PaymentsModule,
+    PromosModule,
+    RealtimeModule,
   ],
   controllers: [AppController],
   providers: [AppService, PrismaService],
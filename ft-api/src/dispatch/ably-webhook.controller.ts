@@ -1,7 +1,7 @@
 import { Body, Controller, Logger, Post, UseGuards } from '@nestjs/common';
 import { AllowAnonymous } from '@thallesp/nestjs-better-auth';
 import { AblySignatureGuard } from './ably-signature.guard.js';
-import { DriverStatusService } from './driver-status.service.js';
+import { RealtimeGateway } from '../realtime/realtime-gateway.js';
 
 // ── Ably presence action codes ──
 const PRESENCE_ENTER = 2;
@@ -32,7 +32,8 @@ interface AblyBatchedPayload {
 
 /**
  * Receives Ably Reactor Webhook calls for presence events on the
- * `drivers:available` channel.
+ * `drivers:available` channel and hands them to the realtime gateway's
+ * presence listeners (see `DriverStatusService`).
  *
  * - `enter` (action 2) → driver goes ONLINE
  * - `leave` (action 3) → driver goes OFFLINE
@@ -44,7 +45,7 @@ interface AblyBatchedPayload {
 export class AblyWebhookController {
   private readonly logger = new Logger(AblyWebhookController.name);
 
-  constructor(private readonly statusService: DriverStatusService) {}
+  constructor(private readonly realtime: RealtimeGateway) {}
 
   @Post('presence')
   @AllowAnonymous()
@@ -57,6 +58,7 @@ export class AblyWebhookController {
       // Only handle presence events
       if (item.source !== 'channel.presence') continue;
 
+      const channel = item.data?.channelId ?? 'drivers:available';
       const presenceList = item.data?.presence ?? [];
 
       for (const msg of presenceList) {
@@ -64,10 +66,18 @@ export class AblyWebhookController {
         if (!clientId) continue;
 
         if (msg.action === PRESENCE_ENTER) {
-          await this.statusService.setStatusByUserId(clientId, 'ONLINE');
+          await this.realtime.emitPresence({
+            channel,
+            clientId,
+            action: 'enter',
+          });
           processed++;
         } else if (msg.action === PRESENCE_LEAVE) {
-          await this.statusService.setStatusByUserId(clientId, 'OFFLINE');
+          await this.realtime.emitPresence({
+            channel,
+            clientId,
+            action: 'leave',
+          });
           processed++;
         }
       }
@@ -0,0 +1,136 @@
+import { jest } from '@jest/globals';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../prisma.service.js';
+import {
+  DISPATCH_LEASE_MS,
+  DispatchJobService,
+} from './dispatch-job.service.js';
+
+describe('DispatchJobService', () => {
+  let service: DispatchJobService;
+  const calls: string[] = [];
+  const job = { rideId: 'ride-1', phase: 'START_ROUND' };
+
+  const tx = {
+    $executeRawUnsafe: jest.fn(() => {
+      calls.push('lock');
+      return Promise.resolve(1);
+    }),
+    dispatchJob: {
+      findUnique: jest.fn(() => {
+        calls.push('load');
+        return Promise.resolve(job);
+      }),
+    },
+  };
+  const prisma = {
+    $transaction: jest.fn((fn: (client: typeof tx) => Promise<unknown>) =>
+      fn(tx),
+    ),
+    $queryRawUnsafe: jest.fn(() =>
+      Promise.resolve([{ rideId: 'ride-1' }, { rideId: 'ride-2' }]),
+    ),
+    dispatchJob: {
+      create: jest.fn(() => Promise.resolve(job)),
+      updateMany: jest.fn(() => Promise.resolve({ count: 2 })),
+    },
+  };
+
+  /** The lease a call granted, in ms from now. */
+  function leaseFromNow(leaseExpiresAt: unknown): number {
+    return (leaseExpiresAt as Date).getTime() - Date.now();
+  }
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    calls.length = 0;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DispatchJobService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<DispatchJobService>(DispatchJobService);
+  });
+
+  it('creates a job owned by this instance with a fresh lease', async () => {
+    await service.create({
+      rideId: 'ride-1',
+      passengerId: 'rider-1',
+      payload: {},
+      filters: {},
+    });
+
+    const [{ data }] = prisma.dispatchJob.create.mock.calls[0] as unknown as [
+      { data: { ownerId: string; leaseExpiresAt: Date } },
+    ];
+    expect(data.ownerId).toBe(service.instanceId);
+    expect(leaseFromNow(data.leaseExpiresAt)).toBeGreaterThan(
+      DISPATCH_LEASE_MS - 1_000,
+    );
+  });
+
+  it('takes the ride’s advisory lock before loading the job', async () => {
+    const seen = await service.withLock('ride-1', (client, loaded) => {
+      expect(client).toBe(tx);
+      return Promise.resolve(loaded);
+    });
+
+    expect(seen).toBe(job);
+    expect(calls).toEqual(['lock', 'load']);
+    expect(tx.$executeRawUnsafe.mock.calls[0]).toEqual([
+      'SELECT pg_advisory_xact_lock($1, hashtext($2))',
+      4201,
+      'ride-1',
+    ]);
+  });
+
+  it('claims due jobs for this instance and extends their lease', async () => {
+    const rideIds = await service.claimDue(20);
+
+    expect(rideIds).toEqual(['ride-1', 'ride-2']);
+    const [, ownerId, leaseExpiresAt, limit] = prisma.$queryRawUnsafe.mock
+      .calls[0] as unknown[];
+    expect(ownerId).toBe(service.instanceId);
+    expect(leaseFromNow(leaseExpiresAt)).toBeGreaterThan(
+      DISPATCH_LEASE_MS - 1_000,
+    );
+    expect(limit).toBe(20);
+  });
+
+  it('renews only the leases this instance holds', async () => {
+    await service.renewLeases();
+
+    expect(prisma.dispatchJob.updateMany.mock.calls[0]).toMatchObject([
+      { where: { ownerId: service.instanceId } },
+    ]);
+  });
+
+  it('adopts jobs without a live owner on boot', async () => {
+    const adopted = await service.adoptOrphans();
+
+    expect(adopted).toBe(2);
+    const [{ where, data }] = prisma.dispatchJob.updateMany.mock
+      .calls[0] as unknown as [
+      { where: { OR: object[] }; data: { ownerId: string } },
+    ];
+    expect(where.OR).toEqual([
+      { ownerId: null },
+      { leaseExpiresAt: { lt: expect.any(Date) as Date } },
+    ]);
+    expect(data.ownerId).toBe(service.instanceId);
+  });
+
+  it('hands its jobs back on shutdown', async () => {
+    await service.releaseAll();
+
+    expect(prisma.dispatchJob.updateMany.mock.calls[0]).toMatchObject([
+      {
+        where: { ownerId: service.instanceId },
+        data: { ownerId: null, leaseExpiresAt: null },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'node:crypto';
+import { PrismaService } from '../prisma.service.js';
+import type { DispatchJob, Prisma } from '../generated/prisma/client.js';
+
+/** How long an instance owns a job's timers without renewing its lease. */
+export const DISPATCH_LEASE_MS = 30_000;
+
+/** First key of the two-key advisory lock, so dispatch locks get their own namespace. */
+const ADVISORY_LOCK_NAMESPACE = 4201;
+
+/**
+ * Postgres-backed store for in-flight dispatch jobs, shared by every API
+ * instance.
+ *
+ * - All mutations of a job run inside {@link withLock}, which takes a
+ *   transaction-scoped advisory lock on the ride id, so a skip/acknowledge
+ *   landing on any node is serialized with the owner's timer handling.
+ * - Timers are `nextRunAt` timestamps. Each instance claims the due jobs it
+ *   owns, plus any whose owner's lease has lapsed (crash, deploy).
+ */
+@Injectable()
+export class DispatchJobService {
+  private readonly logger = new Logger(DispatchJobService.name);
+
+  /** Identifies this process as a job owner. */
+  readonly instanceId = randomUUID();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  private leaseUntil(): Date {
+    return new Date(Date.now() + DISPATCH_LEASE_MS);
+  }
+
+  /** Create the job for a new ride, owned by this instance. */
+  async create(
+    data: Omit<
+      Prisma.DispatchJobUncheckedCreateInput,
+      'ownerId' | 'leaseExpiresAt'
+    >,
+  ): Promise<DispatchJob> {
+    return this.prisma.dispatchJob.create({
+      data: {
+        ...data,
+        ownerId: this.instanceId,
+        leaseExpiresAt: this.leaseUntil(),
+      },
+    });
+  }
+
+  /**
+   * Run `fn` with exclusive access to a ride's job. Blocks while another
+   * instance holds the lock; `job` is null once the dispatch has ended.
+   */
+  async withLock<T>(
+    rideId: string,
+    fn: (tx: Prisma.TransactionClient, job: DispatchJob | null) => Promise<T>,
+  ): Promise<T> {
+    return this.prisma.$transaction(
+      async (tx) => {
+        await tx.$executeRawUnsafe(
+          'SELECT pg_advisory_xact_lock($1, hashtext($2))',
+          ADVISORY_LOCK_NAMESPACE,
+          rideId,
+        );
+        const job = await tx.dispatchJob.findUnique({ where: { rideId } });
+        return fn(tx, job);
+      },
+      { maxWait: 10_000, timeout: 30_000 },
+    );
+  }
+
+  /** Data that hands a job's timers to this instance, for saving a job. */
+  ownership(): Pick<DispatchJob, 'ownerId' | 'leaseExpiresAt'> {
+    return { ownerId: this.instanceId, leaseExpiresAt: this.leaseUntil() };
+  }
+
+  /**
+   * Claim due jobs this instance owns or that have no live owner. Jobs
+   * another instance is mid-way through claiming are skipped, not waited on.
+   */
+  async claimDue(limit: number): Promise<string[]> {
+    const rows = await this.prisma.$queryRawUnsafe<{ rideId: string }[]>(
+      `UPDATE dispatch_job
+       SET "ownerId" = $1, "leaseExpiresAt" = $2
+       WHERE "rideId" IN (
+         SELECT "rideId" FROM dispatch_job
+         WHERE "nextRunAt" <= NOW()
+           AND ("ownerId" = $1 OR "ownerId" IS NULL OR "leaseExpiresAt" < NOW())
+         ORDER BY "nextRunAt"
+         LIMIT $3
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING "rideId"`,
+      this.instanceId,
+      this.leaseUntil(),
+      limit,
+    );
+    return rows.map((r) => r.rideId);
+  }
+
+  /** Extend the lease on every job this instance owns. */
+  async renewLeases(): Promise<void> {
+    await this.prisma.dispatchJob.updateMany({
+      where: { ownerId: this.instanceId },
+      data: { leaseExpiresAt: this.leaseUntil() },
+    });
+  }
+
+  /**
+   * Boot recovery: adopt jobs left behind by instances that are gone
+   * (lease lapsed or released). Returns how many were adopted.
+   */
+  async adoptOrphans(): Promise<number> {
+    const { count } = await this.prisma.dispatchJob.updateMany({
+      where: {
+        OR: [{ ownerId: null }, { leaseExpiresAt: { lt: new Date() } }],
+      },
+      data: this.ownership(),
+    });
+    return count;
+  }
+
+  /** Hand this instance's jobs back on shutdown so another node adopts them at once. */
+  async releaseAll(): Promise<void> {
+    const { count } = await this.prisma.dispatchJob.updateMany({
+      where: { ownerId: this.instanceId },
+      data: { ownerId: null, leaseExpiresAt: null },
+    });
+    if (count > 0) {
+      this.logger.log(`Released ${count} dispatch job(s) on shutdown`);
+    }
+  }
+}
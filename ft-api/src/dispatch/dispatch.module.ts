@@ -3,30 +3,40 @@ import { ConfigModule } from '@nestjs/config';
 import { PrismaService } from '../prisma.service.js';
 import { AblySignatureGuard } from './ably-signature.guard.js';
 import { AblyWebhookController } from './ably-webhook.controller.js';
-import { AblyPublisherService } from './ably-publisher.service.js';
 import { DriverStatusController } from './driver-status.controller.js';
 import { DriverStatusService } from './driver-status.service.js';
 import { MatchingService } from './matching.service.js';
 import { RideDispatchService } from './ride-dispatch.service.js';
+import { DispatchJobService } from './dispatch-job.service.js';
 import { PenaltyService } from './penalty.service.js';
 import { PricingModule } from '../pricing/pricing.module.js';
+import { RideStateModule } from '../ride-state/ride-state.module.js';
+import { RealtimeModule } from '../realtime/realtime.module.js';
+import { MapsModule } from '../maps/maps.module.js';
+import { PromosModule } from '../promos/promos.module.js';
 
 @Module({
-  imports: [ConfigModule, PricingModule],
+  imports: [
+    ConfigModule,
+    PricingModule,
+    RideStateModule,
+    RealtimeModule,
+    MapsModule,
+    PromosModule,
+  ],
   controllers: [DriverStatusController, AblyWebhookController],
   providers: [
     PrismaService,
     DriverStatusService,
     MatchingService,
     AblySignatureGuard,
-    AblyPublisherService,
     RideDispatchService,
+    DispatchJobService,
     PenaltyService,
   ],
   exports: [
     DriverStatusService,
     MatchingService,
-    AblyPublisherService,
     RideDispatchService,
     PenaltyService,
   ],
@@ -6,22 +6,40 @@ import {
   OnModuleInit,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma.service.js';
+import { RealtimeGateway } from '../realtime/realtime-gateway.js';
+import type { Prisma } from '../generated/prisma/client.js';
 import type { DriverStatus } from '../generated/prisma/enums.js';
 
 /** Allowed status transitions from the driver app. */
 const DRIVER_SETTABLE_STATUSES: DriverStatus[] = ['ONLINE', 'OFFLINE'];
 
+/** Presence channel drivers enter while online. */
+const DRIVERS_CHANNEL = 'drivers:available';
+
 @Injectable()
 export class DriverStatusService implements OnModuleInit {
   private readonly logger = new Logger(DriverStatusService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly realtime: RealtimeGateway,
+  ) {}
 
   // ──────────────────────────────────────────────────────────
   // PostGIS setup — runs once on application start (idempotent)
   // ──────────────────────────────────────────────────────────
 
   async onModuleInit() {
+    // Presence on the drivers channel drives ONLINE/OFFLINE, whichever
+    // realtime transport reports it (Ably webhook or local WebSocket)
+    this.realtime.onPresence(async ({ channel, clientId, action }) => {
+      if (channel !== DRIVERS_CHANNEL) return;
+      await this.setStatusByUserId(
+        clientId,
+        action === 'enter' ? 'ONLINE' : 'OFFLINE',
+      );
+    });
+
     try {
       // 1. Enable PostGIS extension
       await this.prisma.$queryRawUnsafe(
@@ -60,11 +78,21 @@ export class DriverStatusService implements OnModuleInit {
   private async getDriverByUserId(userId: string) {
     const driver = await this.prisma.driver.findUnique({
       where: { userId },
-      select: { id: true, status: true, approvalStatus: true },
+      select: {
+        id: true,
+        status: true,
+        approvalStatus: true,
+        suspensionReason: true,
+      },
     });
     if (!driver) {
       throw new NotFoundException('Driver profile not found for this user.');
     }
+    if (driver.suspensionReason === 'DOCUMENT_EXPIRED') {
+      throw new ForbiddenException(
+        'DOCUMENT_EXPIRED: Your account is suspended until your expired documents are renewed.',
+      );
+    }
     if (driver.approvalStatus !== 'APPROVED') {
       throw new ForbiddenException(
         'Your driver account must be approved before going online.',
@@ -91,37 +119,48 @@ export class DriverStatusService implements OnModuleInit {
       data: { status },
       select: { id: true, status: true },
     });
+    await this.trackOnlineSession(
+      this.prisma,
+      driver.id,
+      driver.status,
+      status,
+    );
 
     this.logger.log(`Driver ${driver.id} status → ${status}`);
     return updated;
   }
 
   // ──────────────────────────────────────────────────────────
-  // Webhook-driven status update (graceful — never throws)
+  // Presence-driven status update (graceful — never throws)
   // ──────────────────────────────────────────────────────────
 
   /**
    * Set a driver's status by their userId.
-   * Designed for Ably Presence webhooks: if no driver is found or
+   * Designed for realtime presence events: if no driver is found or
    * the driver is not approved, the call is silently skipped (logged
-   * as a warning) instead of throwing an exception.
+   * as a warning) instead of throwing an exception. Pass `tx` to commit
+   * the change with the caller's transaction.
    */
-  async setStatusByUserId(userId: string, status: DriverStatus): Promise<void> {
-    const driver = await this.prisma.driver.findUnique({
+  async setStatusByUserId(
+    userId: string,
+    status: DriverStatus,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    const driver = await tx.driver.findUnique({
       where: { userId },
       select: { id: true, approvalStatus: true, status: true },
     });
 
     if (!driver) {
       this.logger.warn(
-        `Presence webhook: no driver found for userId ${userId} — skipping.`,
+        `Presence: no driver found for userId ${userId} — skipping.`,
       );
       return;
     }
 
     if (driver.approvalStatus !== 'APPROVED') {
       this.logger.warn(
-        `Presence webhook: driver ${driver.id} is not APPROVED (${driver.approvalStatus}) — skipping.`,
+        `Presence: driver ${driver.id} is not APPROVED (${driver.approvalStatus}) — skipping.`,
       );
       return;
     }
@@ -129,12 +168,41 @@ export class DriverStatusService implements OnModuleInit {
     // Skip no-op updates
     if (driver.status === status) return;
 
-    await this.prisma.driver.update({
+    await tx.driver.update({
       where: { id: driver.id },
       data: { status },
     });
+    await this.trackOnlineSession(tx, driver.id, driver.status, status);
 
-    this.logger.log(`Presence webhook: driver ${driver.id} status → ${status}`);
+    this.logger.log(`Presence: driver ${driver.id} status → ${status}`);
+  }
+
+  /**
+   * Open a `DriverOnlineSession` when a driver leaves OFFLINE and close it
+   * when they return. ONLINE ↔ ON_TRIP keeps the current session running.
+   */
+  private async trackOnlineSession(
+    tx: Prisma.TransactionClient,
+    driverId: string,
+    from: DriverStatus,
+    to: DriverStatus,
+  ): Promise<void> {
+    const now = new Date();
+    if (to === 'OFFLINE') {
+      await tx.driverOnlineSession.updateMany({
+        where: { driverId, endedAt: null },
+        data: { endedAt: now },
+      });
+    } else if (from === 'OFFLINE') {
+      // Close anything left open (e.g. a missed presence-leave webhook)
+      await tx.driverOnlineSession.updateMany({
+        where: { driverId, endedAt: null },
+        data: { endedAt: now },
+      });
+      await tx.driverOnlineSession.create({
+        data: { driverId, startedAt: now },
+      });
+    }
   }
 
   // ──────────────────────────────────────────────────────────
@@ -185,6 +253,23 @@ export class DriverStatusService implements OnModuleInit {
       driver.id,
     );
 
+    // 3. Append a breadcrumb while a trip is in progress (actual-fare trace)
+    const activeRide = await this.prisma.ride.findFirst({
+      where: { driverId: driver.id, status: 'IN_PROGRESS' },
+      select: { id: true },
+    });
+    if (activeRide) {
+      await this.prisma.rideLocationPoint.create({
+        data: {
+          rideId: activeRide.id,
+          latitude,
+          longitude,
+          speed: speed ?? null,
+          accuracy: accuracy ?? null,
+        },
+      });
+    }
+
     this.logger.debug(
       `Driver ${driver.id} location → (${latitude}, ${longitude})`,
     );
@@ -0,0 +1,26 @@
+import { vehicleTypesForTier } from './matching.service.js';
+
+describe('vehicleTypesForTier', () => {
+  it('opens Standard and Economy fares to any car', () => {
+    for (const tier of ['STANDARD', 'ECONOMY']) {
+      const types = vehicleTypesForTier(tier);
+      expect(types).toEqual(
+        expect.arrayContaining([
+          'STANDARD',
+          'PLUS',
+          'ECONOMY',
+          'COMFORT',
+          'PREMIUM',
+          'XL',
+        ]),
+      );
+      expect(types).not.toContain('MOTORBIKE');
+    }
+  });
+
+  it('keeps every other tier to its own vehicle', () => {
+    for (const tier of ['PLUS', 'COMFORT', 'PREMIUM', 'XL', 'MOTORBIKE']) {
+      expect(vehicleTypesForTier(tier)).toEqual([tier]);
+    }
+  });
+});
@@ -1,5 +1,9 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma.service.js';
+import { MapsService } from '../maps/maps.service.js';
+import { bearingDegrees } from '../lib/geo.js';
+import { VehicleType } from '../generated/prisma/enums.js';
 
 /** Row returned by the nearby-drivers PostGIS query. */
 export interface NearbyDriver {
@@ -12,27 +16,242 @@ export interface NearbyDriver {
   heading: number | null;
   distanceMeters: number;
   isVip: boolean;
+  /** Priority tier from the SQL ranking: 0 = VIP Plus, 1 = VIP, 2 = regular. */
+  priorityTier: number;
+  averageRating: number;
+  /** Road ETA to the pickup (seconds), set by ETA-aware ranking. */
+  etaSeconds?: number | null;
 }
 
 /** Optional rider-preference filters for driver matching. */
 export interface DriverMatchFilters {
+  /** Driver vehicle types that can serve the fare tier (null = any). */
+  vehicleTypes?: string[] | null;
+  /** Rider's vehicle type preference, within `vehicleTypes`. */
   vehicleType?: string | null;
   fuelType?: string | null;
   petFriendly?: boolean;
   extraPassengers?: boolean;
 }
 
+/**
+ * Driver vehicle types that can serve a fare tier. Standard and Economy are
+ * open to any car; every other tier needs its own vehicle — a motorbike
+ * never gets a car fare, and an XL fare always gets a van.
+ */
+export function vehicleTypesForTier(tier: string): string[] {
+  if (tier === VehicleType.STANDARD || tier === VehicleType.ECONOMY) {
+    return Object.values(VehicleType).filter(
+      (type) => type !== VehicleType.MOTORBIKE,
+    );
+  }
+  return [tier];
+}
+
 /** Default search radius in metres (5 km). */
 const DEFAULT_RADIUS_METERS = 5_000;
 
 /** Default maximum number of drivers to return. */
 const DEFAULT_LIMIT = 5;
 
+/** How dispatch ranks candidates: SQL priority tiers only, or blended with road ETA. */
+export type MatchingRanking = 'priority' | 'eta';
+
+/**
+ * Weights for ETA-aware ranking, expressed in seconds of pickup ETA so they
+ * read as "a VIP tier is worth N seconds of extra driving".
+ */
+export interface EtaRankingWeights {
+  /** Cost per priority tier below the best (VIP Plus → VIP → regular). */
+  tierSeconds: number;
+  /** Cost per rating star below 5. */
+  ratingSeconds: number;
+  /** Cost for a driver heading directly away from the pickup (0 when heading towards it). */
+  headingSeconds: number;
+}
+
+/** Candidates fetched per requested driver before ETA re-ranking. */
+const ETA_CANDIDATE_FACTOR = 2;
+
+/** Upper bound on candidates sent to the distance matrix per round. */
+const MAX_ETA_CANDIDATES = 50;
+
+/** Straight-line speed used when the matrix has no ETA (≈ 18 km/h city traffic). */
+const FALLBACK_SPEED_MPS = 5;
+
+/** Below this distance a driver's heading says little about their route. */
+const HEADING_MIN_DISTANCE_M = 150;
+
 @Injectable()
 export class MatchingService {
   private readonly logger = new Logger(MatchingService.name);
+  private readonly ranking: MatchingRanking;
+  private readonly weights: EtaRankingWeights;
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly maps: MapsService,
+    config: ConfigService,
+  ) {
+    this.ranking =
+      config.get<string>('MATCHING_RANKING') === 'eta' ? 'eta' : 'priority';
+    const num = (key: string, fallback: number) => {
+      const value = Number(config.get<string>(key));
+      return Number.isFinite(value) && value >= 0 ? value : fallback;
+    };
+    this.weights = {
+      tierSeconds: num('MATCHING_TIER_WEIGHT_SEC', 90),
+      ratingSeconds: num('MATCHING_RATING_WEIGHT_SEC', 30),
+      headingSeconds: num('MATCHING_HEADING_WEIGHT_SEC', 60),
+    };
+  }
+
+  /**
+   * Drivers to offer a ride to, best first. With `MATCHING_RANKING=eta`
+   * a wider candidate pool is re-ranked by {@link rankByEta}; otherwise
+   * this is {@link findNearbyDrivers}' priority order.
+   */
+  async findDispatchCandidates(
+    pickupLat: number,
+    pickupLng: number,
+    radiusM: number,
+    limit: number,
+    filters: DriverMatchFilters = {},
+  ): Promise<NearbyDriver[]> {
+    if (this.ranking !== 'eta') {
+      return this.findNearbyDrivers(
+        pickupLat,
+        pickupLng,
+        radiusM,
+        limit,
+        filters,
+      );
+    }
+
+    const pool = await this.findNearbyDrivers(
+      pickupLat,
+      pickupLng,
+      radiusM,
+      Math.min(
+        Math.max(limit * ETA_CANDIDATE_FACTOR, limit),
+        MAX_ETA_CANDIDATES,
+      ),
+      filters,
+    );
+    const ranked = await this.rankByEta(pool, pickupLat, pickupLng);
+    return ranked.slice(0, limit);
+  }
+
+  /**
+   * SHARED rides that could seat another rider picked up here: under way,
+   * with fewer than `maxPassengers` riders, and their driver currently
+   * within `radiusM` of the pickup. Nearest driver first.
+   */
+  async findSharedRideCandidates(
+    pickupLat: number,
+    pickupLng: number,
+    radiusM: number,
+    maxPassengers: number,
+    limit: number,
+  ): Promise<string[]> {
+    const rows = await this.prisma.$queryRaw<{ rideId: string }[]>`
+      SELECT r.id AS "rideId"
+      FROM ride r
+      JOIN driver_location dl ON dl."driverId" = r."driverId"
+      WHERE r."isShared" = true
+        AND r.status IN ('ACCEPTED', 'DRIVER_ARRIVING', 'ARRIVED', 'IN_PROGRESS')
+        AND dl.location IS NOT NULL
+        AND ST_DWithin(
+              dl.location,
+              ST_SetSRID(ST_MakePoint(${pickupLng}, ${pickupLat}), 4326)::geography,
+              ${radiusM}
+            )
+        AND (
+          SELECT COUNT(*) FROM ride_passenger rp
+          WHERE rp."rideId" = r.id AND rp.status <> 'CANCELLED'
+        ) < ${maxPassengers}
+      ORDER BY ST_Distance(
+        dl.location,
+        ST_SetSRID(ST_MakePoint(${pickupLng}, ${pickupLat}), 4326)::geography
+      )
+      LIMIT ${limit}
+    `;
+    return rows.map((row) => row.rideId);
+  }
+
+  /**
+   * Re-rank drivers by a cost in seconds:
+   *
+   *   road ETA
+   *   + tierSeconds    × priority tier (0 VIP Plus, 1 VIP, 2 regular)
+   *   + ratingSeconds  × stars below 5
+   *   + headingSeconds × (0 heading towards pickup … 1 heading away)
+   *
+   * ETAs come from one batched distance-matrix call (cached in MapsService).
+   * If that fails, straight-line distance at city speed stands in so
+   * dispatch never stalls on the Routes API. Ties keep the SQL order.
+   */
+  private async rankByEta(
+    drivers: NearbyDriver[],
+    pickupLat: number,
+    pickupLng: number,
+  ): Promise<NearbyDriver[]> {
+    if (drivers.length === 0) return drivers;
+
+    let etas: (number | null)[];
+    try {
+      etas = await this.maps.computeDriveEtas(
+        drivers.map((d) => ({ lat: d.latitude, lng: d.longitude })),
+        { lat: pickupLat, lng: pickupLng },
+      );
+    } catch (error) {
+      this.logger.warn(
+        `ETA matrix failed, falling back to straight-line estimates: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+      etas = drivers.map(() => null);
+    }
+
+    const { tierSeconds, ratingSeconds, headingSeconds } = this.weights;
+    const scored = drivers.map((driver, index) => {
+      const etaSeconds =
+        etas[index] ?? Math.round(driver.distanceMeters / FALLBACK_SPEED_MPS);
+
+      let headingCost = 0;
+      if (
+        driver.heading !== null &&
+        driver.distanceMeters > HEADING_MIN_DISTANCE_M
+      ) {
+        const toPickup = bearingDegrees(
+          driver.latitude,
+          driver.longitude,
+          pickupLat,
+          pickupLng,
+        );
+        const diff = ((driver.heading - toPickup) * Math.PI) / 180;
+        headingCost = (1 - Math.cos(diff)) / 2;
+      }
+
+      const cost =
+        etaSeconds +
+        tierSeconds * driver.priorityTier +
+        ratingSeconds * Math.max(0, 5 - driver.averageRating) +
+        headingSeconds * headingCost;
+
+      return { driver: { ...driver, etaSeconds }, cost, index };
+    });
+
+    scored.sort((a, b) => a.cost - b.cost || a.index - b.index);
+
+    this.logger.log(
+      `ETA ranking: ${scored
+        .map((s) => `${s.driver.userId}=${Math.round(s.cost)}s`)
+        .join(', ')}`,
+    );
+
+    return scored.map((s) => s.driver);
+  }
 
   /**
    * Find the closest ONLINE, APPROVED drivers within a given radius of
@@ -64,6 +283,15 @@ export class MatchingService {
 
     const extraWhere: string[] = [];
 
+    // Fare tier filter (denormalized on driver)
+    if (filters.vehicleTypes?.length) {
+      paramIdx++;
+      params.push(filters.vehicleTypes);
+      extraWhere.push(
+        `AND d."vehicleType" = ANY($${paramIdx}::"VehicleType"[])`,
+      );
+    }
+
     // Vehicle type filter (denormalized on driver)
     if (filters.vehicleType && filters.vehicleType !== 'ANY') {
       paramIdx++;
@@ -104,6 +332,9 @@ export class MatchingService {
         dl.longitude::float           AS "longitude",
         dl.heading::float             AS "heading",
         d."isVip"                     AS "isVip",
+        CASE WHEN d."isVip" THEN (CASE WHEN d."vehicleType" = 'PLUS' THEN 0 ELSE 1 END) ELSE 2 END
+                                      AS "priorityTier",
+        d."averageRating"::float      AS "averageRating",
         ST_Distance(
           dl.location,
           ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography
@@ -122,7 +353,7 @@ export class MatchingService {
         ${extraWhere.join('\n        ')}
       ORDER BY
         d."isVip" DESC,
-        CASE WHEN d."isVip" THEN (CASE WHEN d."vehicleType" = 'PLUS' THEN 0 ELSE 1 END) ELSE 2 END ASC,
+        "priorityTier" ASC,
         d."averageRating" DESC,
         d."createdAt" ASC,
         d."totalRides" DESC
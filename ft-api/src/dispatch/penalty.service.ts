@@ -90,7 +90,7 @@ export class PenaltyService {
     try {
       const driver = await this.prisma.driver.findUnique({
         where: { userId: driverUserId },
-        select: { isVip: true, averageRating: true },
+        select: { isVip: true, averageRating: true, ratingPenalty: true },
       });
 
       if (!driver) {
@@ -118,6 +118,11 @@ export class PenaltyService {
           penaltyUntil,
           lastPenaltyMinutes: penaltyMinutes,
           averageRating: newRating,
+          // Kept so recomputing the average from ratings doesn't undo it
+          ratingPenalty: Math.min(
+            5,
+            parseFloat((Number(driver.ratingPenalty) + 0.1).toFixed(1)),
+          ),
         },
       });
 
@@ -0,0 +1,262 @@
+import { jest } from '@jest/globals';
+import { Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../prisma.service.js';
+import { MapsService } from '../maps/maps.service.js';
+import { PricingCacheService } from '../pricing/pricing-cache.service.js';
+import { PromosService } from '../promos/promos.service.js';
+import { RealtimeGateway } from '../realtime/realtime-gateway.js';
+import { RideStateService } from '../ride-state/ride-state.service.js';
+import { DispatchJobService } from './dispatch-job.service.js';
+import { MatchingService } from './matching.service.js';
+import { PenaltyService } from './penalty.service.js';
+import { RideDispatchService } from './ride-dispatch.service.js';
+
+function driver(userId: string) {
+  return { userId, driverName: `Driver ${userId}`, isVip: false };
+}
+
+describe('RideDispatchService rounds', () => {
+  let service: RideDispatchService;
+  let job: Record<string, unknown>;
+  let rideStatus: string;
+  let notifiedDriverIds: string[];
+  let candidates: ReturnType<typeof driver>[];
+  let saveFails: boolean;
+
+  const tx = {
+    ride: {
+      findUnique: jest.fn(() =>
+        Promise.resolve({ status: rideStatus, notifiedDriverIds }),
+      ),
+      update: jest.fn((args: { data: { notifiedDriverIds: string[] } }) => {
+        notifiedDriverIds = args.data.notifiedDriverIds;
+        return Promise.resolve({});
+      }),
+    },
+    dispatchJob: {
+      update: jest.fn((args: { data: Record<string, unknown> }) => {
+        if (saveFails) {
+          return Promise.reject(new Error('serialization failure'));
+        }
+        job = { ...job, ...args.data };
+        return Promise.resolve({});
+      }),
+      delete: jest.fn(() => Promise.resolve({})),
+    },
+  };
+  const prisma = {
+    dispatchJob: { findUnique: jest.fn(() => Promise.resolve(job)) },
+  };
+  const jobs = {
+    withLock: jest.fn(
+      (
+        _rideId: string,
+        fn: (client: typeof tx, loaded: typeof job) => Promise<unknown>,
+      ) => fn(tx, job),
+    ),
+    claimDue: jest.fn(() => Promise.resolve(['ride-1'])),
+    ownership: jest.fn(() => ({
+      ownerId: 'instance-1',
+      leaseExpiresAt: new Date(),
+    })),
+  };
+  const matching = {
+    findDispatchCandidates: jest.fn(() => Promise.resolve(candidates)),
+  };
+  const publisher = { publish: jest.fn(() => Promise.resolve()) };
+  const penalty = { recordRejection: jest.fn(() => Promise.resolve()) };
+  const cache = {
+    getDispatchRounds: jest.fn(() => [
+      { roundIndex: 0, radiusMeters: 800, mode: 'SEQUENTIAL', batchSize: 3 },
+      { roundIndex: 1, radiusMeters: 1_500, mode: 'SEQUENTIAL', batchSize: 3 },
+    ]),
+  };
+
+  /** The job as last written back when the lock was released. */
+  function savedJob(): Record<string, unknown> {
+    const [{ data }] = tx.dispatchJob.update.mock.calls.at(-1) as unknown as [
+      { data: Record<string, unknown> },
+    ];
+    return data;
+  }
+
+  function published(event: string): string[] {
+    return (publisher.publish.mock.calls as unknown as [string, string][])
+      .filter(([, name]) => name === event)
+      .map(([channel]) => channel);
+  }
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    rideStatus = 'PENDING';
+    notifiedDriverIds = [];
+    candidates = [];
+    saveFails = false;
+    job = {
+      rideId: 'ride-1',
+      passengerId: 'rider-1',
+      payload: { rideId: 'ride-1', pickupLat: 16.8, pickupLng: 96.15 },
+      filters: {},
+      phase: 'START_ROUND',
+      roundIndex: 0,
+      driverQueue: [],
+      currentDriverIdx: 0,
+      offeredUserIds: [],
+      ackedUserIds: [],
+      skippedUserIds: [],
+      nextRunAt: new Date(Date.now() - 1_000),
+      startedAt: new Date(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RideDispatchService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: MatchingService, useValue: matching },
+        { provide: RealtimeGateway, useValue: publisher },
+        { provide: PricingCacheService, useValue: cache },
+        { provide: PenaltyService, useValue: penalty },
+        { provide: RideStateService, useValue: {} },
+        { provide: DispatchJobService, useValue: jobs },
+        { provide: MapsService, useValue: {} },
+        { provide: PromosService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<RideDispatchService>(RideDispatchService);
+  });
+
+  /** A round under way with `queue`, offered to the driver before `idx`. */
+  function awaiting(queue: string[], idx: number) {
+    job.phase = 'AWAITING_DRIVER';
+    job.driverQueue = queue.map(driver);
+    job.currentDriverIdx = idx;
+    job.offeredUserIds = [queue[idx - 1]];
+    notifiedDriverIds = queue.slice(0, idx);
+  }
+
+  it('offers a new round to the first driver not yet notified', async () => {
+    notifiedDriverIds = ['d1'];
+    candidates = ['d1', 'd2', 'd3'].map(driver);
+
+    await service.poll();
+
+    expect(published('new_ride_request')).toEqual(['driver:private:d2']);
+    expect(published('dispatch_progress')).toEqual(['rider:rider-1']);
+    expect(savedJob()).toMatchObject({
+      phase: 'AWAITING_DRIVER',
+      offeredUserIds: ['d2'],
+      // Already-notified drivers never enter the queue
+      driverQueue: [driver('d2'), driver('d3')],
+      currentDriverIdx: 1,
+    });
+    expect(tx.ride.update.mock.calls[0]).toMatchObject([
+      { data: { notifiedDriverIds: ['d1', 'd2'] } },
+    ]);
+  });
+
+  it('sends no offer when the job fails to save', async () => {
+    candidates = ['d1'].map(driver);
+    saveFails = true;
+
+    await service.poll();
+
+    expect(publisher.publish).not.toHaveBeenCalled();
+  });
+
+  it('moves on to the next driver when the offer times out', async () => {
+    awaiting(['d1', 'd2'], 1);
+
+    await service.poll();
+
+    expect(published('new_ride_request')).toEqual(['driver:private:d2']);
+    expect(penalty.recordRejection).toHaveBeenCalledWith('d1');
+    expect(savedJob()).toMatchObject({ offeredUserIds: ['d2'] });
+  });
+
+  it('moves on at once when the driver skips', async () => {
+    awaiting(['d1', 'd2'], 1);
+
+    await service.markDriverSkipped('ride-1', 'd1');
+
+    expect(published('ride_cancelled')).toEqual(['driver:private:d1']);
+    expect(published('new_ride_request')).toEqual(['driver:private:d2']);
+    expect(savedJob()).toMatchObject({
+      offeredUserIds: ['d2'],
+      skippedUserIds: ['d1'],
+    });
+  });
+
+  it('widens the search once the round runs out of drivers', async () => {
+    awaiting(['d1'], 1);
+    candidates = ['d1', 'd4'].map(driver);
+
+    await service.poll();
+
+    // Second round, with its wider radius
+    expect(matching.findDispatchCandidates.mock.calls[0]).toEqual([
+      16.8,
+      96.15,
+      1_500,
+      10,
+      {},
+    ]);
+    expect(published('new_ride_request')).toEqual(['driver:private:d4']);
+    expect(savedJob()).toMatchObject({ roundIndex: 1, offeredUserIds: ['d4'] });
+  });
+
+  it('searches for drivers before taking the lock', async () => {
+    candidates = ['d1'].map(driver);
+    const order: string[] = [];
+    matching.findDispatchCandidates.mockImplementationOnce(() => {
+      order.push('search');
+      return Promise.resolve(candidates);
+    });
+    jobs.withLock.mockImplementationOnce((_rideId, fn) => {
+      order.push('lock');
+      return fn(tx, job);
+    });
+
+    await service.poll();
+
+    expect(order).toEqual(['search', 'lock']);
+    expect(published('new_ride_request')).toEqual(['driver:private:d1']);
+  });
+
+  it('does not start a round the job has moved past', async () => {
+    candidates = ['d1'].map(driver);
+    // Another instance widened the search between the read and the lock
+    jobs.withLock.mockImplementationOnce((_rideId, fn) =>
+      fn(tx, { ...job, roundIndex: 1 }),
+    );
+
+    await service.poll();
+
+    expect(publisher.publish).not.toHaveBeenCalled();
+    // Left due for the next poll to search the current round
+    expect(savedJob()).toMatchObject({ phase: 'START_ROUND', roundIndex: 1 });
+  });
+
+  it('waits and starts over after the last round', async () => {
+    job.roundIndex = 2;
+
+    await service.poll();
+
+    expect(published('dispatch_waiting')).toEqual(['rider:rider-1']);
+    expect(savedJob()).toMatchObject({ phase: 'RETRY_WAIT', roundIndex: 0 });
+  });
+
+  it('drops the job once the ride is no longer pending', async () => {
+    rideStatus = 'ACCEPTED';
+
+    await service.poll();
+
+    expect(tx.dispatchJob.delete).toHaveBeenCalledTimes(1);
+    expect(publisher.publish).not.toHaveBeenCalled();
+  });
+});
@@ -1,13 +1,33 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  type OnApplicationBootstrap,
+  type OnModuleDestroy,
+} from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
 import { PrismaService } from '../prisma.service.js';
 import {
   MatchingService,
+  vehicleTypesForTier,
   type DriverMatchFilters,
   type NearbyDriver,
 } from './matching.service.js';
-import { AblyPublisherService } from './ably-publisher.service.js';
+import { RealtimeGateway } from '../realtime/realtime-gateway.js';
 import { PricingCacheService } from '../pricing/pricing-cache.service.js';
 import { PenaltyService } from './penalty.service.js';
+import { RideStateService } from '../ride-state/ride-state.service.js';
+import { DispatchJobService } from './dispatch-job.service.js';
+import { MapsService } from '../maps/maps.service.js';
+import { PromosService } from '../promos/promos.service.js';
+import type { DispatchJob, Prisma } from '../generated/prisma/client.js';
+import type {
+  DispatchPhase,
+  RidePassengerStatus,
+  RideStatus,
+  RideStopKind,
+} from '../generated/prisma/enums.js';
+import { distanceToSegmentMeters, pathLengthMeters } from '../lib/geo.js';
 
 /** How long (ms) to wait for a single driver to respond. */
 const DRIVER_TIMEOUT_MS = 15_000;
@@ -18,6 +38,104 @@ const MAX_DISPATCH_DURATION_MS = 2 * 60 * 1000; // 2 minutes
 /** Delay (ms) between full-cycle retries when all rounds are exhausted. */
 const RETRY_DELAY_MS = 10_000; // 10 seconds
 
+/** How often (ms) each instance looks for due dispatch jobs. */
+const POLL_INTERVAL_MS = 1_000;
+
+/** How often (ms) each instance renews the leases on the jobs it owns. */
+const LEASE_RENEW_MS = 10_000;
+
+/** Maximum drivers fetched for a BROADCAST round. */
+const BROADCAST_DRIVER_LIMIT = 50;
+
+/** Maximum jobs claimed per poll. */
+const POLL_BATCH_SIZE = 20;
+
+/** Riders a SHARED ride can carry, lead included. */
+const SHARED_MAX_PASSENGERS = 2;
+
+/** Statuses in which a SHARED ride can still take on a rider. */
+const SHARED_JOINABLE_STATUSES: RideStatus[] = [
+  'ACCEPTED',
+  'DRIVER_ARRIVING',
+  'ARRIVED',
+  'IN_PROGRESS',
+];
+
+/** Host drivers must currently be within this of the new pickup. */
+const SHARED_SEARCH_RADIUS_M = 5_000;
+
+/** Both new points must lie this close to the host's remaining route. */
+const SHARED_CORRIDOR_M = 1_000;
+
+/** Most extra driving a joining rider may add to the host trip. */
+const SHARED_MAX_DETOUR_SECONDS = 8 * 60;
+
+/** Host rides checked against the Routes API per booking (2 calls each). */
+const SHARED_MAX_ROUTE_CHECKS = 3;
+
+/** Intermediate stop between pickup and dropoff, in route order. */
+export interface DispatchStop {
+  id: string;
+  sequence: number;
+  kind: RideStopKind;
+  /** Shared rides: the joining rider a PICKUP / DROPOFF belongs to. */
+  passengerId: string | null;
+  address: string;
+  mainText: string | null;
+  lat: number;
+  lng: number;
+}
+
+interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/** A point of a SHARED booking looking for a seat. */
+export interface SharedSeatPoint extends LatLng {
+  address: string;
+  mainText: string | null;
+}
+
+/** A SHARED booking to seat on a ride that is already under way. */
+export interface SharedSeatRequest {
+  passengerId: string;
+  pickup: SharedSeatPoint;
+  dropoff: SharedSeatPoint;
+  /** The rider's split fare, already priced from their quote. */
+  fare: number;
+  currency: string;
+}
+
+/** Where a joining rider was seated. */
+export interface SharedSeat {
+  rideId: string;
+  /** The rider's own seat, not the host ride they joined. */
+  status: RidePassengerStatus;
+  detourSeconds: number;
+}
+
+/** An existing unreached stop, or one of the joining rider's new stops. */
+type PlannedStop = { stopId: string } | { kind: 'PICKUP' | 'DROPOFF' };
+
+/**
+ * A host ride's remaining route with the joining rider's pickup and dropoff
+ * inserted where they add the least straight-line distance.
+ */
+interface SharedInsertionPlan {
+  rideId: string;
+  /** Driver's position, the lead pickup (if not yet on board), then stops. */
+  current: LatLng[];
+  /** Same route with the new pickup and dropoff inserted. */
+  planned: LatLng[];
+  /** Final dropoff of the host ride — the route destination. */
+  destination: LatLng;
+  /** Unreached stops in their new order, with the new ones inserted. */
+  stopOrder: PlannedStop[];
+  /** Extra straight-line distance, used to rank plans before routing. */
+  extraMeters: number;
+}
+
 /** Payload published to each driver's private Ably channel. */
 interface DispatchPayload {
   rideId: string;
@@ -33,45 +151,98 @@ interface DispatchPayload {
   passengerNote: string | null;
   pickupPhotoUrl: string | null;
   extraPassengers: boolean;
+  stops: DispatchStop[];
 }
 
-/** In-memory tracking for an active sequential dispatch. */
-interface ActiveDispatch {
-  timer: ReturnType<typeof setTimeout> | null;
-  /** All driver userIds ever notified (persisted to DB for restart resilience). */
-  notifiedDriverIds: Set<string>;
-  /** Drivers who explicitly skipped/rejected — never re-notify in the same cycle. */
-  skippedUserIds: Set<string>;
+/** Driver queue entry, stored as JSON on the dispatch job. */
+type QueuedDriver = Pick<NearbyDriver, 'userId' | 'driverName' | 'isVip'>;
+
+/** Drivers found for a round before the job's lock was taken. */
+interface RoundCandidates {
+  roundIndex: number;
+  drivers: NearbyDriver[];
+}
+
+/**
+ * Working copy of a dispatch job while its advisory lock is held.
+ * Loaded from `dispatch_job` (plus the ride's notifiedDriverIds) and
+ * written back when the lock is released.
+ */
+interface DispatchRun {
+  tx: Prisma.TransactionClient;
+  rideId: string;
   passengerId: string;
+  payload: DispatchPayload;
+  /** Rider preference filters forwarded to the matching service. */
+  filters: DriverMatchFilters;
+  phase: DispatchPhase;
   roundIndex: number;
   /** Sorted driver queue for the current round (already filtered). */
-  driverQueue: NearbyDriver[];
+  driverQueue: QueuedDriver[];
   /** Index into driverQueue for the next driver to contact. */
   currentDriverIdx: number;
-  /** userId of the driver currently being offered the ride (awaiting response). */
-  currentDriverUserId: string | null;
-  payload: DispatchPayload;
-  pickupLat: number;
-  pickupLng: number;
-  /** Rider preference filters forwarded to the matching service. */
-  filters: DriverMatchFilters;
-  /** Timestamp (ms) when the dispatch was first created — used for the 2-min cap. */
-  startedAt: number;
+  /** Drivers currently holding the offer (one in SEQUENTIAL rounds). */
+  offeredUserIds: Set<string>;
+  /** Offered drivers whose app acknowledged and is showing the offer. */
+  ackedUserIds: Set<string>;
+  /** All driver userIds ever notified (persisted on the ride). */
+  notifiedDriverIds: Set<string>;
+  /** Drivers who explicitly skipped/rejected — never re-notify in the same cycle. */
+  skippedUserIds: Set<string>;
+  /** When the current phase is due (driver timeout, retry delay, …). */
+  nextRunAt: Date;
+  /** When the dispatch was first created — used for the 2-min cap. */
+  startedAt: Date;
+  /** Set when the dispatch is over; the job row is deleted on release. */
+  finished: boolean;
+  /** Work that must run after the lock transaction commits. */
+  afterCommit: (() => Promise<void>)[];
 }
 
+/**
+ * Sequential one-by-one driver dispatch.
+ *
+ * State lives in the shared `dispatch_job` table rather than in process
+ * memory, so any API instance can handle a driver's skip/acknowledge and
+ * in-flight rides survive a deploy:
+ * - every mutation runs under a per-ride advisory lock ({@link DispatchJobService.withLock});
+ * - timers are `nextRunAt` timestamps picked up by {@link poll} on whichever
+ *   instance owns the job, or adopts it once the owner's lease lapses.
+ */
 @Injectable()
-export class RideDispatchService {
+export class RideDispatchService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
   private readonly logger = new Logger(RideDispatchService.name);
-  private readonly activeDispatches = new Map<string, ActiveDispatch>();
+  private polling = false;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly matching: MatchingService,
-    private readonly publisher: AblyPublisherService,
+    private readonly publisher: RealtimeGateway,
     private readonly cache: PricingCacheService,
     private readonly penalty: PenaltyService,
+    private readonly rideState: RideStateService,
+    private readonly jobs: DispatchJobService,
+    private readonly maps: MapsService,
+    private readonly promos: PromosService,
   ) {}
 
+  // ── Lifecycle ──────────────────────────────────────────────
+
+  /** Resume dispatches orphaned by a previous deploy or crash. */
+  async onApplicationBootstrap() {
+    const adopted = await this.jobs.adoptOrphans();
+    if (adopted > 0) {
+      this.logger.log(`Adopted ${adopted} in-flight dispatch job(s) on boot`);
+    }
+    await this.poll();
+  }
+
+  async onModuleDestroy() {
+    await this.jobs.releaseAll();
+  }
+
   // ── Public API ─────────────────────────────────────────────
 
   /**
@@ -97,6 +268,7 @@ export class RideDispatchService {
     fuelPreference?: string | null;
     petFriendly?: boolean;
     extraPassengers?: boolean;
+    stops?: DispatchStop[];
   }): Promise<void> {
     const payload: DispatchPayload = {
       rideId: ride.id,
@@ -112,78 +284,67 @@ export class RideDispatchService {
       passengerNote: ride.passengerNote,
       pickupPhotoUrl: ride.pickupPhotoUrl,
       extraPassengers: ride.extraPassengers ?? false,
+      stops: ride.stops ?? [],
     };
 
-    // Use the rider's vehicle type PREFERENCE for matching (not the fare tier).
-    // When the preference is null/undefined, no vehicle type filter is applied,
-    // so any driver (STANDARD, PLUS, VIP) can be matched.
+    // The fare tier decides which vehicles may serve the ride; the rider's
+    // vehicle type PREFERENCE can narrow that (a Standard fare in a Plus car)
+    // but never widen it, so a preference outside the tier is dropped.
+    const tierTypes = vehicleTypesForTier(ride.vehicleType);
+    const preference = ride.vehicleTypePreference ?? null;
     const filters: DriverMatchFilters = {
-      vehicleType: ride.vehicleTypePreference ?? null,
+      vehicleTypes: tierTypes,
+      vehicleType:
+        preference && tierTypes.includes(preference) ? preference : null,
       fuelType: ride.fuelPreference ?? null,
       petFriendly: ride.petFriendly ?? false,
       extraPassengers: ride.extraPassengers ?? false,
     };
 
-    // Seed notified set from DB (restart resilience)
-    const existing = await this.prisma.ride.findUnique({
-      where: { id: ride.id },
-      select: { notifiedDriverIds: true },
-    });
-    const seeded = new Set<string>(existing?.notifiedDriverIds ?? []);
-
-    const dispatch: ActiveDispatch = {
-      timer: null,
-      notifiedDriverIds: seeded,
-      skippedUserIds: new Set<string>(),
+    await this.jobs.create({
+      rideId: ride.id,
       passengerId: ride.passengerId,
-      roundIndex: 0,
-      driverQueue: [],
-      currentDriverIdx: 0,
-      currentDriverUserId: null,
-      payload,
-      pickupLat: ride.pickupLat,
-      pickupLng: ride.pickupLng,
-      filters,
-      startedAt: Date.now(),
-    };
-
-    this.activeDispatches.set(ride.id, dispatch);
+      payload: payload as unknown as Prisma.InputJsonValue,
+      filters: filters as unknown as Prisma.InputJsonValue,
+      phase: 'START_ROUND',
+    });
 
     this.logger.log(
-      `Ride ${ride.id}: dispatch started — fare vehicleType=${ride.vehicleType}, matching filter vehicleType=${filters.vehicleType ?? 'ANY (no filter)'}`,
+      `Ride ${ride.id}: dispatch started — fare vehicleType=${ride.vehicleType}, matching vehicleTypes=${tierTypes.join('|')}, preference=${filters.vehicleType ?? 'ANY (no filter)'}`,
     );
 
-    // Start the first round immediately
-    await this.startRound(ride.id);
+    // Start the first round immediately on this instance
+    await this.runDueJob(ride.id);
   }
 
   /**
    * Mark a driver as having explicitly skipped/rejected this ride.
-   * If that driver is the one currently being waited on, immediately
-   * advance to the next driver in the queue.
+   * If that driver was the last one holding the current offer,
+   * immediately advance to the next driver(s) in the queue.
    */
-  markDriverSkipped(rideId: string, userId: string): void {
-    const dispatch = this.activeDispatches.get(rideId);
-    if (!dispatch) return;
+  async markDriverSkipped(rideId: string, userId: string): Promise<void> {
+    await this.withRun(rideId, undefined, async (run) => {
+      run.skippedUserIds.add(userId);
+      this.logger.log(`Ride ${rideId}: driver ${userId} marked as skipped`);
 
-    dispatch.skippedUserIds.add(userId);
-    this.logger.log(`Ride ${rideId}: driver ${userId} marked as skipped`);
-
-    // If this is the driver we're currently waiting on, skip them immediately
-    if (dispatch.currentDriverUserId === userId) {
-      if (dispatch.timer) clearTimeout(dispatch.timer);
-      dispatch.timer = null;
-      dispatch.currentDriverUserId = null;
+      if (!run.offeredUserIds.delete(userId)) return;
+      run.ackedUserIds.delete(userId);
 
       // Notify the skipped driver that the ride is no longer for them
-      void this.publisher.publish(
+      this.publishAfterCommit(
+        run,
         `driver:private:${userId}`,
         'ride_cancelled',
-        { rideId },
+        {
+          rideId,
+        },
       );
 
-      void this.notifyNextDriver(rideId);
-    }
+      // Nobody left to wait on → skip ahead immediately
+      if (run.offeredUserIds.size === 0) {
+        await this.notifyNextDriver(run);
+      }
+    });
   }
 
   /**
@@ -193,235 +354,842 @@ export class RideDispatchService {
    * was successfully reset, false if the dispatch already moved past
    * this driver.
    */
-  resetDriverTimer(rideId: string, driverUserId: string): boolean {
-    const dispatch = this.activeDispatches.get(rideId);
-    if (!dispatch) return false;
-
-    // Only reset if this driver is still the one being waited on
-    if (dispatch.currentDriverUserId !== driverUserId) {
+  async resetDriverTimer(
+    rideId: string,
+    driverUserId: string,
+  ): Promise<boolean> {
+    return this.withRun(rideId, false, (run) => {
+      // Only reset if this driver is still one being waited on
+      if (!run.offeredUserIds.has(driverUserId)) {
+        this.logger.log(
+          `Ride ${rideId}: acknowledge from ${driverUserId} ignored — ` +
+            `offer is with ${Array.from(run.offeredUserIds).join(', ') || 'none'}`,
+        );
+        return Promise.resolve(false);
+      }
+
+      // Start a fresh 15-second window (for the whole batch)
       this.logger.log(
-        `Ride ${rideId}: acknowledge from ${driverUserId} ignored — ` +
-          `current driver is ${dispatch.currentDriverUserId ?? 'none'}`,
+        `Ride ${rideId}: timer reset for driver ${driverUserId} (fresh ${DRIVER_TIMEOUT_MS / 1000}s)`,
       );
-      return false;
-    }
+      run.ackedUserIds.add(driverUserId);
+      run.nextRunAt = new Date(Date.now() + DRIVER_TIMEOUT_MS);
+      return Promise.resolve(true);
+    });
+  }
 
-    // Clear the old timer and start a fresh 15-second window
-    if (dispatch.timer) clearTimeout(dispatch.timer);
+  /**
+   * Cancel an active dispatch (called when a driver accepts the ride, or
+   * the ride is cancelled). Drops the job and tells every driver still
+   * holding the offer — except `acceptedByUserId` — that the ride is gone,
+   * so it leaves their screen and request queue.
+   */
+  async cancelDispatch(
+    rideId: string,
+    acceptedByUserId?: string,
+  ): Promise<void> {
+    await this.withRun(rideId, undefined, (run) => {
+      run.finished = true;
+
+      for (const userId of run.offeredUserIds) {
+        if (userId === acceptedByUserId) continue;
+        this.publishAfterCommit(
+          run,
+          `driver:private:${userId}`,
+          'ride_cancelled',
+          { rideId },
+        );
+      }
+      return Promise.resolve();
+    });
+  }
 
-    this.logger.log(
-      `Ride ${rideId}: timer reset for driver ${driverUserId} (fresh ${DRIVER_TIMEOUT_MS / 1000}s)`,
-    );
+  // ── Shared rides ───────────────────────────────────────────
 
-    dispatch.timer = setTimeout(() => {
-      dispatch.timer = null;
+  /**
+   * Seat a SHARED booking on a ride that is already under way, when the
+   * driver's remaining route passes near both the new pickup and dropoff
+   * and the detour (measured with the Routes API) stays within
+   * {@link SHARED_MAX_DETOUR_SECONDS}. Returns null when no ride fits — the
+   * caller then books a new SHARED ride and dispatches it as usual.
+   */
+  async attachSharedPassenger(
+    req: SharedSeatRequest,
+  ): Promise<SharedSeat | null> {
+    const rideIds = await this.matching.findSharedRideCandidates(
+      req.pickup.lat,
+      req.pickup.lng,
+      SHARED_SEARCH_RADIUS_M,
+      SHARED_MAX_PASSENGERS,
+      SHARED_MAX_ROUTE_CHECKS * 3,
+    );
+    if (rideIds.length === 0) return null;
+
+    const plans = (
+      await Promise.all(rideIds.map((id) => this.planInsertion(id, req)))
+    )
+      .filter((plan): plan is SharedInsertionPlan => plan !== null)
+      .sort((a, b) => a.extraMeters - b.extraMeters)
+      .slice(0, SHARED_MAX_ROUTE_CHECKS);
+
+    for (const plan of plans) {
+      const detourSeconds = await this.measureDetour(plan);
+      if (detourSeconds === null || detourSeconds > SHARED_MAX_DETOUR_SECONDS) {
+        this.logger.log(
+          `Shared: ride ${plan.rideId} rejected for ${req.passengerId} — detour ${detourSeconds ?? 'unknown'}s`,
+        );
+        continue;
+      }
+
+      const seat = await this.seatPassenger(plan, req, detourSeconds);
+      if (!seat) continue;
 
       this.logger.log(
-        `Ride ${rideId}: driver ${driverUserId} timed out after ${DRIVER_TIMEOUT_MS / 1000}s (reset)`,
+        `Shared: rider ${req.passengerId} seated on ride ${seat.rideId} (+${detourSeconds}s detour)`,
       );
+      await this.publishSharedStops(seat.rideId);
+      await this.notifySharedRider(seat.rideId, req.passengerId);
+      return seat;
+    }
+    return null;
+  }
 
-      void this.publisher.publish(
-        `driver:private:${driverUserId}`,
-        'ride_cancelled',
-        { rideId },
-      );
+  /**
+   * Build the cheapest insertion of the new pickup → dropoff into a host
+   * ride's remaining route, or null when either point is off its corridor.
+   */
+  private async planInsertion(
+    rideId: string,
+    req: SharedSeatRequest,
+  ): Promise<SharedInsertionPlan | null> {
+    const ride = await this.prisma.ride.findUnique({
+      where: { id: rideId },
+      select: {
+        status: true,
+        pickupLat: true,
+        pickupLng: true,
+        dropoffLat: true,
+        dropoffLng: true,
+        stops: {
+          where: { reachedAt: null },
+          orderBy: { sequence: 'asc' },
+          select: { id: true, lat: true, lng: true },
+        },
+        driver: {
+          select: {
+            currentLocation: { select: { latitude: true, longitude: true } },
+          },
+        },
+      },
+    });
+    const location = ride?.driver?.currentLocation;
+    if (!ride?.driver || !location) return null;
+
+    // The lead rider must be picked up before anyone else joins the route
+    const fixed: LatLng[] = [
+      { lat: Number(location.latitude), lng: Number(location.longitude) },
+    ];
+    if (ride.status !== 'IN_PROGRESS') {
+      fixed.push({ lat: Number(ride.pickupLat), lng: Number(ride.pickupLng) });
+    }
+    const stops = ride.stops.map((stop) => ({
+      id: stop.id,
+      lat: Number(stop.lat),
+      lng: Number(stop.lng),
+    }));
+    const destination = {
+      lat: Number(ride.dropoffLat),
+      lng: Number(ride.dropoffLng),
+    };
 
-      void this.penalty.recordRejection(driverUserId);
+    // Route from the last fixed point onwards — where new points may go
+    const open: LatLng[] = [fixed[fixed.length - 1], ...stops, destination];
+    const nearRoute = (p: LatLng) =>
+      open.some(
+        (a, i) =>
+          i < open.length - 1 &&
+          distanceToSegmentMeters(p, a, open[i + 1]) <= SHARED_CORRIDOR_M,
+      );
+    if (!nearRoute(req.pickup) || !nearRoute(req.dropoff)) return null;
+
+    // Gap g sits between open[g] and open[g + 1]; the dropoff can't precede the pickup
+    const current = [...fixed, ...stops, destination];
+    const baseMeters = pathLengthMeters(open);
+    let best: SharedInsertionPlan | null = null;
+    for (let pickupGap = 0; pickupGap < open.length - 1; pickupGap++) {
+      for (
+        let dropoffGap = pickupGap;
+        dropoffGap < open.length - 1;
+        dropoffGap++
+      ) {
+        const order: PlannedStop[] = [];
+        const points: LatLng[] = [open[0]];
+        for (let g = 0; g < open.length - 1; g++) {
+          if (g === pickupGap) {
+            order.push({ kind: 'PICKUP' });
+            points.push(req.pickup);
+          }
+          if (g === dropoffGap) {
+            order.push({ kind: 'DROPOFF' });
+            points.push(req.dropoff);
+          }
+          if (g < stops.length) order.push({ stopId: stops[g].id });
+          points.push(open[g + 1]);
+        }
+
+        const extraMeters = pathLengthMeters(points) - baseMeters;
+        if (best && extraMeters >= best.extraMeters) continue;
+        best = {
+          rideId,
+          current,
+          planned: [...fixed.slice(0, -1), ...points],
+          destination,
+          stopOrder: order,
+          extraMeters,
+        };
+      }
+    }
+    return best;
+  }
 
-      dispatch.currentDriverUserId = null;
-      void this.notifyNextDriver(rideId);
-    }, DRIVER_TIMEOUT_MS);
+  /** Extra drive time (seconds) of the planned route, or null if unroutable. */
+  private async measureDetour(
+    plan: SharedInsertionPlan,
+  ): Promise<number | null> {
+    const route = (points: LatLng[]) =>
+      this.maps.computeRoute(points[0], plan.destination, points.slice(1, -1));
+    try {
+      const [current, planned] = await Promise.all([
+        route(plan.current),
+        route(plan.planned),
+      ]);
+      return Math.max(0, planned.durationSeconds - current.durationSeconds);
+    } catch (error) {
+      this.logger.warn(
+        `Shared: detour check failed for ride ${plan.rideId}: ${String(error)}`,
+      );
+      return null;
+    }
+  }
 
-    return true;
+  /**
+   * Add the rider and their PICKUP / DROPOFF stops to the host ride. The
+   * ride row is locked so two riders can't take the last seat, and the plan
+   * is dropped if the driver reached a stop since it was made.
+   */
+  private async seatPassenger(
+    plan: SharedInsertionPlan,
+    req: SharedSeatRequest,
+    detourSeconds: number,
+  ): Promise<SharedSeat | null> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM ride WHERE id = ${plan.rideId} FOR UPDATE`;
+      const ride = await tx.ride.findUnique({
+        where: { id: plan.rideId },
+        select: {
+          status: true,
+          stops: { orderBy: { sequence: 'asc' } },
+          passengers: {
+            where: { status: { not: 'CANCELLED' } },
+            select: { passengerId: true },
+          },
+        },
+      });
+      if (
+        !ride ||
+        !SHARED_JOINABLE_STATUSES.includes(ride.status) ||
+        ride.passengers.length >= SHARED_MAX_PASSENGERS ||
+        ride.passengers.some((p) => p.passengerId === req.passengerId)
+      ) {
+        return null;
+      }
+
+      const reached = ride.stops.filter((stop) => stop.reachedAt);
+      const unreached = ride.stops.filter((stop) => !stop.reachedAt);
+      const plannedIds = plan.stopOrder.flatMap((entry) =>
+        'stopId' in entry ? [entry.stopId] : [],
+      );
+      if (
+        unreached.length !== plannedIds.length ||
+        unreached.some((stop, i) => stop.id !== plannedIds[i])
+      ) {
+        return null;
+      }
+
+      const passenger = await tx.ridePassenger.create({
+        data: {
+          rideId: plan.rideId,
+          passengerId: req.passengerId,
+          fare: req.fare,
+          currency: req.currency,
+          detourSeconds,
+        },
+      });
+
+      // Reached stops keep their order; the rest follow the plan
+      let sequence = reached.length;
+      for (const entry of plan.stopOrder) {
+        sequence++;
+        if ('stopId' in entry) {
+          await tx.rideStop.update({
+            where: { id: entry.stopId },
+            data: { sequence },
+          });
+        } else {
+          const point = entry.kind === 'PICKUP' ? req.pickup : req.dropoff;
+          await tx.rideStop.create({
+            data: {
+              rideId: plan.rideId,
+              sequence,
+              kind: entry.kind,
+              passengerId: req.passengerId,
+              address: point.address,
+              mainText: point.mainText,
+              lat: point.lat,
+              lng: point.lng,
+            },
+          });
+        }
+      }
+
+      // The driver collects every rider's split fare
+      await tx.ride.update({
+        where: { id: plan.rideId },
+        data: {
+          totalFare: { increment: req.fare },
+          quotedFare: { increment: req.fare },
+        },
+      });
+
+      return {
+        rideId: plan.rideId,
+        status: passenger.status,
+        detourSeconds,
+      };
+    });
   }
 
   /**
-   * Cancel an active dispatch (called when a driver accepts the ride).
-   * Clears the pending timer and notifies only the currently-waiting
-   * driver (if different from the one who accepted) that the ride is gone.
+   * Release a joined rider's seat before pickup: their unreached stops are
+   * removed, the rest resequenced and their share taken off the ride fare.
+   * Returns false when they hold no cancellable seat on the ride.
    */
-  cancelDispatch(rideId: string): void {
-    const dispatch = this.activeDispatches.get(rideId);
-    if (!dispatch) return;
+  async releaseSharedSeat(
+    rideId: string,
+    passengerId: string,
+  ): Promise<boolean> {
+    const released = await this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM ride WHERE id = ${rideId} FOR UPDATE`;
+      const seat = await tx.ridePassenger.findUnique({
+        where: { rideId_passengerId: { rideId, passengerId } },
+      });
+      if (!seat || seat.isLead || seat.status !== 'BOOKED') return false;
+
+      await tx.ridePassenger.update({
+        where: { id: seat.id },
+        data: { status: 'CANCELLED', cancelledAt: new Date() },
+      });
+      await tx.rideStop.deleteMany({
+        where: { rideId, passengerId, reachedAt: null },
+      });
+
+      const stops = await tx.rideStop.findMany({
+        where: { rideId },
+        orderBy: { sequence: 'asc' },
+        select: { id: true, sequence: true },
+      });
+      for (const [i, stop] of stops.entries()) {
+        if (stop.sequence === i + 1) continue;
+        await tx.rideStop.update({
+          where: { id: stop.id },
+          data: { sequence: i + 1 },
+        });
+      }
+
+      await tx.ride.update({
+        where: { id: rideId },
+        data: {
+          totalFare: { decrement: seat.fare },
+          quotedFare: { decrement: seat.fare },
+        },
+      });
+      return true;
+    });
 
-    if (dispatch.timer) clearTimeout(dispatch.timer);
-    this.activeDispatches.delete(rideId);
+    if (released) {
+      this.logger.log(`Shared: rider ${passengerId} left ride ${rideId}`);
+      await this.publishSharedStops(rideId);
+    }
+    return released;
+  }
 
-    // Notify the currently-waiting driver (if any) that the ride was taken
-    if (dispatch.currentDriverUserId) {
-      void this.publisher.publish(
-        `driver:private:${dispatch.currentDriverUserId}`,
-        'ride_cancelled',
-        { rideId },
-      );
+  /** Push a shared ride's current stop list and fare to its driver. */
+  async publishSharedStops(rideId: string): Promise<void> {
+    const ride = await this.prisma.ride.findUnique({
+      where: { id: rideId },
+      include: {
+        stops: { orderBy: { sequence: 'asc' } },
+        passengers: {
+          where: { status: { not: 'CANCELLED' } },
+          include: { passenger: { select: { name: true } } },
+        },
+        driver: { select: { userId: true } },
+      },
+    });
+    if (!ride?.driver) return;
+
+    const names = new Map(
+      ride.passengers.map((p) => [p.passengerId, p.passenger.name]),
+    );
+    await this.publisher.publish(
+      `driver:private:${ride.driver.userId}`,
+      'ride_stops_updated',
+      {
+        rideId: ride.id,
+        totalFare: Number(ride.totalFare),
+        currency: ride.currency,
+        stops: ride.stops.map((stop) => ({
+          id: stop.id,
+          sequence: stop.sequence,
+          kind: stop.kind,
+          passengerId: stop.passengerId,
+          passengerName: stop.passengerId
+            ? (names.get(stop.passengerId) ?? null)
+            : null,
+          address: stop.address,
+          mainText: stop.mainText,
+          lat: Number(stop.lat),
+          lng: Number(stop.lng),
+          reachedAt: stop.reachedAt,
+        })),
+      },
+    );
+  }
+
+  /** Tell a newly seated rider who their driver is. */
+  private async notifySharedRider(
+    rideId: string,
+    passengerId: string,
+  ): Promise<void> {
+    const ride = await this.prisma.ride.findUniqueOrThrow({
+      where: { id: rideId },
+      select: {
+        id: true,
+        driverId: true,
+        driver: {
+          select: {
+            user: { select: { name: true } },
+            currentLocation: {
+              select: { latitude: true, longitude: true, heading: true },
+            },
+          },
+        },
+      },
+    });
+
+    const location = ride.driver?.currentLocation;
+    await this.publisher.publish(`rider:${passengerId}`, 'ride_accepted', {
+      rideId: ride.id,
+      driverId: ride.driverId,
+      driverName: ride.driver?.user?.name ?? 'Driver',
+      driverLocation: location
+        ? {
+            latitude: Number(location.latitude),
+            longitude: Number(location.longitude),
+            heading: location.heading ? Number(location.heading) : null,
+          }
+        : null,
+      shared: true,
+    });
+  }
+
+  // ── Job polling ────────────────────────────────────────────
+
+  /** Claim and run due jobs owned by (or orphaned to) this instance. */
+  @Interval(POLL_INTERVAL_MS)
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const rideIds = await this.jobs.claimDue(POLL_BATCH_SIZE);
+      for (const rideId of rideIds) {
+        try {
+          await this.runDueJob(rideId);
+        } catch (err) {
+          this.logger.error(`Ride ${rideId}: dispatch step failed`, err);
+        }
+      }
+    } catch (err) {
+      this.logger.error('Dispatch poll failed', err);
+    } finally {
+      this.polling = false;
     }
   }
 
+  @Interval(LEASE_RENEW_MS)
+  async renewLeases(): Promise<void> {
+    try {
+      await this.jobs.renewLeases();
+    } catch (err) {
+      this.logger.warn(`Failed to renew dispatch leases: ${err}`);
+    }
+  }
+
+  /** Advance a job whose `nextRunAt` has passed, according to its phase. */
+  private async runDueJob(rideId: string): Promise<void> {
+    // The driver search (ETA ranking calls the Routes API) runs before the
+    // lock; the round only starts if the job is still on that round
+    const candidates = await this.findRoundCandidates(rideId);
+
+    await this.withRun(rideId, undefined, async (run) => {
+      // Another instance may have advanced the job since it was claimed
+      if (run.nextRunAt.getTime() > Date.now()) return;
+
+      switch (run.phase) {
+        case 'START_ROUND':
+        case 'RETRY_WAIT':
+          // Left due, so the next poll searches again for the current round
+          if (candidates?.roundIndex !== run.roundIndex) return;
+          await this.startRound(run, candidates.drivers);
+          return;
+        case 'AWAITING_DRIVER':
+          await this.handleDriverTimeout(run);
+          return;
+      }
+    });
+  }
+
+  /**
+   * Fetch the priority-sorted drivers for the round a job is about to start,
+   * or null when it is waiting on a driver instead. Reads the job without
+   * its lock, so the result is checked again once the lock is held.
+   */
+  private async findRoundCandidates(
+    rideId: string,
+  ): Promise<RoundCandidates | null> {
+    const job = await this.prisma.dispatchJob.findUnique({
+      where: { rideId },
+      select: { phase: true, roundIndex: true, payload: true, filters: true },
+    });
+    if (!job || job.phase === 'AWAITING_DRIVER') return null;
+
+    const roundCfg = this.cache.getDispatchRounds()[job.roundIndex];
+    if (!roundCfg) return { roundIndex: job.roundIndex, drivers: [] };
+
+    const payload = job.payload as unknown as DispatchPayload;
+    const drivers = await this.matching.findDispatchCandidates(
+      payload.pickupLat,
+      payload.pickupLng,
+      roundCfg.radiusMeters,
+      // fetch more than we need so we have backup after filtering
+      roundCfg.mode === 'BROADCAST' ? BROADCAST_DRIVER_LIMIT : 10,
+      job.filters as unknown as DriverMatchFilters,
+    );
+    return { roundIndex: job.roundIndex, drivers };
+  }
+
   // ── Private helpers ────────────────────────────────────────
 
   /**
-   * Start a new dispatch round: fetch eligible drivers for this round's
-   * radius, filter out already-notified/skipped ones, then begin the
-   * sequential notification waterfall.
+   * Lock a ride's dispatch job, load it into a {@link DispatchRun}, apply
+   * `fn`, then save (or delete, once finished) the job. Returns `fallback`
+   * when there is no active dispatch for the ride.
    */
-  private async startRound(rideId: string): Promise<void> {
-    const dispatch = this.activeDispatches.get(rideId);
-    if (!dispatch) return;
+  private async withRun<T>(
+    rideId: string,
+    fallback: T,
+    fn: (run: DispatchRun) => Promise<T>,
+  ): Promise<T> {
+    const afterCommit: DispatchRun['afterCommit'] = [];
+
+    const result = await this.jobs.withLock(rideId, async (tx, job) => {
+      if (!job) return fallback;
+
+      const ride = await tx.ride.findUnique({
+        where: { id: rideId },
+        select: { notifiedDriverIds: true },
+      });
+      const run = this.toRun(tx, job, ride?.notifiedDriverIds ?? []);
+      run.afterCommit = afterCommit;
+      const notifiedBefore = run.notifiedDriverIds.size;
+
+      const out = await fn(run);
+
+      if (run.finished) {
+        await tx.dispatchJob.delete({ where: { rideId } });
+      } else {
+        await tx.dispatchJob.update({
+          where: { rideId },
+          data: {
+            phase: run.phase,
+            roundIndex: run.roundIndex,
+            driverQueue: run.driverQueue as unknown as Prisma.InputJsonValue,
+            currentDriverIdx: run.currentDriverIdx,
+            offeredUserIds: Array.from(run.offeredUserIds),
+            ackedUserIds: Array.from(run.ackedUserIds),
+            skippedUserIds: Array.from(run.skippedUserIds),
+            nextRunAt: run.nextRunAt,
+            // Whoever last advanced the job owns its next timer
+            ...this.jobs.ownership(),
+          },
+        });
+      }
+
+      // Persist notifiedDriverIds on the ride (restart resilience)
+      if (ride && run.notifiedDriverIds.size !== notifiedBefore) {
+        await tx.ride.update({
+          where: { id: rideId },
+          data: { notifiedDriverIds: Array.from(run.notifiedDriverIds) },
+        });
+      }
+
+      return out;
+    });
+
+    for (const task of afterCommit) await task();
+    return result;
+  }
 
+  private toRun(
+    tx: Prisma.TransactionClient,
+    job: DispatchJob,
+    notifiedDriverIds: string[],
+  ): DispatchRun {
+    return {
+      tx,
+      rideId: job.rideId,
+      passengerId: job.passengerId,
+      payload: job.payload as unknown as DispatchPayload,
+      filters: job.filters as unknown as DriverMatchFilters,
+      phase: job.phase,
+      roundIndex: job.roundIndex,
+      driverQueue: job.driverQueue as unknown as QueuedDriver[],
+      currentDriverIdx: job.currentDriverIdx,
+      offeredUserIds: new Set(job.offeredUserIds),
+      ackedUserIds: new Set(job.ackedUserIds),
+      notifiedDriverIds: new Set(notifiedDriverIds),
+      skippedUserIds: new Set(job.skippedUserIds),
+      nextRunAt: job.nextRunAt,
+      startedAt: job.startedAt,
+      finished: false,
+      afterCommit: [],
+    };
+  }
+
+  /**
+   * Queue a realtime event until the lock transaction commits, so a rollback
+   * never leaves drivers holding an offer the job has no record of.
+   */
+  private publishAfterCommit(
+    run: DispatchRun,
+    channel: string,
+    event: string,
+    data: unknown,
+  ): void {
+    run.afterCommit.push(() => this.publisher.publish(channel, event, data));
+  }
+
+  private async isRidePending(run: DispatchRun): Promise<boolean> {
+    const ride = await run.tx.ride.findUnique({
+      where: { id: run.rideId },
+      select: { status: true },
+    });
+    return ride?.status === 'PENDING';
+  }
+
+  /**
+   * Start a new dispatch round with the drivers found for it, minus those
+   * already notified or skipped, then begin offering the ride according to
+   * the round's mode.
+   */
+  private async startRound(
+    run: DispatchRun,
+    allDrivers: NearbyDriver[],
+  ): Promise<void> {
+    const { rideId } = run;
     const rounds = this.cache.getDispatchRounds();
-    const roundCfg = rounds[dispatch.roundIndex];
+    const roundCfg = rounds[run.roundIndex];
     if (!roundCfg) {
-      await this.handleAllRoundsExhausted(rideId);
+      this.handleAllRoundsExhausted(run);
       return;
     }
 
     // Check that ride is still PENDING
-    const ride = await this.prisma.ride.findUnique({
-      where: { id: rideId },
-      select: { status: true },
-    });
-
-    if (!ride || ride.status !== 'PENDING') {
-      this.activeDispatches.delete(rideId);
+    if (!(await this.isRidePending(run))) {
+      run.finished = true;
       return;
     }
 
     this.logger.log(
-      `Ride ${rideId}: starting round ${dispatch.roundIndex + 1}/${rounds.length} ` +
-        `(radius ${roundCfg.radiusMeters}m)`,
-    );
-
-    // Fetch priority-sorted eligible drivers
-    const allDrivers = await this.matching.findNearbyDrivers(
-      dispatch.pickupLat,
-      dispatch.pickupLng,
-      roundCfg.radiusMeters,
-      10, // fetch more than we need so we have backup after filtering
-      dispatch.filters,
+      `Ride ${rideId}: starting round ${run.roundIndex + 1}/${rounds.length} ` +
+        `(radius ${roundCfg.radiusMeters}m, ${roundCfg.mode})`,
     );
 
     // Filter out drivers already notified or skipped
     const eligible = allDrivers.filter(
       (d) =>
-        !dispatch.notifiedDriverIds.has(d.userId) &&
-        !dispatch.skippedUserIds.has(d.userId),
+        !run.notifiedDriverIds.has(d.userId) &&
+        !run.skippedUserIds.has(d.userId),
     );
 
     this.logger.log(
-      `Ride ${rideId}: round ${dispatch.roundIndex + 1} found ${allDrivers.length} driver(s), ` +
+      `Ride ${rideId}: round ${run.roundIndex + 1} found ${allDrivers.length} driver(s), ` +
         `${eligible.length} eligible after filtering`,
     );
 
-    dispatch.driverQueue = eligible;
-    dispatch.currentDriverIdx = 0;
-    dispatch.currentDriverUserId = null;
+    run.driverQueue = eligible.map(({ userId, driverName, isVip }) => ({
+      userId,
+      driverName,
+      isVip,
+    }));
+    run.currentDriverIdx = 0;
+    run.offeredUserIds.clear();
+    run.ackedUserIds.clear();
+
+    // Begin offering for this round
+    await this.notifyNextDriver(run);
+  }
 
-    // Begin the sequential waterfall for this round
-    await this.notifyNextDriver(rideId);
+  /** How many drivers the current round offers the ride to at once. */
+  private offerSize(run: DispatchRun): number {
+    const roundCfg = this.cache.getDispatchRounds()[run.roundIndex];
+    switch (roundCfg?.mode) {
+      case 'TOP_N':
+        return roundCfg.batchSize;
+      case 'BROADCAST':
+        return run.driverQueue.length;
+      default:
+        return 1;
+    }
   }
 
   /**
-   * Core sequential logic: notify the next driver in the queue, or
-   * advance to the next round if all drivers in this round are exhausted.
+   * Core dispatch logic: offer the ride to the next driver (SEQUENTIAL) or
+   * next batch of drivers (TOP_N / BROADCAST) in the queue, or advance to
+   * the next round if all drivers in this round are exhausted. When several
+   * drivers hold the offer, the first accept wins via the guarded
+   * PENDING → ACCEPTED transition and the rest get `ride_cancelled`.
    */
-  private async notifyNextDriver(rideId: string): Promise<void> {
-    const dispatch = this.activeDispatches.get(rideId);
-    if (!dispatch) return;
-
-    // ── All drivers in this round exhausted → next round ──
-    if (dispatch.currentDriverIdx >= dispatch.driverQueue.length) {
-      dispatch.roundIndex++;
-      await this.startRound(rideId);
-      return;
-    }
+  private async notifyNextDriver(run: DispatchRun): Promise<void> {
+    const { rideId } = run;
 
     // ── Re-check ride is still PENDING ──
-    const ride = await this.prisma.ride.findUnique({
-      where: { id: rideId },
-      select: { status: true },
-    });
-    if (!ride || ride.status !== 'PENDING') {
-      this.activeDispatches.delete(rideId);
+    if (!(await this.isRidePending(run))) {
+      run.finished = true;
       return;
     }
 
-    // ── Pick the next driver ──
-    const driver = dispatch.driverQueue[dispatch.currentDriverIdx];
-    dispatch.currentDriverIdx++;
-
-    // Double-check they haven't been skipped/notified in the meantime
-    if (
-      dispatch.skippedUserIds.has(driver.userId) ||
-      dispatch.notifiedDriverIds.has(driver.userId)
+    // ── Pick the next driver(s), skipping any skipped/notified meanwhile ──
+    const limit = this.offerSize(run);
+    const batch: QueuedDriver[] = [];
+    while (
+      batch.length < limit &&
+      run.currentDriverIdx < run.driverQueue.length
     ) {
-      // Skip and try the next one immediately (no await needed for recursion safety)
-      void this.notifyNextDriver(rideId);
+      const driver = run.driverQueue[run.currentDriverIdx];
+      run.currentDriverIdx++;
+      if (
+        run.skippedUserIds.has(driver.userId) ||
+        run.notifiedDriverIds.has(driver.userId)
+      ) {
+        continue;
+      }
+      batch.push(driver);
+    }
+
+    // ── All drivers in this round exhausted → next round ──
+    if (batch.length === 0) {
+      run.roundIndex++;
+      run.phase = 'START_ROUND';
+      run.nextRunAt = new Date();
+      // Its driver search runs once the lock is released
+      run.afterCommit.push(() =>
+        this.runDueJob(rideId).catch((err) =>
+          this.logger.error(`Ride ${rideId}: dispatch step failed`, err),
+        ),
+      );
       return;
     }
 
-    this.logger.log(
-      `Ride ${rideId}: notifying driver ${driver.userId} (${driver.driverName})` +
-        `${driver.isVip ? ' [VIP]' : ''}`,
-    );
+    for (const driver of batch) {
+      this.logger.log(
+        `Ride ${rideId}: notifying driver ${driver.userId} (${driver.driverName})` +
+          `${driver.isVip ? ' [VIP]' : ''}`,
+      );
 
-    // 1. Send ride request to the driver
-    await this.publisher.publish(
-      `driver:private:${driver.userId}`,
-      'new_ride_request',
-      dispatch.payload,
-    );
+      // 1. Send ride request to the driver
+      this.publishAfterCommit(
+        run,
+        `driver:private:${driver.userId}`,
+        'new_ride_request',
+        run.payload,
+      );
+    }
 
-    // 2. Notify the rider about the current driver being contacted
+    // 2. Notify the rider about the (best-ranked) driver being contacted
     //    NOTE: VIP status is intentionally hidden from riders.
-    await this.publisher.publish(
-      `rider:${dispatch.passengerId}`,
+    this.publishAfterCommit(
+      run,
+      `rider:${run.passengerId}`,
       'dispatch_progress',
       {
         rideId,
-        driverName: driver.driverName,
+        driverName: batch[0].driverName,
+        driverCount: batch.length,
       },
     );
 
-    // 3. Track the notification
-    dispatch.currentDriverUserId = driver.userId;
-    dispatch.notifiedDriverIds.add(driver.userId);
+    // 3. Track the notification (notifiedDriverIds is persisted on release)
+    run.offeredUserIds = new Set(batch.map((d) => d.userId));
+    run.ackedUserIds.clear();
+    for (const driver of batch) run.notifiedDriverIds.add(driver.userId);
 
-    // 4. Persist notifiedDriverIds to DB
-    const allIds = Array.from(dispatch.notifiedDriverIds);
-    void this.prisma.ride
-      .update({
-        where: { id: rideId },
-        data: { notifiedDriverIds: allIds },
-      })
-      .catch((err: unknown) =>
-        this.logger.warn(
-          `Failed to persist notifiedDriverIds for ride ${rideId}: ${err}`,
-        ),
-      );
+    // 4. Start the 15-second timeout
+    run.phase = 'AWAITING_DRIVER';
+    run.nextRunAt = new Date(Date.now() + DRIVER_TIMEOUT_MS);
+  }
 
-    // 5. Start the 15-second timeout
-    //    NOTE: We intentionally do NOT send ride_cancelled to the driver on
-    //    timeout. The driver app has its own 15-second countdown that handles
-    //    dismissal via skipRide(). Sending ride_cancelled here would destroy
-    //    queued requests from other dispatch pipelines that the driver hasn't
-    //    seen yet (both timers fire at ~T=15s, the first promotes the queued
-    //    request, the second immediately kills it).
-    dispatch.timer = setTimeout(() => {
-      dispatch.timer = null;
+  /** The driver(s) holding the offer let the 15-second window run out. */
+  private async handleDriverTimeout(run: DispatchRun): Promise<void> {
+    // In a batch, silence just means someone else may take it — only a
+    // one-to-one offer counts against the driver.
+    const soleOffer = run.offeredUserIds.size === 1;
 
+    for (const driverUserId of run.offeredUserIds) {
+      const acked = run.ackedUserIds.has(driverUserId);
       this.logger.log(
-        `Ride ${rideId}: driver ${driver.userId} timed out after ${DRIVER_TIMEOUT_MS / 1000}s`,
+        `Ride ${run.rideId}: driver ${driverUserId} timed out after ${DRIVER_TIMEOUT_MS / 1000}s` +
+          `${acked ? ' (reset)' : ''}`,
       );
 
+      // NOTE: We intentionally do NOT send ride_cancelled to the driver on a
+      // plain timeout. The driver app has its own 15-second countdown that
+      // handles dismissal via skipRide(). Sending ride_cancelled here would
+      // destroy queued requests from other dispatch pipelines that the driver
+      // hasn't seen yet (both timers fire at ~T=15s, the first promotes the
+      // queued request, the second immediately kills it). Once the driver
+      // has acknowledged the request it is on screen, so it is safe to close.
+      if (acked) {
+        this.publishAfterCommit(
+          run,
+          `driver:private:${driverUserId}`,
+          'ride_cancelled',
+          { rideId: run.rideId },
+        );
+      }
+
       // Timeout counts as a rejection for non-VIP penalty tracking.
       // VIP drivers are exempt (checked inside recordRejection).
-      void this.penalty.recordRejection(driver.userId);
+      if (soleOffer) {
+        run.afterCommit.push(() => this.penalty.recordRejection(driverUserId));
+      }
+    }
 
-      dispatch.currentDriverUserId = null;
+    run.offeredUserIds.clear();
+    run.ackedUserIds.clear();
 
-      // Move to the next driver
-      void this.notifyNextDriver(rideId);
-    }, DRIVER_TIMEOUT_MS);
+    // Move to the next driver(s)
+    await this.notifyNextDriver(run);
   }
 
   /**
@@ -429,11 +1197,9 @@ export class RideDispatchService {
    * If within the 2-minute window, reset and retry from round 1.
    * If 2 minutes have elapsed, give up and notify the rider.
    */
-  private async handleAllRoundsExhausted(rideId: string): Promise<void> {
-    const dispatch = this.activeDispatches.get(rideId);
-    if (!dispatch) return;
-
-    const elapsed = Date.now() - dispatch.startedAt;
+  private handleAllRoundsExhausted(run: DispatchRun): void {
+    const { rideId } = run;
+    const elapsed = Date.now() - run.startedAt.getTime();
 
     // ── Still within the 2-minute window → retry ──
     if (elapsed < MAX_DISPATCH_DURATION_MS) {
@@ -446,46 +1212,72 @@ export class RideDispatchService {
       // Keep both notifiedDriverIds and skippedUserIds intact so drivers
       // who already saw this ride are never re-notified. The retry only
       // picks up NEW drivers who came online or entered the search radius.
-      dispatch.roundIndex = 0;
+      run.roundIndex = 0;
+      run.offeredUserIds.clear();
+      run.ackedUserIds.clear();
 
       // Tell the rider to clear the stale "Contacting X" display
-      void this.publisher.publish(
-        `rider:${dispatch.passengerId}`,
+      this.publishAfterCommit(
+        run,
+        `rider:${run.passengerId}`,
         'dispatch_waiting',
-        { rideId },
+        {
+          rideId,
+        },
       );
 
       // Wait before retrying to avoid spamming drivers immediately
-      dispatch.timer = setTimeout(() => {
-        dispatch.timer = null;
-        void this.startRound(rideId);
-      }, RETRY_DELAY_MS);
-
+      run.phase = 'RETRY_WAIT';
+      run.nextRunAt = new Date(Date.now() + RETRY_DELAY_MS);
       return;
     }
 
     // ── 2 minutes exceeded → give up ──
-    this.activeDispatches.delete(rideId);
+    run.finished = true;
+    const notifiedDrivers = run.notifiedDriverIds.size;
 
-    const ride = await this.prisma.ride.findUnique({
-      where: { id: rideId },
-      select: { status: true, passengerId: true },
-    });
+    // The ride transition takes its own row locks, so run it after the
+    // dispatch lock transaction has committed.
+    run.afterCommit.push(async () => {
+      const ride = await this.prisma.ride.findUnique({
+        where: { id: rideId },
+        select: { status: true, passengerId: true },
+      });
 
-    if (!ride || ride.status !== 'PENDING') return;
+      if (!ride || ride.status !== 'PENDING') return;
 
-    this.logger.warn(
-      `Ride ${rideId}: no driver found after ${Math.round(elapsed / 1000)}s — giving up`,
-    );
-
-    await this.prisma.ride.update({
-      where: { id: rideId },
-      data: { status: 'CANCELLED', cancelledAt: new Date() },
-    });
+      this.logger.warn(
+        `Ride ${rideId}: no driver found after ${Math.round(elapsed / 1000)}s — giving up`,
+      );
 
-    const passengerId = dispatch.passengerId ?? ride.passengerId;
-    await this.publisher.publish(`rider:${passengerId}`, 'no_driver_found', {
-      rideId,
+      try {
+        await this.rideState.transition({
+          rideId,
+          to: 'CANCELLED',
+          actor: { type: 'SYSTEM', userId: null },
+          from: ['PENDING'],
+          data: {
+            cancellationReason: 'NO_DRIVERS_AVAILABLE',
+            cancelledAt: new Date(),
+          },
+          metadata: {
+            reason: 'NO_DRIVERS_AVAILABLE',
+            elapsedMs: elapsed,
+            notifiedDrivers,
+          },
+          onTransition: (tx) => this.promos.release(tx, rideId),
+        });
+      } catch (err) {
+        // A driver accepted (or the rider cancelled) in the meantime
+        if (err instanceof ConflictException) return;
+        throw err;
+      }
+
+      await this.publisher.publish(
+        `rider:${ride.passengerId}`,
+        'no_driver_found',
+        { rideId },
+      );
     });
   }
 }
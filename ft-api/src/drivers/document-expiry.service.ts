@@ -0,0 +1,212 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { PrismaService } from '../prisma.service.js';
+import { DriverStatusService } from '../dispatch/driver-status.service.js';
+import { RealtimeGateway } from '../realtime/realtime-gateway.js';
+import { sendDocumentExpiryEmail } from '../lib/email.js';
+import {
+  EXPIRING_DOCUMENT_LABELS,
+  EXPIRING_SOON_DAYS,
+  expiringSoon,
+  warningThreshold,
+  type DocumentExpiry,
+} from './document-expiry.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Reason stored on drivers suspended by this job. */
+export const DOCUMENT_EXPIRED_REASON = 'DOCUMENT_EXPIRED';
+
+interface ExpiringDriver {
+  id: string;
+  userId: string;
+  status: string;
+  user: { name: string; email: string };
+}
+
+/**
+ * Daily check of driver licence and vehicle registration / insurance expiry.
+ *
+ * Drivers are warned by email and in-app (`document_expiry_warning` on their
+ * private channel) 30, 7 and 1 days ahead. Once a document lapses an
+ * approved driver is taken offline and SUSPENDED, which blocks going online
+ * until an admin re-approves them.
+ */
+@Injectable()
+export class DocumentExpiryService {
+  private readonly logger = new Logger(DocumentExpiryService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly driverStatus: DriverStatusService,
+    private readonly publisher: RealtimeGateway,
+  ) {}
+
+  // ── Daily Cron ─────────────────────────────────────────────
+
+  @Cron('0 0 * * *')
+  async checkDocumentExpiry(): Promise<void> {
+    try {
+      const now = new Date();
+      const horizon = new Date(now.getTime() + EXPIRING_SOON_DAYS * DAY_MS);
+      const drivers = await this.prisma.driver.findMany({
+        where: {
+          approvalStatus: 'APPROVED',
+          OR: [
+            { licenseExpiry: { lte: horizon } },
+            { vehicle: { registrationExpiry: { lte: horizon } } },
+            { vehicle: { insuranceExpiry: { lte: horizon } } },
+          ],
+        },
+        select: {
+          id: true,
+          userId: true,
+          status: true,
+          licenseExpiry: true,
+          vehicle: {
+            select: { registrationExpiry: true, insuranceExpiry: true },
+          },
+          user: { select: { name: true, email: true } },
+        },
+      });
+
+      let warned = 0;
+      let suspended = 0;
+      for (const driver of drivers) {
+        const expiries = expiringSoon(driver, now);
+        const expired = expiries.filter((e) => e.daysLeft <= 0);
+        try {
+          if (expired.length > 0) {
+            await this.suspend(driver, expired);
+            suspended++;
+          } else if (await this.warn(driver, expiries)) {
+            warned++;
+          }
+        } catch (err: unknown) {
+          this.logger.error(
+            `Document expiry check failed for driver ${driver.id}: ${String(err)}`,
+          );
+        }
+      }
+
+      this.logger.log(
+        `Document expiry: ${drivers.length} driver(s) checked, ${warned} warned, ${suspended} suspended`,
+      );
+    } catch (err: unknown) {
+      this.logger.error(`Daily document expiry check failed: ${String(err)}`);
+    }
+  }
+
+  /** Send the 30/7/1-day warnings that haven't gone out yet. */
+  private async warn(
+    driver: ExpiringDriver,
+    expiries: DocumentExpiry[],
+  ): Promise<boolean> {
+    const due = expiries.flatMap((e) => {
+      const thresholdDays = warningThreshold(e.daysLeft);
+      return thresholdDays === null ? [] : [{ ...e, thresholdDays }];
+    });
+    if (due.length === 0) return false;
+
+    const sent = await this.prisma.documentExpiryNotice.findMany({
+      where: {
+        driverId: driver.id,
+        OR: due.map((d) => ({
+          document: d.document,
+          expiresAt: d.expiresAt,
+          thresholdDays: d.thresholdDays,
+        })),
+      },
+      select: { document: true },
+    });
+    const pending = due.filter(
+      (d) => !sent.some((s) => s.document === d.document),
+    );
+    if (pending.length === 0) return false;
+
+    await this.prisma.documentExpiryNotice.createMany({
+      data: pending.map((d) => ({
+        driverId: driver.id,
+        document: d.document,
+        expiresAt: d.expiresAt,
+        thresholdDays: d.thresholdDays,
+      })),
+      skipDuplicates: true,
+    });
+    await this.notify(driver, pending, false);
+    return true;
+  }
+
+  /** Take the driver offline and suspend them for the lapsed documents. */
+  private async suspend(
+    driver: ExpiringDriver,
+    expired: DocumentExpiry[],
+  ): Promise<void> {
+    // Offline first — presence updates are skipped for non-approved drivers.
+    // A driver mid-trip finishes it; they just can't go online afterwards.
+    if (driver.status === 'ONLINE') {
+      await this.driverStatus.setStatusByUserId(driver.userId, 'OFFLINE');
+    }
+
+    const { count } = await this.prisma.driver.updateMany({
+      where: { id: driver.id, approvalStatus: 'APPROVED' },
+      data: {
+        approvalStatus: 'SUSPENDED',
+        suspensionReason: DOCUMENT_EXPIRED_REASON,
+      },
+    });
+    if (count === 0) return;
+
+    await this.prisma.documentExpiryNotice.createMany({
+      data: expired.map((e) => ({
+        driverId: driver.id,
+        document: e.document,
+        expiresAt: e.expiresAt,
+        thresholdDays: 0,
+      })),
+      skipDuplicates: true,
+    });
+    await this.notify(driver, expired, true);
+
+    this.logger.warn(
+      `Driver ${driver.id} suspended — expired: ${expired.map((e) => e.document).join(', ')}`,
+    );
+  }
+
+  /** Email + in-app notice. Delivery failures are logged, not retried. */
+  private async notify(
+    driver: ExpiringDriver,
+    documents: DocumentExpiry[],
+    suspended: boolean,
+  ): Promise<void> {
+    await this.publisher.publish(
+      `driver:private:${driver.userId}`,
+      'document_expiry_warning',
+      {
+        suspended,
+        documents: documents.map((d) => ({
+          document: d.document,
+          expiresAt: d.expiresAt.toISOString(),
+          daysLeft: Math.max(0, d.daysLeft),
+        })),
+      },
+    );
+
+    try {
+      await sendDocumentExpiryEmail({
+        to: driver.user.email,
+        userName: driver.user.name,
+        documents: documents.map((d) => ({
+          label: EXPIRING_DOCUMENT_LABELS[d.document],
+          expiresAt: d.expiresAt,
+          daysLeft: d.daysLeft,
+        })),
+        suspended,
+      });
+    } catch (err: unknown) {
+      this.logger.error(
+        `Document expiry email to driver ${driver.id} failed: ${String(err)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import type { ExpiringDocument } from '../generated/prisma/enums.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days before expiry that a driver is warned — largest first. */
+export const EXPIRY_WARNING_DAYS = [30, 7, 1] as const;
+
+/** Anything expiring within this many days counts as "expiring soon". */
+export const EXPIRING_SOON_DAYS = EXPIRY_WARNING_DAYS[0];
+
+/** Human labels used in emails and logs. */
+export const EXPIRING_DOCUMENT_LABELS: Record<ExpiringDocument, string> = {
+  DRIVER_LICENSE: 'Driving licence',
+  VEHICLE_REGISTRATION: 'Vehicle registration',
+  VEHICLE_INSURANCE: 'Vehicle insurance',
+};
+
+export interface DocumentExpiry {
+  document: ExpiringDocument;
+  expiresAt: Date;
+  /** Whole days left, rounded up; 0 or less once expired. */
+  daysLeft: number;
+}
+
+interface ExpiryDates {
+  licenseExpiry: Date | null;
+  vehicle: {
+    registrationExpiry: Date | null;
+    insuranceExpiry: Date | null;
+  } | null;
+}
+
+/** Every dated document of a driver with its days left, soonest first. */
+export function documentExpiries(
+  driver: ExpiryDates,
+  now = new Date(),
+): DocumentExpiry[] {
+  const dates: [ExpiringDocument, Date | null | undefined][] = [
+    ['DRIVER_LICENSE', driver.licenseExpiry],
+    ['VEHICLE_REGISTRATION', driver.vehicle?.registrationExpiry],
+    ['VEHICLE_INSURANCE', driver.vehicle?.insuranceExpiry],
+  ];
+  return dates
+    .filter((entry): entry is [ExpiringDocument, Date] => !!entry[1])
+    .map(([document, expiresAt]) => ({
+      document,
+      expiresAt,
+      daysLeft: Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS),
+    }))
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+}
+
+/** Documents already expired or due within {@link EXPIRING_SOON_DAYS}. */
+export function expiringSoon(
+  driver: ExpiryDates,
+  now = new Date(),
+): DocumentExpiry[] {
+  return documentExpiries(driver, now).filter(
+    (e) => e.daysLeft <= EXPIRING_SOON_DAYS,
+  );
+}
+
+/**
+ * The warning a document is due for: the smallest threshold it has
+ * reached (1 day, then 7, then 30), or null if it's further out.
+ */
+export function warningThreshold(daysLeft: number): number | null {
+  const reached = EXPIRY_WARNING_DAYS.filter((days) => daysLeft <= days);
+  return reached.length > 0 ? reached[reached.length - 1] : null;
+}
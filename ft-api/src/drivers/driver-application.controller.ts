@@ -0,0 +1,92 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  Post,
+  Put,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Session, type UserSession } from '@thallesp/nestjs-better-auth';
+import {
+  DriverApplicationService,
+  type ApplicationDetailsInput,
+} from './driver-application.service.js';
+import {
+  DRIVER_DOCUMENT_TYPES,
+  isDriverDocumentType,
+} from './driver-documents.service.js';
+import { ImageService } from '../content/image.service.js';
+
+/** Ensure the caller has the DRIVER role. */
+function assertDriver(session: UserSession | null): string {
+  if (!session?.user) {
+    throw new ForbiddenException('Authentication required.');
+  }
+  const role =
+    typeof session.user.role === 'string'
+      ? session.user.role.toUpperCase()
+      : '';
+  if (role !== 'DRIVER') {
+    throw new ForbiddenException('Only drivers can access this endpoint.');
+  }
+  return session.user.id;
+}
+
+@Controller('driver/application')
+export class DriverApplicationController {
+  constructor(
+    private readonly applicationService: DriverApplicationService,
+    private readonly imageService: ImageService,
+  ) {}
+
+  /** GET /driver/application — status, details and missing items. */
+  @Get()
+  async get(@Session() session: UserSession | null) {
+    const userId = assertDriver(session);
+    return this.applicationService.getApplication(userId);
+  }
+
+  /** PUT /driver/application — save licence, NRC and vehicle details. */
+  @Put()
+  async update(
+    @Session() session: UserSession | null,
+    @Body() dto: ApplicationDetailsInput,
+  ) {
+    const userId = assertDriver(session);
+    return this.applicationService.updateDetails(userId, dto ?? {});
+  }
+
+  /** POST /driver/application/documents — upload a document photo. */
+  @Post('documents')
+  @UseInterceptors(FileInterceptor('file'))
+  async uploadDocument(
+    @Session() session: UserSession | null,
+    @Body() body: { type: string },
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    const userId = assertDriver(session);
+    const type = body?.type;
+    if (!isDriverDocumentType(type)) {
+      throw new BadRequestException(
+        `Invalid document type: ${type}. Allowed: ${DRIVER_DOCUMENT_TYPES.join(', ')}`,
+      );
+    }
+    if (!file) throw new BadRequestException('No file uploaded.');
+
+    const url = await this.imageService.uploadOptimized(file, {
+      purpose: 'document',
+    });
+    return this.applicationService.setDocument(userId, type, url);
+  }
+
+  /** POST /driver/application/submit — send the application for review. */
+  @Post('submit')
+  async submit(@Session() session: UserSession | null) {
+    const userId = assertDriver(session);
+    return this.applicationService.submit(userId);
+  }
+}
@@ -0,0 +1,297 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma.service.js';
+import {
+  VehicleType,
+  type DriverDocumentType,
+} from '../generated/prisma/enums.js';
+import {
+  DRIVER_DOCUMENT_TYPES,
+  DriverDocumentsService,
+} from './driver-documents.service.js';
+
+export interface ApplicationVehicleInput {
+  type: string;
+  make: string;
+  model: string;
+  year: number;
+  color: string;
+  plateNumber: string;
+  capacity?: number;
+  registrationNumber?: string;
+  registrationExpiry?: string;
+  insuranceNumber?: string;
+  insuranceExpiry?: string;
+}
+
+export interface ApplicationDetailsInput {
+  licenseNumber?: string;
+  licenseExpiry?: string;
+  nationalId?: string;
+  vehicle?: ApplicationVehicleInput;
+}
+
+const APPLICATION_SELECT = {
+  id: true,
+  approvalStatus: true,
+  rejectionReason: true,
+  suspensionReason: true,
+  applicationSubmittedAt: true,
+  licenseNumber: true,
+  licenseExpiry: true,
+  nationalId: true,
+  vehicle: {
+    select: {
+      type: true,
+      make: true,
+      model: true,
+      year: true,
+      color: true,
+      plateNumber: true,
+      capacity: true,
+      registrationNumber: true,
+      registrationExpiry: true,
+      insuranceNumber: true,
+      insuranceExpiry: true,
+    },
+  },
+} as const;
+
+/**
+ * Self-registration flow for the driver app: applicants fill in their
+ * licence, NRC and vehicle details, photograph their documents and submit
+ * for admin review. Details can only change while PENDING or REJECTED.
+ */
+@Injectable()
+export class DriverApplicationService {
+  private readonly logger = new Logger(DriverApplicationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly documents: DriverDocumentsService,
+  ) {}
+
+  /** Application status, details, documents and what's still missing. */
+  async getApplication(userId: string) {
+    const driver = await this.prisma.driver.findUnique({
+      where: { userId },
+      select: APPLICATION_SELECT,
+    });
+    if (!driver) {
+      throw new NotFoundException('Driver profile not found for this user.');
+    }
+    const documents = await this.documents.listDocuments(driver.id);
+
+    return {
+      approvalStatus: driver.approvalStatus,
+      rejectionReason: driver.rejectionReason,
+      suspensionReason: driver.suspensionReason,
+      submittedAt: driver.applicationSubmittedAt,
+      licenseNumber: driver.licenseNumber,
+      licenseExpiry: driver.licenseExpiry,
+      nationalId: driver.nationalId,
+      vehicle: driver.vehicle,
+      documents: documents.map((d) => ({
+        type: d.type,
+        imageUrl: d.imageUrl,
+        status: d.status,
+        rejectionReason: d.rejectionReason,
+      })),
+      missing: this.missingItems(driver, documents),
+    };
+  }
+
+  /** Save licence, NRC and vehicle details. */
+  async updateDetails(userId: string, input: ApplicationDetailsInput) {
+    const driver = await this.getEditableDriver(userId);
+
+    await this.prisma.driver.update({
+      where: { id: driver.id },
+      data: {
+        ...(input.licenseNumber !== undefined && {
+          licenseNumber: input.licenseNumber.trim() || null,
+        }),
+        ...(input.licenseExpiry !== undefined && {
+          licenseExpiry: this.parseDate(input.licenseExpiry, 'licenseExpiry'),
+        }),
+        ...(input.nationalId !== undefined && {
+          nationalId: input.nationalId.trim() || null,
+        }),
+      },
+    });
+
+    if (input.vehicle) {
+      await this.saveVehicle(driver.id, input.vehicle);
+    }
+
+    return this.getApplication(userId);
+  }
+
+  /** Store an uploaded document photo for admin review. */
+  async setDocument(userId: string, type: DriverDocumentType, url: string) {
+    const driver = await this.getEditableDriver(userId);
+    return this.documents.saveDocument(driver.id, type, url);
+  }
+
+  /**
+   * Submit the application for review. A rejected applicant re-enters the
+   * PENDING queue and their previous rejection reason is cleared.
+   */
+  async submit(userId: string) {
+    const driver = await this.prisma.driver.findUnique({
+      where: { userId },
+      select: APPLICATION_SELECT,
+    });
+    if (!driver) {
+      throw new NotFoundException('Driver profile not found for this user.');
+    }
+    this.assertEditable(driver.approvalStatus);
+
+    const documents = await this.documents.listDocuments(driver.id);
+    const missing = this.missingItems(driver, documents);
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `APPLICATION_INCOMPLETE: Missing ${missing.join(', ')}.`,
+      );
+    }
+
+    await this.prisma.driver.update({
+      where: { id: driver.id },
+      data: {
+        approvalStatus: 'PENDING',
+        rejectionReason: null,
+        applicationSubmittedAt: new Date(),
+      },
+    });
+
+    this.logger.log(`Driver application submitted: ${driver.id}`);
+    return this.getApplication(userId);
+  }
+
+  // ── Helpers ─────────────────────────────────────────────────
+
+  private async getEditableDriver(userId: string) {
+    const driver = await this.prisma.driver.findUnique({
+      where: { userId },
+      select: { id: true, approvalStatus: true },
+    });
+    if (!driver) {
+      throw new NotFoundException('Driver profile not found for this user.');
+    }
+    this.assertEditable(driver.approvalStatus);
+    return driver;
+  }
+
+  private assertEditable(status: string): void {
+    if (status !== 'PENDING' && status !== 'REJECTED') {
+      throw new BadRequestException(
+        'APPLICATION_LOCKED: Your application can no longer be changed. Contact support to update your details.',
+      );
+    }
+  }
+
+  private async saveVehicle(
+    driverId: string,
+    input: ApplicationVehicleInput,
+  ): Promise<void> {
+    const type = input.type?.toUpperCase() as VehicleType;
+    if (!Object.values(VehicleType).includes(type)) {
+      throw new BadRequestException(`Invalid vehicle type: ${input.type}`);
+    }
+    const plateNumber = input.plateNumber?.trim().toUpperCase();
+    const year = Number(input.year);
+    if (!input.make?.trim() || !input.model?.trim() || !plateNumber || !year) {
+      throw new BadRequestException(
+        'Vehicle make, model, year and plate number are required.',
+      );
+    }
+
+    const plateTaken = await this.prisma.vehicle.findFirst({
+      where: { plateNumber, driverId: { not: driverId } },
+      select: { id: true },
+    });
+    if (plateTaken) {
+      throw new BadRequestException(
+        'APPLICATION_PLATE_TAKEN: This plate number is already registered.',
+      );
+    }
+
+    const capacity = input.capacity ? Number(input.capacity) : 4;
+    const data = {
+      type,
+      make: input.make.trim(),
+      model: input.model.trim(),
+      year,
+      color: input.color?.trim() ?? '',
+      plateNumber,
+      capacity,
+      registrationNumber: input.registrationNumber?.trim() || null,
+      registrationExpiry: input.registrationExpiry
+        ? this.parseDate(input.registrationExpiry, 'registrationExpiry')
+        : null,
+      insuranceNumber: input.insuranceNumber?.trim() || null,
+      insuranceExpiry: input.insuranceExpiry
+        ? this.parseDate(input.insuranceExpiry, 'insuranceExpiry')
+        : null,
+    };
+
+    // A front photo uploaded before the vehicle existed becomes its picture
+    const frontPhoto = await this.prisma.driverDocument.findUnique({
+      where: { driverId_type: { driverId, type: 'VEHICLE_FRONT' } },
+      select: { imageUrl: true },
+    });
+    await this.prisma.vehicle.upsert({
+      where: { driverId },
+      create: {
+        driverId,
+        ...data,
+        vehicleImageUrl: frontPhoto?.imageUrl ?? null,
+      },
+      update: data,
+    });
+
+    // Keep the denormalized matching fields in step, as the admin upsert does
+    await this.prisma.driver.update({
+      where: { id: driverId },
+      data: { vehicleType: type, maxPassengers: capacity },
+    });
+  }
+
+  private parseDate(value: string, field: string): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new BadRequestException(`Invalid date for ${field}.`);
+    }
+    return date;
+  }
+
+  /**
+   * Details not filled in yet, then document types not uploaded or rejected
+   * (a rejected photo has to be retaken before resubmitting).
+   */
+  private missingItems(
+    driver: {
+      licenseNumber: string | null;
+      licenseExpiry: Date | null;
+      nationalId: string | null;
+      vehicle: object | null;
+    },
+    documents: { type: DriverDocumentType; status: string }[],
+  ): string[] {
+    const missing: string[] = [];
+    if (!driver.licenseNumber) missing.push('licenseNumber');
+    if (!driver.licenseExpiry) missing.push('licenseExpiry');
+    if (!driver.nationalId) missing.push('nationalId');
+    if (!driver.vehicle) missing.push('vehicle');
+    for (const type of DRIVER_DOCUMENT_TYPES) {
+      const doc = documents.find((d) => d.type === type);
+      if (!doc || doc.status === 'REJECTED') missing.push(type);
+    }
+    return missing;
+  }
+}
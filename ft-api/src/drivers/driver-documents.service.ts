@@ -0,0 +1,223 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma.service.js';
+import {
+  DriverDocumentType,
+  type DocumentReviewStatus,
+} from '../generated/prisma/enums.js';
+
+/** Every document type; all of them are required for a complete application. */
+export const DRIVER_DOCUMENT_TYPES = Object.values(DriverDocumentType);
+
+export function isDriverDocumentType(
+  value: unknown,
+): value is DriverDocumentType {
+  return DRIVER_DOCUMENT_TYPES.includes(value as DriverDocumentType);
+}
+
+export interface DocumentDetails {
+  number?: string;
+  expiresAt?: string;
+}
+
+/** Column names a document's image, number and expiry are copied to. */
+interface LegacyMirror {
+  image?: string;
+  number?: string;
+  expiry?: string;
+}
+
+/**
+ * Legacy single-value columns still read elsewhere (expiry job, dispatch
+ * cards). The matching document keeps them in step when uploaded.
+ */
+const DRIVER_MIRRORS: Partial<Record<DriverDocumentType, LegacyMirror>> = {
+  LICENSE_FRONT: {
+    image: 'licenseImageUrl',
+    number: 'licenseNumber',
+    expiry: 'licenseExpiry',
+  },
+  NRC_FRONT: { image: 'nationalIdImageUrl', number: 'nationalId' },
+};
+const VEHICLE_MIRRORS: Partial<Record<DriverDocumentType, LegacyMirror>> = {
+  VEHICLE_REGISTRATION: {
+    number: 'registrationNumber',
+    expiry: 'registrationExpiry',
+  },
+  VEHICLE_INSURANCE: { number: 'insuranceNumber', expiry: 'insuranceExpiry' },
+  VEHICLE_FRONT: { image: 'vehicleImageUrl' },
+};
+
+const DOCUMENT_SELECT = {
+  id: true,
+  type: true,
+  imageUrl: true,
+  number: true,
+  expiresAt: true,
+  status: true,
+  rejectionReason: true,
+  reviewedById: true,
+  reviewedAt: true,
+  updatedAt: true,
+  reviewedBy: { select: { name: true } },
+} as const;
+
+/**
+ * Driver documents (NRC, licence, registration, insurance and vehicle photos),
+ * one current upload per type, each reviewed individually by an admin.
+ */
+@Injectable()
+export class DriverDocumentsService {
+  private readonly logger = new Logger(DriverDocumentsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** A driver's documents, in {@link DRIVER_DOCUMENT_TYPES} order. */
+  async listDocuments(driverId: string) {
+    const documents = await this.prisma.driverDocument.findMany({
+      where: { driverId },
+      select: DOCUMENT_SELECT,
+    });
+    return documents
+      .sort(
+        (a, b) =>
+          DRIVER_DOCUMENT_TYPES.indexOf(a.type) -
+          DRIVER_DOCUMENT_TYPES.indexOf(b.type),
+      )
+      .map((doc) => this.toDto(doc));
+  }
+
+  /**
+   * Store a new upload for a document type. Replacing a document sends it
+   * back to PENDING review — unless an admin uploaded it (`reviewerId`),
+   * which counts as approval.
+   */
+  async saveDocument(
+    driverId: string,
+    type: DriverDocumentType,
+    imageUrl: string,
+    details: DocumentDetails = {},
+    reviewerId?: string,
+  ) {
+    const driver = await this.prisma.driver.findUnique({
+      where: { id: driverId },
+      select: { id: true },
+    });
+    if (!driver) throw new NotFoundException('Driver not found');
+
+    const number = details.number?.trim() || null;
+    const expiresAt = this.parseExpiry(details.expiresAt);
+    const review = {
+      status: reviewerId ? ('APPROVED' as const) : ('PENDING' as const),
+      rejectionReason: null,
+      reviewedById: reviewerId ?? null,
+      reviewedAt: reviewerId ? new Date() : null,
+    };
+
+    const document = await this.prisma.$transaction(async (tx) => {
+      const saved = await tx.driverDocument.upsert({
+        where: { driverId_type: { driverId, type } },
+        create: { driverId, type, imageUrl, number, expiresAt, ...review },
+        update: { imageUrl, number, expiresAt, ...review },
+        select: { id: true, type: true, imageUrl: true, status: true },
+      });
+
+      const driverData = this.mirrorData(DRIVER_MIRRORS[type], {
+        imageUrl,
+        number,
+        expiresAt,
+      });
+      if (driverData) {
+        await tx.driver.update({ where: { id: driverId }, data: driverData });
+      }
+      const vehicleData = this.mirrorData(VEHICLE_MIRRORS[type], {
+        imageUrl,
+        number,
+        expiresAt,
+      });
+      if (vehicleData) {
+        await tx.vehicle.updateMany({ where: { driverId }, data: vehicleData });
+      }
+      return saved;
+    });
+
+    this.logger.log(`Driver ${driverId} uploaded ${type}`);
+    return document;
+  }
+
+  /** Approve or reject a single document. */
+  async reviewDocument(
+    driverId: string,
+    documentId: string,
+    reviewerId: string,
+    status: DocumentReviewStatus,
+    reason?: string,
+  ) {
+    if (status !== 'APPROVED' && status !== 'REJECTED') {
+      throw new BadRequestException('Status must be APPROVED or REJECTED.');
+    }
+    const rejectionReason = reason?.trim() || null;
+    if (status === 'REJECTED' && !rejectionReason) {
+      throw new BadRequestException(
+        'A reason is required when rejecting a document.',
+      );
+    }
+
+    const { count } = await this.prisma.driverDocument.updateMany({
+      where: { id: documentId, driverId },
+      data: {
+        status,
+        rejectionReason: status === 'REJECTED' ? rejectionReason : null,
+        reviewedById: reviewerId,
+        reviewedAt: new Date(),
+      },
+    });
+    if (count === 0) throw new NotFoundException('Document not found');
+
+    const document = await this.prisma.driverDocument.findUniqueOrThrow({
+      where: { id: documentId },
+      select: DOCUMENT_SELECT,
+    });
+    this.logger.log(
+      `Driver ${driverId} ${document.type} ${status} by ${reviewerId}`,
+    );
+    return this.toDto(document);
+  }
+
+  // ── Helpers ─────────────────────────────────────────────────
+
+  private toDto<T extends { reviewedBy: { name: string } | null }>({
+    reviewedBy,
+    ...doc
+  }: T) {
+    return { ...doc, reviewerName: reviewedBy?.name ?? null };
+  }
+
+  private parseExpiry(value: string | undefined): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new BadRequestException('Invalid document expiry date.');
+    }
+    return date;
+  }
+
+  private mirrorData(
+    mirror: LegacyMirror | undefined,
+    values: { imageUrl: string; number: string | null; expiresAt: Date | null },
+  ): Record<string, string | Date> | null {
+    if (!mirror) return null;
+    const data: Record<string, string | Date> = {};
+    if (mirror.image) data[mirror.image] = values.imageUrl;
+    // Only overwrite details the upload actually carries
+    if (mirror.number && values.number) data[mirror.number] = values.number;
+    if (mirror.expiry && values.expiresAt) {
+      data[mirror.expiry] = values.expiresAt;
+    }
+    return Object.keys(data).length > 0 ? data : null;
+  }
+}
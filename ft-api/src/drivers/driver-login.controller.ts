@@ -1,7 +1,13 @@
-import { Body, Controller, Post } from '@nestjs/common';
+import { BadRequestException, Body, Controller, Post } from '@nestjs/common';
 import { AllowAnonymous } from '@thallesp/nestjs-better-auth';
 import { DriversService } from './drivers.service.js';
 
+interface RegisterDriverDto {
+  name: string;
+  email: string;
+  phone?: string;
+}
+
 @Controller('driver')
 export class DriverLoginController {
   constructor(private readonly driversService: DriversService) {}
@@ -17,4 +23,23 @@ export class DriverLoginController {
   async validateLogin(@Body() body: { email: string }) {
     return this.driversService.validateLoginEmail(body.email);
   }
+
+  /**
+   * Public endpoint – self-registration from the ft-driver app.
+   * Creates a DRIVER user and a PENDING driver profile; the applicant then
+   * signs in with an email OTP and completes their application.
+   */
+  @Post('register')
+  @AllowAnonymous()
+  async register(@Body() body: RegisterDriverDto) {
+    const name = body?.name?.trim();
+    const email = body?.email?.trim();
+    if (!name || !email) {
+      throw new BadRequestException('Name and email are required.');
+    }
+    return this.driversService.createDriver(name, email, {
+      phone: body.phone?.trim(),
+      selfRegistered: true,
+    });
+  }
 }
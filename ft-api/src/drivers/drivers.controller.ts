@@ -15,7 +15,13 @@ import {
 import { FileInterceptor } from '@nestjs/platform-express';
 import { Session, type UserSession } from '@thallesp/nestjs-better-auth';
 import { DriversService } from './drivers.service.js';
+import {
+  DRIVER_DOCUMENT_TYPES,
+  DriverDocumentsService,
+  isDriverDocumentType,
+} from './driver-documents.service.js';
 import { ImageService } from '../content/image.service.js';
+import type { DocumentReviewStatus } from '../generated/prisma/enums.js';
 
 // ── Auth helpers ──
 
@@ -45,6 +51,21 @@ interface CreateDriverDto {
   email: string;
 }
 
+interface RejectDriverDto {
+  reason?: string;
+}
+
+interface UploadDocumentDto {
+  type: string;
+  number?: string;
+  expiresAt?: string;
+}
+
+interface ReviewDocumentDto {
+  status: DocumentReviewStatus;
+  reason?: string;
+}
+
 interface UpdateDriverDto {
   licenseNumber?: string;
   licenseExpiry?: string;
@@ -68,6 +89,7 @@ interface UpsertVehicleDto {
 export class DriversController {
   constructor(
     private readonly driversService: DriversService,
+    private readonly documentsService: DriverDocumentsService,
     private readonly imageService: ImageService,
   ) {}
 
@@ -108,14 +130,15 @@ export class DriversController {
     return this.driversService.setApprovalStatus(id, 'APPROVED');
   }
 
-  /** Reject a driver. */
+  /** Reject a driver. The optional reason is shown to the applicant. */
   @Patch(':id/reject')
   async reject(
     @Session() session: UserSession | null,
     @Param('id') id: string,
+    @Body() dto: RejectDriverDto,
   ) {
     assertElevated(session);
-    return this.driversService.setApprovalStatus(id, 'REJECTED');
+    return this.driversService.setApprovalStatus(id, 'REJECTED', dto?.reason);
   }
 
   /** Suspend a driver. */
@@ -179,27 +202,53 @@ export class DriversController {
     return this.driversService.revokeSessions(id);
   }
 
-  /** Upload a document image (NRC front/back, license, etc.). */
+  /**
+   * Upload a document image (NRC front/back, license, vehicle photos, etc.).
+   * Admin uploads are approved on the spot.
+   */
   @Post(':id/documents')
   @UseInterceptors(FileInterceptor('file'))
   async uploadDocument(
     @Session() session: UserSession | null,
     @Param('id') id: string,
-    @Body() body: { field: string },
+    @Body() body: UploadDocumentDto,
     @UploadedFile() file: Express.Multer.File,
   ) {
     assertElevated(session);
 
-    const allowedFields = ['licenseImageUrl', 'nationalIdImageUrl'];
-    if (!allowedFields.includes(body.field)) {
+    if (!isDriverDocumentType(body.type)) {
       throw new ForbiddenException(
-        `Invalid document field: ${body.field}. Allowed: ${allowedFields.join(', ')}`,
+        `Invalid document type: ${body.type}. Allowed: ${DRIVER_DOCUMENT_TYPES.join(', ')}`,
       );
     }
 
     const url = await this.imageService.uploadOptimized(file, {
       purpose: 'document',
     });
-    return this.driversService.updateDriverDocument(id, body.field, url);
+    return this.documentsService.saveDocument(
+      id,
+      body.type,
+      url,
+      { number: body.number, expiresAt: body.expiresAt },
+      session!.user.id,
+    );
+  }
+
+  /** Approve or reject a single document; rejections need a reason. */
+  @Patch(':id/documents/:documentId/review')
+  async reviewDocument(
+    @Session() session: UserSession | null,
+    @Param('id') id: string,
+    @Param('documentId') documentId: string,
+    @Body() dto: ReviewDocumentDto,
+  ) {
+    assertElevated(session);
+    return this.documentsService.reviewDocument(
+      id,
+      documentId,
+      session!.user.id,
+      dto.status,
+      dto.reason,
+    );
   }
 }
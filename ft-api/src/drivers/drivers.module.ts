@@ -1,13 +1,29 @@
 import { Module } from '@nestjs/common';
 import { DriversController } from './drivers.controller.js';
 import { DriverLoginController } from './driver-login.controller.js';
+import { DriverApplicationController } from './driver-application.controller.js';
+import { DriverApplicationService } from './driver-application.service.js';
+import { DriverDocumentsService } from './driver-documents.service.js';
 import { DriversService } from './drivers.service.js';
 import { PrismaService } from '../prisma.service.js';
 import { ContentModule } from '../content/content.module.js';
+import { DispatchModule } from '../dispatch/dispatch.module.js';
+import { RealtimeModule } from '../realtime/realtime.module.js';
+import { DocumentExpiryService } from './document-expiry.service.js';
 
 @Module({
-  imports: [ContentModule],
-  controllers: [DriversController, DriverLoginController],
-  providers: [PrismaService, DriversService],
+  imports: [ContentModule, DispatchModule, RealtimeModule],
+  controllers: [
+    DriversController,
+    DriverLoginController,
+    DriverApplicationController,
+  ],
+  providers: [
+    PrismaService,
+    DriversService,
+    DriverApplicationService,
+    DriverDocumentsService,
+    DocumentExpiryService,
+  ],
 })
 export class DriversModule {}
@@ -7,15 +7,28 @@ import {
 import { randomUUID } from 'node:crypto';
 import { PrismaService } from '../prisma.service.js';
 import type { DriverApprovalStatus, VehicleType, FuelType } from '../generated/prisma/enums.js';
+import { expiringSoon } from './document-expiry.js';
+import { DriverDocumentsService } from './driver-documents.service.js';
 
 @Injectable()
 export class DriversService {
   private readonly logger = new Logger(DriversService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly documents: DriverDocumentsService,
+  ) {}
 
-  /** Create a new user with DRIVER role and a corresponding Driver record. */
-  async createDriver(name: string, email: string) {
+  /**
+   * Create a new user with DRIVER role and a corresponding Driver record.
+   * Self-registered applicants verify their email through the sign-in OTP;
+   * admin-created drivers are trusted as-is.
+   */
+  async createDriver(
+    name: string,
+    email: string,
+    options: { phone?: string; selfRegistered?: boolean } = {},
+  ) {
     const trimmedEmail = email.trim().toLowerCase();
 
     // Check for existing user
@@ -27,6 +40,17 @@ export class DriversService {
         `A user with email "${trimmedEmail}" already exists.`,
       );
     }
+    if (options.phone) {
+      const phoneTaken = await this.prisma.user.findUnique({
+        where: { phone: options.phone },
+        select: { id: true },
+      });
+      if (phoneTaken) {
+        throw new BadRequestException(
+          `A user with phone "${options.phone}" already exists.`,
+        );
+      }
+    }
 
     // Create user + driver in a transaction
     const result = await this.prisma.$transaction(async (tx) => {
@@ -35,7 +59,8 @@ export class DriversService {
           id: randomUUID(),
           name,
           email: trimmedEmail,
-          emailVerified: true, // Admin-created drivers don't need email verification
+          emailVerified: !options.selfRegistered,
+          phone: options.phone || null,
           role: 'DRIVER',
         },
       });
@@ -77,10 +102,14 @@ export class DriversService {
           },
         },
         vehicle: true,
+        _count: {
+          select: { documents: { where: { status: 'PENDING' } } },
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
 
+    const now = new Date();
     return drivers.map((d) => ({
       id: d.id,
       userId: d.userId,
@@ -89,6 +118,9 @@ export class DriversService {
       image: d.user.image,
       banned: d.user.banned,
       approvalStatus: d.approvalStatus,
+      suspensionReason: d.suspensionReason,
+      rejectionReason: d.rejectionReason,
+      applicationSubmittedAt: d.applicationSubmittedAt,
       status: d.status,
       petFriendly: d.petFriendly,
       isVip: d.isVip,
@@ -100,6 +132,8 @@ export class DriversService {
       totalRides: d.totalRides,
       averageRating: d.averageRating,
       vehicle: d.vehicle,
+      expiringDocuments: expiringSoon(d, now),
+      pendingDocuments: d._count.documents,
       createdAt: d.user.createdAt,
     }));
   }
@@ -125,6 +159,11 @@ export class DriversService {
     });
     if (!driver) throw new NotFoundException('Driver not found');
 
+    const [ratingBreakdown, documents] = await Promise.all([
+      this.getRatingBreakdown(driver.userId),
+      this.documents.listDocuments(driver.id),
+    ]);
+
     return {
       id: driver.id,
       userId: driver.userId,
@@ -134,6 +173,9 @@ export class DriversService {
       phone: driver.user.phone,
       banned: driver.user.banned,
       approvalStatus: driver.approvalStatus,
+      suspensionReason: driver.suspensionReason,
+      rejectionReason: driver.rejectionReason,
+      applicationSubmittedAt: driver.applicationSubmittedAt,
       status: driver.status,
       petFriendly: driver.petFriendly,
       isVip: driver.isVip,
@@ -146,19 +188,93 @@ export class DriversService {
       totalEarnings: driver.totalEarnings,
       averageRating: driver.averageRating,
       ratingCount: driver.ratingCount,
+      ratingBreakdown,
       vehicle: driver.vehicle,
+      expiringDocuments: expiringSoon(driver),
+      documents,
       createdAt: driver.user.createdAt,
     };
   }
 
-  /** Set driver approval status. */
-  async setApprovalStatus(id: string, status: DriverApprovalStatus) {
+  /**
+   * Star distribution, most common tags and latest comments from the
+   * passenger ratings a driver has received.
+   */
+  private async getRatingBreakdown(driverUserId: string) {
+    const [byStars, tagRows, recent] = await Promise.all([
+      this.prisma.rating.groupBy({
+        by: ['rating'],
+        where: { rateeId: driverUserId },
+        _count: { _all: true },
+      }),
+      this.prisma.$queryRawUnsafe<{ tag: string; count: number }[]>(
+        `SELECT tag, COUNT(*)::int AS count
+         FROM rating, unnest(tags) AS tag
+         WHERE "rateeId" = $1
+         GROUP BY tag
+         ORDER BY count DESC
+         LIMIT 10`,
+        driverUserId,
+      ),
+      this.prisma.rating.findMany({
+        where: { rateeId: driverUserId, comment: { not: null } },
+        orderBy: { createdAt: 'desc' },
+        take: 5,
+        select: {
+          rideId: true,
+          rating: true,
+          comment: true,
+          tags: true,
+          createdAt: true,
+          rater: { select: { name: true } },
+        },
+      }),
+    ]);
+
+    const distribution: Record<number, number> = {
+      1: 0,
+      2: 0,
+      3: 0,
+      4: 0,
+      5: 0,
+    };
+    for (const row of byStars) distribution[row.rating] = row._count._all;
+
+    return {
+      distribution,
+      topTags: tagRows,
+      recentComments: recent.map((r) => ({
+        rideId: r.rideId,
+        rating: r.rating,
+        comment: r.comment,
+        tags: r.tags,
+        raterName: r.rater.name,
+        createdAt: r.createdAt,
+      })),
+    };
+  }
+
+  /**
+   * Set driver approval status. Any suspension reason is cleared — a manual
+   * suspension has none, and re-approval lifts an automatic one. The
+   * rejection reason is kept only while the driver stays REJECTED.
+   */
+  async setApprovalStatus(
+    id: string,
+    status: DriverApprovalStatus,
+    rejectionReason?: string,
+  ) {
     const driver = await this.prisma.driver.findUnique({ where: { id } });
     if (!driver) throw new NotFoundException('Driver not found');
 
     const updated = await this.prisma.driver.update({
       where: { id },
-      data: { approvalStatus: status },
+      data: {
+        approvalStatus: status,
+        suspensionReason: null,
+        rejectionReason:
+          status === 'REJECTED' ? rejectionReason?.trim() || null : null,
+      },
       include: { user: { select: { name: true, email: true } } },
     });
 
@@ -221,22 +337,6 @@ export class DriversService {
     };
   }
 
-  /** Update a document image URL on a driver. */
-  async updateDriverDocument(id: string, field: string, url: string) {
-    const driver = await this.prisma.driver.findUnique({ where: { id } });
-    if (!driver) throw new NotFoundException('Driver not found');
-
-    const updated = await this.prisma.driver.update({
-      where: { id },
-      data: { [field]: url },
-    });
-
-    return {
-      id: updated.id,
-      [field]: url,
-    };
-  }
-
   /** Create or update the vehicle record for a driver. */
   async upsertVehicle(
     driverId: string,
@@ -335,7 +435,7 @@ export class DriversService {
 
     const driver = await this.prisma.driver.findUnique({
       where: { userId: user.id },
-      select: { approvalStatus: true },
+      select: { id: true },
     });
 
     if (!driver) {
@@ -344,30 +444,8 @@ export class DriversService {
       );
     }
 
-    if (driver.approvalStatus === 'PENDING') {
-      throw new BadRequestException(
-        'Your account is pending verification. Please wait for admin approval.',
-      );
-    }
-
-    if (driver.approvalStatus === 'REJECTED') {
-      throw new BadRequestException(
-        'Your account has been rejected. Please contact support.',
-      );
-    }
-
-    if (driver.approvalStatus === 'SUSPENDED') {
-      throw new BadRequestException(
-        'Your driver account has been suspended. Please contact support.',
-      );
-    }
-
-    if (driver.approvalStatus !== 'APPROVED') {
-      throw new BadRequestException(
-        'Your driver profile is not active. Contact your administrator.',
-      );
-    }
-
+    // Pending / rejected / suspended drivers sign in to their application
+    // status screen — approval is enforced when going online.
     return { eligible: true };
   }
 
@@ -7,29 +7,33 @@ import { defaultStatements } from 'better-auth/plugins/admin/access';
  */
 const statement = {
   ...defaultStatements,
+  promo: ['list', 'create', 'update', 'delete'],
 } as const;
 
 const ac = createAccessControl(statement);
 
-/** admin: list, ban (user); revoke (session) */
+/** admin: list, ban (user); revoke (session); list (promo) */
 const adminRole = ac.newRole({
   user: ['list', 'ban'],
   session: ['revoke'],
+  promo: ['list'],
 });
 
-/** manager: list, ban, delete (user); revoke (session) */
+/** manager: list, ban, delete (user); revoke (session); list, create, update (promo) */
 const managerRole = ac.newRole({
   user: ['list', 'ban', 'delete'],
   session: ['revoke'],
+  promo: ['list', 'create', 'update'],
 });
 
 /** operation: same as manager */
 const operationRole = ac.newRole({
   user: ['list', 'ban', 'delete'],
   session: ['revoke'],
+  promo: ['list', 'create', 'update'],
 });
 
-/** superadmin: all user + session permissions */
+/** superadmin: all user + session + promo permissions */
 const superadminRole = ac.newRole({
   user: [
     'create',
@@ -43,6 +47,7 @@ const superadminRole = ac.newRole({
     'update',
   ],
   session: ['list', 'revoke', 'delete'],
+  promo: ['list', 'create', 'update', 'delete'],
 });
 
 export const adminAccessControl = ac;
@@ -142,7 +142,9 @@ export const auth = betterAuth({
       async sendVerificationOTP({ email, otp, type }) {
         const trimmedEmail = email.trim().toLowerCase();
 
-        // ── Universal safety: block unapproved drivers from receiving sign-in OTPs ──
+        // ── Universal safety: block driver accounts without a driver profile ──
+        // Pending, rejected and suspended drivers may still sign in to follow
+        // their application; going online and every ride action check approval.
         if (type === 'sign-in') {
           const user = await prisma.user.findUnique({
             where: { email: trimmedEmail },
@@ -153,18 +155,12 @@ export const auth = betterAuth({
           if (role === 'DRIVER' && user) {
             const driver = await prisma.driver.findUnique({
               where: { userId: user.id },
-              select: { approvalStatus: true },
+              select: { id: true },
             });
-            if (!driver || driver.approvalStatus !== 'APPROVED') {
-              const msg =
-                driver?.approvalStatus === 'PENDING'
-                  ? 'Your account is pending verification. Please wait for admin approval.'
-                  : driver?.approvalStatus === 'REJECTED'
-                    ? 'Your account has been rejected. Please contact support.'
-                    : driver?.approvalStatus === 'SUSPENDED'
-                      ? 'Your driver account has been suspended. Please contact support.'
-                      : 'Your driver profile is not active.';
-              throw new APIError('FORBIDDEN', { message: msg });
+            if (!driver) {
+              throw new APIError('FORBIDDEN', {
+                message: 'Your driver profile is not active.',
+              });
             }
           }
         }
@@ -281,7 +277,8 @@ export const auth = betterAuth({
               message: 'This app is for drivers only. Use a driver account.',
             });
           }
-          // Driver app: must be approved
+          // Driver app: must have a driver profile (any approval status —
+          // applicants sign in to track their application)
           if (
             origin?.startsWith(DRIVER_APP_ORIGIN_PREFIX) &&
             role === 'DRIVER' &&
@@ -289,16 +286,11 @@ export const auth = betterAuth({
           ) {
             const driver = await prisma.driver.findUnique({
               where: { userId: user.id },
-              select: { approvalStatus: true },
+              select: { id: true },
             });
-            if (!driver || driver.approvalStatus !== 'APPROVED') {
+            if (!driver) {
               throw new APIError('FORBIDDEN', {
-                message:
-                  driver?.approvalStatus === 'PENDING'
-                    ? 'Your account is pending verification. Please wait for admin approval.'
-                    : driver?.approvalStatus === 'REJECTED'
-                      ? 'Your account has been rejected. Please contact support.'
-                      : 'Your driver profile is not active.',
+                message: 'Your driver profile is not active.',
               });
             }
           }
@@ -415,7 +407,8 @@ export const auth = betterAuth({
         );
       }
 
-      // Block unapproved drivers after sign-in
+      // Block driver accounts without a driver profile after sign-in.
+      // Unapproved drivers are let in to see their application status.
       if (
         expoOrigin?.startsWith(DRIVER_APP_ORIGIN_PREFIX) &&
         role === 'DRIVER' &&
@@ -423,16 +416,10 @@ export const auth = betterAuth({
       ) {
         const driver = await prisma.driver.findUnique({
           where: { userId: user.id },
-          select: { approvalStatus: true },
+          select: { id: true },
         });
-        if (!driver || driver.approvalStatus !== 'APPROVED') {
-          await revokeAndBlock(
-            driver?.approvalStatus === 'PENDING'
-              ? 'Your account is pending verification. Please wait for admin approval.'
-              : driver?.approvalStatus === 'REJECTED'
-                ? 'Your account has been rejected. Please contact support.'
-                : 'Your driver profile is not active.',
-          );
+        if (!driver) {
+          await revokeAndBlock('Your driver profile is not active.');
         }
       }
     }),
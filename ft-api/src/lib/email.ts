@@ -32,6 +32,47 @@ interface SendResetPasswordEmailValues {
   resetUrl: string;
 }
 
+interface SendDocumentExpiryEmailValues {
+  to: string;
+  userName?: string;
+  documents: { label: string; expiresAt: Date; daysLeft: number }[];
+  /** True once a document has lapsed and the account is suspended. */
+  suspended: boolean;
+}
+
+export type EmailLocale = 'en' | 'my';
+
+/** Fare components itemised on a ride receipt, in display order. */
+export type RideReceiptLineKey =
+  | 'baseFare'
+  | 'distanceFare'
+  | 'timeFare'
+  | 'bookingFee'
+  | 'townshipSurcharge'
+  | 'surgeFare'
+  | 'adjustment'
+  | 'sharedFare'
+  | 'discount';
+
+interface SendRideReceiptEmailValues {
+  to: string;
+  userName?: string;
+  locale: EmailLocale;
+  rideId: string;
+  pickupAddress: string;
+  dropoffAddress: string;
+  completedAt: Date;
+  distanceMeters: number | null;
+  durationSeconds: number | null;
+  driverName: string | null;
+  /** e.g. "White Toyota Axio · 7N-1234" */
+  vehicle: string | null;
+  paymentMethod: 'CASH' | 'CARD' | 'WALLET';
+  lines: { key: RideReceiptLineKey; amount: number }[];
+  total: number;
+  currency: string;
+}
+
 /**
  * Generate individual OTP digit boxes HTML
  */
@@ -63,10 +104,18 @@ function generateOTPDigits(otp: string): string {
 /**
  * Base email layout wrapper with improved design
  */
-function emailLayout(content: string, headerIcon: string): string {
+function emailLayout(
+  content: string,
+  headerIcon: string,
+  options: { lang?: EmailLocale; preview?: string } = {},
+): string {
+  const {
+    lang = 'en',
+    preview = `Your ${APP_NAME} verification code is ready`,
+  } = options;
   return `
 <!DOCTYPE html>
-<html lang="en">
+<html lang="${lang}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -86,7 +135,7 @@ function emailLayout(content: string, headerIcon: string): string {
   
   <!-- Preview Text -->
   <div style="display: none; max-height: 0; overflow: hidden;">
-    Your ${APP_NAME} verification code is ready
+    ${preview}
     &nbsp;&zwnj;&nbsp;&zwnj;&nbsp;&zwnj;&nbsp;&zwnj;&nbsp;&zwnj;&nbsp;&zwnj;&nbsp;&zwnj;&nbsp;&zwnj;&nbsp;&zwnj;&nbsp;&zwnj;&nbsp;&zwnj;&nbsp;&zwnj;&nbsp;&zwnj;&nbsp;&zwnj;
   </div>
 
@@ -417,6 +466,272 @@ function resetPasswordEmailTemplate(
   return emailLayout(content, '🔑');
 }
 
+/**
+ * Generate document expiry warning / suspension email HTML
+ */
+function documentExpiryEmailTemplate(
+  documents: SendDocumentExpiryEmailValues['documents'],
+  suspended: boolean,
+  userName?: string,
+): string {
+  const greeting = userName ? userName : 'there';
+  const title = suspended
+    ? 'Your driver account is suspended'
+    : 'Your documents expire soon';
+  const subtitle = suspended
+    ? `Hey ${greeting}! The documents below have expired, so you can't go online until they're renewed and re-approved.`
+    : `Hey ${greeting}! Please renew the documents below before they expire — you won't be able to go online with an expired document.`;
+
+  const rows = documents
+    .map(
+      ({ label, expiresAt, daysLeft }) => `
+      <tr>
+        <td style="padding: 10px 0; font-size: 14px; color: ${GRAY_900}; border-bottom: 1px solid ${GRAY_200};">
+          ${label}
+        </td>
+        <td style="padding: 10px 0; font-size: 14px; color: ${daysLeft <= 0 ? '#B91C1C' : GRAY_600}; text-align: right; border-bottom: 1px solid ${GRAY_200};">
+          ${daysLeft <= 0 ? 'Expired' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`} · ${expiresAt.toISOString().slice(0, 10)}
+        </td>
+      </tr>
+    `,
+    )
+    .join('');
+
+  const content = `
+    <tr>
+      <td style="padding: 28px 36px 0;">
+        <h1 style="margin: 0; font-size: 24px; font-weight: 700; color: ${GRAY_900}; text-align: center; line-height: 1.3;">
+          ${title}
+        </h1>
+      </td>
+    </tr>
+    
+    <tr>
+      <td style="padding: 12px 36px 0;">
+        <p style="margin: 0; font-size: 15px; color: ${GRAY_600}; text-align: center; line-height: 1.6;">
+          ${subtitle}
+        </p>
+      </td>
+    </tr>
+    
+    <!-- Documents -->
+    <tr>
+      <td style="padding: 24px 36px 40px;">
+        <table role="presentation" cellpadding="0" cellspacing="0" style="width: 100%; border-collapse: collapse;">
+          ${rows}
+        </table>
+      </td>
+    </tr>
+  `;
+
+  return emailLayout(content, suspended ? '⛔' : '📄');
+}
+
+const RIDE_RECEIPT_STRINGS: Record<
+  EmailLocale,
+  {
+    subject: string;
+    title: string;
+    subtitle: (name?: string) => string;
+    trip: string;
+    from: string;
+    to: string;
+    driver: string;
+    distance: (km: string, minutes: number) => string;
+    fare: string;
+    total: string;
+    paidWith: string;
+    methods: Record<SendRideReceiptEmailValues['paymentMethod'], string>;
+    lines: Record<RideReceiptLineKey, string>;
+    reference: string;
+  }
+> = {
+  en: {
+    subject: `Your ${APP_NAME} receipt`,
+    title: 'Thanks for riding with us',
+    subtitle: (name) =>
+      `Hey ${name || 'there'}! Here's the receipt for your trip.`,
+    trip: 'Trip',
+    from: 'From',
+    to: 'To',
+    driver: 'Driver',
+    distance: (km, minutes) => `${km} km · ${minutes} min`,
+    fare: 'Fare breakdown',
+    total: 'Total',
+    paidWith: 'Paid with',
+    methods: { CASH: 'Cash', CARD: 'Card', WALLET: 'Wallet' },
+    lines: {
+      baseFare: 'Base fare',
+      distanceFare: 'Distance',
+      timeFare: 'Time',
+      bookingFee: 'Booking fee',
+      townshipSurcharge: 'Township surcharge',
+      surgeFare: 'Surge',
+      adjustment: 'Plus premium & rounding',
+      sharedFare: 'Shared seat',
+      discount: 'Promo discount',
+    },
+    reference: 'Ride reference',
+  },
+  my: {
+    subject: `${APP_NAME} ခရီးစဉ် ပြေစာ`,
+    title: 'ကျွန်ုပ်တို့နှင့် စီးနင်းသည့်အတွက် ကျေးဇူးတင်ပါသည်',
+    subtitle: (name) =>
+      `မင်္ဂလာပါ${name ? ` ${name}` : ''}! သင့်ခရီးစဉ်၏ ပြေစာ ဖြစ်ပါသည်။`,
+    trip: 'ခရီးစဉ်',
+    from: 'မှ',
+    to: 'သို့',
+    driver: 'ယာဉ်မောင်း',
+    distance: (km, minutes) => `${km} ကီလို · ${minutes} မိနစ်`,
+    fare: 'ခရီးခ အသေးစိတ်',
+    total: 'စုစုပေါင်း',
+    paidWith: 'ပေးချေမှု',
+    methods: { CASH: 'ငွေသား', CARD: 'ကတ်', WALLET: 'ပိုက်ဆံအိတ်' },
+    lines: {
+      baseFare: 'အခြေခံ ခရီးခ',
+      distanceFare: 'အကွာအဝေး',
+      timeFare: 'အချိန်',
+      bookingFee: 'ဘိုကင်ကြေး',
+      townshipSurcharge: 'မြို့နယ် အပိုကြေး',
+      surgeFare: 'လူများချိန် အပိုကြေး',
+      adjustment: 'Plus ကြေးနှင့် ငွေပြင်ဆင်ချက်',
+      sharedFare: 'မျှစီး ထိုင်ခုံ',
+      discount: 'ပရိုမို လျှော့ဈေး',
+    },
+    reference: 'ခရီးစဉ် အမှတ်',
+  },
+};
+
+function formatReceiptAmount(amount: number, currency: string): string {
+  return `${Math.round(amount).toLocaleString('en-US')} ${currency}`;
+}
+
+/** Completion time as riders read it, in Yangon time. */
+function formatReceiptDate(date: Date, locale: EmailLocale): string {
+  return date.toLocaleString(locale === 'my' ? 'my-MM' : 'en-GB', {
+    timeZone: 'Asia/Yangon',
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+/**
+ * Generate ride receipt HTML: route, driver, and the itemised fare
+ */
+function rideReceiptEmailTemplate(values: SendRideReceiptEmailValues): string {
+  const strings = RIDE_RECEIPT_STRINGS[values.locale];
+  const labelCell = `padding: 8px 0; font-size: 14px; color: ${GRAY_600};`;
+  const valueCell = `padding: 8px 0; font-size: 14px; color: ${GRAY_900}; text-align: right;`;
+
+  const fareRows = values.lines
+    .map(
+      ({ key, amount }) => `
+      <tr>
+        <td style="${labelCell}">${strings.lines[key]}</td>
+        <td style="${valueCell}">${key === 'discount' ? '−' : ''}${formatReceiptAmount(amount, values.currency)}</td>
+      </tr>
+    `,
+    )
+    .join('');
+
+  const tripMeta =
+    values.distanceMeters !== null && values.durationSeconds !== null
+      ? `
+      <tr>
+        <td colspan="2" style="padding: 8px 0 0; font-size: 13px; color: ${GRAY_500};">
+          ${strings.distance((values.distanceMeters / 1000).toFixed(1), Math.round(values.durationSeconds / 60))}
+        </td>
+      </tr>
+    `
+      : '';
+
+  const driverRow = values.driverName
+    ? `
+      <tr>
+        <td style="${labelCell}">${strings.driver}</td>
+        <td style="${valueCell}">${values.driverName}${values.vehicle ? `<br><span style="font-size: 13px; color: ${GRAY_500};">${values.vehicle}</span>` : ''}</td>
+      </tr>
+    `
+    : '';
+
+  const content = `
+    <tr>
+      <td style="padding: 28px 36px 0;">
+        <h1 style="margin: 0; font-size: 24px; font-weight: 700; color: ${GRAY_900}; text-align: center; line-height: 1.3;">
+          ${strings.title}
+        </h1>
+      </td>
+    </tr>
+    
+    <tr>
+      <td style="padding: 12px 36px 0;">
+        <p style="margin: 0; font-size: 15px; color: ${GRAY_600}; text-align: center; line-height: 1.6;">
+          ${strings.subtitle(values.userName)}
+        </p>
+        <p style="margin: 8px 0 0; font-size: 13px; color: ${GRAY_500}; text-align: center;">
+          ${formatReceiptDate(values.completedAt, values.locale)}
+        </p>
+      </td>
+    </tr>
+    
+    <!-- Trip -->
+    <tr>
+      <td style="padding: 24px 36px 0;">
+        <p style="margin: 0 0 4px; font-size: 12px; font-weight: 700; color: ${GRAY_500}; text-transform: uppercase; letter-spacing: 0.5px;">
+          ${strings.trip}
+        </p>
+        <table role="presentation" cellpadding="0" cellspacing="0" style="width: 100%; border-collapse: collapse;">
+          <tr>
+            <td style="${labelCell} vertical-align: top; width: 64px;">${strings.from}</td>
+            <td style="padding: 8px 0; font-size: 14px; color: ${GRAY_900};">${values.pickupAddress}</td>
+          </tr>
+          <tr>
+            <td style="${labelCell} vertical-align: top; width: 64px;">${strings.to}</td>
+            <td style="padding: 8px 0; font-size: 14px; color: ${GRAY_900};">${values.dropoffAddress}</td>
+          </tr>
+          ${tripMeta}
+        </table>
+        <table role="presentation" cellpadding="0" cellspacing="0" style="width: 100%; border-collapse: collapse;">
+          ${driverRow}
+        </table>
+      </td>
+    </tr>
+    
+    <!-- Fare -->
+    <tr>
+      <td style="padding: 24px 36px 0;">
+        <p style="margin: 0 0 4px; font-size: 12px; font-weight: 700; color: ${GRAY_500}; text-transform: uppercase; letter-spacing: 0.5px;">
+          ${strings.fare}
+        </p>
+        <table role="presentation" cellpadding="0" cellspacing="0" style="width: 100%; border-collapse: collapse;">
+          ${fareRows}
+          <tr>
+            <td style="padding: 14px 0 0; font-size: 16px; font-weight: 700; color: ${GRAY_900}; border-top: 2px solid ${GRAY_200};">${strings.total}</td>
+            <td style="padding: 14px 0 0; font-size: 16px; font-weight: 700; color: ${GRAY_900}; text-align: right; border-top: 2px solid ${GRAY_200};">${formatReceiptAmount(values.total, values.currency)}</td>
+          </tr>
+          <tr>
+            <td style="${labelCell}">${strings.paidWith}</td>
+            <td style="${valueCell}">${strings.methods[values.paymentMethod]}</td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+    
+    <tr>
+      <td style="padding: 24px 36px 40px;">
+        <div style="background-color: ${GRAY_100}; border-radius: 12px; padding: 12px 16px; font-size: 12px; color: ${GRAY_500}; text-align: center;">
+          ${strings.reference}: <span style="font-family: 'SF Mono', 'Menlo', 'Monaco', 'Courier New', monospace; color: ${GRAY_600};">${values.rideId}</span>
+        </div>
+      </td>
+    </tr>
+  `;
+
+  return emailLayout(content, '🧾', {
+    lang: values.locale,
+    preview: strings.subject,
+  });
+}
+
 /**
  * Send a basic email (legacy support)
  */
@@ -464,3 +779,51 @@ export async function sendResetPasswordEmail({
     text: `Reset your password\n\nHey ${userName || 'there'}! Click the link below to reset your password:\n${resetUrl}\n\nThis link will expire in 1 hour.\n\nIf you didn't request this, please ignore this email.`,
   });
 }
+
+/**
+ * Warn a driver about expiring documents, or tell them they're suspended
+ */
+export async function sendDocumentExpiryEmail({
+  to,
+  userName,
+  documents,
+  suspended,
+}: SendDocumentExpiryEmailValues) {
+  const list = documents
+    .map(
+      (d) =>
+        `- ${d.label}: ${d.daysLeft <= 0 ? 'expired' : `expires in ${d.daysLeft} day(s)`} (${d.expiresAt.toISOString().slice(0, 10)})`,
+    )
+    .join('\n');
+
+  await resend.emails.send({
+    from: `${APP_NAME} <no-reply@familytaximm.com>`,
+    to,
+    subject: suspended
+      ? `Your ${APP_NAME} driver account is suspended`
+      : `Your ${APP_NAME} driver documents expire soon`,
+    html: documentExpiryEmailTemplate(documents, suspended, userName),
+    text: `${suspended ? 'Your driver account is suspended because a document has expired.' : 'Some of your driver documents expire soon.'}\n\n${list}\n\nPlease renew them and send the new copies to the ${APP_NAME} team.`,
+  });
+}
+
+/**
+ * Send a rider the receipt for a completed trip, in their app language
+ */
+export async function sendRideReceiptEmail(values: SendRideReceiptEmailValues) {
+  const strings = RIDE_RECEIPT_STRINGS[values.locale];
+  const lines = values.lines
+    .map(
+      ({ key, amount }) =>
+        `${strings.lines[key]}: ${key === 'discount' ? '-' : ''}${formatReceiptAmount(amount, values.currency)}`,
+    )
+    .join('\n');
+
+  await resend.emails.send({
+    from: `${APP_NAME} <no-reply@familytaximm.com>`,
+    to: values.to,
+    subject: `${strings.subject} · ${formatReceiptDate(values.completedAt, values.locale)}`,
+    html: rideReceiptEmailTemplate(values),
+    text: `${strings.title}\n\n${strings.from}: ${values.pickupAddress}\n${strings.to}: ${values.dropoffAddress}\n${values.driverName ? `${strings.driver}: ${values.driverName}${values.vehicle ? ` (${values.vehicle})` : ''}\n` : ''}\n${lines}\n${strings.total}: ${formatReceiptAmount(values.total, values.currency)}\n${strings.paidWith}: ${strings.methods[values.paymentMethod]}\n\n${strings.reference}: ${values.rideId}`,
+  });
+}
@@ -0,0 +1,74 @@
+const EARTH_RADIUS_M = 6_371_000;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/** Great-circle distance between two coordinates, in meters. */
+export function haversineMeters(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+): number {
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return EARTH_RADIUS_M * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/** Total length of a path of `{ lat, lng }` points, in meters. */
+export function pathLengthMeters(
+  points: readonly { lat: number; lng: number }[],
+): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += haversineMeters(
+      points[i - 1].lat,
+      points[i - 1].lng,
+      points[i].lat,
+      points[i].lng,
+    );
+  }
+  return total;
+}
+
+/** Initial compass bearing (0–360°, 0 = north) from point 1 towards point 2. */
+export function bearingDegrees(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+): number {
+  const dLng = toRad(lng2 - lng1);
+  const y = Math.sin(dLng) * Math.cos(toRad(lat2));
+  const x =
+    Math.cos(toRad(lat1)) * Math.sin(toRad(lat2)) -
+    Math.sin(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Shortest distance from point P to the segment A–B, in meters. Uses a local
+ * equirectangular projection around P — accurate at city scale.
+ */
+export function distanceToSegmentMeters(
+  p: { lat: number; lng: number },
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number },
+): number {
+  const kx = EARTH_RADIUS_M * Math.cos(toRad(p.lat));
+  const ky = EARTH_RADIUS_M;
+  const ax = toRad(a.lng - p.lng) * kx;
+  const ay = toRad(a.lat - p.lat) * ky;
+  const bx = toRad(b.lng - p.lng) * kx;
+  const by = toRad(b.lat - p.lat) * ky;
+
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lenSq = dx * dx + dy * dy;
+  // Projection of P (the origin) onto A–B, clamped to the segment
+  const t =
+    lenSq > 0 ? Math.min(1, Math.max(0, -(ax * dx + ay * dy) / lenSq)) : 0;
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
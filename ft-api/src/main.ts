@@ -39,6 +39,10 @@ async function bootstrap() {
     if (req.originalUrl?.startsWith('/api/auth')) return next();
     return jsonWithRawBody(req, res, next);
   });
+
+  // Lets in-flight dispatch jobs be released to other instances on deploy
+  app.enableShutdownHooks();
+
   await app.listen(process.env.PORT ?? 3000);
 }
 void bootstrap();
@@ -6,6 +6,7 @@ import {
   Logger,
   Post,
 } from '@nestjs/common';
+import { Session, type UserSession } from '@thallesp/nestjs-better-auth';
 import type { AutocompleteRequestBody } from './maps.service.js';
 import { MapsService } from './maps.service.js';
 import {
@@ -37,9 +38,12 @@ export class MapsController {
    */
   @Post('route')
   @HttpCode(HttpStatus.OK)
-  async getRouteQuote(@Body() body: RouteQuoteInput) {
+  async getRouteQuote(
+    @Session() session: UserSession,
+    @Body() body: RouteQuoteInput,
+  ) {
     this.logger.log(`Route quote request: ${JSON.stringify(body)}`);
-    const result = await this.routeQuote.getQuote(body);
+    const result = await this.routeQuote.getQuote(body, session.user.id);
     return result;
   }
 
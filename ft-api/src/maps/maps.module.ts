@@ -4,10 +4,11 @@ import { MapsController } from './maps.controller.js';
 import { MapsService } from './maps.service.js';
 import { RouteQuoteService } from './route-quote.service.js';
 import { PricingModule } from '../pricing/pricing.module.js';
+import { PromosModule } from '../promos/promos.module.js';
 import { PrismaService } from '../prisma.service.js';
 
 @Module({
-  imports: [ConfigModule, PricingModule],
+  imports: [ConfigModule, PricingModule, PromosModule],
   controllers: [MapsController],
   providers: [PrismaService, MapsService, RouteQuoteService],
   exports: [MapsService, RouteQuoteService],
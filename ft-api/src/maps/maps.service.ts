@@ -12,6 +12,21 @@ const ROUTES_COMPUTE_URL =
 const ROUTES_FIELD_MASK =
   'routes.duration,routes.distanceMeters,routes.polyline.encodedPolyline,routes.travelAdvisory.speedReadingIntervals';
 
+/** Routes API (Compute Route Matrix) for many-origins → one-destination ETAs. */
+const ROUTE_MATRIX_URL =
+  'https://routes.googleapis.com/distanceMatrix/v2:computeRouteMatrix';
+
+const ROUTE_MATRIX_FIELD_MASK = 'originIndex,duration,condition';
+
+/** Origins per matrix request (TRAFFIC_AWARE allows up to 625 elements). */
+const ROUTE_MATRIX_CHUNK = 25;
+
+/** How long a cached origin → destination ETA stays valid. */
+const ETA_CACHE_TTL_MS = 60_000;
+
+/** Coordinates are rounded to ~11 m for ETA cache keys. */
+const ETA_CACHE_PRECISION = 4;
+
 /** Traffic speed classification returned by Google Routes API. */
 export interface SpeedReadingInterval {
   startPolylinePointIndex: number;
@@ -61,6 +76,12 @@ export interface AutocompleteSuggestion {
 
 @Injectable()
 export class MapsService {
+  /** "originLat,originLng>destLat,destLng" → drive seconds (null = no route). */
+  private readonly etaCache = new Map<
+    string,
+    { seconds: number | null; expiresAt: number }
+  >();
+
   constructor(private readonly config: ConfigService) {}
 
   private getApiKey(): string {
@@ -167,6 +188,92 @@ export class MapsService {
     };
   }
 
+  // ---------------------------------------------------------------------------
+  // Drive ETA matrix
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Traffic-aware drive time (seconds) from each origin to one destination,
+   * via batched Compute Route Matrix calls. Results are cached briefly per
+   * ~11 m origin/destination cell, so repeated dispatch rounds for the same
+   * pickup reuse them. Entries are null when no route exists.
+   */
+  async computeDriveEtas(
+    origins: { lat: number; lng: number }[],
+    destination: { lat: number; lng: number },
+  ): Promise<(number | null)[]> {
+    const now = Date.now();
+    const keys = origins.map((o) => this.etaCacheKey(o, destination));
+    const result = keys.map((key) => {
+      const hit = this.etaCache.get(key);
+      return hit && hit.expiresAt > now ? hit.seconds : undefined;
+    });
+
+    const missing = result.flatMap((v, i) => (v === undefined ? [i] : []));
+    if (missing.length === 0) return result as (number | null)[];
+
+    const apiKey = this.getApiKey();
+    const toWaypoint = (p: { lat: number; lng: number }) => ({
+      waypoint: {
+        location: { latLng: { latitude: p.lat, longitude: p.lng } },
+      },
+    });
+
+    for (let start = 0; start < missing.length; start += ROUTE_MATRIX_CHUNK) {
+      const chunk = missing.slice(start, start + ROUTE_MATRIX_CHUNK);
+      const { data } = await axios.post<
+        Array<{ originIndex?: number; duration?: string; condition?: string }>
+      >(
+        ROUTE_MATRIX_URL,
+        {
+          origins: chunk.map((i) => toWaypoint(origins[i])),
+          destinations: [toWaypoint(destination)],
+          travelMode: 'DRIVE',
+          routingPreference: 'TRAFFIC_AWARE',
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Goog-Api-Key': apiKey,
+            'X-Goog-FieldMask': ROUTE_MATRIX_FIELD_MASK,
+          },
+          timeout: 10_000,
+        },
+      );
+
+      for (const i of chunk) result[i] = null;
+      for (const element of data ?? []) {
+        const i = chunk[element.originIndex ?? 0];
+        if (i === undefined || element.condition !== 'ROUTE_EXISTS') continue;
+        const match = element.duration?.match(/^(\d+)s$/);
+        result[i] = match ? parseInt(match[1], 10) : null;
+      }
+      for (const i of chunk) {
+        this.etaCache.set(keys[i], {
+          seconds: result[i] ?? null,
+          expiresAt: now + ETA_CACHE_TTL_MS,
+        });
+      }
+    }
+
+    this.pruneEtaCache(now);
+    return result as (number | null)[];
+  }
+
+  private etaCacheKey(
+    origin: { lat: number; lng: number },
+    destination: { lat: number; lng: number },
+  ): string {
+    const r = (n: number) => n.toFixed(ETA_CACHE_PRECISION);
+    return `${r(origin.lat)},${r(origin.lng)}>${r(destination.lat)},${r(destination.lng)}`;
+  }
+
+  private pruneEtaCache(now: number) {
+    for (const [key, entry] of this.etaCache) {
+      if (entry.expiresAt <= now) this.etaCache.delete(key);
+    }
+  }
+
   /** Small radius for very nearby results (5 km). */
   private static readonly NEAR_RADIUS_M = 5_000;
   /** Large radius for broader nearby results (50 km, API max). */
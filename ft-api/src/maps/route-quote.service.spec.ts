@@ -0,0 +1,115 @@
+import { jest } from '@jest/globals';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../prisma.service.js';
+import { PricingCacheService } from '../pricing/pricing-cache.service.js';
+import { RidePricingService } from '../pricing/ride-pricing.service.js';
+import { PromosService } from '../promos/promos.service.js';
+import { MapsService } from './maps.service.js';
+import { RouteQuoteService } from './route-quote.service.js';
+import type { VehicleType } from '../generated/prisma/enums.js';
+
+/** Per-type fares, so each tier is easy to tell apart. */
+const FARES: Partial<Record<VehicleType, number>> = {
+  STANDARD: 5000,
+  PLUS: 7000,
+  MOTORBIKE: 2500,
+};
+
+describe('RouteQuoteService', () => {
+  let service: RouteQuoteService;
+  let quoted: VehicleType[];
+
+  const maps = {
+    computeRoute: jest.fn(() =>
+      Promise.resolve({
+        distanceMeters: 5000,
+        distanceKm: 5,
+        durationSeconds: 900,
+        durationMinutes: 15,
+        encodedPolyline: 'abc',
+        speedReadingIntervals: [],
+      }),
+    ),
+  };
+  const pricing = {
+    calculateFare: jest.fn(({ vehicleType }: { vehicleType: VehicleType }) => ({
+      totalFare: FARES[vehicleType] ?? 0,
+      currency: 'MMK',
+    })),
+    calculateSharedFare: jest.fn(() => ({ totalFare: 3000 })),
+  };
+  const cache = { getQuotedVehicleTypes: jest.fn(() => quoted) };
+  const prisma = {
+    routeQuote: { create: jest.fn(() => Promise.resolve({ id: 'quote-1' })) },
+  };
+
+  const input = {
+    pickupLat: 16.8,
+    pickupLng: 96.15,
+    dropoffLat: 16.85,
+    dropoffLng: 96.16,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    quoted = ['STANDARD', 'PLUS', 'MOTORBIKE'];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RouteQuoteService,
+        { provide: MapsService, useValue: maps },
+        { provide: RidePricingService, useValue: pricing },
+        { provide: PricingCacheService, useValue: cache },
+        { provide: PrismaService, useValue: prisma },
+        { provide: PromosService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<RouteQuoteService>(RouteQuoteService);
+  });
+
+  it('quotes every tier on offer', async () => {
+    const quote = await service.getQuote(input, 'rider-1');
+
+    expect(quote.fares.map((f) => f.vehicleType)).toEqual([
+      'STANDARD',
+      'PLUS',
+      'MOTORBIKE',
+    ]);
+    expect(quote).toMatchObject({
+      standardFareMmkt: 5000,
+      plusFareMmkt: 7000,
+      sharedFareMmkt: 3000,
+    });
+  });
+
+  it('quotes the remaining tiers when Plus is disabled', async () => {
+    quoted = ['STANDARD', 'MOTORBIKE'];
+
+    const quote = await service.getQuote(input, 'rider-1');
+
+    expect(quote.fares.map((f) => f.vehicleType)).toEqual([
+      'STANDARD',
+      'MOTORBIKE',
+    ]);
+    expect(quote).toMatchObject({
+      standardFareMmkt: 5000,
+      plusFareMmkt: null,
+      plusDiscountMmkt: null,
+    });
+  });
+
+  it('offers no shared seat without a Standard tier', async () => {
+    quoted = ['MOTORBIKE'];
+
+    const quote = await service.getQuote(input, 'rider-1');
+
+    expect(quote).toMatchObject({
+      fares: [{ vehicleType: 'MOTORBIKE', fareMmkt: 2500 }],
+      standardFareMmkt: null,
+      sharedFareMmkt: null,
+      currency: 'MMK',
+    });
+    expect(pricing.calculateSharedFare).not.toHaveBeenCalled();
+  });
+});
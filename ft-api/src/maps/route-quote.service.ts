@@ -4,8 +4,25 @@ import {
   Logger,
 } from '@nestjs/common';
 import { MapsService, type SpeedReadingInterval } from './maps.service.js';
-import { RidePricingService } from '../pricing/ride-pricing.service.js';
+import {
+  RidePricingService,
+  type FareResult,
+} from '../pricing/ride-pricing.service.js';
+import { PricingCacheService } from '../pricing/pricing-cache.service.js';
 import { PrismaService } from '../prisma.service.js';
+import { PromosService } from '../promos/promos.service.js';
+import { parseScheduledFor } from '../rides/ride-schedule.js';
+import type { Prisma } from '../generated/prisma/client.js';
+import type { VehicleType } from '../generated/prisma/enums.js';
+
+/** Intermediate stop on a multi-stop route. */
+export interface RouteWaypoint {
+  lat: number;
+  lng: number;
+  /** Shown to the driver; falls back to the coordinates when omitted. */
+  address?: string;
+  mainText?: string;
+}
 
 export interface RouteQuoteInput {
   pickupLat: number;
@@ -13,12 +30,27 @@ export interface RouteQuoteInput {
   dropoffLat: number;
   dropoffLng: number;
   /** Intermediate stops between pickup and final dropoff. */
-  waypoints?: { lat: number; lng: number }[];
+  waypoints?: RouteWaypoint[];
   vehicleType?: string;
   /** Township name of the pickup location. */
   originTownship?: string;
   /** Township name of the dropoff location. */
   destinationTownship?: string;
+  /** Optional promo code; the returned fares are after its discount. */
+  promoCode?: string;
+  /**
+   * ISO pickup time for an advance booking; omit to ride now. Fares are
+   * priced (and locked) for this time.
+   */
+  scheduledFor?: string | null;
+}
+
+/** One vehicle type's fare on a quote. */
+export interface QuoteTierFare {
+  vehicleType: VehicleType;
+  /** Fare the rider pays, after any promo discount. */
+  fareMmkt: number;
+  discountMmkt: number;
 }
 
 export interface RouteQuoteResult {
@@ -28,12 +60,34 @@ export interface RouteQuoteResult {
   durationMinutes: number;
   encodedPolyline: string;
   speedReadingIntervals: SpeedReadingInterval[];
-  standardFareMmkt: number;
-  plusFareMmkt: number;
+  /** Every vehicle type on offer, in display order. */
+  fares: QuoteTierFare[];
+  /**
+   * Standard / Plus entries of `fares`, for app builds that predate it.
+   * Null when that tier isn't offered.
+   */
+  standardFareMmkt: number | null;
+  plusFareMmkt: number | null;
+  standardDiscountMmkt: number | null;
+  plusDiscountMmkt: number | null;
+  /**
+   * Per-rider SHARED fare (Standard, split); promos don't apply to it. Null
+   * for routes with extra stops or a scheduled pickup, which can't be shared.
+   */
+  sharedFareMmkt: number | null;
+  /** Applied promo code, or null when none was given. */
+  promoCode: string | null;
+  /** Pickup time the fares were priced for; null for "ride now". */
+  scheduledFor: string | null;
   currency: string;
   routeQuoteId: string;
 }
 
+/** Round to 2 decimals — matches the Decimal(10, 2) money columns. */
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
 @Injectable()
 export class RouteQuoteService {
   private readonly logger = new Logger(RouteQuoteService.name);
@@ -41,11 +95,22 @@ export class RouteQuoteService {
   constructor(
     private readonly maps: MapsService,
     private readonly pricing: RidePricingService,
+    private readonly cache: PricingCacheService,
     private readonly prisma: PrismaService,
+    private readonly promos: PromosService,
   ) {}
 
-  async getQuote(input: RouteQuoteInput): Promise<RouteQuoteResult> {
+  async getQuote(
+    input: RouteQuoteInput,
+    userId: string,
+  ): Promise<RouteQuoteResult> {
     const { pickupLat, pickupLng, dropoffLat, dropoffLng } = input;
+    const scheduledFor = parseScheduledFor(input.scheduledFor);
+
+    // 0. Check the promo first so an invalid code fails before the routing call
+    const promo = input.promoCode?.trim()
+      ? await this.promos.findUsable(userId, { code: input.promoCode })
+      : null;
 
     // 1. Compute route via Google Routes API
     let route: Awaited<ReturnType<MapsService['computeRoute']>>;
@@ -62,22 +127,38 @@ export class RouteQuoteService {
       );
     }
 
-    // 2. Calculate fares (synchronous, from in-memory cache)
-    const standardFare = this.pricing.calculateFare({
-      distanceKm: route.distanceKm,
-      durationMinutes: route.durationMinutes,
-      vehicleType: 'STANDARD',
-      originTownship: input.originTownship,
-      destinationTownship: input.destinationTownship,
+    // 2. Calculate a fare per offered vehicle type (synchronous, from
+    //    in-memory cache). Per-tier discount — a tier below the promo's
+    //    minimum fare gets none.
+    const tiers = this.cache.getQuotedVehicleTypes().map((vehicleType) => {
+      const breakdown = this.pricing.calculateFare({
+        distanceKm: route.distanceKm,
+        durationMinutes: route.durationMinutes,
+        vehicleType,
+        originTownship: input.originTownship,
+        destinationTownship: input.destinationTownship,
+        pickupLat,
+        pickupLng,
+        at: scheduledFor ?? undefined,
+      });
+      const discount = promo
+        ? this.promos.computeDiscount(promo, breakdown.totalFare)
+        : 0;
+      return { vehicleType, breakdown, discount };
     });
+    const [first] = tiers;
+    if (!first) {
+      throw new InternalServerErrorException('No vehicle type is priced.');
+    }
+    const currency = first.breakdown.currency;
+    const standard = tiers.find((t) => t.vehicleType === 'STANDARD');
+    const plus = tiers.find((t) => t.vehicleType === 'PLUS');
 
-    const plusFare = this.pricing.calculateFare({
-      distanceKm: route.distanceKm,
-      durationMinutes: route.durationMinutes,
-      vehicleType: 'PLUS',
-      originTownship: input.originTownship,
-      destinationTownship: input.destinationTownship,
-    });
+    // SHARED seats are split from the Standard fare of the same route
+    const sharedFare =
+      !standard || input.waypoints?.length || scheduledFor
+        ? null
+        : this.pricing.calculateSharedFare(standard.breakdown);
 
     // 3. Persist the quote — retry once on Neon WebSocket / transient DB errors
     let quoteId = '';
@@ -90,9 +171,12 @@ export class RouteQuoteService {
         distanceMeters: route.distanceMeters,
         durationSeconds: route.durationSeconds,
         encodedPolyline: route.encodedPolyline,
-        standardFareMmkt: standardFare.totalFare,
-        taxiPlusFareMmkt: plusFare.totalFare,
-        currency: standardFare.currency,
+        tiers,
+        sharedFare,
+        currency,
+        promoCodeId: promo?.id ?? null,
+        scheduledFor,
+        stops: input.waypoints,
       });
       quoteId = quote.id;
     } catch (err) {
@@ -109,9 +193,23 @@ export class RouteQuoteService {
       durationMinutes: route.durationMinutes,
       encodedPolyline: route.encodedPolyline,
       speedReadingIntervals: route.speedReadingIntervals,
-      standardFareMmkt: standardFare.totalFare,
-      plusFareMmkt: plusFare.totalFare,
-      currency: standardFare.currency,
+      fares: tiers.map((tier) => ({
+        vehicleType: tier.vehicleType,
+        fareMmkt: roundMoney(tier.breakdown.totalFare - tier.discount),
+        discountMmkt: tier.discount,
+      })),
+      standardFareMmkt: standard
+        ? roundMoney(standard.breakdown.totalFare - standard.discount)
+        : null,
+      plusFareMmkt: plus
+        ? roundMoney(plus.breakdown.totalFare - plus.discount)
+        : null,
+      sharedFareMmkt: sharedFare?.totalFare ?? null,
+      standardDiscountMmkt: standard?.discount ?? null,
+      plusDiscountMmkt: plus?.discount ?? null,
+      promoCode: promo?.code ?? null,
+      scheduledFor: scheduledFor?.toISOString() ?? null,
+      currency,
       routeQuoteId: quoteId,
     };
   }
@@ -128,12 +226,47 @@ export class RouteQuoteService {
     distanceMeters: number;
     durationSeconds: number;
     encodedPolyline: string;
-    standardFareMmkt: number;
-    taxiPlusFareMmkt: number;
+    tiers: {
+      vehicleType: VehicleType;
+      breakdown: FareResult;
+      discount: number;
+    }[];
+    sharedFare: FareResult | null;
     currency: string;
+    promoCodeId: string | null;
+    scheduledFor: Date | null;
+    stops?: RouteWaypoint[];
   }) {
+    const { stops, tiers, sharedFare, ...quote } = data;
+    const create = {
+      ...quote,
+      fares: {
+        create: tiers.map((tier) => ({
+          vehicleType: tier.vehicleType,
+          fareMmkt: tier.breakdown.totalFare,
+          discountMmkt: tier.discount,
+          breakdown: tier.breakdown as unknown as Prisma.InputJsonValue,
+        })),
+      },
+      sharedFareMmkt: sharedFare?.totalFare ?? null,
+      ...(sharedFare && {
+        sharedFareBreakdown: sharedFare as unknown as Prisma.InputJsonValue,
+      }),
+      ...(stops?.length && {
+        stops: {
+          create: stops.map((stop, idx) => ({
+            sequence: idx + 1,
+            address: stop.address?.trim() || `${stop.lat}, ${stop.lng}`,
+            mainText: stop.mainText ?? null,
+            lat: stop.lat,
+            lng: stop.lng,
+          })),
+        },
+      }),
+    };
+
     try {
-      return await this.prisma.routeQuote.create({ data });
+      return await this.prisma.routeQuote.create({ data: create });
     } catch (firstErr) {
       this.logger.warn(
         'Route quote DB insert failed, retrying once…',
@@ -141,7 +274,7 @@ export class RouteQuoteService {
       );
       // Brief pause before retry to let the connection pool recover
       await new Promise((r) => setTimeout(r, 500));
-      return await this.prisma.routeQuote.create({ data });
+      return await this.prisma.routeQuote.create({ data: create });
     }
   }
 }
@@ -0,0 +1,52 @@
+import {
+  BadRequestException,
+  Controller,
+  ForbiddenException,
+  Get,
+  Query,
+} from '@nestjs/common';
+import { Session, type UserSession } from '@thallesp/nestjs-better-auth';
+import {
+  DriverEarningsService,
+  EARNINGS_PERIODS,
+  type EarningsPeriod,
+} from './driver-earnings.service.js';
+
+/** Ensure the caller has the DRIVER role. */
+function assertDriver(session: UserSession | null): string {
+  if (!session?.user) {
+    throw new ForbiddenException('Authentication required.');
+  }
+  const role =
+    typeof session.user.role === 'string'
+      ? session.user.role.toUpperCase()
+      : '';
+  if (role !== 'DRIVER') {
+    throw new ForbiddenException('Only drivers can access this endpoint.');
+  }
+  return session.user.id;
+}
+
+@Controller('driver/earnings')
+export class DriverEarningsController {
+  constructor(private readonly earningsService: DriverEarningsService) {}
+
+  /**
+   * GET /driver/earnings?period=day|week|month
+   * Totals, chart buckets and per-ride line items for the current period.
+   */
+  @Get()
+  async getEarnings(
+    @Session() session: UserSession | null,
+    @Query('period') period?: string,
+  ) {
+    const userId = assertDriver(session);
+    const selected = (period ?? 'day') as EarningsPeriod;
+    if (!EARNINGS_PERIODS.includes(selected)) {
+      throw new BadRequestException(
+        `period must be one of: ${EARNINGS_PERIODS.join(', ')}`,
+      );
+    }
+    return this.earningsService.getEarnings(userId, selected);
+  }
+}
@@ -0,0 +1,99 @@
+import { jest } from '@jest/globals';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../prisma.service.js';
+import { DriverEarningsService } from './driver-earnings.service.js';
+
+interface EarningRow {
+  id: string;
+  rideId: string | null;
+  type: string;
+  description: string | null;
+  amount: number;
+  currency: string;
+  createdAt: Date;
+}
+
+function earning(id: string, createdAt: string, amount: number): EarningRow {
+  return {
+    id,
+    rideId: `ride-${id}`,
+    type: 'RIDE',
+    description: null,
+    amount,
+    currency: 'MMK',
+    createdAt: new Date(createdAt),
+  };
+}
+
+describe('DriverEarningsService', () => {
+  let service: DriverEarningsService;
+  let rows: EarningRow[];
+
+  const prisma = {
+    driver: { findUnique: jest.fn(() => Promise.resolve({ id: 'driver-1' })) },
+    driverEarning: {
+      // Applies the window like the database would
+      findMany: jest.fn(
+        (args: { where: { createdAt: { gte: Date; lt: Date } } }) => {
+          const { gte, lt } = args.where.createdAt;
+          return Promise.resolve(
+            rows.filter((r) => r.createdAt >= gte && r.createdAt < lt),
+          );
+        },
+      ),
+    },
+    driverOnlineSession: { findMany: jest.fn(() => Promise.resolve([])) },
+    ride: { findMany: jest.fn(() => Promise.resolve([])) },
+  };
+
+  // 00:30 on Tuesday 20 October in Yangon (UTC+06:30)
+  const now = new Date('2026-10-19T18:00:00Z');
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    rows = [
+      // 23:45 on the 19th, Yangon time — yesterday
+      earning('late', '2026-10-19T17:15:00Z', 3000),
+      // 00:15 on the 20th, Yangon time — today
+      earning('early', '2026-10-19T17:45:00Z', 4000),
+    ];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DriverEarningsService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<DriverEarningsService>(DriverEarningsService);
+  });
+
+  it('starts the day at Yangon midnight', async () => {
+    const result = await service.getEarnings('driver-user', 'day', now);
+
+    expect(result.from).toEqual(new Date('2026-10-19T17:30:00Z'));
+    expect(result.to).toEqual(new Date('2026-10-20T17:30:00Z'));
+    expect(result.items.map((i) => i.id)).toEqual(['early']);
+    expect(result.totals.earnings).toBe(4000);
+    // First hourly bucket is 00:00–01:00 Yangon time
+    expect(result.buckets).toHaveLength(24);
+    expect(result.buckets[0]).toMatchObject({ earnings: 4000 });
+  });
+
+  it('starts the week on Monday in Yangon', async () => {
+    const result = await service.getEarnings('driver-user', 'week', now);
+
+    expect(result.from).toEqual(new Date('2026-10-18T17:30:00Z'));
+    expect(result.buckets).toHaveLength(7);
+    // Both fall on the Monday and Tuesday of this week
+    expect(result.buckets[0]).toMatchObject({ earnings: 3000 });
+    expect(result.buckets[1]).toMatchObject({ earnings: 4000 });
+  });
+
+  it('starts the month on the 1st in Yangon', async () => {
+    const result = await service.getEarnings('driver-user', 'month', now);
+
+    expect(result.from).toEqual(new Date('2026-09-30T17:30:00Z'));
+    expect(result.to).toEqual(new Date('2026-10-31T17:30:00Z'));
+  });
+});
@@ -0,0 +1,229 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma.service.js';
+import type {
+  PaymentMethod,
+  PaymentStatus,
+} from '../generated/prisma/enums.js';
+
+export const EARNINGS_PERIODS = ['day', 'week', 'month'] as const;
+export type EarningsPeriod = (typeof EARNINGS_PERIODS)[number];
+
+export interface EarningsBucket {
+  /** Start of the bucket (hour / day / week) */
+  startsAt: Date;
+  earnings: number;
+  trips: number;
+}
+
+export interface EarningsLineItem {
+  id: string;
+  type: string;
+  description: string | null;
+  amount: number;
+  currency: string;
+  createdAt: Date;
+  ride: {
+    id: string;
+    pickupAddress: string;
+    dropoffAddress: string;
+    completedAt: Date | null;
+    grossFare: number | null;
+    platformFee: number | null;
+    paymentMethod: PaymentMethod | null;
+    paymentStatus: PaymentStatus | null;
+  } | null;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Myanmar time (Asia/Yangon): UTC+06:30 all year, no daylight saving. */
+const YANGON_OFFSET_MS = 390 * 60_000;
+const HOUR_MS = 60 * 60_000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Window for a period on the drivers' own clock, in Yangon time whatever
+ * the server's timezone: today, the current Monday-based week or the
+ * current month.
+ */
+function periodWindow(period: EarningsPeriod, now: Date) {
+  // Yangon wall-clock time, read and changed with the UTC accessors
+  const local = new Date(now.getTime() + YANGON_OFFSET_MS);
+  const from = new Date(
+    Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()),
+  );
+  if (period === 'week') {
+    // getUTCDay(): 0 = Sunday → go back 6 days to Monday
+    from.setUTCDate(from.getUTCDate() - ((from.getUTCDay() + 6) % 7));
+  } else if (period === 'month') {
+    from.setUTCDate(1);
+  }
+
+  const to = new Date(from);
+  if (period === 'day') to.setUTCDate(to.getUTCDate() + 1);
+  else if (period === 'week') to.setUTCDate(to.getUTCDate() + 7);
+  else to.setUTCMonth(to.getUTCMonth() + 1);
+
+  return {
+    from: new Date(from.getTime() - YANGON_OFFSET_MS),
+    to: new Date(to.getTime() - YANGON_OFFSET_MS),
+  };
+}
+
+/**
+ * Chart buckets: hours of the day, days of the week, weeks of the month.
+ * Yangon has no daylight saving, so every hour and day is the same length.
+ */
+function bucketStarts(period: EarningsPeriod, from: Date, to: Date): Date[] {
+  const step =
+    period === 'day' ? HOUR_MS : period === 'week' ? DAY_MS : 7 * DAY_MS;
+  const starts: Date[] = [];
+  for (let t = from.getTime(); t < to.getTime(); t += step) {
+    starts.push(new Date(t));
+  }
+  return starts;
+}
+
+/**
+ * Driver-facing earnings summary for the earnings tab: totals, a chart
+ * series and the per-ride ledger for the selected period.
+ */
+@Injectable()
+export class DriverEarningsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getEarnings(userId: string, period: EarningsPeriod, now = new Date()) {
+    const driver = await this.prisma.driver.findUnique({
+      where: { userId },
+      select: { id: true },
+    });
+    if (!driver) throw new NotFoundException('Driver profile not found');
+
+    const { from, to } = periodWindow(period, now);
+
+    const [earnings, sessions] = await Promise.all([
+      this.prisma.driverEarning.findMany({
+        where: { driverId: driver.id, createdAt: { gte: from, lt: to } },
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.driverOnlineSession.findMany({
+        where: {
+          driverId: driver.id,
+          startedAt: { lt: to },
+          OR: [{ endedAt: null }, { endedAt: { gt: from } }],
+        },
+        select: { startedAt: true, endedAt: true },
+      }),
+    ]);
+
+    // Ride + payment details for the ride earnings, fetched in one go
+    const rideIds = earnings
+      .map((e) => e.rideId)
+      .filter((id): id is string => id !== null);
+    const rides = rideIds.length
+      ? await this.prisma.ride.findMany({
+          where: { id: { in: rideIds } },
+          select: {
+            id: true,
+            pickupAddress: true,
+            dropoffAddress: true,
+            completedAt: true,
+            payment: {
+              select: {
+                amount: true,
+                platformFee: true,
+                method: true,
+                status: true,
+              },
+            },
+          },
+        })
+      : [];
+    const rideById = new Map(rides.map((r) => [r.id, r]));
+
+    const items: EarningsLineItem[] = earnings.map((e) => {
+      const ride = e.rideId ? rideById.get(e.rideId) : undefined;
+      return {
+        id: e.id,
+        type: e.type,
+        description: e.description,
+        amount: Number(e.amount),
+        currency: e.currency,
+        createdAt: e.createdAt,
+        ride: ride
+          ? {
+              id: ride.id,
+              pickupAddress: ride.pickupAddress,
+              dropoffAddress: ride.dropoffAddress,
+              completedAt: ride.completedAt,
+              grossFare: ride.payment ? Number(ride.payment.amount) : null,
+              platformFee: ride.payment
+                ? Number(ride.payment.platformFee)
+                : null,
+              paymentMethod: ride.payment?.method ?? null,
+              paymentStatus: ride.payment?.status ?? null,
+            }
+          : null,
+      };
+    });
+
+    // Online time: sessions clipped to the window, open ones run until now
+    const windowEnd = Math.min(to.getTime(), now.getTime());
+    let onlineMs = 0;
+    for (const s of sessions) {
+      const start = Math.max(s.startedAt.getTime(), from.getTime());
+      const end = Math.min(s.endedAt?.getTime() ?? now.getTime(), windowEnd);
+      if (end > start) onlineMs += end - start;
+    }
+    const onlineSeconds = Math.round(onlineMs / 1000);
+
+    const buckets: EarningsBucket[] = bucketStarts(period, from, to).map(
+      (startsAt) => ({ startsAt, earnings: 0, trips: 0 }),
+    );
+    for (const item of items) {
+      const at = item.createdAt.getTime();
+      // Buckets are ascending — take the last one that started before `at`
+      for (let i = buckets.length - 1; i >= 0; i--) {
+        if (buckets[i].startsAt.getTime() <= at) {
+          buckets[i].earnings = roundMoney(buckets[i].earnings + item.amount);
+          if (item.ride) buckets[i].trips += 1;
+          break;
+        }
+      }
+    }
+
+    const rideItems = items.filter((i) => i.ride !== null);
+    const trips = rideItems.length;
+    const totalEarnings = roundMoney(
+      items.reduce((sum, i) => sum + i.amount, 0),
+    );
+
+    return {
+      period,
+      from,
+      to,
+      currency: items[0]?.currency ?? 'MMK',
+      totals: {
+        earnings: totalEarnings,
+        grossFares: roundMoney(
+          rideItems.reduce((sum, i) => sum + (i.ride?.grossFare ?? 0), 0),
+        ),
+        platformFees: roundMoney(
+          rideItems.reduce((sum, i) => sum + (i.ride?.platformFee ?? 0), 0),
+        ),
+        trips,
+        onlineSeconds,
+        onlineHours: Math.round((onlineSeconds / 3600) * 10) / 10,
+        perTrip: trips ? roundMoney(totalEarnings / trips) : 0,
+        perOnlineHour:
+          onlineSeconds > 0
+            ? roundMoney(totalEarnings / (onlineSeconds / 3600))
+            : 0,
+      },
+      buckets,
+      items,
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Session, type UserSession } from '@thallesp/nestjs-better-auth';
+import { PaymentsService } from './payments.service.js';
+
+const ADMIN_ROLES = ['ADMIN', 'MANAGER', 'OPERATION', 'SUPERADMIN'];
+const ELEVATED_ROLES = ['SUPERADMIN', 'MANAGER', 'OPERATION'];
+
+function assertAdmin(session: UserSession | null): void {
+  if (!session?.user) throw new UnauthorizedException('Unauthorized');
+  const role = session.user.role;
+  if (typeof role !== 'string' || !ADMIN_ROLES.includes(role.toUpperCase())) {
+    throw new ForbiddenException('Admin access required');
+  }
+}
+
+function assertElevated(session: UserSession | null): void {
+  assertAdmin(session);
+  const role = (session!.user.role as string).toUpperCase();
+  if (!ELEVATED_ROLES.includes(role)) {
+    throw new ForbiddenException(
+      'Only superadmin, manager, or operation roles can perform this action',
+    );
+  }
+}
+
+@Controller('admin/payments')
+export class PaymentsController {
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  /**
+   * GET /admin/payments/cash-reconciliation
+   * Outstanding platform fees per driver from cash rides.
+   */
+  @Get('cash-reconciliation')
+  async getCashReconciliation(@Session() session: UserSession | null) {
+    assertAdmin(session);
+    return this.paymentsService.getCashReconciliation();
+  }
+
+  /**
+   * POST /admin/payments/drivers/:driverId/remit
+   * Record that the driver has handed over their outstanding platform fees.
+   */
+  @Post('drivers/:driverId/remit')
+  @HttpCode(HttpStatus.OK)
+  async markFeesRemitted(
+    @Session() session: UserSession | null,
+    @Param('driverId') driverId: string,
+  ) {
+    assertElevated(session);
+    return this.paymentsService.markFeesRemitted(driverId);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { DriverEarningsController } from './driver-earnings.controller.js';
+import { DriverEarningsService } from './driver-earnings.service.js';
+import { PaymentsController } from './payments.controller.js';
+import { PaymentsService } from './payments.service.js';
+import { PrismaService } from '../prisma.service.js';
+import { PricingModule } from '../pricing/pricing.module.js';
+
+@Module({
+  imports: [PricingModule],
+  controllers: [PaymentsController, DriverEarningsController],
+  providers: [PaymentsService, DriverEarningsService, PrismaService],
+  exports: [PaymentsService],
+})
+export class PaymentsModule {}
@@ -0,0 +1,293 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma.service.js';
+import { PricingCacheService } from '../pricing/pricing-cache.service.js';
+import type { Prisma } from '../generated/prisma/client.js';
+import type {
+  PaymentMethod,
+  PaymentStatus,
+} from '../generated/prisma/enums.js';
+
+export interface RidePaymentSummary {
+  method: PaymentMethod;
+  status: PaymentStatus;
+  amount: number;
+  driverPayout: number;
+  platformFee: number;
+  currency: string;
+}
+
+/** Round to 2 decimals — matches the Decimal(10, 2) money columns. */
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Money side of a completed ride: the `Payment` row with the commission
+ * split, the driver's `DriverEarning` ledger entry and `Driver.totalEarnings`.
+ *
+ * Cash rides start PENDING — the driver collects the fare and confirms it,
+ * then owes the platform fee until an admin records the remittance.
+ */
+@Injectable()
+export class PaymentsService {
+  private readonly logger = new Logger(PaymentsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cache: PricingCacheService,
+  ) {}
+
+  // ──────────────────────────────────────────────────────────
+  // Settlement — runs once when a ride is COMPLETED
+  // ──────────────────────────────────────────────────────────
+
+  /**
+   * Create the payment and earning for a completed ride. Must run after the
+   * final fare is settled, inside the transaction that completes the ride.
+   * Idempotent: an existing payment is returned as is.
+   */
+  async settleRide(
+    tx: Prisma.TransactionClient,
+    rideId: string,
+  ): Promise<RidePaymentSummary> {
+    const ride = await tx.ride.findUniqueOrThrow({
+      where: { id: rideId },
+      select: {
+        status: true,
+        driverId: true,
+        vehicleType: true,
+        totalFare: true,
+        currency: true,
+        paymentMethod: true,
+        payment: true,
+      },
+    });
+
+    if (ride.payment) {
+      return this.toSummary(ride.payment);
+    }
+    if (ride.status !== 'COMPLETED' || !ride.driverId) {
+      throw new BadRequestException(
+        `Ride ${rideId} is not a completed ride (status: ${ride.status})`,
+      );
+    }
+
+    const { commissionPercent } = this.cache.getConfig(ride.vehicleType);
+    const amount = Number(ride.totalFare);
+    const platformFee = roundMoney((amount * commissionPercent) / 100);
+    const driverPayout = roundMoney(amount - platformFee);
+    const isCash = ride.paymentMethod === 'CASH';
+
+    const payment = await tx.payment.create({
+      data: {
+        rideId,
+        amount,
+        currency: ride.currency,
+        method: ride.paymentMethod,
+        status: isCash ? 'PENDING' : 'COMPLETED',
+        paidAt: isCash ? null : new Date(),
+        driverPayout,
+        platformFee,
+      },
+    });
+
+    await tx.driverEarning.create({
+      data: {
+        driverId: ride.driverId,
+        amount: driverPayout,
+        currency: ride.currency,
+        type: 'ride',
+        description: `Ride fare ${amount} ${ride.currency} less ${commissionPercent}% commission`,
+        rideId,
+      },
+    });
+
+    await tx.driver.update({
+      where: { id: ride.driverId },
+      data: { totalEarnings: { increment: driverPayout } },
+    });
+
+    this.logger.log(
+      `Ride ${rideId} settled: ${amount} ${ride.currency} ${ride.paymentMethod} ` +
+        `(driver ${driverPayout}, platform ${platformFee}, ${payment.status})`,
+    );
+
+    return this.toSummary(payment);
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // Cash collection — driver confirms they received the fare
+  // ──────────────────────────────────────────────────────────
+
+  async confirmCashCollected(
+    rideId: string,
+    driverUserId: string,
+  ): Promise<RidePaymentSummary> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { rideId },
+      include: { ride: { select: { driver: { select: { userId: true } } } } },
+    });
+    if (!payment) {
+      throw new NotFoundException(`No payment for ride: ${rideId}`);
+    }
+    if (payment.ride.driver?.userId !== driverUserId) {
+      throw new ForbiddenException('You are not the driver of this ride.');
+    }
+    if (payment.method !== 'CASH') {
+      throw new BadRequestException('This ride was not paid in cash.');
+    }
+
+    // Guard on status so a double tap doesn't move paidAt
+    await this.prisma.payment.updateMany({
+      where: { id: payment.id, status: 'PENDING' },
+      data: { status: 'COMPLETED', paidAt: new Date() },
+    });
+
+    const updated = await this.prisma.payment.findUniqueOrThrow({
+      where: { id: payment.id },
+    });
+    this.logger.log(`Ride ${rideId}: cash collection confirmed by driver`);
+    return this.toSummary(updated);
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // Reconciliation — platform fees drivers hold from cash rides
+  // ──────────────────────────────────────────────────────────
+
+  /**
+   * Per-driver totals of platform fees on cash rides not yet remitted.
+   * `owed` covers collected rides; `pending` rides still await the driver's
+   * collection confirmation.
+   */
+  async getCashReconciliation() {
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        method: 'CASH',
+        remittedAt: null,
+        status: { in: ['PENDING', 'COMPLETED'] },
+      },
+      select: {
+        status: true,
+        amount: true,
+        platformFee: true,
+        currency: true,
+        createdAt: true,
+        ride: {
+          select: {
+            driver: {
+              select: {
+                id: true,
+                user: { select: { name: true, email: true } },
+              },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const byDriver = new Map<
+      string,
+      {
+        driverId: string;
+        name: string;
+        email: string;
+        currency: string;
+        owed: number;
+        collectedRides: number;
+        pendingRides: number;
+        pendingAmount: number;
+        oldestAt: Date;
+      }
+    >();
+
+    for (const p of payments) {
+      const driver = p.ride.driver;
+      if (!driver) continue;
+
+      let row = byDriver.get(driver.id);
+      if (!row) {
+        row = {
+          driverId: driver.id,
+          name: driver.user.name,
+          email: driver.user.email,
+          currency: p.currency,
+          owed: 0,
+          collectedRides: 0,
+          pendingRides: 0,
+          pendingAmount: 0,
+          oldestAt: p.createdAt,
+        };
+        byDriver.set(driver.id, row);
+      }
+
+      if (p.status === 'COMPLETED') {
+        row.owed = roundMoney(row.owed + Number(p.platformFee));
+        row.collectedRides += 1;
+      } else {
+        row.pendingAmount = roundMoney(row.pendingAmount + Number(p.amount));
+        row.pendingRides += 1;
+      }
+    }
+
+    return [...byDriver.values()].sort((a, b) => b.owed - a.owed);
+  }
+
+  /**
+   * Record that a driver has handed over the platform fees for all their
+   * collected cash rides.
+   */
+  async markFeesRemitted(driverId: string) {
+    const driver = await this.prisma.driver.findUnique({
+      where: { id: driverId },
+      select: { id: true },
+    });
+    if (!driver) throw new NotFoundException('Driver not found');
+
+    // One statement marks the rides and returns exactly those it marked, so
+    // a ride settled or remitted concurrently is never half-counted
+    const remitted = await this.prisma.$queryRaw<{ platformFee: unknown }[]>`
+      UPDATE payment p
+      SET "remittedAt" = NOW(), "updatedAt" = NOW()
+      FROM ride r
+      WHERE p."rideId" = r.id
+        AND r."driverId" = ${driverId}
+        AND p.method = 'CASH'
+        AND p.status = 'COMPLETED'
+        AND p."remittedAt" IS NULL
+      RETURNING p."platformFee"`;
+    const count = remitted.length;
+
+    const amount = roundMoney(
+      remitted.reduce((sum, p) => sum + Number(p.platformFee), 0),
+    );
+    this.logger.log(
+      `Driver ${driverId} remitted ${amount} in platform fees (${count} rides)`,
+    );
+    return { driverId, remittedRides: count, amount };
+  }
+
+  private toSummary(payment: {
+    method: PaymentMethod;
+    status: PaymentStatus;
+    amount: unknown;
+    driverPayout: unknown;
+    platformFee: unknown;
+    currency: string;
+  }): RidePaymentSummary {
+    return {
+      method: payment.method,
+      status: payment.status,
+      amount: Number(payment.amount),
+      driverPayout: Number(payment.driverPayout),
+      platformFee: Number(payment.platformFee),
+      currency: payment.currency,
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { jest } from '@jest/globals';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../prisma.service.js';
+import { PricingCacheService } from './pricing-cache.service.js';
+
+describe('PricingCacheService.getQuotedVehicleTypes', () => {
+  let service: PricingCacheService;
+  let rows: { vehicleType: string }[];
+
+  const prisma = {
+    pricingConfig: { findMany: jest.fn(() => Promise.resolve(rows)) },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PricingCacheService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<PricingCacheService>(PricingCacheService);
+  });
+
+  it('offers only the configured vehicle types', async () => {
+    rows = [{ vehicleType: 'MOTORBIKE' }, { vehicleType: 'STANDARD' }];
+    await service.refreshPricingConfigs();
+
+    // Plus has no pricing of its own, so it isn't quoted
+    expect(service.getQuotedVehicleTypes()).toEqual(['STANDARD', 'MOTORBIKE']);
+  });
+
+  it('falls back to Standard with no pricing configured', async () => {
+    rows = [];
+    await service.refreshPricingConfigs();
+
+    expect(service.getQuotedVehicleTypes()).toEqual(['STANDARD']);
+  });
+});
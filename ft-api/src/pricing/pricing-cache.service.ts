@@ -1,5 +1,7 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { PrismaService } from '../prisma.service.js';
+import { haversineMeters } from '../lib/geo.js';
+import { VehicleType, type DispatchMode } from '../generated/prisma/enums.js';
 
 // ── Cached shapes ──
 
@@ -9,6 +11,10 @@ export interface CachedPricingConfig {
   timeRate: number;
   bookingFee: number;
   surgeMultiplier: number;
+  /** Actual-vs-quoted fare deviation (%) absorbed before the actual fare applies. */
+  fareTolerancePercent: number;
+  /** Platform commission (%) taken from the final fare. */
+  commissionPercent: number;
   currency: string;
   vehicleType: string;
   timeRules: unknown[];
@@ -21,10 +27,24 @@ export interface CachedTownshipRule {
   fixedCharge: number;
 }
 
+export interface CachedSurgeZone {
+  id: string;
+  name: string;
+  centerLat: number;
+  centerLng: number;
+  radiusMeters: number;
+  multiplier: number;
+  startsAt: Date | null;
+  endsAt: Date | null;
+}
+
 export interface CachedDispatchRound {
   roundIndex: number;
   radiusMeters: number;
   intervalMs: number;
+  mode: DispatchMode;
+  /** Drivers offered at once when mode is TOP_N. */
+  batchSize: number;
 }
 
 /**
@@ -41,14 +61,35 @@ export class PricingCacheService implements OnModuleInit {
   /** Township surcharge rules keyed by lowercase township name. */
   private townshipMap = new Map<string, number>();
 
+  /** Active surge zones (windows are checked at lookup time). */
+  private surgeZones: CachedSurgeZone[] = [];
+
   /** Dispatch rounds sorted by roundIndex. */
   private dispatchRounds: CachedDispatchRound[] = [];
 
   /** Hard-coded fallback when DB has no dispatch config rows. */
   private static readonly DEFAULT_DISPATCH_ROUNDS: CachedDispatchRound[] = [
-    { roundIndex: 0, radiusMeters: 800, intervalMs: 20_000 },
-    { roundIndex: 1, radiusMeters: 1_500, intervalMs: 20_000 },
-    { roundIndex: 2, radiusMeters: 2_500, intervalMs: 20_000 },
+    {
+      roundIndex: 0,
+      radiusMeters: 800,
+      intervalMs: 20_000,
+      mode: 'SEQUENTIAL',
+      batchSize: 3,
+    },
+    {
+      roundIndex: 1,
+      radiusMeters: 1_500,
+      intervalMs: 20_000,
+      mode: 'SEQUENTIAL',
+      batchSize: 3,
+    },
+    {
+      roundIndex: 2,
+      radiusMeters: 2_500,
+      intervalMs: 20_000,
+      mode: 'SEQUENTIAL',
+      batchSize: 3,
+    },
   ];
 
   constructor(private readonly prisma: PrismaService) {}
@@ -64,11 +105,13 @@ export class PricingCacheService implements OnModuleInit {
     await Promise.all([
       this.refreshPricingConfigs(),
       this.refreshTownshipRules(),
+      this.refreshSurgeZones(),
       this.refreshDispatchConfig(),
     ]);
     this.logger.log(
       `Cache refreshed: ${this.configMap.size} pricing configs, ` +
         `${this.townshipMap.size} township rules, ` +
+        `${this.surgeZones.length} surge zones, ` +
         `${this.dispatchRounds.length} dispatch rounds`,
     );
   }
@@ -86,6 +129,8 @@ export class PricingCacheService implements OnModuleInit {
         timeRate: Number(r.timeRate),
         bookingFee: Number(r.bookingFee),
         surgeMultiplier: Number(r.surgeMultiplier),
+        fareTolerancePercent: Number(r.fareTolerancePercent),
+        commissionPercent: Number(r.commissionPercent),
         currency: r.currency,
         vehicleType: r.vehicleType,
         timeRules: Array.isArray(r.timeRules) ? (r.timeRules as unknown[]) : [],
@@ -121,6 +166,8 @@ export class PricingCacheService implements OnModuleInit {
       timeRate: 0,
       bookingFee: 0,
       surgeMultiplier: 1.0,
+      fareTolerancePercent: 15,
+      commissionPercent: 15,
       currency: 'MMK',
       vehicleType: 'STANDARD',
       timeRules: [],
@@ -129,6 +176,18 @@ export class PricingCacheService implements OnModuleInit {
     };
   }
 
+  /**
+   * Vehicle types riders are quoted for, in enum order: every type an admin
+   * has configured pricing for. With no pricing rows at all, Standard is
+   * still offered on the hard-coded defaults.
+   */
+  getQuotedVehicleTypes(): VehicleType[] {
+    const configured = Object.values(VehicleType).filter((type) =>
+      this.configMap.has(type),
+    );
+    return configured.length > 0 ? configured : [VehicleType.STANDARD];
+  }
+
   // ── Township surcharge ──
 
   async refreshTownshipRules() {
@@ -166,6 +225,44 @@ export class PricingCacheService implements OnModuleInit {
     return total;
   }
 
+  // ── Surge zones ──
+
+  async refreshSurgeZones() {
+    const rows = await this.prisma.surgeZone.findMany({
+      where: { isActive: true },
+    });
+    this.surgeZones = rows.map((r) => ({
+      id: r.id,
+      name: r.name,
+      centerLat: Number(r.centerLat),
+      centerLng: Number(r.centerLng),
+      radiusMeters: r.radiusMeters,
+      multiplier: Number(r.multiplier),
+      startsAt: r.startsAt,
+      endsAt: r.endsAt,
+    }));
+  }
+
+  /**
+   * Find the surge zone covering a pickup point at the given time.
+   * When zones overlap, the one with the highest multiplier wins.
+   */
+  getSurgeZone(lat: number, lng: number, at: Date): CachedSurgeZone | null {
+    let best: CachedSurgeZone | null = null;
+    for (const zone of this.surgeZones) {
+      if (zone.startsAt && zone.startsAt > at) continue;
+      if (zone.endsAt && zone.endsAt <= at) continue;
+      if (
+        haversineMeters(lat, lng, zone.centerLat, zone.centerLng) >
+        zone.radiusMeters
+      ) {
+        continue;
+      }
+      if (!best || zone.multiplier > best.multiplier) best = zone;
+    }
+    return best;
+  }
+
   // ── Dispatch config ──
 
   async refreshDispatchConfig() {
@@ -182,6 +279,8 @@ export class PricingCacheService implements OnModuleInit {
       roundIndex: r.roundIndex,
       radiusMeters: r.radiusMeters,
       intervalMs: r.intervalMs,
+      mode: r.mode,
+      batchSize: r.batchSize,
     }));
   }
 
@@ -1,4 +1,5 @@
 import {
+  BadRequestException,
   Body,
   Controller,
   Delete,
@@ -10,10 +11,13 @@ import {
   UnauthorizedException,
 } from '@nestjs/common';
 import { Session, type UserSession } from '@thallesp/nestjs-better-auth';
-import { RidePricingService } from './ride-pricing.service.js';
+import {
+  RidePricingService,
+  type SurgeZoneInput,
+} from './ride-pricing.service.js';
 import { PrismaService } from '../prisma.service.js';
 import { PricingCacheService } from './pricing-cache.service.js';
-import { VehicleType } from '../generated/prisma/enums.js';
+import { DispatchMode, VehicleType } from '../generated/prisma/enums.js';
 
 const ADMIN_ROLES = ['ADMIN', 'MANAGER', 'OPERATION', 'SUPERADMIN'];
 
@@ -30,6 +34,66 @@ function assertAdmin(session: UserSession | null): void {
   }
 }
 
+const DISPATCH_MODES = Object.values(DispatchMode);
+
+/** Upper bound for TOP_N batches; larger rounds should use BROADCAST. */
+const MAX_BATCH_SIZE = 10;
+
+type SurgeZoneBody = Partial<Record<keyof SurgeZoneInput, unknown>>;
+
+/** Validate a surge zone payload from the admin map editor. */
+function parseSurgeZone(body: SurgeZoneBody): SurgeZoneInput {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  const centerLat = Number(body.centerLat);
+  const centerLng = Number(body.centerLng);
+  const radiusMeters = Math.round(Number(body.radiusMeters));
+  const multiplier = Number(body.multiplier);
+
+  if (!name) throw new BadRequestException('name is required');
+  if (
+    !Number.isFinite(centerLat) ||
+    !Number.isFinite(centerLng) ||
+    Math.abs(centerLat) > 90 ||
+    Math.abs(centerLng) > 180
+  ) {
+    throw new BadRequestException(
+      'centerLat/centerLng must be valid coordinates',
+    );
+  }
+  if (!Number.isFinite(radiusMeters) || radiusMeters <= 0) {
+    throw new BadRequestException('radiusMeters must be greater than 0');
+  }
+  // Decimal(3, 2) column
+  if (!Number.isFinite(multiplier) || multiplier < 1 || multiplier >= 10) {
+    throw new BadRequestException('multiplier must be between 1 and 9.99');
+  }
+
+  const toDate = (value: unknown, field: string): Date | null => {
+    if (value === null || value === undefined || value === '') return null;
+    const d = new Date(value as string);
+    if (Number.isNaN(d.getTime())) {
+      throw new BadRequestException(`${field} must be a valid date`);
+    }
+    return d;
+  };
+  const startsAt = toDate(body.startsAt, 'startsAt');
+  const endsAt = toDate(body.endsAt, 'endsAt');
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    throw new BadRequestException('endsAt must be after startsAt');
+  }
+
+  return {
+    name,
+    centerLat,
+    centerLng,
+    radiusMeters,
+    multiplier,
+    isActive: body.isActive === undefined ? true : !!body.isActive,
+    startsAt,
+    endsAt,
+  };
+}
+
 @Controller('pricing')
 export class PricingController {
   constructor(
@@ -56,6 +120,8 @@ export class PricingController {
       timeRate: Number(r.timeRate),
       bookingFee: Number(r.bookingFee),
       surgeMultiplier: Number(r.surgeMultiplier),
+      fareTolerancePercent: Number(r.fareTolerancePercent),
+      commissionPercent: Number(r.commissionPercent),
       currency: r.currency,
       timeRules: r.timeRules ?? [],
       distanceBands: r.distanceBands ?? [],
@@ -75,6 +141,8 @@ export class PricingController {
       timeRate?: number;
       bookingFee?: number;
       surgeMultiplier?: number;
+      fareTolerancePercent?: number;
+      commissionPercent?: number;
       currency?: string;
       timeRules?: unknown;
       distanceBands?: unknown;
@@ -90,6 +158,8 @@ export class PricingController {
       timeRate: rest.timeRate ?? 0,
       bookingFee: rest.bookingFee ?? 0,
       surgeMultiplier: rest.surgeMultiplier ?? 1.0,
+      fareTolerancePercent: rest.fareTolerancePercent ?? 15,
+      commissionPercent: rest.commissionPercent ?? 15,
       currency: rest.currency ?? 'MMK',
       timeRules: rest.timeRules ?? [],
       distanceBands: rest.distanceBands ?? [],
@@ -104,6 +174,8 @@ export class PricingController {
         timeRate: rest.timeRate,
         bookingFee: rest.bookingFee,
         surgeMultiplier: rest.surgeMultiplier,
+        fareTolerancePercent: rest.fareTolerancePercent,
+        commissionPercent: rest.commissionPercent,
         currency: rest.currency,
         timeRules: rest.timeRules ?? undefined,
         distanceBands: rest.distanceBands ?? undefined,
@@ -126,6 +198,8 @@ export class PricingController {
       timeRate: Number(config.timeRate),
       bookingFee: Number(config.bookingFee),
       surgeMultiplier: Number(config.surgeMultiplier),
+      fareTolerancePercent: Number(config.fareTolerancePercent),
+      commissionPercent: Number(config.commissionPercent),
       currency: config.currency,
       timeRules: config.timeRules ?? [],
       distanceBands: config.distanceBands ?? [],
@@ -173,6 +247,48 @@ export class PricingController {
     return this.pricing.deleteTownshipSurcharge(id);
   }
 
+  // ===================================================
+  // SURGE ZONES — ADMIN CRUD
+  // ===================================================
+
+  /** GET /pricing/surge-zones — list all surge zones. */
+  @Get('surge-zones')
+  async listSurgeZones(@Session() session: UserSession | null) {
+    assertAdmin(session);
+    return this.pricing.listSurgeZones();
+  }
+
+  /** POST /pricing/surge-zones — create a surge zone. */
+  @Post('surge-zones')
+  async createSurgeZone(
+    @Session() session: UserSession | null,
+    @Body() body: SurgeZoneBody,
+  ) {
+    assertAdmin(session);
+    return this.pricing.saveSurgeZone(parseSurgeZone(body));
+  }
+
+  /** PUT /pricing/surge-zones/:id — replace a surge zone's settings. */
+  @Put('surge-zones/:id')
+  async updateSurgeZone(
+    @Session() session: UserSession | null,
+    @Param('id') id: string,
+    @Body() body: SurgeZoneBody,
+  ) {
+    assertAdmin(session);
+    return this.pricing.saveSurgeZone(parseSurgeZone(body), id);
+  }
+
+  /** DELETE /pricing/surge-zones/:id — delete a surge zone. */
+  @Delete('surge-zones/:id')
+  async deleteSurgeZone(
+    @Session() session: UserSession | null,
+    @Param('id') id: string,
+  ) {
+    assertAdmin(session);
+    return this.pricing.deleteSurgeZone(id);
+  }
+
   // ===================================================
   // DISPATCH CONFIG — ADMIN CRUD
   // ===================================================
@@ -188,15 +304,44 @@ export class PricingController {
   @Put('dispatch-config')
   async putDispatchConfig(
     @Session() session: UserSession | null,
-    @Body() body: { rounds: { roundIndex: number; radiusMeters: number; intervalMs: number }[] },
+    @Body()
+    body: {
+      rounds: {
+        roundIndex: number;
+        radiusMeters: number;
+        intervalMs: number;
+        mode?: DispatchMode;
+        batchSize?: number;
+      }[];
+    },
   ) {
     assertAdmin(session);
 
-    const rounds = (body.rounds ?? []).map((r, i) => ({
-      roundIndex: r.roundIndex ?? i,
-      radiusMeters: r.radiusMeters,
-      intervalMs: r.intervalMs ?? 20_000,
-    }));
+    const rounds = (body.rounds ?? []).map((r, i) => {
+      const mode = r.mode ?? 'SEQUENTIAL';
+      if (!DISPATCH_MODES.includes(mode)) {
+        throw new BadRequestException(
+          `mode must be one of ${DISPATCH_MODES.join(', ')}`,
+        );
+      }
+      const batchSize = r.batchSize ?? 3;
+      if (
+        !Number.isInteger(batchSize) ||
+        batchSize < 2 ||
+        batchSize > MAX_BATCH_SIZE
+      ) {
+        throw new BadRequestException(
+          `batchSize must be an integer between 2 and ${MAX_BATCH_SIZE}`,
+        );
+      }
+      return {
+        roundIndex: r.roundIndex ?? i,
+        radiusMeters: r.radiusMeters,
+        intervalMs: r.intervalMs ?? 20_000,
+        mode,
+        batchSize,
+      };
+    });
 
     // Replace all rows in a single transaction
     await this.prisma.$transaction(async (tx) => {
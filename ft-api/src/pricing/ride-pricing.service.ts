@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma.service.js';
 import { VehicleType } from '../generated/prisma/enums.js';
+import type { SurgeZone } from '../generated/prisma/client.js';
 import {
   PricingCacheService,
   type CachedPricingConfig,
@@ -37,6 +38,8 @@ export interface FareResult {
   bookingFee: number;
   townshipSurcharge: number;
   surgeMultiplier: number;
+  /** Surge zone covering the pickup, if any (its multiplier may not have won). */
+  surgeZone: { id: string; name: string; multiplier: number } | null;
   currency: string;
   isSpecialDay: boolean;
   specialDayName: string | null;
@@ -55,6 +58,13 @@ export interface FareResult {
   };
 }
 
+/**
+ * Share of the solo Standard fare each rider pays on a SHARED ride. Two
+ * riders together pay more than one (covering the driver's detour) while
+ * each pays less than riding alone.
+ */
+export const SHARED_FARE_RATIO = 0.7;
+
 export interface CalculateFareOptions {
   distanceKm: number;
   durationMinutes: number;
@@ -62,6 +72,20 @@ export interface CalculateFareOptions {
   at?: Date;
   originTownship?: string;
   destinationTownship?: string;
+  /** Pickup point — matched against surge zones when given. */
+  pickupLat?: number;
+  pickupLng?: number;
+}
+
+export interface SurgeZoneInput {
+  name: string;
+  centerLat: number;
+  centerLng: number;
+  radiusMeters: number;
+  multiplier: number;
+  isActive: boolean;
+  startsAt: Date | null;
+  endsAt: Date | null;
 }
 
 @Injectable()
@@ -347,9 +371,17 @@ export class RidePricingService {
     let subtotal =
       baseFare + distanceFare + timeFare + bookingFee + townshipSurcharge;
 
-    // 4. Surge (highest of config default or peak-hour rule)
+    // 4. Surge (highest of config default, peak-hour rule or pickup zone)
     const timeSurge = this.getTimeSurge(config.timeRules as TimeRule[], now);
-    const effectiveSurge = Math.max(config.surgeMultiplier, timeSurge);
+    const zone =
+      opts.pickupLat !== undefined && opts.pickupLng !== undefined
+        ? this.cache.getSurgeZone(opts.pickupLat, opts.pickupLng, now)
+        : null;
+    const effectiveSurge = Math.max(
+      config.surgeMultiplier,
+      timeSurge,
+      zone?.multiplier ?? 1.0,
+    );
     subtotal *= effectiveSurge;
 
     // 5. Plus premium
@@ -372,6 +404,9 @@ export class RidePricingService {
       bookingFee,
       townshipSurcharge,
       surgeMultiplier: effectiveSurge,
+      surgeZone: zone
+        ? { id: zone.id, name: zone.name, multiplier: zone.multiplier }
+        : null,
       currency: config.currency,
       isSpecialDay,
       specialDayName: specialDay?.name ?? null,
@@ -385,6 +420,28 @@ export class RidePricingService {
     };
   }
 
+  // ── Shared ride split ──
+
+  /**
+   * Per-rider fare for a SHARED booking, split from the solo fare of the
+   * same route. Components scale with the total so the breakdown still adds
+   * up; the total is rounded like every other fare.
+   */
+  calculateSharedFare(solo: FareResult): FareResult {
+    const totalFare =
+      Math.ceil((solo.totalFare * SHARED_FARE_RATIO) / 100) * 100;
+    const scale = solo.totalFare > 0 ? totalFare / solo.totalFare : 0;
+    return {
+      ...solo,
+      totalFare,
+      baseFare: solo.baseFare * scale,
+      distanceFare: solo.distanceFare * scale,
+      timeFare: solo.timeFare * scale,
+      bookingFee: solo.bookingFee * scale,
+      townshipSurcharge: solo.townshipSurcharge * scale,
+    };
+  }
+
   // ── Township surcharge CRUD ──
 
   /**
@@ -422,4 +479,43 @@ export class RidePricingService {
     await this.cache.refreshTownshipRules();
     return { success: true };
   }
+
+  // ── Surge zone CRUD ──
+
+  async listSurgeZones() {
+    const rows = await this.prisma.surgeZone.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map((r) => this.toSurgeZoneDto(r));
+  }
+
+  /** Create a zone, or update it when `id` is given. Refreshes the cache. */
+  async saveSurgeZone(input: SurgeZoneInput, id?: string) {
+    const zone = id
+      ? await this.prisma.surgeZone.update({ where: { id }, data: input })
+      : await this.prisma.surgeZone.create({ data: input });
+    await this.cache.refreshSurgeZones();
+    return this.toSurgeZoneDto(zone);
+  }
+
+  async deleteSurgeZone(id: string) {
+    await this.prisma.surgeZone.delete({ where: { id } });
+    await this.cache.refreshSurgeZones();
+    return { success: true };
+  }
+
+  private toSurgeZoneDto(zone: SurgeZone) {
+    return {
+      id: zone.id,
+      name: zone.name,
+      centerLat: Number(zone.centerLat),
+      centerLng: Number(zone.centerLng),
+      radiusMeters: zone.radiusMeters,
+      multiplier: Number(zone.multiplier),
+      isActive: zone.isActive,
+      startsAt: zone.startsAt,
+      endsAt: zone.endsAt,
+      updatedAt: zone.updatedAt,
+    };
+  }
 }
@@ -0,0 +1,200 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Session, type UserSession } from '@thallesp/nestjs-better-auth';
+import { adminRoles } from '../lib/admin-permissions.js';
+import {
+  PROMO_DISCOUNT_TYPES,
+  PromosService,
+  type PromoInput,
+} from './promos.service.js';
+
+type PromoAction = 'list' | 'create' | 'update' | 'delete';
+
+/** Check the caller's role grants `promo:<action>` in admin-permissions. */
+function assertPromoPermission(
+  session: UserSession | null,
+  action: PromoAction,
+): void {
+  if (!session?.user) throw new UnauthorizedException('Unauthorized');
+  const role =
+    typeof session.user.role === 'string'
+      ? session.user.role.toUpperCase()
+      : '';
+  const permissions = adminRoles[role as keyof typeof adminRoles];
+  if (!permissions?.authorize({ promo: [action] }).success) {
+    throw new ForbiddenException(`Missing permission: promo ${action}`);
+  }
+}
+
+type PromoBody = { [K in keyof PromoInput]?: unknown };
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+function optionalNumber(value: unknown, field: string): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) {
+    throw new BadRequestException(`${field} must be a non-negative number`);
+  }
+  return n;
+}
+
+function optionalDate(value: unknown, field: string): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  const d = new Date(value as string);
+  if (Number.isNaN(d.getTime())) {
+    throw new BadRequestException(`${field} must be a valid date`);
+  }
+  return d;
+}
+
+/**
+ * Validate a create (all required fields) or update (only the fields sent)
+ * payload into Prisma-ready values.
+ */
+function parsePromoBody(body: PromoBody, partial: true): Partial<PromoInput>;
+function parsePromoBody(body: PromoBody, partial: false): PromoInput;
+function parsePromoBody(
+  body: PromoBody,
+  partial: boolean,
+): Partial<PromoInput> {
+  const data: Partial<PromoInput> = {};
+  const has = (key: keyof PromoInput) => !partial || body[key] !== undefined;
+
+  if (has('code')) {
+    const code =
+      typeof body.code === 'string' ? body.code.trim().toUpperCase() : '';
+    if (!CODE_PATTERN.test(code)) {
+      throw new BadRequestException(
+        'code must be 3-32 letters, digits, "-" or "_"',
+      );
+    }
+    data.code = code;
+  }
+  if (has('description')) {
+    data.description =
+      typeof body.description === 'string' && body.description.trim()
+        ? body.description.trim()
+        : null;
+  }
+  if (has('discountType')) {
+    if (
+      !PROMO_DISCOUNT_TYPES.includes(
+        body.discountType as PromoInput['discountType'],
+      )
+    ) {
+      throw new BadRequestException(
+        `discountType must be one of: ${PROMO_DISCOUNT_TYPES.join(', ')}`,
+      );
+    }
+    data.discountType = body.discountType as PromoInput['discountType'];
+  }
+  if (has('discountValue')) {
+    const value = optionalNumber(body.discountValue, 'discountValue');
+    if (!value) {
+      throw new BadRequestException('discountValue must be greater than 0');
+    }
+    data.discountValue = value;
+  }
+  if (has('maxDiscount')) {
+    data.maxDiscount = optionalNumber(body.maxDiscount, 'maxDiscount');
+  }
+  if (has('minimumFare')) {
+    data.minimumFare = optionalNumber(body.minimumFare, 'minimumFare');
+  }
+  if (has('usageLimit')) {
+    const limit = optionalNumber(body.usageLimit, 'usageLimit');
+    data.usageLimit = limit !== null ? Math.floor(limit) : null;
+  }
+  if (has('perUserLimit')) {
+    const limit = optionalNumber(body.perUserLimit, 'perUserLimit') ?? 1;
+    if (limit < 1) {
+      throw new BadRequestException('perUserLimit must be at least 1');
+    }
+    data.perUserLimit = Math.floor(limit);
+  }
+  if (has('validFrom')) {
+    data.validFrom = optionalDate(body.validFrom, 'validFrom') ?? new Date();
+  }
+  if (has('validUntil')) {
+    data.validUntil = optionalDate(body.validUntil, 'validUntil');
+  }
+  if (has('isActive')) {
+    data.isActive = body.isActive === undefined ? true : !!body.isActive;
+  }
+
+  if (
+    data.discountType === 'percentage' &&
+    data.discountValue !== undefined &&
+    data.discountValue > 100
+  ) {
+    throw new BadRequestException('A percentage discount cannot exceed 100');
+  }
+  if (data.validFrom && data.validUntil && data.validUntil <= data.validFrom) {
+    throw new BadRequestException('validUntil must be after validFrom');
+  }
+  return data;
+}
+
+@Controller('admin/promos')
+export class PromosAdminController {
+  constructor(private readonly promos: PromosService) {}
+
+  /** GET /admin/promos — all codes with usage counts and discount totals. */
+  @Get()
+  async listPromos(@Session() session: UserSession | null) {
+    assertPromoPermission(session, 'list');
+    return this.promos.listPromos();
+  }
+
+  /** POST /admin/promos */
+  @Post()
+  async createPromo(
+    @Session() session: UserSession | null,
+    @Body() body: PromoBody,
+  ) {
+    assertPromoPermission(session, 'create');
+    return this.promos.createPromo(parsePromoBody(body, false));
+  }
+
+  /** PATCH /admin/promos/:id — partial update, incl. `isActive: false` to deactivate. */
+  @Patch(':id')
+  async updatePromo(
+    @Session() session: UserSession | null,
+    @Param('id') id: string,
+    @Body() body: PromoBody,
+  ) {
+    assertPromoPermission(session, 'update');
+    return this.promos.updatePromo(id, parsePromoBody(body, true));
+  }
+
+  /** DELETE /admin/promos/:id — only codes that were never redeemed. */
+  @Delete(':id')
+  async deletePromo(
+    @Session() session: UserSession | null,
+    @Param('id') id: string,
+  ) {
+    assertPromoPermission(session, 'delete');
+    return this.promos.deletePromo(id);
+  }
+
+  /** GET /admin/promos/:id/usages — who redeemed the code, on which ride. */
+  @Get(':id/usages')
+  async getPromoUsages(
+    @Session() session: UserSession | null,
+    @Param('id') id: string,
+  ) {
+    assertPromoPermission(session, 'list');
+    return this.promos.getPromoUsages(id);
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+} from '@nestjs/common';
+import { Session, type UserSession } from '@thallesp/nestjs-better-auth';
+import { PromosService } from './promos.service.js';
+
+interface ValidatePromoBody {
+  code: string;
+  /** Fare to price the discount against (e.g. the selected tier's quote). */
+  fare?: number;
+}
+
+@Controller('promos')
+export class PromosController {
+  constructor(private readonly promos: PromosService) {}
+
+  /**
+   * POST /promos/validate
+   * Check a promo code for the current rider before booking.
+   */
+  @Post('validate')
+  @HttpCode(HttpStatus.OK)
+  async validate(
+    @Session() session: UserSession,
+    @Body() body: ValidatePromoBody,
+  ) {
+    if (typeof body.code !== 'string' || !body.code.trim()) {
+      throw new BadRequestException('code is required');
+    }
+    const fare = body.fare !== undefined ? Number(body.fare) : undefined;
+    if (fare !== undefined && (!Number.isFinite(fare) || fare < 0)) {
+      throw new BadRequestException('fare must be a non-negative number');
+    }
+    return this.promos.validate(session.user.id, body.code, fare);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PromosAdminController } from './promos-admin.controller.js';
+import { PromosController } from './promos.controller.js';
+import { PromosService } from './promos.service.js';
+import { PrismaService } from '../prisma.service.js';
+
+@Module({
+  controllers: [PromosController, PromosAdminController],
+  providers: [PromosService, PrismaService],
+  exports: [PromosService],
+})
+export class PromosModule {}
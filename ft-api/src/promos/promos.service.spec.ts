@@ -0,0 +1,166 @@
+import { jest } from '@jest/globals';
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../prisma.service.js';
+import { PromosService } from './promos.service.js';
+import type { Prisma, PromoCode } from '../generated/prisma/client.js';
+
+function promoCode(overrides: Partial<PromoCode> = {}) {
+  return {
+    id: 'promo-1',
+    code: 'RAINY',
+    isActive: true,
+    validFrom: new Date(Date.now() - 60_000),
+    validUntil: null,
+    usageLimit: 100,
+    usageCount: 10,
+    perUserLimit: 1,
+    ...overrides,
+  };
+}
+
+describe('PromosService', () => {
+  let service: PromosService;
+  let promo: ReturnType<typeof promoCode>;
+  let userUses: number;
+  let claimed: number;
+
+  const prisma = {
+    promoCode: {
+      findUnique: jest.fn(() => Promise.resolve(promo)),
+      findFirst: jest.fn(() => Promise.resolve(promo)),
+    },
+    promoCodeUsage: {
+      count: jest.fn(() => Promise.resolve(userUses)),
+    },
+  };
+  const tx = {
+    $executeRawUnsafe: jest.fn(() => Promise.resolve(claimed)),
+    promoCode: {
+      findUniqueOrThrow: jest.fn(() => Promise.resolve(promo)),
+      update: jest.fn(() => Promise.resolve({})),
+    },
+    promoCodeUsage: {
+      count: jest.fn(() => Promise.resolve(userUses)),
+      create: jest.fn(() => Promise.resolve({})),
+      findMany: jest.fn(() =>
+        Promise.resolve([{ id: 'usage-1', promoCodeId: 'promo-1' }]),
+      ),
+      delete: jest.fn(() => Promise.resolve({})),
+    },
+  };
+  const client = tx as unknown as Prisma.TransactionClient;
+  const redemption = {
+    promoCodeId: 'promo-1',
+    userId: 'rider-1',
+    rideId: 'ride-1',
+    discount: 500,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    promo = promoCode();
+    userUses = 0;
+    claimed = 1;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [PromosService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get<PromosService>(PromosService);
+  });
+
+  describe('findUsable', () => {
+    it('accepts a code within its limits', async () => {
+      await expect(
+        service.findUsable('rider-1', { code: 'rainy' }),
+      ).resolves.toBe(promo);
+    });
+
+    it('rejects a code that reached its total limit', async () => {
+      promo = promoCode({ usageCount: 100 });
+
+      await expect(
+        service.findUsable('rider-1', { code: 'RAINY' }),
+      ).rejects.toThrow('PROMO_EXHAUSTED');
+    });
+
+    it('rejects a rider who used up their share', async () => {
+      userUses = 1;
+
+      await expect(
+        service.findUsable('rider-1', { id: 'promo-1' }),
+      ).rejects.toThrow('PROMO_ALREADY_USED');
+    });
+  });
+
+  describe('redeem', () => {
+    it('counts the use and records it against the ride', async () => {
+      await service.redeem(client, redemption);
+
+      expect(tx.$executeRawUnsafe).toHaveBeenCalledTimes(1);
+      expect(tx.promoCodeUsage.create.mock.calls[0]).toMatchObject([
+        {
+          data: {
+            promoCodeId: 'promo-1',
+            userId: 'rider-1',
+            rideId: 'ride-1',
+            discountApplied: 500,
+          },
+        },
+      ]);
+    });
+
+    it('fails once the total limit is used up', async () => {
+      // The guarded UPDATE matched nothing
+      claimed = 0;
+
+      await expect(service.redeem(client, redemption)).rejects.toThrow(
+        'PROMO_EXHAUSTED',
+      );
+      expect(tx.promoCodeUsage.create).not.toHaveBeenCalled();
+    });
+
+    it('fails once the rider reached their own limit', async () => {
+      userUses = 1;
+
+      await expect(service.redeem(client, redemption)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(tx.promoCodeUsage.create).not.toHaveBeenCalled();
+    });
+
+    it('allows repeat uses up to the per-rider limit', async () => {
+      promo = promoCode({ perUserLimit: 3 });
+      userUses = 2;
+
+      await service.redeem(client, redemption);
+
+      expect(tx.promoCodeUsage.create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('release', () => {
+    it('gives the use back when the ride is cancelled', async () => {
+      await service.release(client, 'ride-1');
+
+      expect(tx.promoCodeUsage.delete.mock.calls[0]).toMatchObject([
+        { where: { id: 'usage-1' } },
+      ]);
+      expect(tx.promoCode.update.mock.calls[0]).toMatchObject([
+        {
+          where: { id: 'promo-1' },
+          data: { usageCount: { decrement: 1 } },
+        },
+      ]);
+    });
+
+    it('does nothing for a ride booked without a promo', async () => {
+      tx.promoCodeUsage.findMany.mockResolvedValueOnce([]);
+
+      await service.release(client, 'ride-1');
+
+      expect(tx.promoCode.update).not.toHaveBeenCalled();
+    });
+  });
+});
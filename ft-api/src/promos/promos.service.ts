@@ -0,0 +1,385 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma.service.js';
+import { Prisma, type PromoCode } from '../generated/prisma/client.js';
+
+export const PROMO_DISCOUNT_TYPES = ['percentage', 'fixed'] as const;
+
+/** Admin-editable promo fields (code is stored upper-case). */
+export interface PromoInput {
+  code: string;
+  description: string | null;
+  discountType: (typeof PROMO_DISCOUNT_TYPES)[number];
+  discountValue: number;
+  maxDiscount: number | null;
+  minimumFare: number | null;
+  usageLimit: number | null;
+  perUserLimit: number;
+  validFrom: Date;
+  validUntil: Date | null;
+  isActive: boolean;
+}
+
+/** Round to 2 decimals — matches the Decimal(10, 2) money columns. */
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Promo code eligibility, discount maths and redemption.
+ *
+ * Eligibility is checked when quoting, but only `redeem()` — run inside the
+ * ride-creation transaction — actually counts a use, so the limits hold
+ * under concurrent bookings.
+ */
+@Injectable()
+export class PromosService {
+  private readonly logger = new Logger(PromosService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Look up a code and check it can be used by this rider right now.
+   * Throws a `PROMO_*` BadRequest describing why not.
+   */
+  async findUsable(
+    userId: string,
+    where: { code: string } | { id: string },
+  ): Promise<PromoCode> {
+    const promo =
+      'id' in where
+        ? await this.prisma.promoCode.findUnique({ where: { id: where.id } })
+        : await this.prisma.promoCode.findFirst({
+            where: {
+              code: { equals: where.code.trim(), mode: 'insensitive' },
+            },
+          });
+
+    if (!promo || !promo.isActive) {
+      throw new BadRequestException(
+        'PROMO_INVALID: This promo code is not valid.',
+      );
+    }
+
+    const now = new Date();
+    if (promo.validFrom > now) {
+      throw new BadRequestException(
+        'PROMO_NOT_STARTED: This promo code is not active yet.',
+      );
+    }
+    if (promo.validUntil && promo.validUntil <= now) {
+      throw new BadRequestException(
+        'PROMO_EXPIRED: This promo code has expired.',
+      );
+    }
+    if (promo.usageLimit !== null && promo.usageCount >= promo.usageLimit) {
+      throw new BadRequestException(
+        'PROMO_EXHAUSTED: This promo code has been fully redeemed.',
+      );
+    }
+
+    const used = await this.prisma.promoCodeUsage.count({
+      where: { promoCodeId: promo.id, userId },
+    });
+    if (used >= promo.perUserLimit) {
+      throw new BadRequestException(
+        'PROMO_ALREADY_USED: You have already used this promo code.',
+      );
+    }
+
+    return promo;
+  }
+
+  /**
+   * Discount the promo gives on a fare. 0 when the fare is below the promo's
+   * minimum; never more than the fare itself.
+   */
+  computeDiscount(promo: PromoCode, fare: number): number {
+    if (promo.minimumFare !== null && fare < Number(promo.minimumFare)) {
+      return 0;
+    }
+
+    const value = Number(promo.discountValue);
+    let discount =
+      promo.discountType === 'percentage' ? (fare * value) / 100 : value;
+    if (promo.maxDiscount !== null) {
+      discount = Math.min(discount, Number(promo.maxDiscount));
+    }
+    return roundMoney(Math.max(0, Math.min(discount, fare)));
+  }
+
+  /**
+   * POST /promos/validate — check a code for the rider and, when a fare is
+   * given, return the discount it would get.
+   */
+  async validate(userId: string, code: string, fare?: number) {
+    const promo = await this.findUsable(userId, { code });
+
+    let discount: number | null = null;
+    if (fare !== undefined) {
+      discount = this.computeDiscount(promo, fare);
+      if (discount === 0) {
+        throw new BadRequestException(
+          `PROMO_MINIMUM_FARE: This promo code needs a fare of at least ${Number(promo.minimumFare)}.`,
+        );
+      }
+    }
+
+    return {
+      code: promo.code,
+      description: promo.description,
+      discountType: promo.discountType,
+      discountValue: Number(promo.discountValue),
+      maxDiscount:
+        promo.maxDiscount !== null ? Number(promo.maxDiscount) : null,
+      minimumFare:
+        promo.minimumFare !== null ? Number(promo.minimumFare) : null,
+      validUntil: promo.validUntil,
+      discount,
+    };
+  }
+
+  /**
+   * Count one use of the promo for a ride. Must run inside the transaction
+   * that creates the ride so a failed redemption rolls the booking back.
+   *
+   * The conditional UPDATE re-checks the validity window and total limit and
+   * row-locks the promo until commit, so concurrent redemptions queue up and
+   * the per-user count below always sees the ones committed before it.
+   */
+  async redeem(
+    tx: Prisma.TransactionClient,
+    input: {
+      promoCodeId: string;
+      userId: string;
+      rideId: string;
+      discount: number;
+    },
+  ): Promise<void> {
+    const updated = await tx.$executeRawUnsafe(
+      `UPDATE promo_code
+       SET "usageCount" = "usageCount" + 1, "updatedAt" = NOW()
+       WHERE id = $1
+         AND "isActive"
+         AND "validFrom" <= NOW()
+         AND ("validUntil" IS NULL OR "validUntil" > NOW())
+         AND ("usageLimit" IS NULL OR "usageCount" < "usageLimit")`,
+      input.promoCodeId,
+    );
+    if (updated === 0) {
+      throw new BadRequestException(
+        'PROMO_EXHAUSTED: This promo code is no longer available.',
+      );
+    }
+
+    const promo = await tx.promoCode.findUniqueOrThrow({
+      where: { id: input.promoCodeId },
+      select: { code: true, perUserLimit: true },
+    });
+    const used = await tx.promoCodeUsage.count({
+      where: { promoCodeId: input.promoCodeId, userId: input.userId },
+    });
+    if (used >= promo.perUserLimit) {
+      throw new BadRequestException(
+        'PROMO_ALREADY_USED: You have already used this promo code.',
+      );
+    }
+
+    await tx.promoCodeUsage.create({
+      data: {
+        promoCodeId: input.promoCodeId,
+        userId: input.userId,
+        rideId: input.rideId,
+        discountApplied: input.discount,
+      },
+    });
+
+    this.logger.log(
+      `Promo ${promo.code} redeemed on ride ${input.rideId} (-${input.discount})`,
+    );
+  }
+
+  /**
+   * Give back the use counted for a ride cancelled before completion, so the
+   * rider (and the promo's total limit) get it back. Must run inside the
+   * transaction that cancels the ride.
+   */
+  async release(tx: Prisma.TransactionClient, rideId: string): Promise<void> {
+    const usages = await tx.promoCodeUsage.findMany({
+      where: { rideId },
+      select: { id: true, promoCodeId: true },
+    });
+
+    for (const usage of usages) {
+      await tx.promoCodeUsage.delete({ where: { id: usage.id } });
+      await tx.promoCode.update({
+        where: { id: usage.promoCodeId },
+        data: { usageCount: { decrement: 1 } },
+      });
+    }
+
+    if (usages.length > 0) {
+      this.logger.log(`Promo use released for cancelled ride ${rideId}`);
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // Admin — CRUD and usage drill-down
+  // ──────────────────────────────────────────────────────────
+
+  async listPromos() {
+    const promos = await this.prisma.promoCode.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+    const totals = await this.prisma.promoCodeUsage.groupBy({
+      by: ['promoCodeId'],
+      _sum: { discountApplied: true },
+    });
+    const discountById = new Map(
+      totals.map((t) => [t.promoCodeId, Number(t._sum.discountApplied ?? 0)]),
+    );
+    return promos.map((p) => ({
+      ...this.toAdminDto(p),
+      totalDiscount: discountById.get(p.id) ?? 0,
+    }));
+  }
+
+  async createPromo(input: PromoInput) {
+    try {
+      const promo = await this.prisma.promoCode.create({ data: input });
+      this.logger.log(`Promo ${promo.code} created`);
+      return this.toAdminDto(promo);
+    } catch (err) {
+      throw this.mapUniqueError(err, input.code);
+    }
+  }
+
+  async updatePromo(id: string, input: Partial<PromoInput>) {
+    await this.findPromoOrThrow(id);
+    try {
+      const promo = await this.prisma.promoCode.update({
+        where: { id },
+        data: input,
+      });
+      this.logger.log(`Promo ${promo.code} updated`);
+      return this.toAdminDto(promo);
+    } catch (err) {
+      throw this.mapUniqueError(err, input.code);
+    }
+  }
+
+  /** Only never-redeemed codes can be deleted; used ones are deactivated. */
+  async deletePromo(id: string) {
+    const promo = await this.findPromoOrThrow(id);
+    const used = await this.prisma.promoCodeUsage.count({
+      where: { promoCodeId: id },
+    });
+    if (used > 0) {
+      throw new ConflictException(
+        'This promo code has been redeemed — deactivate it instead.',
+      );
+    }
+    await this.prisma.promoCode.delete({ where: { id } });
+    this.logger.log(`Promo ${promo.code} deleted`);
+    return { success: true };
+  }
+
+  async getPromoUsages(id: string) {
+    const promo = await this.findPromoOrThrow(id);
+    const usages = await this.prisma.promoCodeUsage.findMany({
+      where: { promoCodeId: id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    // PromoCodeUsage has no relations — resolve riders and rides in bulk
+    const userIds = [...new Set(usages.map((u) => u.userId))];
+    const rideIds = usages
+      .map((u) => u.rideId)
+      .filter((r): r is string => r !== null);
+    const [users, rides] = await Promise.all([
+      this.prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, name: true, email: true },
+      }),
+      this.prisma.ride.findMany({
+        where: { id: { in: rideIds } },
+        select: {
+          id: true,
+          status: true,
+          totalFare: true,
+          currency: true,
+          dropoffAddress: true,
+        },
+      }),
+    ]);
+    const userById = new Map(users.map((u) => [u.id, u]));
+    const rideById = new Map(rides.map((r) => [r.id, r]));
+
+    return {
+      promo: this.toAdminDto(promo),
+      usages: usages.map((u) => {
+        const ride = u.rideId ? rideById.get(u.rideId) : undefined;
+        return {
+          id: u.id,
+          userId: u.userId,
+          userName: userById.get(u.userId)?.name ?? null,
+          userEmail: userById.get(u.userId)?.email ?? null,
+          discountApplied: Number(u.discountApplied),
+          createdAt: u.createdAt,
+          ride: ride
+            ? {
+                id: ride.id,
+                status: ride.status,
+                totalFare: Number(ride.totalFare),
+                currency: ride.currency,
+                dropoffAddress: ride.dropoffAddress,
+              }
+            : null,
+        };
+      }),
+    };
+  }
+
+  private async findPromoOrThrow(id: string): Promise<PromoCode> {
+    const promo = await this.prisma.promoCode.findUnique({ where: { id } });
+    if (!promo) throw new NotFoundException('Promo code not found');
+    return promo;
+  }
+
+  private mapUniqueError(err: unknown, code?: string): unknown {
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === 'P2002'
+    ) {
+      return new ConflictException(`Promo code ${code} already exists.`);
+    }
+    return err;
+  }
+
+  private toAdminDto(promo: PromoCode) {
+    return {
+      id: promo.id,
+      code: promo.code,
+      description: promo.description,
+      discountType: promo.discountType,
+      discountValue: Number(promo.discountValue),
+      maxDiscount:
+        promo.maxDiscount !== null ? Number(promo.maxDiscount) : null,
+      minimumFare:
+        promo.minimumFare !== null ? Number(promo.minimumFare) : null,
+      usageLimit: promo.usageLimit,
+      usageCount: promo.usageCount,
+      perUserLimit: promo.perUserLimit,
+      validFrom: promo.validFrom,
+      validUntil: promo.validUntil,
+      isActive: promo.isActive,
+      createdAt: promo.createdAt,
+      updatedAt: promo.updatedAt,
+    };
+  }
+}
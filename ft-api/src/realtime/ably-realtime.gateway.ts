@@ -0,0 +1,52 @@
+import { Logger } from '@nestjs/common';
+import Ably from 'ably';
+import { RealtimeGateway } from './realtime-gateway.js';
+
+/**
+ * Ably-backed gateway. Publishes with the REST client (the server never
+ * subscribes); presence arrives through Ably Reactor webhooks, which
+ * `AblyWebhookController` forwards to {@link RealtimeGateway.emitPresence}.
+ */
+export class AblyRealtimeGateway extends RealtimeGateway {
+  private readonly logger = new Logger(AblyRealtimeGateway.name);
+  private readonly client: Ably.Rest;
+
+  constructor(key: string) {
+    super();
+    if (!key) {
+      this.logger.error('ABLY_API_KEY is not set — publishing will fail.');
+    }
+    this.client = new Ably.Rest({ key });
+    this.logger.log('Ably REST publisher initialized.');
+  }
+
+  async publish(
+    channelName: string,
+    eventName: string,
+    data: unknown,
+  ): Promise<void> {
+    try {
+      const channel = this.client.channels.get(channelName);
+      await channel.publish(eventName, data);
+      this.logger.debug(`Published "${eventName}" to ${channelName}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish "${eventName}" to ${channelName}`,
+        error,
+      );
+    }
+  }
+
+  /** Signed token request for the apps' Ably `authCallback`. */
+  createTokenRequest(
+    clientId: string,
+    capability: Record<string, string[]>,
+    ttlMs: number,
+  ): Promise<Ably.TokenRequest> {
+    return this.client.auth.createTokenRequest({
+      clientId,
+      capability: JSON.stringify(capability),
+      ttl: ttlMs,
+    });
+  }
+}
@@ -0,0 +1,121 @@
+import { jest } from '@jest/globals';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../prisma.service.js';
+import { RealtimeCapabilityService } from './realtime-capability.service.js';
+
+describe('RealtimeCapabilityService', () => {
+  let service: RealtimeCapabilityService;
+  let activeRides: { id: string }[];
+
+  const prisma = {
+    ride: { findMany: jest.fn(() => Promise.resolve(activeRides)) },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    activeRides = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RealtimeCapabilityService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<RealtimeCapabilityService>(RealtimeCapabilityService);
+  });
+
+  describe('roleOf', () => {
+    it('connects drivers as drivers and everyone else as riders', () => {
+      expect(RealtimeCapabilityService.roleOf('DRIVER')).toBe('driver');
+      expect(RealtimeCapabilityService.roleOf('driver')).toBe('driver');
+      expect(RealtimeCapabilityService.roleOf('ADMIN')).toBe('rider');
+      expect(RealtimeCapabilityService.roleOf(undefined)).toBe('rider');
+    });
+  });
+
+  describe('rider', () => {
+    it('only subscribes to their own channel while not on a ride', async () => {
+      const capability = await service.forUser('rider-1', 'rider');
+
+      expect(capability).toEqual({ 'rider:rider-1': ['subscribe'] });
+    });
+
+    it('follows the tracking channel of a ride they are on', async () => {
+      activeRides = [{ id: 'ride-1' }];
+
+      const capability = await service.forUser('rider-1', 'rider');
+
+      expect(capability).toEqual({
+        'rider:rider-1': ['subscribe'],
+        'ride:tracking:ride-1': ['subscribe'],
+      });
+    });
+
+    it('looks up rides they booked or hold a live shared seat on', async () => {
+      await service.forUser('rider-1', 'rider');
+
+      expect(prisma.ride.findMany.mock.calls[0]).toMatchObject([
+        {
+          where: {
+            status: {
+              in: ['ACCEPTED', 'DRIVER_ARRIVING', 'ARRIVED', 'IN_PROGRESS'],
+            },
+            OR: [
+              { passengerId: 'rider-1' },
+              {
+                passengers: {
+                  some: {
+                    passengerId: 'rider-1',
+                    status: { in: ['BOOKED', 'ONBOARD'] },
+                  },
+                },
+              },
+            ],
+          },
+        },
+      ]);
+    });
+
+    it('never gets driver channels or publish rights', async () => {
+      activeRides = [{ id: 'ride-1' }];
+
+      const capability = await service.forUser('rider-1', 'rider');
+
+      expect(capability).not.toHaveProperty(['drivers:available']);
+      for (const ops of Object.values(capability)) {
+        expect(ops).toEqual(['subscribe']);
+      }
+    });
+  });
+
+  describe('driver', () => {
+    it('gets presence and their private channel while idle', async () => {
+      const capability = await service.forUser('driver-1', 'driver');
+
+      expect(capability).toEqual({
+        'drivers:available': ['presence'],
+        'driver:private:driver-1': ['subscribe'],
+      });
+    });
+
+    it('publishes only on the ride they are driving', async () => {
+      activeRides = [{ id: 'ride-1' }];
+
+      const capability = await service.forUser('driver-1', 'driver');
+
+      expect(capability['ride:tracking:ride-1']).toEqual(['publish']);
+      expect(prisma.ride.findMany.mock.calls[0]).toMatchObject([
+        { where: { driver: { userId: 'driver-1' } } },
+      ]);
+    });
+
+    it('cannot read rider channels', async () => {
+      const capability = await service.forUser('driver-1', 'driver');
+
+      expect(
+        Object.keys(capability).some((channel) => channel.startsWith('rider:')),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma.service.js';
+import type { RideStatus } from '../generated/prisma/enums.js';
+
+/** Operations a client may perform on a channel (Ably capability names). */
+export type ChannelOperation = 'subscribe' | 'publish' | 'presence';
+
+/** Channel name → allowed operations. */
+export type Capability = Record<string, ChannelOperation[]>;
+
+export type RealtimeRole = 'driver' | 'rider';
+
+/** Rides whose tracking channel the driver publishes to and riders follow. */
+const TRACKING_STATUSES: RideStatus[] = [
+  'ACCEPTED',
+  'DRIVER_ARRIVING',
+  'ARRIVED',
+  'IN_PROGRESS',
+];
+
+/**
+ * Which channels a connected app may use, shared by every realtime
+ * transport so Ably tokens and local WebSocket sessions grant the same:
+ * - rider:  subscribe on `rider:<self>`, subscribe on `ride:tracking:<rideId>`
+ *           for the ride they booked or hold a shared seat on
+ * - driver: presence on `drivers:available`, subscribe on
+ *           `driver:private:<self>`, publish on `ride:tracking:<rideId>`
+ *           for the ride they are currently driving
+ */
+@Injectable()
+export class RealtimeCapabilityService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Map a better-auth role to the realtime role it connects as. */
+  static roleOf(role: unknown): RealtimeRole {
+    return typeof role === 'string' && role.toUpperCase() === 'DRIVER'
+      ? 'driver'
+      : 'rider';
+  }
+
+  async forUser(userId: string, role: RealtimeRole): Promise<Capability> {
+    if (role === 'rider') {
+      const capability: Capability = { [`rider:${userId}`]: ['subscribe'] };
+
+      // The rider app re-authorizes once a driver accepts to pick this up
+      const rides = await this.prisma.ride.findMany({
+        where: {
+          status: { in: TRACKING_STATUSES },
+          OR: [
+            { passengerId: userId },
+            {
+              passengers: {
+                some: {
+                  passengerId: userId,
+                  status: { in: ['BOOKED', 'ONBOARD'] },
+                },
+              },
+            },
+          ],
+        },
+        select: { id: true },
+      });
+      for (const ride of rides) {
+        capability[`ride:tracking:${ride.id}`] = ['subscribe'];
+      }
+      return capability;
+    }
+
+    const capability: Capability = {
+      'drivers:available': ['presence'],
+      [`driver:private:${userId}`]: ['subscribe'],
+    };
+
+    // The driver app re-authorizes after accepting a ride to pick this up
+    const rides = await this.prisma.ride.findMany({
+      where: {
+        driver: { userId },
+        status: { in: TRACKING_STATUSES },
+      },
+      select: { id: true },
+    });
+    for (const ride of rides) {
+      capability[`ride:tracking:${ride.id}`] = ['publish'];
+    }
+
+    return capability;
+  }
+}
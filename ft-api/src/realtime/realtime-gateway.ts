@@ -0,0 +1,46 @@
+/** Presence change on a channel, reported by whichever transport is active. */
+export interface PresenceEvent {
+  channel: string;
+  clientId: string;
+  action: 'enter' | 'leave';
+}
+
+export type PresenceListener = (event: PresenceEvent) => Promise<void> | void;
+
+/** Transports selectable with `REALTIME_TRANSPORT`. */
+export const REALTIME_TRANSPORTS = ['ably', 'ws'] as const;
+export type RealtimeTransport = (typeof REALTIME_TRANSPORTS)[number];
+
+/**
+ * Server side of the realtime channel layer. Injected wherever the server
+ * pushes events to the apps (`rider:<id>`, `driver:private:<id>`, …).
+ *
+ * Abstract class rather than an interface so it can be the DI token;
+ * `RealtimeModule` binds it to the Ably or local WebSocket implementation.
+ */
+export abstract class RealtimeGateway {
+  private readonly presenceListeners = new Set<PresenceListener>();
+
+  /**
+   * Publish an event to a channel. Never throws — failures are logged, so
+   * callers may fire-and-forget outside the critical path.
+   */
+  abstract publish(
+    channelName: string,
+    eventName: string,
+    data: unknown,
+  ): Promise<void>;
+
+  /** Be told when clients enter or leave presence on any channel. */
+  onPresence(listener: PresenceListener): () => void {
+    this.presenceListeners.add(listener);
+    return () => this.presenceListeners.delete(listener);
+  }
+
+  /** Fan a presence change out to the registered listeners. */
+  async emitPresence(event: PresenceEvent): Promise<void> {
+    for (const listener of this.presenceListeners) {
+      await listener(event);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import type Ably from 'ably';
+import { AblyRealtimeGateway } from './ably-realtime.gateway.js';
+import {
+  RealtimeCapabilityService,
+  type RealtimeRole,
+} from './realtime-capability.service.js';
+import { RealtimeGateway } from './realtime-gateway.js';
+import { WS_PATH, WsRealtimeGateway } from './ws-realtime.gateway.js';
+
+/** How long an issued token stays valid; the apps renew it automatically. */
+const TOKEN_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Returned instead of a token while REALTIME_TRANSPORT=ws: the apps open
+ * `path` on the API host with their session token, and the gateway scopes
+ * the socket to the same channels an Ably token would carry.
+ */
+export interface WsConnectionInfo {
+  transport: 'ws';
+  path: string;
+  clientId: string;
+}
+
+export type RealtimeCredentials = Ably.TokenRequest | WsConnectionInfo;
+
+/**
+ * Issues short-lived Ably token requests for the mobile apps, so the
+ * full-capability API key never leaves the server. Each token is bound to
+ * the caller's user id and carries only the channels their role needs
+ * (see {@link RealtimeCapabilityService}).
+ */
+@Injectable()
+export class RealtimeTokenService {
+  constructor(
+    private readonly gateway: RealtimeGateway,
+    private readonly capabilities: RealtimeCapabilityService,
+  ) {}
+
+  async createCredentials(
+    userId: string,
+    role: RealtimeRole,
+  ): Promise<RealtimeCredentials> {
+    if (this.gateway instanceof WsRealtimeGateway) {
+      return { transport: 'ws', path: WS_PATH, clientId: userId };
+    }
+    if (!(this.gateway instanceof AblyRealtimeGateway)) {
+      throw new Error('Unknown realtime transport');
+    }
+    const capability = await this.capabilities.forUser(userId, role);
+    return this.gateway.createTokenRequest(userId, capability, TOKEN_TTL_MS);
+  }
+}
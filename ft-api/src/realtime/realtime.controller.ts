@@ -0,0 +1,24 @@
+import { Controller, Get, UnauthorizedException } from '@nestjs/common';
+import { Session, type UserSession } from '@thallesp/nestjs-better-auth';
+import { RealtimeCapabilityService } from './realtime-capability.service.js';
+import { RealtimeTokenService } from './realtime-token.service.js';
+
+@Controller('realtime')
+export class RealtimeController {
+  constructor(private readonly tokens: RealtimeTokenService) {}
+
+  /**
+   * GET /realtime/token
+   * Ably token request scoped to the caller's role. Used by the apps'
+   * Ably `authCallback`, which calls it again whenever the token expires.
+   * With REALTIME_TRANSPORT=ws it returns the WebSocket path to connect to.
+   */
+  @Get('token')
+  async getToken(@Session() session: UserSession | null) {
+    if (!session?.user) throw new UnauthorizedException('Unauthorized');
+    return this.tokens.createCredentials(
+      session.user.id,
+      RealtimeCapabilityService.roleOf(session.user.role),
+    );
+  }
+}
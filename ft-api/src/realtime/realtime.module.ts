@@ -0,0 +1,54 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { HttpAdapterHost } from '@nestjs/core';
+import { PrismaService } from '../prisma.service.js';
+import { AblyRealtimeGateway } from './ably-realtime.gateway.js';
+import { RealtimeCapabilityService } from './realtime-capability.service.js';
+import { RealtimeController } from './realtime.controller.js';
+import {
+  REALTIME_TRANSPORTS,
+  RealtimeGateway,
+  type RealtimeTransport,
+} from './realtime-gateway.js';
+import { RealtimeTokenService } from './realtime-token.service.js';
+import { WsRealtimeGateway } from './ws-realtime.gateway.js';
+
+/**
+ * Realtime channel layer. `REALTIME_TRANSPORT` picks the implementation
+ * bound to {@link RealtimeGateway}:
+ * - `ably` (default) — Ably REST publishing + presence webhooks
+ * - `ws` — in-process WebSocket server, no external service needed
+ */
+@Module({
+  imports: [ConfigModule],
+  controllers: [RealtimeController],
+  providers: [
+    PrismaService,
+    RealtimeCapabilityService,
+    RealtimeTokenService,
+    {
+      provide: RealtimeGateway,
+      inject: [ConfigService, HttpAdapterHost, RealtimeCapabilityService],
+      useFactory: (
+        config: ConfigService,
+        adapterHost: HttpAdapterHost,
+        capabilities: RealtimeCapabilityService,
+      ): RealtimeGateway => {
+        const transport = (
+          config.get<string>('REALTIME_TRANSPORT') ?? 'ably'
+        ).toLowerCase() as RealtimeTransport;
+        if (!REALTIME_TRANSPORTS.includes(transport)) {
+          throw new Error(
+            `REALTIME_TRANSPORT must be one of: ${REALTIME_TRANSPORTS.join(', ')}`,
+          );
+        }
+        new Logger('RealtimeModule').log(`Realtime transport: ${transport}`);
+        return transport === 'ws'
+          ? new WsRealtimeGateway(adapterHost, capabilities)
+          : new AblyRealtimeGateway(config.get<string>('ABLY_API_KEY') ?? '');
+      },
+    },
+  ],
+  exports: [RealtimeGateway],
+})
+export class RealtimeModule {}
@@ -0,0 +1,371 @@
+import {
+  Logger,
+  type OnApplicationBootstrap,
+  type OnModuleDestroy,
+} from '@nestjs/common';
+import type { HttpAdapterHost } from '@nestjs/core';
+import type { IncomingMessage, Server } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { fromNodeHeaders } from 'better-auth/node';
+import { WebSocket, WebSocketServer, type RawData } from 'ws';
+import { auth } from '../lib/auth.js';
+import {
+  RealtimeCapabilityService,
+  type Capability,
+  type ChannelOperation,
+  type RealtimeRole,
+} from './realtime-capability.service.js';
+import { RealtimeGateway } from './realtime-gateway.js';
+
+/** Path the apps connect to, on the same port as the HTTP API. */
+export const WS_PATH = '/realtime/ws';
+
+/** Ping interval; a socket that misses one pong is considered gone. */
+const HEARTBEAT_MS = 15_000;
+
+// ── Wire protocol (JSON text frames) ──
+
+type ClientFrame =
+  | { type: 'subscribe' | 'unsubscribe'; channel: string }
+  | { type: 'presence.enter' | 'presence.leave'; channel: string }
+  | { type: 'publish'; channel: string; event: string; data?: unknown }
+  | { type: 'authorize' }
+  | { type: 'ping' };
+
+type ServerFrame =
+  | { type: 'connected'; clientId: string }
+  | { type: 'message'; channel: string; event: string; data: unknown }
+  | { type: 'ok'; ref: ClientFrame['type']; channel?: string }
+  | {
+      type: 'error';
+      message: string;
+      ref?: ClientFrame['type'];
+      channel?: string;
+    }
+  | { type: 'pong' };
+
+/** A parsed frame with the fields its type needs, or null. */
+function parseFrame(text: string): ClientFrame | null {
+  const value: unknown = JSON.parse(text);
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return null;
+  }
+  const { type, channel, event } = value as Record<string, unknown>;
+  if (typeof type !== 'string') return null;
+  if (type !== 'ping' && type !== 'authorize' && typeof channel !== 'string') {
+    return null;
+  }
+  if (type === 'publish' && typeof event !== 'string') return null;
+  return value as ClientFrame;
+}
+
+interface Connection {
+  socket: WebSocket;
+  clientId: string;
+  role: RealtimeRole;
+  capability: Capability;
+  subscriptions: Set<string>;
+  presence: Set<string>;
+  alive: boolean;
+}
+
+/**
+ * Self-hosted gateway for offline development and integration tests.
+ *
+ * Speaks a small JSON protocol over `ws` on {@link WS_PATH}, authenticated
+ * with the same better-auth session (Bearer header or `?token=`) as the
+ * REST API. Channel names and capabilities match the Ably setup, presence
+ * is tracked in memory, and heartbeat pings drop dead sockets — leaving
+ * their presence just like an Ably disconnect would.
+ */
+export class WsRealtimeGateway
+  extends RealtimeGateway
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(WsRealtimeGateway.name);
+  private readonly wss = new WebSocketServer({ noServer: true });
+  private readonly connections = new Set<Connection>();
+  /** channel → clientId → number of that client's sockets in presence. */
+  private readonly members = new Map<string, Map<string, number>>();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly adapterHost: HttpAdapterHost,
+    private readonly capabilities: RealtimeCapabilityService,
+  ) {
+    super();
+  }
+
+  // ── Lifecycle ──
+
+  onApplicationBootstrap() {
+    const server = this.adapterHost.httpAdapter.getHttpServer() as Server;
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head) => {
+      const { pathname } = new URL(req.url ?? '', 'http://localhost');
+      if (pathname !== WS_PATH) return;
+      this.handleUpgrade(req, socket, head).catch((error: unknown) => {
+        this.logger.error('WebSocket upgrade failed', error);
+        socket.write('HTTP/1.1 500 Internal Server Error\r\n\r\n');
+        socket.destroy();
+      });
+    });
+
+    this.heartbeat = setInterval(() => this.checkHeartbeats(), HEARTBEAT_MS);
+    this.logger.log(`Local WebSocket realtime listening on ${WS_PATH}`);
+  }
+
+  onModuleDestroy() {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    for (const conn of this.connections) conn.socket.terminate();
+    this.wss.close();
+  }
+
+  // ── RealtimeGateway ──
+
+  publish(
+    channelName: string,
+    eventName: string,
+    data: unknown,
+  ): Promise<void> {
+    const delivered = this.broadcast(channelName, eventName, data);
+    this.logger.debug(
+      `Published "${eventName}" to ${channelName} (${delivered} socket(s))`,
+    );
+    return Promise.resolve();
+  }
+
+  // ── Connection handling ──
+
+  private async handleUpgrade(
+    req: IncomingMessage,
+    socket: Duplex,
+    head: Buffer,
+  ) {
+    const headers = fromNodeHeaders(req.headers);
+    const token = new URL(req.url ?? '', 'http://localhost').searchParams.get(
+      'token',
+    );
+    if (token) headers.set('authorization', `Bearer ${token}`);
+
+    let session: Awaited<ReturnType<typeof auth.api.getSession>>;
+    try {
+      session = await auth.api.getSession({ headers });
+    } catch {
+      session = null;
+    }
+    if (!session?.user) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    const clientId = session.user.id;
+    const role = RealtimeCapabilityService.roleOf(session.user.role);
+    const capability = await this.capabilities.forUser(clientId, role);
+
+    this.wss.handleUpgrade(req, socket, head, (ws) => {
+      const conn: Connection = {
+        socket: ws,
+        clientId,
+        role,
+        capability,
+        subscriptions: new Set(),
+        presence: new Set(),
+        alive: true,
+      };
+      this.connections.add(conn);
+
+      ws.on('pong', () => (conn.alive = true));
+      ws.on('message', (raw) => void this.handleFrame(conn, raw));
+      ws.on('close', () => void this.disconnect(conn));
+      ws.on('error', (err) =>
+        this.logger.warn(`Socket error for ${clientId}: ${err.message}`),
+      );
+
+      this.send(conn, { type: 'connected', clientId });
+    });
+  }
+
+  private async handleFrame(conn: Connection, raw: RawData) {
+    let frame: ClientFrame | null;
+    try {
+      const text = Array.isArray(raw)
+        ? Buffer.concat(raw).toString('utf8')
+        : Buffer.from(raw as ArrayBuffer).toString('utf8');
+      frame = parseFrame(text);
+    } catch {
+      this.send(conn, { type: 'error', message: 'Invalid JSON frame' });
+      return;
+    }
+    if (!frame) {
+      this.send(conn, { type: 'error', message: 'Invalid frame' });
+      return;
+    }
+
+    try {
+      await this.applyFrame(conn, frame);
+    } catch (error) {
+      this.logger.error(
+        `Failed to handle ${frame.type} frame from ${conn.clientId}`,
+        error,
+      );
+      this.send(conn, {
+        type: 'error',
+        message: `Failed to handle ${frame.type}`,
+        ref: frame.type,
+        channel: 'channel' in frame ? frame.channel : undefined,
+      });
+    }
+  }
+
+  private async applyFrame(conn: Connection, frame: ClientFrame) {
+    switch (frame.type) {
+      case 'ping':
+        this.send(conn, { type: 'pong' });
+        return;
+
+      case 'authorize':
+        // Refresh capability, e.g. after a driver accepts a ride
+        conn.capability = await this.capabilities.forUser(
+          conn.clientId,
+          conn.role,
+        );
+        this.send(conn, { type: 'ok', ref: frame.type });
+        return;
+
+      case 'subscribe':
+        if (!this.allowed(conn, frame.channel, 'subscribe')) return;
+        conn.subscriptions.add(frame.channel);
+        break;
+
+      case 'unsubscribe':
+        conn.subscriptions.delete(frame.channel);
+        break;
+
+      case 'presence.enter':
+        if (!this.allowed(conn, frame.channel, 'presence')) return;
+        if (!conn.presence.has(frame.channel)) {
+          conn.presence.add(frame.channel);
+          await this.addMember(frame.channel, conn.clientId);
+        }
+        break;
+
+      case 'presence.leave':
+        if (conn.presence.delete(frame.channel)) {
+          await this.removeMember(frame.channel, conn.clientId);
+        }
+        break;
+
+      case 'publish':
+        if (!this.allowed(conn, frame.channel, 'publish')) return;
+        this.broadcast(frame.channel, frame.event, frame.data ?? null, conn);
+        break;
+
+      default:
+        this.send(conn, { type: 'error', message: 'Unknown frame type' });
+        return;
+    }
+
+    this.send(conn, { type: 'ok', ref: frame.type, channel: frame.channel });
+  }
+
+  private async disconnect(conn: Connection) {
+    if (!this.connections.delete(conn)) return;
+    for (const channel of conn.presence) {
+      await this.removeMember(channel, conn.clientId);
+    }
+    conn.presence.clear();
+  }
+
+  /** Terminate sockets that missed the last ping; ping the rest. */
+  private checkHeartbeats() {
+    for (const conn of this.connections) {
+      if (!conn.alive) {
+        this.logger.debug(`Heartbeat missed by ${conn.clientId}`);
+        conn.socket.terminate();
+        void this.disconnect(conn);
+        continue;
+      }
+      conn.alive = false;
+      conn.socket.ping();
+    }
+  }
+
+  // ── Presence ──
+
+  private async addMember(channel: string, clientId: string) {
+    const clients = this.members.get(channel) ?? new Map<string, number>();
+    this.members.set(channel, clients);
+    const count = clients.get(clientId) ?? 0;
+    clients.set(clientId, count + 1);
+    // Only the client's first socket counts as entering
+    if (count === 0) {
+      await this.safeEmitPresence({ channel, clientId, action: 'enter' });
+    }
+  }
+
+  private async removeMember(channel: string, clientId: string) {
+    const clients = this.members.get(channel);
+    const count = clients?.get(clientId) ?? 0;
+    if (!clients || count === 0) return;
+    if (count > 1) {
+      clients.set(clientId, count - 1);
+      return;
+    }
+    clients.delete(clientId);
+    if (clients.size === 0) this.members.delete(channel);
+    await this.safeEmitPresence({ channel, clientId, action: 'leave' });
+  }
+
+  private async safeEmitPresence(
+    event: Parameters<RealtimeGateway['emitPresence']>[0],
+  ) {
+    try {
+      await this.emitPresence(event);
+    } catch (error) {
+      this.logger.error(
+        `Presence ${event.action} handler failed for ${event.clientId} on ${event.channel}`,
+        error,
+      );
+    }
+  }
+
+  // ── Helpers ──
+
+  private allowed(
+    conn: Connection,
+    channel: string,
+    op: ChannelOperation,
+  ): boolean {
+    if (conn.capability[channel]?.includes(op)) return true;
+    this.send(conn, {
+      type: 'error',
+      message: `Not permitted to ${op} on ${channel}`,
+      ref: op === 'presence' ? 'presence.enter' : op,
+      channel,
+    });
+    return false;
+  }
+
+  /** Deliver to every subscriber of a channel; returns the socket count. */
+  private broadcast(
+    channel: string,
+    event: string,
+    data: unknown,
+    except?: Connection,
+  ): number {
+    let delivered = 0;
+    for (const conn of this.connections) {
+      if (conn === except || !conn.subscriptions.has(channel)) continue;
+      this.send(conn, { type: 'message', channel, event, data });
+      delivered++;
+    }
+    return delivered;
+  }
+
+  private send(conn: Connection, frame: ServerFrame) {
+    if (conn.socket.readyState === WebSocket.OPEN) {
+      conn.socket.send(JSON.stringify(frame));
+    }
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { PrismaService } from '../prisma.service.js';
+import { RideStateService } from './ride-state.service.js';
+
+@Module({
+  providers: [PrismaService, RideStateService],
+  exports: [RideStateService],
+})
+export class RideStateModule {}
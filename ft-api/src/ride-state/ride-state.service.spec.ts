@@ -0,0 +1,187 @@
+import { jest } from '@jest/globals';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../prisma.service.js';
+import { RideStateService } from './ride-state.service.js';
+import { RIDE_TRANSITIONS, canTransition } from './ride-transitions.js';
+import type { RideStatus } from '../generated/prisma/enums.js';
+
+const ALL_STATUSES = Object.keys(RIDE_TRANSITIONS) as RideStatus[];
+
+describe('RIDE_TRANSITIONS', () => {
+  it('has no moves out of terminal statuses', () => {
+    for (const terminal of ['COMPLETED', 'CANCELLED'] as const) {
+      for (const to of ALL_STATUSES) {
+        expect(canTransition(terminal, to)).toBe(false);
+      }
+    }
+  });
+
+  it('walks a ride from booking to completion', () => {
+    const path: RideStatus[] = [
+      'SCHEDULED',
+      'PENDING',
+      'ACCEPTED',
+      'DRIVER_ARRIVING',
+      'ARRIVED',
+      'IN_PROGRESS',
+      'COMPLETED',
+    ];
+    for (let i = 1; i < path.length; i++) {
+      expect(canTransition(path[i - 1], path[i])).toBe(true);
+    }
+  });
+
+  it('cannot cancel a trip that has started', () => {
+    expect(canTransition('IN_PROGRESS', 'CANCELLED')).toBe(false);
+  });
+
+  it('never moves backwards', () => {
+    expect(canTransition('ACCEPTED', 'PENDING')).toBe(false);
+    expect(canTransition('IN_PROGRESS', 'ARRIVED')).toBe(false);
+    expect(canTransition('PENDING', 'SCHEDULED')).toBe(false);
+  });
+
+  it('never stays in place', () => {
+    for (const status of ALL_STATUSES) {
+      expect(canTransition(status, status)).toBe(false);
+    }
+  });
+});
+
+describe('RideStateService', () => {
+  let service: RideStateService;
+  let rideStatus: RideStatus | null;
+  let updatedCount: number;
+  const tx = {
+    ride: {
+      findUnique: jest.fn(() =>
+        Promise.resolve(rideStatus ? { status: rideStatus } : null),
+      ),
+      updateMany: jest.fn(() => Promise.resolve({ count: updatedCount })),
+    },
+    rideEvent: { create: jest.fn(() => Promise.resolve({})) },
+  };
+  const prisma = {
+    $transaction: jest.fn((fn: (client: typeof tx) => Promise<unknown>) =>
+      fn(tx),
+    ),
+  };
+  const actor = { type: 'DRIVER' as const, userId: 'driver-user' };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    rideStatus = 'ACCEPTED';
+    updatedCount = 1;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RideStateService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<RideStateService>(RideStateService);
+  });
+
+  it('moves the ride and records the event', async () => {
+    const result = await service.transition({
+      rideId: 'ride-1',
+      to: 'ARRIVED',
+      actor,
+      data: { arrivedAt: new Date() },
+    });
+
+    expect(result).toMatchObject({
+      rideId: 'ride-1',
+      fromStatus: 'ACCEPTED',
+      toStatus: 'ARRIVED',
+    });
+    // Guarded on the status read in the same transaction
+    expect(tx.ride.updateMany.mock.calls[0]).toMatchObject([
+      {
+        where: { id: 'ride-1', status: 'ACCEPTED' },
+        data: { status: 'ARRIVED' },
+      },
+    ]);
+    expect(tx.rideEvent.create.mock.calls[0]).toMatchObject([
+      {
+        data: {
+          rideId: 'ride-1',
+          fromStatus: 'ACCEPTED',
+          toStatus: 'ARRIVED',
+          actorType: 'DRIVER',
+          actorId: 'driver-user',
+        },
+      },
+    ]);
+  });
+
+  it('commits the caller’s writes in the same transaction', async () => {
+    const onTransition = jest.fn((client: unknown) => {
+      expect(client).toBe(tx);
+      return Promise.resolve();
+    });
+
+    await service.transition({
+      rideId: 'ride-1',
+      to: 'ARRIVED',
+      actor,
+      onTransition,
+    });
+
+    expect(onTransition).toHaveBeenCalledTimes(1);
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails the move when the caller’s writes fail', async () => {
+    await expect(
+      service.transition({
+        rideId: 'ride-1',
+        to: 'ARRIVED',
+        actor,
+        onTransition: () => Promise.reject(new Error('settlement failed')),
+      }),
+    ).rejects.toThrow('settlement failed');
+  });
+
+  it('rejects an illegal move without writing', async () => {
+    rideStatus = 'COMPLETED';
+
+    await expect(
+      service.transition({ rideId: 'ride-1', to: 'ACCEPTED', actor }),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(tx.ride.updateMany).not.toHaveBeenCalled();
+    expect(tx.rideEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a legal move outside the caller’s allowed sources', async () => {
+    await expect(
+      service.transition({
+        rideId: 'ride-1',
+        to: 'CANCELLED',
+        actor: { type: 'SYSTEM', userId: null },
+        from: ['PENDING'],
+        conflictMessage: 'Ride is no longer pending.',
+      }),
+    ).rejects.toThrow('Ride is no longer pending.');
+    expect(tx.ride.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects a move that lost a race with another change', async () => {
+    updatedCount = 0;
+
+    await expect(
+      service.transition({ rideId: 'ride-1', to: 'ARRIVED', actor }),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(tx.rideEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('reports an unknown ride as not found', async () => {
+    rideStatus = null;
+
+    await expect(
+      service.transition({ rideId: 'missing', to: 'ARRIVED', actor }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma.service.js';
+import type { Prisma } from '../generated/prisma/client.js';
+import type { RideEventActor, RideStatus } from '../generated/prisma/enums.js';
+import { canTransition } from './ride-transitions.js';
+
+/** Who is moving the ride. `userId` is null for SYSTEM actions. */
+export interface RideActor {
+  type: RideEventActor;
+  userId: string | null;
+}
+
+export interface RideTransitionOptions {
+  rideId: string;
+  to: RideStatus;
+  actor: RideActor;
+  /**
+   * Narrows the legal source statuses for this caller, e.g. dispatch may
+   * only cancel rides that are still PENDING.
+   */
+  from?: readonly RideStatus[];
+  /** Extra guard conditions, e.g. `{ driverId: null }` when accepting. */
+  where?: Prisma.RideWhereInput;
+  /** Columns written alongside the status (timestamps, driverId, …). */
+  data?: Prisma.RideUncheckedUpdateManyInput;
+  /** Stored on the RideEvent row for support / dispute handling. */
+  metadata?: Prisma.InputJsonObject;
+  /** Overrides the ConflictException message when the move is rejected. */
+  conflictMessage?: string;
+  /**
+   * Extra writes that must commit with the move, e.g. settling the fare and
+   * payment on completion. Runs after the RideEvent; a throw rolls back both.
+   */
+  onTransition?: (tx: Prisma.TransactionClient) => Promise<void>;
+}
+
+export interface RideTransitionResult {
+  rideId: string;
+  fromStatus: RideStatus;
+  toStatus: RideStatus;
+  at: Date;
+}
+
+@Injectable()
+export class RideStateService {
+  private readonly logger = new Logger(RideStateService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Move a ride to a new status and append a RideEvent in one transaction.
+   *
+   * The update is guarded on the status read inside the transaction, so a
+   * concurrent change (another driver accepting, the passenger cancelling)
+   * makes this call fail with 409 instead of overwriting it.
+   */
+  async transition(opts: RideTransitionOptions): Promise<RideTransitionResult> {
+    const { rideId, to, actor } = opts;
+    const at = new Date();
+
+    const fromStatus = await this.prisma.$transaction(async (tx) => {
+      const ride = await tx.ride.findUnique({
+        where: { id: rideId },
+        select: { status: true },
+      });
+      if (!ride) {
+        throw new NotFoundException(`Ride not found: ${rideId}`);
+      }
+
+      if (
+        !canTransition(ride.status, to) ||
+        (opts.from && !opts.from.includes(ride.status))
+      ) {
+        throw new ConflictException(
+          opts.conflictMessage ??
+            `Ride cannot move from ${ride.status} to ${to}.`,
+        );
+      }
+
+      const result = await tx.ride.updateMany({
+        where: { ...opts.where, id: rideId, status: ride.status },
+        data: { ...opts.data, status: to },
+      });
+      if (result.count === 0) {
+        throw new ConflictException(
+          opts.conflictMessage ??
+            `Ride ${rideId} changed while moving to ${to}. Please retry.`,
+        );
+      }
+
+      await tx.rideEvent.create({
+        data: {
+          rideId,
+          fromStatus: ride.status,
+          toStatus: to,
+          actorType: actor.type,
+          actorId: actor.userId,
+          metadata: opts.metadata,
+          createdAt: at,
+        },
+      });
+
+      await opts.onTransition?.(tx);
+
+      return ride.status;
+    });
+
+    this.logger.log(
+      `Ride ${rideId}: ${fromStatus} → ${to} by ${actor.type}` +
+        (actor.userId ? ` (user ${actor.userId})` : ''),
+    );
+
+    return { rideId, fromStatus, toStatus: to, at };
+  }
+
+  /** Full transition timeline for a ride, oldest first. */
+  async getTimeline(rideId: string) {
+    const ride = await this.prisma.ride.findUnique({
+      where: { id: rideId },
+      select: { id: true },
+    });
+    if (!ride) {
+      throw new NotFoundException(`Ride not found: ${rideId}`);
+    }
+
+    return this.prisma.rideEvent.findMany({
+      where: { rideId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        fromStatus: true,
+        toStatus: true,
+        actorType: true,
+        actorId: true,
+        metadata: true,
+        createdAt: true,
+      },
+    });
+  }
+}
@@ -0,0 +1,22 @@
+import type { RideStatus } from '../generated/prisma/enums.js';
+
+/**
+ * Legal ride status transitions. Every status change must go through
+ * `RideStateService.transition`, which rejects anything not listed here
+ * (e.g. COMPLETED → ACCEPTED). Terminal statuses have no outgoing moves.
+ */
+export const RIDE_TRANSITIONS: Record<RideStatus, readonly RideStatus[]> = {
+  SCHEDULED: ['PENDING', 'CANCELLED'],
+  PENDING: ['ACCEPTED', 'CANCELLED'],
+  ACCEPTED: ['DRIVER_ARRIVING', 'ARRIVED', 'CANCELLED'],
+  DRIVER_ARRIVING: ['ARRIVED', 'CANCELLED'],
+  ARRIVED: ['IN_PROGRESS', 'CANCELLED'],
+  IN_PROGRESS: ['COMPLETED'],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+/** Whether a ride may move from `from` to `to`. */
+export function canTransition(from: RideStatus, to: RideStatus): boolean {
+  return RIDE_TRANSITIONS[from].includes(to);
+}
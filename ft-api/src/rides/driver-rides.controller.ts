@@ -0,0 +1,89 @@
+import {
+  BadRequestException,
+  Controller,
+  ForbiddenException,
+  Get,
+  Param,
+  Query,
+} from '@nestjs/common';
+import { Session, type UserSession } from '@thallesp/nestjs-better-auth';
+import {
+  DRIVER_HISTORY_STATUSES,
+  DriverRidesService,
+  type DriverHistoryStatus,
+} from './driver-rides.service.js';
+
+/** Ensure the caller has the DRIVER role. */
+function assertDriver(session: UserSession | null): string {
+  if (!session?.user) {
+    throw new ForbiddenException('Authentication required.');
+  }
+  const role =
+    typeof session.user.role === 'string'
+      ? session.user.role.toUpperCase()
+      : '';
+  if (role !== 'DRIVER') {
+    throw new ForbiddenException('Only drivers can access this endpoint.');
+  }
+  return session.user.id;
+}
+
+/** Parse an ISO date / date-time query parameter. */
+function parseDate(value: string | undefined, field: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new BadRequestException(`${field} must be an ISO date.`);
+  }
+  return date;
+}
+
+@Controller('driver/rides')
+export class DriverRidesController {
+  constructor(private readonly driverRides: DriverRidesService) {}
+
+  /**
+   * GET /driver/rides?cursor=&limit=&status=COMPLETED|CANCELLED&from=&to=
+   * The driver's finished rides, newest first. `from` is inclusive and `to`
+   * exclusive (by request time); pass `nextCursor` back to load more.
+   */
+  @Get()
+  async listRides(
+    @Session() session: UserSession | null,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limitStr?: string,
+    @Query('status') status?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    const userId = assertDriver(session);
+
+    const selected = status?.toUpperCase() as DriverHistoryStatus | undefined;
+    if (selected && !DRIVER_HISTORY_STATUSES.includes(selected)) {
+      throw new BadRequestException(
+        `status must be one of: ${DRIVER_HISTORY_STATUSES.join(', ')}`,
+      );
+    }
+
+    return this.driverRides.listRides(userId, {
+      cursor: cursor || undefined,
+      limit: Math.min(Number(limitStr) || 20, 50),
+      status: selected,
+      from: parseDate(from, 'from'),
+      to: parseDate(to, 'to'),
+    });
+  }
+
+  /**
+   * GET /driver/rides/:id
+   * A single finished ride with its route polyline and stops.
+   */
+  @Get(':id')
+  async getRide(
+    @Session() session: UserSession | null,
+    @Param('id') rideId: string,
+  ) {
+    const userId = assertDriver(session);
+    return this.driverRides.getRide(userId, rideId);
+  }
+}
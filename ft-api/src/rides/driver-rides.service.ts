@@ -0,0 +1,211 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma.service.js';
+import { Prisma } from '../generated/prisma/client.js';
+import type { RideStatus } from '../generated/prisma/enums.js';
+
+/** Finished rides the history can be filtered to. */
+export const DRIVER_HISTORY_STATUSES = [
+  'COMPLETED',
+  'CANCELLED',
+] as const satisfies readonly RideStatus[];
+export type DriverHistoryStatus = (typeof DRIVER_HISTORY_STATUSES)[number];
+
+export interface DriverRideHistoryQuery {
+  cursor?: string;
+  limit: number;
+  status?: DriverHistoryStatus;
+  from?: Date;
+  to?: Date;
+}
+
+const HISTORY_SELECT = {
+  id: true,
+  status: true,
+  isShared: true,
+  pickupAddress: true,
+  pickupMainText: true,
+  pickupLat: true,
+  pickupLng: true,
+  dropoffAddress: true,
+  dropoffMainText: true,
+  dropoffLat: true,
+  dropoffLng: true,
+  distanceMeters: true,
+  durationSeconds: true,
+  actualDistanceMeters: true,
+  actualDurationSeconds: true,
+  totalFare: true,
+  currency: true,
+  paymentMethod: true,
+  cancellationReason: true,
+  cancelledBy: true,
+  requestedAt: true,
+  startedAt: true,
+  completedAt: true,
+  cancelledAt: true,
+  passenger: { select: { name: true } },
+  payment: {
+    select: { method: true, status: true, driverPayout: true },
+  },
+} as const satisfies Prisma.RideSelect;
+
+type HistoryRide = Prisma.RideGetPayload<{ select: typeof HISTORY_SELECT }>;
+
+/**
+ * Trips a driver has finished or had cancelled, for the driver app's
+ * history tab. Paged by cursor, newest first.
+ */
+@Injectable()
+export class DriverRidesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async listRides(userId: string, query: DriverRideHistoryQuery) {
+    const driver = await this.getDriver(userId);
+
+    const rides = await this.prisma.ride.findMany({
+      where: {
+        driverId: driver.id,
+        status: query.status ?? { in: [...DRIVER_HISTORY_STATUSES] },
+        ...((query.from || query.to) && {
+          requestedAt: {
+            ...(query.from && { gte: query.from }),
+            ...(query.to && { lt: query.to }),
+          },
+        }),
+      },
+      orderBy: [{ requestedAt: 'desc' }, { id: 'desc' }],
+      // One extra row tells us whether another page exists
+      take: query.limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+      select: HISTORY_SELECT,
+    });
+
+    const page = rides.slice(0, query.limit);
+    const ratings = await this.ratingsReceived(
+      driver.userId,
+      page.map((r) => r.id),
+    );
+
+    return {
+      rides: page.map((ride) =>
+        this.toDto(ride, driver.userId, ratings.get(ride.id) ?? []),
+      ),
+      nextCursor: rides.length > query.limit ? page[page.length - 1].id : null,
+    };
+  }
+
+  /** One ride with its route and stops, for the detail view. */
+  async getRide(userId: string, rideId: string) {
+    const driver = await this.getDriver(userId);
+
+    const ride = await this.prisma.ride.findFirst({
+      where: {
+        id: rideId,
+        driverId: driver.id,
+        status: { in: [...DRIVER_HISTORY_STATUSES] },
+      },
+      select: {
+        ...HISTORY_SELECT,
+        polyline: true,
+        stops: {
+          orderBy: { sequence: 'asc' },
+          select: {
+            sequence: true,
+            kind: true,
+            address: true,
+            mainText: true,
+            lat: true,
+            lng: true,
+            reachedAt: true,
+          },
+        },
+      },
+    });
+    if (!ride) throw new NotFoundException(`Ride not found: ${rideId}`);
+
+    const ratings = await this.ratingsReceived(driver.userId, [ride.id]);
+    return {
+      ...this.toDto(ride, driver.userId, ratings.get(ride.id) ?? []),
+      polyline: ride.polyline,
+      stops: ride.stops.map((stop) => ({
+        ...stop,
+        lat: Number(stop.lat),
+        lng: Number(stop.lng),
+      })),
+    };
+  }
+
+  // ── Helpers ─────────────────────────────────────────────────
+
+  private async getDriver(userId: string) {
+    const driver = await this.prisma.driver.findUnique({
+      where: { userId },
+      select: { id: true, userId: true },
+    });
+    if (!driver) throw new NotFoundException('Driver profile not found');
+    return driver;
+  }
+
+  /** Ratings riders gave this driver, grouped by ride. */
+  private async ratingsReceived(driverUserId: string, rideIds: string[]) {
+    const byRide = new Map<
+      string,
+      { rating: number; comment: string | null; tags: string[] }[]
+    >();
+    if (rideIds.length === 0) return byRide;
+
+    const ratings = await this.prisma.rating.findMany({
+      where: { rideId: { in: rideIds }, rateeId: driverUserId },
+      orderBy: { createdAt: 'asc' },
+      select: { rideId: true, rating: true, comment: true, tags: true },
+    });
+    for (const { rideId, ...rating } of ratings) {
+      byRide.set(rideId, [...(byRide.get(rideId) ?? []), rating]);
+    }
+    return byRide;
+  }
+
+  private toDto(
+    ride: HistoryRide,
+    driverUserId: string,
+    ratings: { rating: number; comment: string | null; tags: string[] }[],
+  ) {
+    return {
+      id: ride.id,
+      status: ride.status,
+      isShared: ride.isShared,
+      passengerName: ride.passenger.name,
+      pickupAddress: ride.pickupAddress,
+      pickupMainText: ride.pickupMainText,
+      pickupLat: Number(ride.pickupLat),
+      pickupLng: Number(ride.pickupLng),
+      dropoffAddress: ride.dropoffAddress,
+      dropoffMainText: ride.dropoffMainText,
+      dropoffLat: Number(ride.dropoffLat),
+      dropoffLng: Number(ride.dropoffLng),
+      distanceMeters: ride.actualDistanceMeters ?? ride.distanceMeters,
+      durationSeconds: ride.actualDurationSeconds ?? ride.durationSeconds,
+      fare: Number(ride.totalFare),
+      driverPayout: ride.payment ? Number(ride.payment.driverPayout) : null,
+      currency: ride.currency,
+      paymentMethod: ride.payment?.method ?? ride.paymentMethod,
+      paymentStatus: ride.payment?.status ?? null,
+      // Shared rides can be rated by every rider on board
+      rating: ratings.length
+        ? Math.round(
+            (ratings.reduce((sum, r) => sum + r.rating, 0) / ratings.length) *
+              10,
+          ) / 10
+        : null,
+      ratingsReceived: ratings,
+      cancellationReason: ride.cancellationReason,
+      cancelledByDriver: ride.cancelledBy
+        ? ride.cancelledBy === driverUserId
+        : null,
+      requestedAt: ride.requestedAt,
+      startedAt: ride.startedAt,
+      completedAt: ride.completedAt,
+      cancelledAt: ride.cancelledAt,
+    };
+  }
+}
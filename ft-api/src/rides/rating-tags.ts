@@ -0,0 +1,35 @@
+/**
+ * Tag vocabularies for post-trip ratings. The apps render these as chips
+ * (labels come from their locale files); the API rejects anything else so
+ * the admin breakdown can aggregate them reliably.
+ */
+
+/** Tags a passenger can give a driver. */
+export const DRIVER_RATING_TAGS = [
+  'clean_car',
+  'friendly',
+  'safe_driving',
+  'on_time',
+  'knows_route',
+  'smooth_ride',
+  'dirty_car',
+  'rude',
+  'unsafe_driving',
+  'late',
+  'wrong_route',
+] as const;
+
+/** Tags a driver can give a passenger. */
+export const PASSENGER_RATING_TAGS = [
+  'polite',
+  'on_time',
+  'clear_pickup',
+  'respectful',
+  'late',
+  'rude',
+  'messy',
+  'wrong_pickup',
+] as const;
+
+export type DriverRatingTag = (typeof DRIVER_RATING_TAGS)[number];
+export type PassengerRatingTag = (typeof PASSENGER_RATING_TAGS)[number];
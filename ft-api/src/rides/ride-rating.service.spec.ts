@@ -0,0 +1,111 @@
+import { jest } from '@jest/globals';
+import { Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../prisma.service.js';
+import { RideRatingService } from './ride-rating.service.js';
+
+describe('RideRatingService', () => {
+  let service: RideRatingService;
+  let scores: number[];
+  let ratingPenalty: number;
+  let averageRating: number;
+  let ratingCount: number;
+
+  const tx = {
+    $queryRaw: jest.fn(() => Promise.resolve([{ ratingPenalty }])),
+    rating: {
+      create: jest.fn((args: { data: { rating: number } }) => {
+        scores.push(args.data.rating);
+        return Promise.resolve({ id: `rating-${scores.length}`, ...args.data });
+      }),
+      aggregate: jest.fn(() =>
+        Promise.resolve({
+          _avg: {
+            rating: scores.reduce((sum, s) => sum + s, 0) / scores.length,
+          },
+          _count: scores.length,
+        }),
+      ),
+    },
+    driver: {
+      update: jest.fn(
+        (args: { data: { averageRating: number; ratingCount: number } }) => {
+          ({ averageRating, ratingCount } = args.data);
+          return Promise.resolve({});
+        },
+      ),
+    },
+  };
+  const prisma = {
+    ride: {
+      findUnique: jest.fn(() =>
+        Promise.resolve({
+          status: 'COMPLETED',
+          completedAt: new Date(),
+          passengerId: 'rider-1',
+          driver: { id: 'driver-1', userId: 'driver-user' },
+        }),
+      ),
+    },
+    $transaction: jest.fn((fn: (client: typeof tx) => Promise<unknown>) =>
+      fn(tx),
+    ),
+  };
+
+  /** Rate the driver once per score, each on its own ride. */
+  async function rate(...ratings: number[]) {
+    for (const rating of ratings) {
+      await service.submitRating(`ride-${scores.length}`, 'rider-1', {
+        rating,
+      });
+    }
+  }
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    scores = [];
+    ratingPenalty = 0;
+    averageRating = 0;
+    ratingCount = 0;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RideRatingService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<RideRatingService>(RideRatingService);
+  });
+
+  it('climbs back up with repeated 5★ ratings after a low one', async () => {
+    await rate(1, ...Array<number>(9).fill(5));
+    expect(averageRating).toBe(4.6);
+
+    // 51 / 11 = 4.64, then 56 / 12 = 4.67 — a running rounded average
+    // would stay stuck at 4.6
+    await rate(5, 5);
+
+    expect(averageRating).toBe(4.7);
+    expect(ratingCount).toBe(12);
+  });
+
+  it('keeps cancellation deductions off the recomputed average', async () => {
+    ratingPenalty = 0.2;
+
+    await rate(5, 4);
+
+    expect(averageRating).toBe(4.3);
+  });
+
+  it('leaves the driver’s average alone when the driver rates the rider', async () => {
+    await service.submitRating('ride-1', 'driver-user', { rating: 2 });
+
+    expect(tx.$queryRaw).not.toHaveBeenCalled();
+    expect(tx.driver.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,192 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma.service.js';
+import { Prisma } from '../generated/prisma/client.js';
+import { DRIVER_RATING_TAGS, PASSENGER_RATING_TAGS } from './rating-tags.js';
+
+/** How long after completion a ride can still be rated. */
+const RATING_WINDOW_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export interface SubmitRatingInput {
+  rating: number;
+  comment?: string;
+  tags?: string[];
+}
+
+@Injectable()
+export class RideRatingService {
+  private readonly logger = new Logger(RideRatingService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Rate the other participant of a completed ride. Passengers rate the
+   * driver and vice versa; each side can rate a ride once.
+   *
+   * Driver ratings recompute `Driver.averageRating`/`ratingCount` from the
+   * driver's Rating rows in the same transaction, less their cancellation
+   * deductions, so rounding never builds up across ratings.
+   */
+  async submitRating(rideId: string, userId: string, input: SubmitRatingInput) {
+    const ride = await this.prisma.ride.findUnique({
+      where: { id: rideId },
+      select: {
+        status: true,
+        completedAt: true,
+        passengerId: true,
+        driver: { select: { id: true, userId: true } },
+      },
+    });
+    if (!ride) {
+      throw new NotFoundException(`Ride not found: ${rideId}`);
+    }
+
+    const isPassenger = ride.passengerId === userId;
+    const isDriver = ride.driver?.userId === userId;
+    if (!isPassenger && !isDriver) {
+      throw new ForbiddenException('You are not part of this ride.');
+    }
+
+    if (ride.status !== 'COMPLETED' || !ride.driver) {
+      throw new BadRequestException('Only completed rides can be rated.');
+    }
+    if (
+      ride.completedAt &&
+      Date.now() - ride.completedAt.getTime() > RATING_WINDOW_MS
+    ) {
+      throw new BadRequestException(
+        'The rating window for this ride has closed.',
+      );
+    }
+
+    const rating = Number(input.rating);
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      throw new BadRequestException(
+        'Rating must be a whole number from 1 to 5.',
+      );
+    }
+
+    const vocabulary: readonly string[] = isPassenger
+      ? DRIVER_RATING_TAGS
+      : PASSENGER_RATING_TAGS;
+    const tags = [...new Set(input.tags ?? [])];
+    const unknown = tags.filter((tag) => !vocabulary.includes(tag));
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown rating tags: ${unknown.join(', ')}`,
+      );
+    }
+
+    const comment = input.comment?.trim() || null;
+    const rateeId = isPassenger ? ride.driver.userId : ride.passengerId;
+    const driverId = ride.driver.id;
+
+    try {
+      const created = await this.prisma.$transaction(async (tx) => {
+        // Lock the driver so concurrent ratings each count the other's row
+        const locked = isPassenger
+          ? await tx.$queryRaw<{ ratingPenalty: Prisma.Decimal }[]>`
+              SELECT "ratingPenalty" FROM driver WHERE id = ${driverId} FOR UPDATE`
+          : null;
+
+        const row = await tx.rating.create({
+          data: { rideId, raterId: userId, rateeId, rating, comment, tags },
+        });
+
+        if (locked?.[0]) {
+          const stats = await tx.rating.aggregate({
+            where: { rateeId },
+            _avg: { rating: true },
+            _count: true,
+          });
+          const average =
+            (stats._avg.rating ?? 0) - Number(locked[0].ratingPenalty);
+          await tx.driver.update({
+            where: { id: driverId },
+            data: {
+              averageRating: Math.max(0, Math.round(average * 10) / 10),
+              ratingCount: stats._count,
+            },
+          });
+        }
+
+        return row;
+      });
+
+      this.logger.log(
+        `Ride ${rideId}: ${isPassenger ? 'passenger' : 'driver'} rated ${rating}★`,
+      );
+
+      return {
+        id: created.id,
+        rideId,
+        rating: created.rating,
+        comment: created.comment,
+        tags: created.tags,
+        createdAt: created.createdAt,
+      };
+    } catch (err) {
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === 'P2002'
+      ) {
+        throw new ConflictException('You have already rated this ride.');
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * The caller's most recent completed ride (within the rating window) that
+   * they haven't rated yet, or null. Lets the apps re-offer the rating sheet
+   * if it was missed at drop-off.
+   */
+  async getPendingRating(userId: string) {
+    const since = new Date(Date.now() - RATING_WINDOW_MS);
+    const ride = await this.prisma.ride.findFirst({
+      where: {
+        status: 'COMPLETED',
+        completedAt: { gte: since },
+        OR: [{ passengerId: userId }, { driver: { userId } }],
+        ratings: { none: { raterId: userId } },
+      },
+      orderBy: { completedAt: 'desc' },
+      select: {
+        id: true,
+        passengerId: true,
+        totalFare: true,
+        currency: true,
+        completedAt: true,
+        dropoffAddress: true,
+        paymentMethod: true,
+        payment: { select: { status: true, driverPayout: true } },
+        passenger: { select: { name: true } },
+        driver: { select: { user: { select: { name: true } } } },
+      },
+    });
+    if (!ride) return null;
+
+    const isPassenger = ride.passengerId === userId;
+    return {
+      rideId: ride.id,
+      rateeRole: isPassenger ? 'DRIVER' : 'PASSENGER',
+      rateeName: isPassenger
+        ? (ride.driver?.user.name ?? null)
+        : ride.passenger.name,
+      totalFare: Number(ride.totalFare),
+      currency: ride.currency,
+      dropoffAddress: ride.dropoffAddress,
+      completedAt: ride.completedAt,
+      // Lets the driver app re-offer the cash collection confirmation
+      cashPending:
+        ride.paymentMethod === 'CASH' && ride.payment?.status === 'PENDING',
+      driverPayout: ride.payment ? Number(ride.payment.driverPayout) : null,
+    };
+  }
+}
@@ -0,0 +1,329 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma.service.js';
+import type { Prisma } from '../generated/prisma/client.js';
+import type { RideStatus } from '../generated/prisma/enums.js';
+import {
+  sendRideReceiptEmail,
+  type EmailLocale,
+  type RideReceiptLineKey,
+} from '../lib/email.js';
+
+const EMAIL_LOCALES: readonly string[] = ['en', 'my'] satisfies EmailLocale[];
+
+const DETAIL_SELECT = {
+  id: true,
+  status: true,
+  isShared: true,
+  vehicleType: true,
+  passengerId: true,
+  pickupAddress: true,
+  pickupMainText: true,
+  pickupLat: true,
+  pickupLng: true,
+  dropoffAddress: true,
+  dropoffMainText: true,
+  dropoffLat: true,
+  dropoffLng: true,
+  distanceMeters: true,
+  durationSeconds: true,
+  actualDistanceMeters: true,
+  actualDurationSeconds: true,
+  polyline: true,
+  baseFare: true,
+  distanceFare: true,
+  timeFare: true,
+  bookingFee: true,
+  townshipSurcharge: true,
+  surgeFare: true,
+  surgeMultiplier: true,
+  discount: true,
+  totalFare: true,
+  quotedFare: true,
+  fareBasis: true,
+  fareBreakdown: true,
+  currency: true,
+  paymentMethod: true,
+  requestedAt: true,
+  acceptedAt: true,
+  arrivedAt: true,
+  startedAt: true,
+  completedAt: true,
+  cancelledAt: true,
+  cancellationReason: true,
+  cancelledBy: true,
+  driver: {
+    select: {
+      userId: true,
+      averageRating: true,
+      user: { select: { name: true, image: true } },
+      vehicle: {
+        select: {
+          type: true,
+          make: true,
+          model: true,
+          color: true,
+          plateNumber: true,
+        },
+      },
+    },
+  },
+  passengers: {
+    select: {
+      passengerId: true,
+      isLead: true,
+      status: true,
+      fare: true,
+      pickedUpAt: true,
+      droppedOffAt: true,
+      cancelledAt: true,
+    },
+  },
+  stops: {
+    orderBy: { sequence: 'asc' },
+    select: {
+      sequence: true,
+      kind: true,
+      passengerId: true,
+      address: true,
+      mainText: true,
+      lat: true,
+      lng: true,
+      reachedAt: true,
+    },
+  },
+  payment: { select: { method: true, status: true } },
+} as const satisfies Prisma.RideSelect;
+
+type DetailRide = Prisma.RideGetPayload<{ select: typeof DETAIL_SELECT }>;
+
+/** Rounds to the cent, like the Decimal(10, 2) fare columns. */
+function cents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * A ride as one of its participants sees it — fare breakdown, route, driver
+ * and timeline — and the receipt emailed to riders when their trip ends.
+ *
+ * A rider who joined a shared ride sees their own seat: their pickup and
+ * dropoff, their split fare and their own boarding times.
+ */
+@Injectable()
+export class RideReceiptService {
+  private readonly logger = new Logger(RideReceiptService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Open to the booking rider, a rider seated on the ride and its driver.
+   * Support staff (`asAdmin`) can open any ride and also get the pricing
+   * result behind the fare — bands, surge zone, special day.
+   */
+  async getRideDetail(rideId: string, userId: string, asAdmin = false) {
+    const ride = await this.prisma.ride.findUnique({
+      where: { id: rideId },
+      select: DETAIL_SELECT,
+    });
+    const isParticipant =
+      ride &&
+      (asAdmin ||
+        ride.passengerId === userId ||
+        ride.driver?.userId === userId ||
+        ride.passengers.some((p) => p.passengerId === userId));
+    if (!ride || !isParticipant) {
+      throw new NotFoundException(`Ride not found: ${rideId}`);
+    }
+    const detail = this.toDetail(ride, userId);
+    return asAdmin ? { ...detail, pricing: ride.fareBreakdown } : detail;
+  }
+
+  /**
+   * Email a rider the receipt for their finished trip, in the language their
+   * app last booked in. Failures are logged — a receipt never blocks a trip.
+   */
+  async sendReceipt(rideId: string, passengerId: string): Promise<void> {
+    try {
+      const [ride, user] = await Promise.all([
+        this.prisma.ride.findUnique({
+          where: { id: rideId },
+          select: DETAIL_SELECT,
+        }),
+        this.prisma.user.findUnique({
+          where: { id: passengerId },
+          select: { name: true, email: true, locale: true },
+        }),
+      ]);
+      if (!ride || !user) return;
+
+      const detail = this.toDetail(ride, passengerId);
+      if (detail.status !== 'COMPLETED' || !detail.timeline.completedAt) {
+        return;
+      }
+
+      const { fare, driver } = detail;
+      const lines: { key: RideReceiptLineKey; amount: number }[] = [];
+      if (fare.breakdown) {
+        const b = fare.breakdown;
+        lines.push(
+          { key: 'baseFare', amount: b.baseFare },
+          { key: 'distanceFare', amount: b.distanceFare },
+          { key: 'timeFare', amount: b.timeFare },
+        );
+        if (b.bookingFee > 0) {
+          lines.push({ key: 'bookingFee', amount: b.bookingFee });
+        }
+        if (b.townshipSurcharge > 0) {
+          lines.push({ key: 'townshipSurcharge', amount: b.townshipSurcharge });
+        }
+        if (b.surgeFare > 0) {
+          lines.push({ key: 'surgeFare', amount: b.surgeFare });
+        }
+        if (Math.abs(b.adjustment) >= 1) {
+          lines.push({ key: 'adjustment', amount: b.adjustment });
+        }
+        if (b.discount > 0) {
+          lines.push({ key: 'discount', amount: b.discount });
+        }
+      } else {
+        lines.push({ key: 'sharedFare', amount: fare.total });
+      }
+
+      await sendRideReceiptEmail({
+        to: user.email,
+        userName: user.name,
+        locale: EMAIL_LOCALES.includes(user.locale)
+          ? (user.locale as EmailLocale)
+          : 'en',
+        rideId: detail.id,
+        pickupAddress: detail.pickup.address,
+        dropoffAddress: detail.dropoff.address,
+        completedAt: detail.timeline.completedAt,
+        distanceMeters: detail.distanceMeters,
+        durationSeconds: detail.durationSeconds,
+        driverName: driver?.name ?? null,
+        vehicle: driver?.vehicle
+          ? `${driver.vehicle.color} ${driver.vehicle.make} ${driver.vehicle.model} · ${driver.vehicle.plateNumber}`
+          : null,
+        paymentMethod: fare.paymentMethod,
+        lines,
+        total: fare.total,
+        currency: fare.currency,
+      });
+      this.logger.log(`Ride ${rideId}: receipt emailed to ${passengerId}`);
+    } catch (err: unknown) {
+      this.logger.error(
+        `Ride ${rideId}: receipt email to ${passengerId} failed: ${String(err)}`,
+      );
+    }
+  }
+
+  // ── Helpers ─────────────────────────────────────────────────
+
+  private toDetail(ride: DetailRide, userId: string) {
+    // A joined (non-lead) rider's trip is their own seat on the ride
+    const seat = ride.passengers.find(
+      (p) => p.passengerId === userId && !p.isLead,
+    );
+    const seatStop = (kind: 'PICKUP' | 'DROPOFF') =>
+      seat
+        ? ride.stops.find((s) => s.passengerId === userId && s.kind === kind)
+        : undefined;
+    const seatPickup = seatStop('PICKUP');
+    const seatDropoff = seatStop('DROPOFF');
+
+    const status: RideStatus =
+      seat?.status === 'DROPPED_OFF'
+        ? 'COMPLETED'
+        : seat?.status === 'CANCELLED'
+          ? 'CANCELLED'
+          : ride.status;
+
+    // Seats on a shared ride are priced as one flat split fare
+    const total = Number(seat?.fare ?? ride.totalFare);
+    const components = {
+      baseFare: Number(ride.baseFare),
+      distanceFare: Number(ride.distanceFare),
+      timeFare: Number(ride.timeFare),
+      bookingFee: Number(ride.bookingFee),
+      townshipSurcharge: Number(ride.townshipSurcharge),
+      surgeFare: Number(ride.surgeFare),
+    };
+    const discount = Number(ride.discount);
+    const breakdown = ride.isShared
+      ? null
+      : {
+          ...components,
+          surgeMultiplier: Number(ride.surgeMultiplier),
+          // Plus premium and rounding to the nearest 100 — whatever the
+          // components above don't explain
+          adjustment: cents(
+            total +
+              discount -
+              Object.values(components).reduce((sum, v) => sum + v, 0),
+          ),
+          discount,
+        };
+
+    return {
+      id: ride.id,
+      status,
+      isShared: ride.isShared,
+      vehicleType: ride.vehicleType,
+      pickup: {
+        address: seatPickup?.address ?? ride.pickupAddress,
+        mainText: seatPickup ? seatPickup.mainText : ride.pickupMainText,
+        lat: Number(seatPickup?.lat ?? ride.pickupLat),
+        lng: Number(seatPickup?.lng ?? ride.pickupLng),
+      },
+      dropoff: {
+        address: seatDropoff?.address ?? ride.dropoffAddress,
+        mainText: seatDropoff ? seatDropoff.mainText : ride.dropoffMainText,
+        lat: Number(seatDropoff?.lat ?? ride.dropoffLat),
+        lng: Number(seatDropoff?.lng ?? ride.dropoffLng),
+      },
+      stops: ride.stops
+        .filter((s) => s.kind === 'WAYPOINT')
+        .map((s) => ({
+          sequence: s.sequence,
+          address: s.address,
+          mainText: s.mainText,
+          lat: Number(s.lat),
+          lng: Number(s.lng),
+          reachedAt: s.reachedAt,
+        })),
+      polyline: ride.polyline,
+      distanceMeters: ride.actualDistanceMeters ?? ride.distanceMeters,
+      durationSeconds: ride.actualDurationSeconds ?? ride.durationSeconds,
+      fare: {
+        total,
+        quotedFare: ride.isShared
+          ? total
+          : Number(ride.quotedFare ?? ride.totalFare),
+        fareBasis: ride.fareBasis,
+        currency: ride.currency,
+        paymentMethod: ride.payment?.method ?? ride.paymentMethod,
+        paymentStatus: ride.payment?.status ?? null,
+        breakdown,
+      },
+      driver: ride.driver
+        ? {
+            name: ride.driver.user.name,
+            image: ride.driver.user.image,
+            rating: Number(ride.driver.averageRating),
+            vehicle: ride.driver.vehicle,
+          }
+        : null,
+      timeline: {
+        requestedAt: ride.requestedAt,
+        acceptedAt: ride.acceptedAt,
+        arrivedAt: seat ? null : ride.arrivedAt,
+        startedAt: seat ? seat.pickedUpAt : ride.startedAt,
+        completedAt: seat ? seat.droppedOffAt : ride.completedAt,
+        cancelledAt: seat ? seat.cancelledAt : ride.cancelledAt,
+      },
+      cancellationReason: seat ? null : ride.cancellationReason,
+      cancelledByYou:
+        !seat && ride.cancelledBy ? ride.cancelledBy === userId : null,
+    };
+  }
+}
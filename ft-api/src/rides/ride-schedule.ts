@@ -0,0 +1,45 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Advance-booking window. The apps mirror these limits in their pickers;
+ * the API enforces them when quoting so a scheduled fare is never priced
+ * for a time that cannot be booked.
+ */
+
+/** Earliest scheduled pickup — anything sooner is booked as "now". */
+export const SCHEDULE_MIN_LEAD_MS = 30 * 60 * 1000; // 30 minutes
+
+/** Latest scheduled pickup. */
+export const SCHEDULE_MAX_AHEAD_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/** Dispatch for a scheduled ride starts this long before pickup. */
+export const SCHEDULED_DISPATCH_LEAD_MS = 15 * 60 * 1000; // 15 minutes
+
+/**
+ * Parse an optional `scheduledFor` from a request body. Returns null for
+ * "ride now"; rejects times outside the booking window with a
+ * `SCHEDULE_*:` code the apps can map to a message.
+ */
+export function parseScheduledFor(value: unknown): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  const at = new Date(value as string);
+  if (Number.isNaN(at.getTime())) {
+    throw new BadRequestException(
+      'SCHEDULE_INVALID: scheduledFor must be a valid date.',
+    );
+  }
+
+  const lead = at.getTime() - Date.now();
+  if (lead < SCHEDULE_MIN_LEAD_MS) {
+    throw new BadRequestException(
+      'SCHEDULE_TOO_SOON: Scheduled pickups must be at least 30 minutes ahead.',
+    );
+  }
+  if (lead > SCHEDULE_MAX_AHEAD_MS) {
+    throw new BadRequestException(
+      'SCHEDULE_TOO_FAR: Pickups can be scheduled up to 7 days ahead.',
+    );
+  }
+  return at;
+}
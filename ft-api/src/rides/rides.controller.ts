@@ -1,20 +1,47 @@
 import {
+  BadRequestException,
   Body,
   Controller,
+  ForbiddenException,
   Get,
   HttpCode,
   HttpStatus,
   Logger,
   Param,
   Post,
+  UnauthorizedException,
   UploadedFile,
   UseInterceptors,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
+import { I18n, I18nContext } from 'nestjs-i18n';
 import { Session, type UserSession } from '@thallesp/nestjs-better-auth';
 import { ImageService } from '../content/image.service.js';
 import { RidesService } from './rides.service.js';
-import { VehicleType } from '../generated/prisma/enums.js';
+import { RideStateService } from '../ride-state/ride-state.service.js';
+import {
+  RideRatingService,
+  type SubmitRatingInput,
+} from './ride-rating.service.js';
+import { PaymentMethod, VehicleType } from '../generated/prisma/enums.js';
+import { PaymentsService } from '../payments/payments.service.js';
+import { RideReceiptService } from './ride-receipt.service.js';
+
+const ADMIN_ROLES = ['ADMIN', 'MANAGER', 'OPERATION', 'SUPERADMIN'];
+
+function isAdmin(session: UserSession): boolean {
+  const role = session.user.role;
+  return typeof role === 'string' && ADMIN_ROLES.includes(role.toUpperCase());
+}
+
+function assertAdmin(session: UserSession | null): void {
+  if (!session?.user) {
+    throw new UnauthorizedException('Unauthorized');
+  }
+  if (!isAdmin(session)) {
+    throw new ForbiddenException('Admin access required');
+  }
+}
 
 interface CreateRideBody {
   pickupAddress: string;
@@ -34,6 +61,10 @@ interface CreateRideBody {
   fuelPreference?: string;
   petFriendly?: boolean;
   extraPassengers?: boolean;
+  /** CASH (default), CARD or WALLET. */
+  paymentMethod?: string;
+  /** Optional promo code to redeem on this ride. */
+  promoCode?: string;
 }
 
 @Controller('rides')
@@ -43,6 +74,10 @@ export class RidesController {
   constructor(
     private readonly ridesService: RidesService,
     private readonly imageService: ImageService,
+    private readonly rideState: RideStateService,
+    private readonly ratings: RideRatingService,
+    private readonly payments: PaymentsService,
+    private readonly receipts: RideReceiptService,
   ) {}
 
   /**
@@ -72,11 +107,21 @@ export class RidesController {
   async createRide(
     @Session() session: UserSession,
     @Body() body: CreateRideBody,
+    @I18n() i18n: I18nContext,
   ) {
     this.logger.log(`Create ride request from user ${session.user.id}`);
 
-    const vehicleType =
-      (body.vehicleType as VehicleType) || VehicleType.ECONOMY;
+    const vehicleType = body.vehicleType ?? VehicleType.STANDARD;
+    if (!Object.values(VehicleType).includes(vehicleType as VehicleType)) {
+      throw new BadRequestException(`Invalid vehicle type: ${vehicleType}`);
+    }
+
+    const paymentMethod = body.paymentMethod ?? PaymentMethod.CASH;
+    if (
+      !Object.values(PaymentMethod).includes(paymentMethod as PaymentMethod)
+    ) {
+      throw new BadRequestException(`Invalid payment method: ${paymentMethod}`);
+    }
 
     return this.ridesService.createRide(session.user.id, {
       pickupAddress: body.pickupAddress,
@@ -87,7 +132,7 @@ export class RidesController {
       dropoffMainText: body.dropoffMainText,
       dropoffLat: Number(body.dropoffLat),
       dropoffLng: Number(body.dropoffLng),
-      vehicleType,
+      vehicleType: vehicleType as VehicleType,
       passengerNote: body.passengerNote,
       pickupPhotoUrl: body.pickupPhotoUrl,
       routeQuoteId: body.routeQuoteId,
@@ -95,6 +140,9 @@ export class RidesController {
       fuelPreference: body.fuelPreference,
       petFriendly: body.petFriendly ?? false,
       extraPassengers: body.extraPassengers ?? false,
+      paymentMethod: paymentMethod as PaymentMethod,
+      promoCode: body.promoCode,
+      locale: i18n.lang,
     });
   }
 
@@ -111,6 +159,58 @@ export class RidesController {
     return this.ridesService.getRideStatus(rideId, session.user.id);
   }
 
+  /**
+   * GET /rides/pending-rating
+   * Latest completed ride the caller hasn't rated yet (or null). Works for
+   * both passengers and drivers.
+   */
+  @Get('pending-rating')
+  async getPendingRating(@Session() session: UserSession) {
+    return this.ratings.getPendingRating(session.user.id);
+  }
+
+  /**
+   * GET /rides/scheduled
+   * The caller's upcoming advance bookings, soonest first. Cancel with
+   * POST /rides/:id/cancel.
+   */
+  @Get('scheduled')
+  async getScheduledRides(@Session() session: UserSession) {
+    return this.ridesService.getScheduledRides(session.user.id);
+  }
+
+  /**
+   * GET /rides/:id/events
+   * Status transition timeline (who moved the ride, when). Admin only —
+   * used by support to settle disputes.
+   */
+  @Get(':id/events')
+  async getRideEvents(
+    @Session() session: UserSession,
+    @Param('id') rideId: string,
+  ) {
+    assertAdmin(session);
+    return this.rideState.getTimeline(rideId);
+  }
+
+  /**
+   * GET /rides/:id
+   * Full ride detail for its riders and driver: fare breakdown, route
+   * polyline, driver & vehicle, and the trip timeline. Admins can open any
+   * ride and also see the pricing rules behind its fare.
+   */
+  @Get(':id')
+  async getRideDetail(
+    @Session() session: UserSession,
+    @Param('id') rideId: string,
+  ) {
+    return this.receipts.getRideDetail(
+      rideId,
+      session.user.id,
+      isAdmin(session),
+    );
+  }
+
   /**
    * POST /rides/:id/accept
    * Driver accepts a pending ride. Race-condition safe.
@@ -150,6 +250,101 @@ export class RidesController {
     return this.ridesService.acknowledgeRide(rideId, session.user.id);
   }
 
+  /**
+   * POST /rides/:id/arriving
+   * Driver is on the way to the pickup point.
+   */
+  @Post(':id/arriving')
+  @HttpCode(HttpStatus.OK)
+  async markArriving(
+    @Session() session: UserSession,
+    @Param('id') rideId: string,
+  ) {
+    return this.ridesService.advanceTrip(rideId, session.user.id, 'arriving');
+  }
+
+  /**
+   * POST /rides/:id/arrived
+   * Driver has reached the pickup point and is waiting for the passenger.
+   */
+  @Post(':id/arrived')
+  @HttpCode(HttpStatus.OK)
+  async markArrived(
+    @Session() session: UserSession,
+    @Param('id') rideId: string,
+  ) {
+    return this.ridesService.advanceTrip(rideId, session.user.id, 'arrived');
+  }
+
+  /**
+   * POST /rides/:id/start
+   * Passenger is on board — the trip begins.
+   */
+  @Post(':id/start')
+  @HttpCode(HttpStatus.OK)
+  async startRide(
+    @Session() session: UserSession,
+    @Param('id') rideId: string,
+  ) {
+    this.logger.log(`Driver user ${session.user.id} starting ride ${rideId}`);
+    return this.ridesService.advanceTrip(rideId, session.user.id, 'start');
+  }
+
+  /**
+   * POST /rides/:id/complete
+   * Driver dropped the passenger off. Driver goes back ONLINE.
+   */
+  @Post(':id/complete')
+  @HttpCode(HttpStatus.OK)
+  async completeRide(
+    @Session() session: UserSession,
+    @Param('id') rideId: string,
+  ) {
+    this.logger.log(`Driver user ${session.user.id} completing ride ${rideId}`);
+    return this.ridesService.advanceTrip(rideId, session.user.id, 'complete');
+  }
+
+  /**
+   * POST /rides/:id/stops/:stopId/reached
+   * Driver marks an intermediate stop as reached during the trip.
+   */
+  @Post(':id/stops/:stopId/reached')
+  @HttpCode(HttpStatus.OK)
+  async markStopReached(
+    @Session() session: UserSession,
+    @Param('id') rideId: string,
+    @Param('stopId') stopId: string,
+  ) {
+    return this.ridesService.markStopReached(rideId, stopId, session.user.id);
+  }
+
+  /**
+   * POST /rides/:id/rating
+   * Rate the other side of a completed ride (1-5 stars, optional tags and
+   * comment). Passengers rate the driver, drivers rate the passenger.
+   */
+  @Post(':id/rating')
+  async rateRide(
+    @Session() session: UserSession,
+    @Param('id') rideId: string,
+    @Body() body: SubmitRatingInput,
+  ) {
+    return this.ratings.submitRating(rideId, session.user.id, body);
+  }
+
+  /**
+   * POST /rides/:id/payment/cash-collected
+   * Driver confirms they collected the fare of a completed cash ride.
+   */
+  @Post(':id/payment/cash-collected')
+  @HttpCode(HttpStatus.OK)
+  async confirmCashCollected(
+    @Session() session: UserSession,
+    @Param('id') rideId: string,
+  ) {
+    return this.payments.confirmCashCollected(rideId, session.user.id);
+  }
+
   /**
    * POST /rides/:id/cancel
    * Cancel an accepted ride. Can be called by the driver or the passenger.
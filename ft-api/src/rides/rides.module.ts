@@ -1,13 +1,40 @@
 import { Module } from '@nestjs/common';
 import { RidesController } from './rides.controller.js';
 import { RidesService } from './rides.service.js';
+import { ScheduledRidesService } from './scheduled-rides.service.js';
 import { ImageService } from '../content/image.service.js';
 import { PrismaService } from '../prisma.service.js';
 import { DispatchModule } from '../dispatch/dispatch.module.js';
+import { RideStateModule } from '../ride-state/ride-state.module.js';
+import { PricingModule } from '../pricing/pricing.module.js';
+import { PaymentsModule } from '../payments/payments.module.js';
+import { PromosModule } from '../promos/promos.module.js';
+import { RealtimeModule } from '../realtime/realtime.module.js';
+import { TripFareService } from './trip-fare.service.js';
+import { RideRatingService } from './ride-rating.service.js';
+import { DriverRidesController } from './driver-rides.controller.js';
+import { DriverRidesService } from './driver-rides.service.js';
+import { RideReceiptService } from './ride-receipt.service.js';
 
 @Module({
-  imports: [DispatchModule],
-  controllers: [RidesController],
-  providers: [RidesService, ImageService, PrismaService],
+  imports: [
+    DispatchModule,
+    RideStateModule,
+    PricingModule,
+    PaymentsModule,
+    PromosModule,
+    RealtimeModule,
+  ],
+  controllers: [RidesController, DriverRidesController],
+  providers: [
+    RidesService,
+    ScheduledRidesService,
+    TripFareService,
+    RideRatingService,
+    DriverRidesService,
+    RideReceiptService,
+    ImageService,
+    PrismaService,
+  ],
 })
 export class RidesModule {}
@@ -0,0 +1,139 @@
+import { jest } from '@jest/globals';
+import { ForbiddenException, Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../prisma.service.js';
+import { DriverStatusService } from '../dispatch/driver-status.service.js';
+import { PenaltyService } from '../dispatch/penalty.service.js';
+import { RideDispatchService } from '../dispatch/ride-dispatch.service.js';
+import { PaymentsService } from '../payments/payments.service.js';
+import { PromosService } from '../promos/promos.service.js';
+import { RealtimeGateway } from '../realtime/realtime-gateway.js';
+import { RideStateService } from '../ride-state/ride-state.service.js';
+import { TripFareService } from './trip-fare.service.js';
+
+// Receipts pull in the mailer, which needs a Resend key at import time
+jest.unstable_mockModule('./ride-receipt.service.js', () => ({
+  RideReceiptService: class RideReceiptService {},
+}));
+const { RideReceiptService } = await import('./ride-receipt.service.js');
+const { RidesService } = await import('./rides.service.js');
+
+describe('RidesService driver approval', () => {
+  let service: InstanceType<typeof RidesService>;
+  let driver: {
+    id: string;
+    approvalStatus: string;
+    suspensionReason: string | null;
+  };
+  let ride: Record<string, unknown>;
+
+  const prisma = {
+    driver: { findUnique: jest.fn(() => Promise.resolve(driver)) },
+    ride: {
+      findUnique: jest.fn(() => Promise.resolve(ride)),
+      findUniqueOrThrow: jest.fn(() => Promise.resolve(ride)),
+    },
+  };
+  const rideState = { transition: jest.fn(() => Promise.resolve({})) };
+  const driverStatus = { setStatusByUserId: jest.fn(() => Promise.resolve()) };
+  const dispatch = { cancelDispatch: jest.fn(() => Promise.resolve()) };
+  const publisher = { publish: jest.fn(() => Promise.resolve()) };
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    driver = {
+      id: 'driver-1',
+      approvalStatus: 'APPROVED',
+      suspensionReason: null,
+    };
+    ride = {
+      id: 'ride-1',
+      status: 'ACCEPTED',
+      passengerId: 'rider-1',
+      driverId: 'driver-1',
+      notifiedDriverIds: ['driver-user'],
+      stops: [],
+      passengers: [],
+      totalFare: 5000,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RidesService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: DriverStatusService, useValue: driverStatus },
+        { provide: RideDispatchService, useValue: dispatch },
+        { provide: RealtimeGateway, useValue: publisher },
+        { provide: PenaltyService, useValue: {} },
+        { provide: RideStateService, useValue: rideState },
+        { provide: TripFareService, useValue: {} },
+        { provide: PaymentsService, useValue: {} },
+        { provide: PromosService, useValue: {} },
+        { provide: RideReceiptService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(RidesService);
+  });
+
+  it('lets an approved driver accept a ride offered to them', async () => {
+    await service.acceptRide('ride-1', 'driver-user');
+
+    expect(rideState.transition).toHaveBeenCalledTimes(1);
+    expect(driverStatus.setStatusByUserId).toHaveBeenCalledWith(
+      'driver-user',
+      'ON_TRIP',
+    );
+  });
+
+  it.each([
+    ['PENDING', null],
+    ['REJECTED', null],
+    ['SUSPENDED', 'DOCUMENT_EXPIRED'],
+  ])('refuses an accept from a %s driver', async (status, reason) => {
+    driver.approvalStatus = status;
+    driver.suspensionReason = reason;
+
+    await expect(
+      service.acceptRide('ride-1', 'driver-user'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(rideState.transition).not.toHaveBeenCalled();
+    expect(driverStatus.setStatusByUserId).not.toHaveBeenCalled();
+  });
+
+  it('refuses an accept for a ride the driver was not offered', async () => {
+    ride.notifiedDriverIds = ['someone-else'];
+
+    await expect(service.acceptRide('ride-1', 'driver-user')).rejects.toThrow(
+      'This ride was not offered to you.',
+    );
+    expect(rideState.transition).not.toHaveBeenCalled();
+  });
+
+  it.each(['PENDING', 'SUSPENDED'])(
+    'refuses a trip step from a %s driver',
+    async (status) => {
+      driver.approvalStatus = status;
+
+      await expect(
+        service.advanceTrip('ride-1', 'driver-user', 'arrived'),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(rideState.transition).not.toHaveBeenCalled();
+    },
+  );
+
+  it('lets a driver suspended mid-trip finish it', async () => {
+    driver.approvalStatus = 'SUSPENDED';
+    ride.status = 'IN_PROGRESS';
+
+    await service.advanceTrip('ride-1', 'driver-user', 'complete');
+
+    expect(rideState.transition.mock.calls[0]).toMatchObject([
+      { rideId: 'ride-1', to: 'COMPLETED' },
+    ]);
+  });
+});
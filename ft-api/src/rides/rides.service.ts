@@ -1,17 +1,109 @@
 import {
   Injectable,
   BadRequestException,
-  ConflictException,
   ForbiddenException,
   Logger,
   NotFoundException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma.service.js';
-import { VehicleType } from '../generated/prisma/enums.js';
+import {
+  VehicleType,
+  type DriverApprovalStatus,
+  type PaymentMethod,
+  type RideStatus,
+} from '../generated/prisma/enums.js';
+import type { Prisma, Ride, RideStop } from '../generated/prisma/client.js';
+import { canTransition } from '../ride-state/ride-transitions.js';
 import { DriverStatusService } from '../dispatch/driver-status.service.js';
 import { RideDispatchService } from '../dispatch/ride-dispatch.service.js';
-import { AblyPublisherService } from '../dispatch/ably-publisher.service.js';
+import { RealtimeGateway } from '../realtime/realtime-gateway.js';
 import { PenaltyService } from '../dispatch/penalty.service.js';
+import { RideStateService } from '../ride-state/ride-state.service.js';
+import { TripFareService, rideFareColumns } from './trip-fare.service.js';
+import {
+  PaymentsService,
+  type RidePaymentSummary,
+} from '../payments/payments.service.js';
+import { PromosService } from '../promos/promos.service.js';
+import type { FareResult } from '../pricing/ride-pricing.service.js';
+import { RideReceiptService } from './ride-receipt.service.js';
+
+/**
+ * A driver-driven trip step. Which source statuses are legal is decided by
+ * the central table in `ride-transitions.ts`.
+ */
+interface TripTransition {
+  to: RideStatus;
+  /** Ride timestamp column stamped when the transition succeeds. */
+  timestampField?: 'arrivedAt' | 'startedAt' | 'completedAt';
+  /** Ably event published to `rider:<passengerId>`. */
+  event: string;
+}
+
+const TRIP_TRANSITIONS = {
+  arriving: {
+    to: 'DRIVER_ARRIVING',
+    event: 'driver_arriving',
+  },
+  arrived: {
+    to: 'ARRIVED',
+    timestampField: 'arrivedAt',
+    event: 'driver_arrived',
+  },
+  start: {
+    to: 'IN_PROGRESS',
+    timestampField: 'startedAt',
+    event: 'ride_started',
+  },
+  complete: {
+    to: 'COMPLETED',
+    timestampField: 'completedAt',
+    event: 'ride_completed',
+  },
+} satisfies Record<string, TripTransition>;
+
+export type TripStep = keyof typeof TRIP_TRANSITIONS;
+
+/** API / Ably shape of an intermediate stop. */
+function toRideStopDto(stop: RideStop) {
+  return {
+    id: stop.id,
+    sequence: stop.sequence,
+    kind: stop.kind,
+    passengerId: stop.passengerId,
+    address: stop.address,
+    mainText: stop.mainText,
+    lat: Number(stop.lat),
+    lng: Number(stop.lng),
+    reachedAt: stop.reachedAt,
+  };
+}
+
+/** Dispatch payload for a ride row loaded with its stops. */
+function toDispatchInput(
+  ride: Ride & { stops: RideStop[] },
+): Parameters<RideDispatchService['dispatchRide']>[0] {
+  return {
+    id: ride.id,
+    passengerId: ride.passengerId,
+    pickupAddress: ride.pickupAddress,
+    pickupLat: Number(ride.pickupLat),
+    pickupLng: Number(ride.pickupLng),
+    dropoffAddress: ride.dropoffAddress,
+    dropoffLat: Number(ride.dropoffLat),
+    dropoffLng: Number(ride.dropoffLng),
+    totalFare: Number(ride.totalFare),
+    currency: ride.currency,
+    vehicleType: ride.vehicleType,
+    passengerNote: ride.passengerNote,
+    pickupPhotoUrl: ride.pickupPhotoUrl,
+    vehicleTypePreference: ride.vehicleTypePreference,
+    fuelPreference: ride.fuelPreference,
+    petFriendly: ride.petFriendly,
+    extraPassengers: ride.extraPassengers,
+    stops: ride.stops.map(toRideStopDto),
+  };
+}
 
 interface CreateRideInput {
   pickupAddress: string;
@@ -32,6 +124,14 @@ interface CreateRideInput {
   fuelPreference?: string;
   petFriendly?: boolean;
   extraPassengers?: boolean;
+  /** How the rider pays; defaults to cash. */
+  paymentMethod?: PaymentMethod;
+  /** Promo to redeem; falls back to the one applied on the quote. */
+  promoCode?: string;
+  /** SHARED booking — may be seated on a ride already under way. */
+  shared?: boolean;
+  /** The app's language; the rider's receipts are emailed in it. */
+  locale?: string;
 }
 
 @Injectable()
@@ -42,8 +142,13 @@ export class RidesService {
     private readonly prisma: PrismaService,
     private readonly driverStatus: DriverStatusService,
     private readonly dispatch: RideDispatchService,
-    private readonly publisher: AblyPublisherService,
+    private readonly publisher: RealtimeGateway,
     private readonly penalty: PenaltyService,
+    private readonly rideState: RideStateService,
+    private readonly tripFare: TripFareService,
+    private readonly payments: PaymentsService,
+    private readonly promos: PromosService,
+    private readonly receipts: RideReceiptService,
   ) {}
 
   /**
@@ -67,6 +172,7 @@ export class RidesService {
       fuelPreference,
       petFriendly,
       extraPassengers,
+      paymentMethod,
     } = input;
 
     // ── Security: a valid route quote is REQUIRED ──
@@ -80,6 +186,10 @@ export class RidesService {
 
     const quote = await this.prisma.routeQuote.findUnique({
       where: { id: routeQuoteId },
+      include: {
+        stops: { orderBy: { sequence: 'asc' } },
+        fares: true,
+      },
     });
 
     if (!quote) {
@@ -102,19 +212,88 @@ export class RidesService {
       );
     }
 
+    // ── Scheduled booking: the fare was locked for the pickup time ──
+    const scheduledFor = quote.scheduledFor;
+    if (scheduledFor && scheduledFor.getTime() <= Date.now()) {
+      throw new BadRequestException(
+        'SCHEDULE_TOO_SOON: This pickup time has passed. Please choose a new time.',
+      );
+    }
+    const initialStatus: RideStatus = scheduledFor ? 'SCHEDULED' : 'PENDING';
+
+    // ── Shared booking: Standard, cash, single destination, split fare ──
+    const shared = input.shared === true;
+    if (shared) {
+      if (
+        vehicleType !== VehicleType.STANDARD ||
+        quote.sharedFareMmkt === null
+      ) {
+        throw new BadRequestException(
+          'SHARED_UNAVAILABLE: Shared rides are only available for Standard taxis.',
+        );
+      }
+      if (quote.stops.length > 0 || scheduledFor) {
+        throw new BadRequestException(
+          'SHARED_UNAVAILABLE: Shared rides cannot have extra stops or be scheduled.',
+        );
+      }
+      if ((paymentMethod ?? 'CASH') !== 'CASH') {
+        throw new BadRequestException(
+          'SHARED_UNAVAILABLE: Shared rides are paid in cash.',
+        );
+      }
+      if (input.promoCode?.trim()) {
+        throw new BadRequestException(
+          'PROMO_INVALID: Promo codes cannot be used on shared rides.',
+        );
+      }
+    }
+
     const distanceMeters = quote.distanceMeters;
     const durationSeconds = quote.durationSeconds;
     const polyline = quote.encodedPolyline;
     const currency = quote.currency;
 
     // Select fare based on vehicle type — price comes entirely from the DB
-    const isPlus = vehicleType === VehicleType.PLUS;
-    const totalFare = Number(
-      isPlus ? quote.taxiPlusFareMmkt : quote.standardFareMmkt,
-    );
-    const baseFare = totalFare;
-    const distanceFare = 0;
-    const timeFare = 0;
+    const tier = quote.fares.find((f) => f.vehicleType === vehicleType);
+    if (!tier) {
+      throw new BadRequestException(
+        `VEHICLE_TYPE_UNAVAILABLE: ${vehicleType} is not offered on this quote.`,
+      );
+    }
+    const fare = Number(shared ? quote.sharedFareMmkt : tier.fareMmkt);
+
+    // ── Promo: re-checked here, counted atomically with the ride below ──
+    const promoCode = input.promoCode?.trim();
+    const promo = shared
+      ? null
+      : promoCode
+        ? await this.promos.findUsable(passengerId, { code: promoCode })
+        : quote.promoCodeId
+          ? await this.promos.findUsable(passengerId, { id: quote.promoCodeId })
+          : null;
+    const discount = promo ? this.promos.computeDiscount(promo, fare) : 0;
+    if (promo && discount === 0) {
+      throw new BadRequestException(
+        'PROMO_MINIMUM_FARE: This promo code does not apply to this fare.',
+      );
+    }
+
+    const totalFare = Math.round((fare - discount) * 100) / 100;
+
+    // Components of the selected fare, as priced on the quote (quotes made
+    // before breakdowns were stored only have the total)
+    const breakdown = shared ? quote.sharedFareBreakdown : tier.breakdown;
+    const fareColumns = breakdown
+      ? rideFareColumns(breakdown as unknown as FareResult)
+      : { baseFare: fare };
+
+    if (input.locale) {
+      await this.prisma.user.updateMany({
+        where: { id: passengerId, locale: { not: input.locale } },
+        data: { locale: input.locale },
+      });
+    }
 
     // Link the quote to this ride
     await this.prisma.routeQuote.update({
@@ -122,75 +301,198 @@ export class RidesService {
       data: { rideId: 'pending' }, // Will update with actual rideId below
     });
 
-    const ride = await this.prisma.ride.create({
-      data: {
+    // ── Shared: take a seat on a ride already heading this way ──
+    if (shared) {
+      const seat = await this.dispatch.attachSharedPassenger({
         passengerId,
-        vehicleType,
-        pickupAddress,
-        pickupMainText: pickupMainText ?? null,
-        pickupLat,
-        pickupLng,
-        dropoffAddress,
-        dropoffMainText: dropoffMainText ?? null,
-        dropoffLat,
-        dropoffLng,
-        distanceMeters,
-        durationSeconds,
-        polyline,
-        baseFare,
-        distanceFare,
-        timeFare,
-        totalFare,
+        pickup: {
+          lat: pickupLat,
+          lng: pickupLng,
+          address: pickupAddress,
+          mainText: pickupMainText ?? null,
+        },
+        dropoff: {
+          lat: dropoffLat,
+          lng: dropoffLng,
+          address: dropoffAddress,
+          mainText: dropoffMainText ?? null,
+        },
+        fare,
         currency,
-        passengerNote: passengerNote ?? null,
-        pickupPhotoUrl: pickupPhotoUrl ?? null,
-        fuelPreference: fuelPreference ?? null,
-        petFriendly: petFriendly ?? false,
-        extraPassengers: extraPassengers ?? false,
-      },
-    });
-
-    // Update the quote with the actual ride ID
-    await this.prisma.routeQuote.update({
-      where: { id: routeQuoteId },
-      data: { rideId: ride.id },
-    });
-
-    this.logger.log(`Ride created: ${ride.id} for passenger ${passengerId}`);
+      });
+      if (seat) {
+        await this.prisma.routeQuote.update({
+          where: { id: routeQuoteId },
+          data: { rideId: seat.rideId },
+        });
+        const status = await this.getRideStatus(seat.rideId, passengerId);
+        return {
+          id: seat.rideId,
+          status: seat.status,
+          pickupAddress,
+          dropoffAddress,
+          stops: [],
+          totalFare: fare,
+          currency,
+          paymentMethod: 'CASH' as const,
+          vehicleType,
+          scheduledFor: null,
+          shared: {
+            joined: true,
+            detourSeconds: seat.detourSeconds,
+            driverName: status.driverName,
+            driverLocation: status.driverLocation,
+          },
+          createdAt: new Date(),
+        };
+      }
+    }
 
-    // Fire-and-forget dispatch to nearby drivers
-    void this.dispatch.dispatchRide({
-      id: ride.id,
+    const rideData = {
       passengerId,
+      vehicleType,
       pickupAddress,
+      pickupMainText: pickupMainText ?? null,
       pickupLat,
       pickupLng,
       dropoffAddress,
+      dropoffMainText: dropoffMainText ?? null,
       dropoffLat,
       dropoffLng,
-      totalFare: Number(ride.totalFare),
-      currency: ride.currency,
-      vehicleType: ride.vehicleType,
+      distanceMeters,
+      durationSeconds,
+      polyline,
+      ...fareColumns,
+      discount,
+      totalFare,
+      quotedFare: fare, // before discount, like the GPS re-price it is compared to
+      currency,
       passengerNote: passengerNote ?? null,
       pickupPhotoUrl: pickupPhotoUrl ?? null,
-      vehicleTypePreference: input.vehicleTypePreference ?? null,
       fuelPreference: fuelPreference ?? null,
       petFriendly: petFriendly ?? false,
       extraPassengers: extraPassengers ?? false,
+      paymentMethod: paymentMethod ?? 'CASH',
+      vehicleTypePreference: input.vehicleTypePreference ?? null,
+      status: initialStatus,
+      scheduledFor,
+      isShared: shared,
+      // The lead rider holds the first seat of a shared ride
+      ...(shared && {
+        passengers: {
+          create: { passengerId, isLead: true, fare, currency },
+        },
+      }),
+      events: {
+        create: {
+          toStatus: initialStatus,
+          actorType: 'PASSENGER',
+          actorId: passengerId,
+        },
+      },
+      // Copy the intermediate stops from the quote onto the ride
+      stops: {
+        create: quote.stops.map((stop) => ({
+          sequence: stop.sequence,
+          address: stop.address,
+          mainText: stop.mainText,
+          lat: stop.lat,
+          lng: stop.lng,
+        })),
+      },
+    } satisfies Prisma.RideUncheckedCreateInput;
+
+    const ride = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.ride.create({
+        data: rideData,
+        include: { stops: { orderBy: { sequence: 'asc' } } },
+      });
+      if (promo) {
+        await this.promos.redeem(tx, {
+          promoCodeId: promo.id,
+          userId: passengerId,
+          rideId: created.id,
+          discount,
+        });
+      }
+      return created;
     });
 
+    // Update the quote with the actual ride ID
+    await this.prisma.routeQuote.update({
+      where: { id: routeQuoteId },
+      data: { rideId: ride.id },
+    });
+
+    this.logger.log(
+      scheduledFor
+        ? `Ride scheduled: ${ride.id} for passenger ${passengerId} at ${scheduledFor.toISOString()}`
+        : `Ride created: ${ride.id} for passenger ${passengerId}`,
+    );
+
+    // Fire-and-forget dispatch to nearby drivers; scheduled rides are
+    // released later by ScheduledRidesService
+    if (!scheduledFor) {
+      void this.dispatch.dispatchRide(toDispatchInput(ride));
+    }
+
     return {
       id: ride.id,
       status: ride.status,
       pickupAddress: ride.pickupAddress,
       dropoffAddress: ride.dropoffAddress,
+      stops: ride.stops.map(toRideStopDto),
       totalFare: Number(ride.totalFare),
       currency: ride.currency,
+      paymentMethod: ride.paymentMethod,
       vehicleType: ride.vehicleType,
+      scheduledFor: ride.scheduledFor,
+      shared: shared ? { joined: false } : null,
       createdAt: ride.createdAt,
     };
   }
 
+  /**
+   * Start dispatch for a ride that is already PENDING — used when a
+   * scheduled ride reaches its dispatch window.
+   */
+  async startDispatch(rideId: string): Promise<void> {
+    const ride = await this.prisma.ride.findUnique({
+      where: { id: rideId },
+      include: { stops: { orderBy: { sequence: 'asc' } } },
+    });
+    if (!ride || ride.status !== 'PENDING') return;
+    await this.dispatch.dispatchRide(toDispatchInput(ride));
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // Scheduled rides — the rider's upcoming advance bookings
+  // ──────────────────────────────────────────────────────────
+
+  async getScheduledRides(passengerId: string) {
+    const rides = await this.prisma.ride.findMany({
+      where: { passengerId, status: 'SCHEDULED' },
+      orderBy: { scheduledFor: 'asc' },
+      include: { stops: { orderBy: { sequence: 'asc' } } },
+    });
+
+    return rides.map((ride) => ({
+      id: ride.id,
+      status: ride.status,
+      scheduledFor: ride.scheduledFor,
+      pickupAddress: ride.pickupAddress,
+      pickupMainText: ride.pickupMainText,
+      dropoffAddress: ride.dropoffAddress,
+      dropoffMainText: ride.dropoffMainText,
+      stops: ride.stops.map(toRideStopDto),
+      totalFare: Number(ride.totalFare),
+      currency: ride.currency,
+      paymentMethod: ride.paymentMethod,
+      vehicleType: ride.vehicleType,
+      createdAt: ride.createdAt,
+    }));
+  }
+
   // ──────────────────────────────────────────────────────────
   // Get ride status — lightweight polling endpoint for the rider
   // ──────────────────────────────────────────────────────────
@@ -211,6 +513,10 @@ export class RidesService {
             },
           },
         },
+        passengers: {
+          where: { passengerId: userId, isLead: false },
+          select: { status: true },
+        },
       },
     });
 
@@ -218,14 +524,23 @@ export class RidesService {
       throw new NotFoundException(`Ride not found: ${rideId}`);
     }
 
-    // Only the passenger can poll their own ride status
-    if (ride.passengerId !== userId) {
+    // Only the passenger (or a rider seated on the shared ride) can poll
+    const seat = ride.passengers[0];
+    if (ride.passengerId !== userId && !seat) {
       throw new NotFoundException(`Ride not found: ${rideId}`);
     }
 
+    // A joined rider's trip ends at their own dropoff
+    const status: RideStatus =
+      seat?.status === 'DROPPED_OFF'
+        ? 'COMPLETED'
+        : seat?.status === 'CANCELLED'
+          ? 'CANCELLED'
+          : ride.status;
+
     return {
       id: ride.id,
-      status: ride.status,
+      status,
       driverName: ride.driver?.user?.name ?? null,
       driverLocation: ride.driver?.currentLocation
         ? {
@@ -240,39 +555,36 @@ export class RidesService {
   }
 
   // ──────────────────────────────────────────────────────────
-  // Accept ride — race-condition safe via atomic updateMany
+  // Accept ride — race-condition safe via the guarded state transition
   // ──────────────────────────────────────────────────────────
 
   async acceptRide(rideId: string, driverUserId: string) {
-    // 1. Resolve the driver record
-    const driver = await this.prisma.driver.findUnique({
-      where: { userId: driverUserId },
-      select: { id: true, userId: true },
+    // 1. Resolve the driver record — only approved drivers take new rides
+    const driver = await this.getDriver(driverUserId);
+    this.assertApproved(driver);
+
+    // Only a driver the dispatch offered the ride to can take it
+    const offered = await this.prisma.ride.findUnique({
+      where: { id: rideId },
+      select: { notifiedDriverIds: true },
     });
-    if (!driver) {
-      throw new NotFoundException('Driver profile not found.');
+    if (!offered) {
+      throw new NotFoundException(`Ride not found: ${rideId}`);
+    }
+    if (!offered.notifiedDriverIds.includes(driverUserId)) {
+      throw new ForbiddenException('This ride was not offered to you.');
     }
 
     // 2. Atomic accept: only succeeds if ride is still PENDING with no driver
-    const result = await this.prisma.ride.updateMany({
-      where: {
-        id: rideId,
-        status: 'PENDING',
-        driverId: null,
-      },
-      data: {
-        status: 'ACCEPTED',
-        driverId: driver.id,
-        acceptedAt: new Date(),
-      },
+    await this.rideState.transition({
+      rideId,
+      to: 'ACCEPTED',
+      actor: { type: 'DRIVER', userId: driverUserId },
+      where: { driverId: null },
+      data: { driverId: driver.id, acceptedAt: new Date() },
+      conflictMessage: 'This ride has already been accepted by another driver.',
     });
 
-    if (result.count === 0) {
-      throw new ConflictException(
-        'This ride has already been accepted by another driver.',
-      );
-    }
-
     // 3. Set driver status to ON_TRIP
     await this.driverStatus.setStatusByUserId(driverUserId, 'ON_TRIP');
 
@@ -309,8 +621,8 @@ export class RidesService {
         : null,
     });
 
-    // 6. Cancel the dispatch (clear TTL timer + notify other drivers)
-    this.dispatch.cancelDispatch(rideId);
+    // 6. Cancel the dispatch (drop the job + notify other drivers)
+    await this.dispatch.cancelDispatch(rideId, driverUserId);
 
     this.logger.log(
       `Ride ${rideId} accepted by driver ${driver.id} (user ${driverUserId})`,
@@ -328,12 +640,246 @@ export class RidesService {
     };
   }
 
+  // ──────────────────────────────────────────────────────────
+  // Trip lifecycle — arriving → arrived → start → complete
+  // ──────────────────────────────────────────────────────────
+
+  /**
+   * Advance an assigned ride to its next trip step. Only the assigned driver
+   * can move the ride; the state machine makes duplicate or out-of-order
+   * taps fail instead of double-applying.
+   */
+  async advanceTrip(rideId: string, driverUserId: string, step: TripStep) {
+    const transition: TripTransition = TRIP_TRANSITIONS[step];
+
+    const driver = await this.getDriver(driverUserId);
+
+    const current = await this.prisma.ride.findUnique({
+      where: { id: rideId },
+      select: {
+        status: true,
+        driverId: true,
+        isShared: true,
+        stops: {
+          where: { kind: { not: 'WAYPOINT' }, reachedAt: null },
+          select: { id: true },
+        },
+      },
+    });
+    if (!current) {
+      throw new NotFoundException(`Ride not found: ${rideId}`);
+    }
+    if (current.driverId !== driver.id) {
+      throw new ForbiddenException('You are not the driver of this ride.');
+    }
+    // A driver suspended mid-trip still takes the rider to their dropoff
+    if (current.status !== 'IN_PROGRESS') {
+      this.assertApproved(driver);
+    }
+    // Every joined rider has to be picked up and dropped off first
+    if (transition.to === 'COMPLETED' && current.stops.length > 0) {
+      throw new BadRequestException(
+        'SHARED_STOPS_PENDING: Reach every shared pickup and dropoff before completing the trip.',
+      );
+    }
+
+    const now = new Date();
+    let payment: RidePaymentSummary | null = null;
+    await this.rideState.transition({
+      rideId,
+      to: transition.to,
+      actor: { type: 'DRIVER', userId: driverUserId },
+      where: { driverId: driver.id },
+      data: transition.timestampField
+        ? { [transition.timestampField]: now }
+        : undefined,
+      // Settlement commits with COMPLETED: a failure leaves the ride
+      // IN_PROGRESS so the driver can tap complete again
+      onTransition:
+        transition.to === 'COMPLETED'
+          ? async (tx) => {
+              // Re-price from the GPS trace before anyone sees the final fare
+              await this.tripFare.settle(tx, rideId);
+              // Commission split + driver earning on the final fare
+              payment = await this.payments.settleRide(tx, rideId);
+
+              // The state machine guarantees this runs once per ride
+              await tx.driver.update({
+                where: { id: driver.id },
+                data: { totalRides: { increment: 1 } },
+              });
+              await this.driverStatus.setStatusByUserId(
+                driverUserId,
+                'ONLINE',
+                tx,
+              );
+
+              if (current.isShared) {
+                await tx.ridePassenger.updateMany({
+                  where: { rideId, status: { in: ['BOOKED', 'ONBOARD'] } },
+                  data: { status: 'DROPPED_OFF', droppedOffAt: now },
+                });
+              }
+            }
+          : undefined,
+    });
+
+    const ride = await this.prisma.ride.findUniqueOrThrow({
+      where: { id: rideId },
+      include: { passengers: { where: { isLead: true } } },
+    });
+    // On a shared ride the lead rider pays only their own seat
+    const riderFare = ride.passengers[0]?.fare ?? ride.totalFare;
+
+    await this.publisher.publish(
+      `rider:${ride.passengerId}`,
+      transition.event,
+      {
+        rideId: ride.id,
+        status: ride.status,
+        at: now.toISOString(),
+        ...(ride.status === 'COMPLETED' && {
+          totalFare: Number(riderFare),
+          quotedFare: ride.isShared
+            ? Number(riderFare)
+            : Number(ride.quotedFare ?? ride.totalFare),
+          fareBasis: ride.fareBasis,
+          currency: ride.currency,
+          paymentMethod: ride.paymentMethod,
+        }),
+      },
+    );
+
+    if (ride.status === 'COMPLETED') {
+      void this.receipts.sendReceipt(ride.id, ride.passengerId);
+    }
+
+    this.logger.log(
+      `Ride ${rideId} → ${ride.status} by driver ${driver.id} (user ${driverUserId})`,
+    );
+
+    return {
+      id: ride.id,
+      status: ride.status,
+      arrivedAt: ride.arrivedAt,
+      startedAt: ride.startedAt,
+      completedAt: ride.completedAt,
+      totalFare: Number(ride.totalFare),
+      fareBasis: ride.fareBasis,
+      actualDistanceMeters: ride.actualDistanceMeters,
+      actualDurationSeconds: ride.actualDurationSeconds,
+      currency: ride.currency,
+      payment,
+    };
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // Stops — driver marks intermediate stops as reached
+  // ──────────────────────────────────────────────────────────
+
+  async markStopReached(rideId: string, stopId: string, driverUserId: string) {
+    const ride = await this.prisma.ride.findUnique({
+      where: { id: rideId },
+      select: {
+        status: true,
+        passengerId: true,
+        driver: { select: { userId: true } },
+      },
+    });
+    if (!ride) {
+      throw new NotFoundException(`Ride not found: ${rideId}`);
+    }
+    if (ride.driver?.userId !== driverUserId) {
+      throw new ForbiddenException('You are not the driver of this ride.');
+    }
+    if (ride.status !== 'IN_PROGRESS') {
+      throw new BadRequestException(
+        `Stops can only be reached during the trip (current status: ${ride.status})`,
+      );
+    }
+
+    // Guard on reachedAt so a double tap doesn't move the timestamp
+    const reachedAt = new Date();
+    const result = await this.prisma.rideStop.updateMany({
+      where: { id: stopId, rideId, reachedAt: null },
+      data: { reachedAt },
+    });
+
+    const stop = await this.prisma.rideStop.findFirst({
+      where: { id: stopId, rideId },
+    });
+    if (!stop) {
+      throw new NotFoundException(`Stop not found: ${stopId}`);
+    }
+
+    if (result.count > 0) {
+      if (stop.kind === 'WAYPOINT' || !stop.passengerId) {
+        await this.publisher.publish(
+          `rider:${ride.passengerId}`,
+          'stop_reached',
+          {
+            rideId,
+            stopId: stop.id,
+            sequence: stop.sequence,
+            reachedAt: reachedAt.toISOString(),
+          },
+        );
+      } else {
+        await this.reachSharedStop(
+          rideId,
+          stop.kind,
+          stop.passengerId,
+          reachedAt,
+        );
+      }
+      this.logger.log(`Ride ${rideId}: stop ${stop.sequence} reached`);
+    }
+
+    return toRideStopDto(stop);
+  }
+
+  /** A joined rider's own trip starts at their PICKUP and ends at their DROPOFF. */
+  private async reachSharedStop(
+    rideId: string,
+    kind: 'PICKUP' | 'DROPOFF',
+    passengerId: string,
+    at: Date,
+  ) {
+    const seat = await this.prisma.ridePassenger.update({
+      where: { rideId_passengerId: { rideId, passengerId } },
+      data:
+        kind === 'PICKUP'
+          ? { status: 'ONBOARD', pickedUpAt: at }
+          : { status: 'DROPPED_OFF', droppedOffAt: at },
+    });
+
+    if (kind === 'PICKUP') {
+      await this.publisher.publish(`rider:${passengerId}`, 'ride_started', {
+        rideId,
+        status: 'IN_PROGRESS',
+        at: at.toISOString(),
+      });
+      return;
+    }
+    await this.publisher.publish(`rider:${passengerId}`, 'ride_completed', {
+      rideId,
+      status: 'COMPLETED',
+      at: at.toISOString(),
+      totalFare: Number(seat.fare),
+      quotedFare: Number(seat.fare),
+      fareBasis: 'QUOTED',
+      currency: seat.currency,
+      paymentMethod: 'CASH',
+    });
+    void this.receipts.sendReceipt(rideId, passengerId);
+  }
+
   // ──────────────────────────────────────────────────────────
   // Acknowledge — driver is now actively viewing this request
   // ──────────────────────────────────────────────────────────
 
-  acknowledgeRide(rideId: string, driverUserId: string) {
-    const reset = this.dispatch.resetDriverTimer(rideId, driverUserId);
+  async acknowledgeRide(rideId: string, driverUserId: string) {
+    const reset = await this.dispatch.resetDriverTimer(rideId, driverUserId);
     return { rideId, timerReset: reset };
   }
 
@@ -345,7 +891,7 @@ export class RidesService {
     this.logger.log(`Driver user ${driverUserId} skipped ride ${rideId}`);
 
     // Mark driver as skipped in active dispatch so they won't be re-notified
-    this.dispatch.markDriverSkipped(rideId, driverUserId);
+    await this.dispatch.markDriverSkipped(rideId, driverUserId);
 
     // Record the rejection for penalty tracking (fire-and-forget)
     void this.penalty.recordRejection(driverUserId);
@@ -379,6 +925,7 @@ export class RidesService {
         status: true,
         passengerId: true,
         driverId: true,
+        isShared: true,
         driver: { select: { userId: true } },
       },
     });
@@ -387,8 +934,24 @@ export class RidesService {
       throw new NotFoundException(`Ride not found: ${rideId}`);
     }
 
-    // Only PENDING or ACCEPTED rides can be cancelled
-    if (ride.status !== 'PENDING' && ride.status !== 'ACCEPTED') {
+    // A joined rider gives up only their own seat; the ride carries on
+    if (
+      ride.isShared &&
+      ride.passengerId !== userId &&
+      ride.driver?.userId !== userId
+    ) {
+      const released = await this.dispatch.releaseSharedSeat(rideId, userId);
+      if (!released) {
+        throw new BadRequestException('Your seat can no longer be cancelled.');
+      }
+      this.logger.log(
+        `Ride ${rideId}: shared seat cancelled by user ${userId}`,
+      );
+      return { id: rideId, status: 'CANCELLED' };
+    }
+
+    // Rides can be cancelled until the passenger is on board
+    if (!canTransition(ride.status, 'CANCELLED')) {
       throw new BadRequestException(
         `Ride cannot be cancelled (current status: ${ride.status})`,
       );
@@ -403,22 +966,47 @@ export class RidesService {
 
     const cancellationReason = isDriver ? 'DRIVER_CANCELLED' : 'USER_CANCELLED';
 
+    const finalReason =
+      reason === 'NO_DRIVERS_AVAILABLE'
+        ? 'NO_DRIVERS_AVAILABLE'
+        : cancellationReason;
+
     // Cancel the ride
-    await this.prisma.ride.update({
-      where: { id: rideId },
+    await this.rideState.transition({
+      rideId,
+      to: 'CANCELLED',
+      actor: { type: isDriver ? 'DRIVER' : 'PASSENGER', userId },
       data: {
-        status: 'CANCELLED',
         cancelledBy: userId,
-        cancellationReason:
-          reason === 'NO_DRIVERS_AVAILABLE'
-            ? 'NO_DRIVERS_AVAILABLE'
-            : cancellationReason,
+        cancellationReason: finalReason,
         cancelledAt: new Date(),
       },
+      metadata: { reason: finalReason },
+      // The promo redeemed at booking goes back to the rider
+      onTransition: (tx) => this.promos.release(tx, rideId),
     });
 
     // Cancel any active dispatch
-    this.dispatch.cancelDispatch(rideId);
+    await this.dispatch.cancelDispatch(rideId);
+
+    // Riders who joined a shared ride lose their seat with it
+    if (ride.isShared) {
+      const joined = await this.prisma.ridePassenger.findMany({
+        where: { rideId, isLead: false, status: 'BOOKED' },
+        select: { passengerId: true },
+      });
+      await this.prisma.ridePassenger.updateMany({
+        where: { rideId, status: 'BOOKED' },
+        data: { status: 'CANCELLED', cancelledAt: new Date() },
+      });
+      for (const { passengerId } of joined) {
+        await this.publisher.publish(
+          `rider:${passengerId}`,
+          'ride_cancelled_by_driver',
+          { rideId },
+        );
+      }
+    }
 
     if (isDriver) {
       // Set driver back to ONLINE
@@ -452,4 +1040,39 @@ export class RidesService {
 
     return { id: rideId, status: 'CANCELLED' };
   }
+
+  // ──────────────────────────────────────────────────────────
+  // Helpers
+  // ──────────────────────────────────────────────────────────
+
+  private async getDriver(userId: string) {
+    const driver = await this.prisma.driver.findUnique({
+      where: { userId },
+      select: { id: true, approvalStatus: true, suspensionReason: true },
+    });
+    if (!driver) {
+      throw new NotFoundException('Driver profile not found.');
+    }
+    return driver;
+  }
+
+  /**
+   * Pending, rejected and suspended drivers can still sign in to follow
+   * their application, so ride actions check approval themselves.
+   */
+  private assertApproved(driver: {
+    approvalStatus: DriverApprovalStatus;
+    suspensionReason: string | null;
+  }): void {
+    if (driver.suspensionReason === 'DOCUMENT_EXPIRED') {
+      throw new ForbiddenException(
+        'DOCUMENT_EXPIRED: Your account is suspended until your expired documents are renewed.',
+      );
+    }
+    if (driver.approvalStatus !== 'APPROVED') {
+      throw new ForbiddenException(
+        'Your driver account must be approved before taking rides.',
+      );
+    }
+  }
 }
@@ -0,0 +1,81 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma.service.js';
+import { RideStateService } from '../ride-state/ride-state.service.js';
+import { RidesService } from './rides.service.js';
+import { SCHEDULED_DISPATCH_LEAD_MS } from './ride-schedule.js';
+
+/** Scheduled rides released per cron tick. */
+const BATCH_SIZE = 50;
+
+/**
+ * Starts dispatch for advance bookings.
+ *
+ * Every minute, SCHEDULED rides whose pickup is within
+ * {@link SCHEDULED_DISPATCH_LEAD_MS} are moved to PENDING and handed to
+ * the normal dispatch flow. The guarded SCHEDULED → PENDING transition
+ * makes this safe to run on every API instance: only one wins each ride.
+ */
+@Injectable()
+export class ScheduledRidesService {
+  private readonly logger = new Logger(ScheduledRidesService.name);
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly rideState: RideStateService,
+    private readonly rides: RidesService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async releaseDueRides(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const due = await this.prisma.ride.findMany({
+        where: {
+          status: 'SCHEDULED',
+          scheduledFor: {
+            lte: new Date(Date.now() + SCHEDULED_DISPATCH_LEAD_MS),
+          },
+        },
+        select: { id: true, scheduledFor: true },
+        orderBy: { scheduledFor: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      for (const ride of due) {
+        try {
+          await this.rideState.transition({
+            rideId: ride.id,
+            to: 'PENDING',
+            from: ['SCHEDULED'],
+            actor: { type: 'SYSTEM', userId: null },
+            metadata: {
+              reason: 'SCHEDULED_DISPATCH',
+              scheduledFor: ride.scheduledFor?.toISOString() ?? null,
+            },
+          });
+        } catch (err) {
+          // Another instance released it, or the rider just cancelled
+          if (err instanceof ConflictException) continue;
+          throw err;
+        }
+
+        this.logger.log(
+          `Ride ${ride.id}: scheduled for ${ride.scheduledFor?.toISOString()} — starting dispatch`,
+        );
+        try {
+          await this.rides.startDispatch(ride.id);
+        } catch (err) {
+          // The rest of the batch still goes out
+          this.logger.error(`Ride ${ride.id}: failed to start dispatch`, err);
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to release scheduled rides', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
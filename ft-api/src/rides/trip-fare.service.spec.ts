@@ -0,0 +1,204 @@
+import { jest } from '@jest/globals';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  RidePricingService,
+  type FareResult,
+} from '../pricing/ride-pricing.service.js';
+import { PricingCacheService } from '../pricing/pricing-cache.service.js';
+import { TripFareService, traceDistanceMeters } from './trip-fare.service.js';
+import type { Prisma } from '../generated/prisma/client.js';
+
+/** A fare of 1,000 per km, all of it distance fare. */
+function fareFor({ distanceKm }: { distanceKm: number }): FareResult {
+  const totalFare = Math.round(distanceKm * 1000);
+  return {
+    totalFare,
+    baseFare: 0,
+    distanceFare: totalFare,
+    timeFare: 0,
+    bookingFee: 0,
+    townshipSurcharge: 0,
+    surgeMultiplier: 1,
+    surgeZone: null,
+    currency: 'MMK',
+    isSpecialDay: false,
+    specialDayName: null,
+    breakdown: {
+      distanceKm,
+      durationMinutes: 0,
+      effectivePerKmRate: 1000,
+      timeRate: 0,
+      bandSegments: [],
+    },
+  };
+}
+
+/** Points heading north, `stepDeg` of latitude (~111 m per 0.001) apart. */
+function northboundTrace(count: number, stepDeg = 0.001, accuracy = 5) {
+  return Array.from({ length: count }, (_, i) => ({
+    lat: 16.8 + i * stepDeg,
+    lng: 96.15,
+    accuracy,
+  }));
+}
+
+describe('traceDistanceMeters', () => {
+  it('sums a clean trace', () => {
+    const meters = traceDistanceMeters(northboundTrace(11));
+    expect(meters).toBeGreaterThan(1100);
+    expect(meters).toBeLessThan(1125);
+  });
+
+  it('ignores jitter while the car is stopped', () => {
+    // Parked for a while: fixes wander a few metres around one spot
+    const parked = Array.from({ length: 60 }, (_, i) => ({
+      lat: 16.8 + (i % 2 ? 0.00003 : -0.00003),
+      lng: 96.15 + (i % 3 ? 0.00002 : -0.00002),
+      accuracy: 8,
+    }));
+    expect(traceDistanceMeters(parked)).toBe(0);
+  });
+
+  it('drops fixes with poor accuracy', () => {
+    const trace = [
+      { lat: 16.8, lng: 96.15, accuracy: 5 },
+      // A 200 m accuracy fix far off the road
+      { lat: 16.81, lng: 96.16, accuracy: 200 },
+      { lat: 16.801, lng: 96.15, accuracy: 5 },
+    ];
+    const meters = traceDistanceMeters(trace);
+    expect(meters).toBeGreaterThan(105);
+    expect(meters).toBeLessThan(115);
+  });
+
+  it('is null without enough usable points', () => {
+    expect(traceDistanceMeters([])).toBeNull();
+    expect(
+      traceDistanceMeters([
+        { lat: 16.8, lng: 96.15, accuracy: 5 },
+        { lat: 16.801, lng: 96.15, accuracy: 500 },
+      ]),
+    ).toBeNull();
+  });
+});
+
+describe('TripFareService', () => {
+  let service: TripFareService;
+  let ride: Record<string, unknown>;
+  let points: { latitude: number; longitude: number; accuracy: number }[];
+
+  const tx = {
+    ride: {
+      findUniqueOrThrow: jest.fn(() => Promise.resolve(ride)),
+      update: jest.fn(() => Promise.resolve({})),
+    },
+    rideLocationPoint: {
+      findMany: jest.fn(() => Promise.resolve(points)),
+    },
+  };
+  const client = tx as unknown as Prisma.TransactionClient;
+  const pricing = { calculateFare: jest.fn(fareFor) };
+  const cache = {
+    getConfig: jest.fn(() => ({ fareTolerancePercent: 15 })),
+  };
+
+  /** A trip whose trace is `km` long. */
+  function driven(km: number) {
+    points = northboundTrace(Math.round(km * 10) + 1, 0.0009).map((p) => ({
+      latitude: p.lat,
+      longitude: p.lng,
+      accuracy: p.accuracy,
+    }));
+  }
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    // Quoted at 5 km → 5,000
+    ride = {
+      vehicleType: 'STANDARD',
+      isShared: false,
+      totalFare: 5000,
+      quotedFare: null,
+      discount: 0,
+      distanceMeters: 5000,
+      durationSeconds: 900,
+      pickupLat: 16.8,
+      pickupLng: 96.15,
+      requestedAt: new Date('2026-10-01T08:00:00Z'),
+      startedAt: new Date('2026-10-01T08:05:00Z'),
+      completedAt: new Date('2026-10-01T08:20:00Z'),
+      fareBreakdown: fareFor({ distanceKm: 5 }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TripFareService,
+        { provide: RidePricingService, useValue: pricing },
+        { provide: PricingCacheService, useValue: cache },
+      ],
+    }).compile();
+
+    service = module.get<TripFareService>(TripFareService);
+  });
+
+  it('keeps the quoted fare within the tolerance', async () => {
+    driven(5.5); // +10%
+
+    const result = await service.settle(client, 'ride-1');
+
+    expect(result.fareBasis).toBe('QUOTED');
+    expect(result.totalFare).toBe(5000);
+    expect(result.actualFare).toBeGreaterThan(5000);
+  });
+
+  it('charges the actual fare beyond the tolerance', async () => {
+    driven(7); // +40%
+
+    const result = await service.settle(client, 'ride-1');
+
+    expect(result.fareBasis).toBe('ACTUAL');
+    expect(result.totalFare).toBe(result.actualFare);
+    expect(result.totalFare).toBeGreaterThan(6500);
+  });
+
+  it('charges the actual fare when the trip came in well under', async () => {
+    driven(3); // -40%
+
+    const result = await service.settle(client, 'ride-1');
+
+    expect(result.fareBasis).toBe('ACTUAL');
+    expect(result.totalFare).toBeLessThan(3500);
+  });
+
+  it('takes the promo discount off whichever fare applies', async () => {
+    ride.discount = 1000;
+    driven(7);
+
+    const result = await service.settle(client, 'ride-1');
+
+    expect(result.totalFare).toBe((result.actualFare ?? 0) - 1000);
+  });
+
+  it('keeps a shared seat on its quoted fare', async () => {
+    ride.isShared = true;
+    driven(7);
+
+    const result = await service.settle(client, 'ride-1');
+
+    expect(result.fareBasis).toBe('QUOTED');
+    expect(result.totalFare).toBe(5000);
+  });
+
+  it('keeps the quoted fare without a trace', async () => {
+    points = [];
+
+    const result = await service.settle(client, 'ride-1');
+
+    expect(result).toMatchObject({
+      fareBasis: 'QUOTED',
+      totalFare: 5000,
+      actualFare: null,
+      actualDistanceMeters: null,
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  RidePricingService,
+  type FareResult,
+} from '../pricing/ride-pricing.service.js';
+import { PricingCacheService } from '../pricing/pricing-cache.service.js';
+import type { FareBasis } from '../generated/prisma/enums.js';
+import type { Prisma } from '../generated/prisma/client.js';
+import { haversineMeters } from '../lib/geo.js';
+
+/** Fewer breadcrumbs than this means the trace can't be trusted. */
+const MIN_TRACE_POINTS = 2;
+
+/** Fixes reported less accurate than this (metres) are left out. */
+const MAX_TRACE_ACCURACY_METERS = 50;
+
+/**
+ * Moves shorter than this (or than the fix's own accuracy) are GPS jitter —
+ * a car waiting at a light must not rack up distance.
+ */
+const MIN_TRACE_STEP_METERS = 10;
+
+export interface TracePoint {
+  lat: number;
+  lng: number;
+  /** Reported accuracy radius in metres, when the device sent one. */
+  accuracy: number | null;
+}
+
+/**
+ * Distance driven along a breadcrumb trace. Inaccurate fixes are dropped,
+ * and a point only counts once it is clearly away from the last counted
+ * one, so jitter while stopped doesn't inflate the fare. Null when too few
+ * usable points remain.
+ */
+export function traceDistanceMeters(
+  points: readonly TracePoint[],
+): number | null {
+  const usable = points.filter(
+    (p) => p.accuracy === null || p.accuracy <= MAX_TRACE_ACCURACY_METERS,
+  );
+  if (usable.length < MIN_TRACE_POINTS) return null;
+
+  let anchor = usable[0];
+  let total = 0;
+  for (const point of usable.slice(1)) {
+    const step = haversineMeters(anchor.lat, anchor.lng, point.lat, point.lng);
+    if (step >= Math.max(MIN_TRACE_STEP_METERS, point.accuracy ?? 0)) {
+      total += step;
+      anchor = point;
+    }
+  }
+  return total;
+}
+
+export interface TripFareSettlement {
+  fareBasis: FareBasis;
+  quotedFare: number;
+  actualFare: number | null;
+  totalFare: number;
+  actualDistanceMeters: number | null;
+  actualDurationSeconds: number | null;
+}
+
+/**
+ * Ride fare columns for a priced fare: the components, what surge added on
+ * top of them, and the full result for audits.
+ */
+export function rideFareColumns(fare: FareResult) {
+  const components =
+    fare.baseFare +
+    fare.distanceFare +
+    fare.timeFare +
+    fare.bookingFee +
+    fare.townshipSurcharge;
+  return {
+    baseFare: fare.baseFare,
+    distanceFare: fare.distanceFare,
+    timeFare: fare.timeFare,
+    bookingFee: fare.bookingFee,
+    townshipSurcharge: fare.townshipSurcharge,
+    surgeMultiplier: fare.surgeMultiplier,
+    surgeFare: components * (fare.surgeMultiplier - 1),
+    fareBreakdown: fare as unknown as Prisma.InputJsonValue,
+  };
+}
+
+/**
+ * Settles the fare of a completed ride from its GPS breadcrumb trail.
+ *
+ * The actual distance/time are re-priced with `RidePricingService`. If the
+ * actual fare differs from the quote by more than the vehicle type's
+ * `fareTolerancePercent`, the actual fare applies; otherwise the rider pays
+ * what they were quoted. Rides without a usable trace keep the quoted fare,
+ * as do shared rides — each rider's split fare is locked in at booking.
+ */
+@Injectable()
+export class TripFareService {
+  private readonly logger = new Logger(TripFareService.name);
+
+  constructor(
+    private readonly pricing: RidePricingService,
+    private readonly cache: PricingCacheService,
+  ) {}
+
+  /** Runs inside the transaction that completes the ride. */
+  async settle(
+    tx: Prisma.TransactionClient,
+    rideId: string,
+  ): Promise<TripFareSettlement> {
+    const ride = await tx.ride.findUniqueOrThrow({
+      where: { id: rideId },
+      select: {
+        vehicleType: true,
+        isShared: true,
+        totalFare: true,
+        quotedFare: true,
+        discount: true,
+        distanceMeters: true,
+        durationSeconds: true,
+        pickupLat: true,
+        pickupLng: true,
+        requestedAt: true,
+        startedAt: true,
+        completedAt: true,
+        fareBreakdown: true,
+      },
+    });
+
+    const points = await tx.rideLocationPoint.findMany({
+      where: { rideId },
+      orderBy: { recordedAt: 'asc' },
+      select: { latitude: true, longitude: true, accuracy: true },
+    });
+
+    const quotedFare = Number(ride.quotedFare ?? ride.totalFare);
+
+    const traceMeters = traceDistanceMeters(
+      points.map((p) => ({
+        lat: Number(p.latitude),
+        lng: Number(p.longitude),
+        accuracy: p.accuracy === null ? null : Number(p.accuracy),
+      })),
+    );
+    const actualDistanceMeters =
+      traceMeters === null ? null : Math.round(traceMeters);
+    const actualDurationSeconds =
+      ride.startedAt && ride.completedAt
+        ? Math.round(
+            (ride.completedAt.getTime() - ride.startedAt.getTime()) / 1000,
+          )
+        : null;
+
+    const actual =
+      actualDistanceMeters !== null
+        ? this.pricing.calculateFare({
+            distanceKm: actualDistanceMeters / 1000,
+            durationMinutes: (actualDurationSeconds ?? 0) / 60,
+            vehicleType: ride.vehicleType,
+            at: ride.startedAt ?? undefined,
+            pickupLat: Number(ride.pickupLat),
+            pickupLng: Number(ride.pickupLng),
+          })
+        : null;
+
+    const { fareTolerancePercent } = this.cache.getConfig(ride.vehicleType);
+    const deviationPercent =
+      actual && quotedFare > 0
+        ? (Math.abs(actual.totalFare - quotedFare) / quotedFare) * 100
+        : 0;
+    const fareBasis: FareBasis =
+      actual && !ride.isShared && deviationPercent > fareTolerancePercent
+        ? 'ACTUAL'
+        : 'QUOTED';
+
+    // Breakdown of whichever fare is charged, so the components explain it;
+    // a quoted fare keeps the breakdown it was booked with
+    const applied =
+      fareBasis === 'ACTUAL' && actual
+        ? actual
+        : ((ride.fareBreakdown as unknown as FareResult | null) ??
+          this.pricing.calculateFare({
+            distanceKm: (ride.distanceMeters ?? 0) / 1000,
+            durationMinutes: (ride.durationSeconds ?? 0) / 60,
+            vehicleType: ride.vehicleType,
+            at: ride.requestedAt,
+            pickupLat: Number(ride.pickupLat),
+            pickupLng: Number(ride.pickupLng),
+          }));
+    const fare = fareBasis === 'ACTUAL' ? applied.totalFare : quotedFare;
+    // Promo discount redeemed at booking comes off whichever fare applies
+    const totalFare = Math.max(0, fare - Number(ride.discount));
+
+    await tx.ride.update({
+      where: { id: rideId },
+      data: {
+        ...rideFareColumns(applied),
+        totalFare,
+        quotedFare,
+        actualDistanceMeters,
+        actualDurationSeconds,
+        fareBasis,
+      },
+    });
+
+    this.logger.log(
+      `Ride ${rideId} fare settled: ${fareBasis} ${totalFare} ` +
+        `(quoted ${quotedFare}, actual ${actual?.totalFare ?? 'n/a'}, ` +
+        `${points.length} trace points, tolerance ${fareTolerancePercent}%)`,
+    );
+
+    return {
+      fareBasis,
+      quotedFare,
+      actualFare: actual?.totalFare ?? null,
+      totalFare,
+      actualDistanceMeters,
+      actualDurationSeconds,
+    };
+  }
+}
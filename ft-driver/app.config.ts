@@ -56,6 +56,15 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
           "Allow Family Taxi to use your location.",
       },
     ],
+    [
+      "expo-image-picker",
+      {
+        cameraPermission:
+          "Allow Family Driver to use the camera to photograph your documents.",
+        photosPermission:
+          "Allow Family Driver to access your photos to upload your documents.",
+      },
+    ],
     [
       "expo-secure-store",
       {
@@ -0,0 +1,15 @@
+import { Stack } from "expo-router";
+
+export default function ApplicationLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+        animation: "slide_from_right",
+      }}
+    >
+      <Stack.Screen name="index" />
+      <Stack.Screen name="form" />
+    </Stack>
+  );
+}
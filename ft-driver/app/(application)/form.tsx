@@ -0,0 +1,571 @@
+import { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+import { Image } from "expo-image";
+import { Ionicons } from "@expo/vector-icons";
+import * as ImagePicker from "expo-image-picker";
+import { useQueryClient } from "@tanstack/react-query";
+
+import { Button, Input } from "@/components/ui";
+import {
+  Brand,
+  BorderRadius,
+  Colors,
+  FontSize,
+  Spacing,
+} from "@/constants/theme";
+import { useTranslation } from "@/lib/i18n";
+import { showAlert } from "@/lib/alert-store";
+import {
+  getErrorMessage,
+  submitDriverApplication,
+  updateDriverApplication,
+  uploadApplicationDocument,
+  type ApplicationDetailsPayload,
+  type DriverApplication,
+  type DriverDocumentType,
+} from "@/lib/api";
+import {
+  DRIVER_APPLICATION_QUERY_KEY,
+  useDriverApplication,
+} from "@/hooks/use-driver-application";
+
+const colors = Colors.light;
+
+const VEHICLE_TYPES = [
+  "STANDARD",
+  "PLUS",
+  "ECONOMY",
+  "COMFORT",
+  "PREMIUM",
+  "XL",
+  "MOTORBIKE",
+];
+
+const DOCUMENT_TYPES: DriverDocumentType[] = [
+  "NRC_FRONT",
+  "NRC_BACK",
+  "LICENSE_FRONT",
+  "LICENSE_BACK",
+  "VEHICLE_REGISTRATION",
+  "VEHICLE_INSURANCE",
+  "VEHICLE_FRONT",
+  "VEHICLE_BACK",
+  "VEHICLE_LEFT",
+  "VEHICLE_RIGHT",
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface FormState {
+  licenseNumber: string;
+  licenseExpiry: string;
+  nationalId: string;
+  vehicleType: string;
+  make: string;
+  model: string;
+  year: string;
+  color: string;
+  plateNumber: string;
+  registrationExpiry: string;
+  insuranceExpiry: string;
+}
+
+/** ISO timestamp → the YYYY-MM-DD the date fields are edited in. */
+function toDateInput(iso: string | null | undefined): string {
+  return iso ? iso.slice(0, 10) : "";
+}
+
+function toFormState(app: DriverApplication | undefined): FormState {
+  return {
+    licenseNumber: app?.licenseNumber ?? "",
+    licenseExpiry: toDateInput(app?.licenseExpiry),
+    nationalId: app?.nationalId ?? "",
+    vehicleType: app?.vehicle?.type ?? "STANDARD",
+    make: app?.vehicle?.make ?? "",
+    model: app?.vehicle?.model ?? "",
+    year: app?.vehicle?.year ? String(app.vehicle.year) : "",
+    color: app?.vehicle?.color ?? "",
+    plateNumber: app?.vehicle?.plateNumber ?? "",
+    registrationExpiry: toDateInput(app?.vehicle?.registrationExpiry),
+    insuranceExpiry: toDateInput(app?.vehicle?.insuranceExpiry),
+  };
+}
+
+export default function ApplicationFormScreen() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { data: application } = useDriverApplication();
+
+  const [form, setForm] = useState<FormState>(() => toFormState(application));
+  const [saving, setSaving] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [uploading, setUploading] = useState<DriverDocumentType | null>(null);
+
+  // Populate once the application loads (deep link / cold start)
+  const loaded = !!application;
+  useEffect(() => {
+    if (loaded) setForm(toFormState(application));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loaded]);
+
+  const setField = (key: keyof FormState) => (value: string) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const buildPayload = (): ApplicationDetailsPayload | null => {
+    const dates = [
+      form.licenseExpiry,
+      form.registrationExpiry,
+      form.insuranceExpiry,
+    ];
+    if (dates.some((d) => d && !DATE_PATTERN.test(d.trim()))) {
+      showAlert({
+        title: t("application.form.invalidTitle"),
+        message: t("application.form.invalidDate"),
+      });
+      return null;
+    }
+
+    const hasVehicle = !!(form.make || form.model || form.plateNumber);
+    return {
+      licenseNumber: form.licenseNumber,
+      licenseExpiry: form.licenseExpiry.trim(),
+      nationalId: form.nationalId,
+      ...(hasVehicle && {
+        vehicle: {
+          type: form.vehicleType,
+          make: form.make,
+          model: form.model,
+          year: Number(form.year),
+          color: form.color,
+          plateNumber: form.plateNumber,
+          registrationExpiry: form.registrationExpiry.trim() || undefined,
+          insuranceExpiry: form.insuranceExpiry.trim() || undefined,
+        },
+      }),
+    };
+  };
+
+  const save = async (): Promise<boolean> => {
+    const payload = buildPayload();
+    if (!payload) return false;
+    try {
+      const updated = await updateDriverApplication(payload);
+      queryClient.setQueryData(DRIVER_APPLICATION_QUERY_KEY, updated);
+      return true;
+    } catch (err) {
+      showAlert({
+        title: t("application.form.saveFailed"),
+        message: getErrorMessage(err),
+      });
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    if (await save()) {
+      showAlert({
+        variant: "success",
+        title: t("application.form.saved"),
+        message: t("application.form.savedMessage"),
+      });
+    }
+    setSaving(false);
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      if (!(await save())) return;
+      const submitted = await submitDriverApplication();
+      queryClient.setQueryData(DRIVER_APPLICATION_QUERY_KEY, submitted);
+      router.back();
+    } catch (err) {
+      showAlert({
+        title: t("application.form.submitFailed"),
+        message: getErrorMessage(err),
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const uploadFrom = async (
+    type: DriverDocumentType,
+    source: "camera" | "library",
+  ) => {
+    const permission =
+      source === "camera"
+        ? await ImagePicker.requestCameraPermissionsAsync()
+        : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      showAlert({
+        title: t("application.photos.permissionTitle"),
+        message: t("application.photos.permissionMessage"),
+      });
+      return;
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ["images"],
+      quality: 0.8,
+      allowsEditing: true,
+      aspect: [4, 3],
+    };
+    const result =
+      source === "camera"
+        ? await ImagePicker.launchCameraAsync(options)
+        : await ImagePicker.launchImageLibraryAsync(options);
+    if (result.canceled || !result.assets[0]) return;
+
+    setUploading(type);
+    try {
+      await uploadApplicationDocument(type, result.assets[0].uri);
+      await queryClient.invalidateQueries({
+        queryKey: DRIVER_APPLICATION_QUERY_KEY,
+      });
+    } catch (err) {
+      showAlert({
+        title: t("application.photos.uploadFailed"),
+        message: getErrorMessage(err),
+      });
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const pickDocument = (type: DriverDocumentType) => {
+    showAlert({
+      title: t(`application.fields.${type}`),
+      buttons: [
+        {
+          text: t("application.photos.camera"),
+          onPress: () => void uploadFrom(type, "camera"),
+        },
+        {
+          text: t("application.photos.library"),
+          onPress: () => void uploadFrom(type, "library"),
+        },
+        { text: t("application.form.cancel"), style: "cancel" },
+      ],
+    });
+  };
+
+  const busy = saving || submitting || !!uploading;
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top"]}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={router.back}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t("application.form.title")}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.flex}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Licence & NRC */}
+          <Text style={styles.sectionTitle}>
+            {t("application.form.licenseSection")}
+          </Text>
+          <Input
+            label={t("application.fields.licenseNumber")}
+            value={form.licenseNumber}
+            onChangeText={setField("licenseNumber")}
+            autoCapitalize="characters"
+          />
+          <Input
+            label={t("application.fields.licenseExpiry")}
+            placeholder={t("application.form.datePlaceholder")}
+            value={form.licenseExpiry}
+            onChangeText={setField("licenseExpiry")}
+            keyboardType="numbers-and-punctuation"
+          />
+          <Input
+            label={t("application.fields.nationalId")}
+            placeholder={t("application.form.nationalIdPlaceholder")}
+            value={form.nationalId}
+            onChangeText={setField("nationalId")}
+          />
+
+          {/* Vehicle */}
+          <Text style={styles.sectionTitle}>
+            {t("application.form.vehicleSection")}
+          </Text>
+          <View style={styles.chipRow}>
+            {VEHICLE_TYPES.map((type) => (
+              <Pressable
+                key={type}
+                style={[
+                  styles.chip,
+                  form.vehicleType === type && styles.chipActive,
+                ]}
+                onPress={() => setField("vehicleType")(type)}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    form.vehicleType === type && styles.chipTextActive,
+                  ]}
+                >
+                  {t(`application.vehicleTypes.${type}`)}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <View style={styles.row}>
+            <Input
+              label={t("application.form.make")}
+              value={form.make}
+              onChangeText={setField("make")}
+              containerStyle={styles.half}
+            />
+            <Input
+              label={t("application.form.model")}
+              value={form.model}
+              onChangeText={setField("model")}
+              containerStyle={styles.half}
+            />
+          </View>
+          <View style={styles.row}>
+            <Input
+              label={t("application.form.year")}
+              value={form.year}
+              onChangeText={setField("year")}
+              keyboardType="number-pad"
+              maxLength={4}
+              containerStyle={styles.half}
+            />
+            <Input
+              label={t("application.form.color")}
+              value={form.color}
+              onChangeText={setField("color")}
+              containerStyle={styles.half}
+            />
+          </View>
+          <Input
+            label={t("application.form.plateNumber")}
+            value={form.plateNumber}
+            onChangeText={setField("plateNumber")}
+            autoCapitalize="characters"
+          />
+          <View style={styles.row}>
+            <Input
+              label={t("application.form.registrationExpiry")}
+              placeholder={t("application.form.datePlaceholder")}
+              value={form.registrationExpiry}
+              onChangeText={setField("registrationExpiry")}
+              keyboardType="numbers-and-punctuation"
+              containerStyle={styles.half}
+            />
+            <Input
+              label={t("application.form.insuranceExpiry")}
+              placeholder={t("application.form.datePlaceholder")}
+              value={form.insuranceExpiry}
+              onChangeText={setField("insuranceExpiry")}
+              keyboardType="numbers-and-punctuation"
+              containerStyle={styles.half}
+            />
+          </View>
+
+          {/* Document photos */}
+          <Text style={styles.sectionTitle}>
+            {t("application.form.photosSection")}
+          </Text>
+          <Text style={styles.hint}>{t("application.photos.hint")}</Text>
+          {DOCUMENT_TYPES.map((type) => {
+            const doc = application?.documents.find((d) => d.type === type);
+            const rejected = doc?.status === "REJECTED";
+            return (
+              <Pressable
+                key={type}
+                style={styles.photoRow}
+                onPress={() => pickDocument(type)}
+                disabled={busy}
+              >
+                {doc ? (
+                  <Image source={{ uri: doc.imageUrl }} style={styles.thumb} />
+                ) : (
+                  <View style={[styles.thumb, styles.thumbEmpty]}>
+                    <Ionicons
+                      name="camera-outline"
+                      size={24}
+                      color={colors.textMuted}
+                    />
+                  </View>
+                )}
+                <View style={styles.flex}>
+                  <Text style={styles.photoLabel}>
+                    {t(`application.fields.${type}`)}
+                  </Text>
+                  <Text style={[styles.hint, rejected && styles.rejected]}>
+                    {rejected
+                      ? t("application.photos.rejected", {
+                          reason: doc.rejectionReason ?? "",
+                        })
+                      : doc
+                        ? t("application.photos.retake")
+                        : t("application.photos.add")}
+                  </Text>
+                </View>
+                {uploading === type ? (
+                  <ActivityIndicator color={Brand.primary} />
+                ) : (
+                  doc && (
+                    <Ionicons
+                      name={rejected ? "alert-circle" : "checkmark-circle"}
+                      size={22}
+                      color={rejected ? Brand.error : Brand.success}
+                    />
+                  )
+                )}
+              </Pressable>
+            );
+          })}
+
+          <Button
+            title={t("application.form.save")}
+            variant="outline"
+            onPress={() => void handleSave()}
+            loading={saving}
+            disabled={busy}
+            style={styles.saveButton}
+          />
+          <Button
+            title={t("application.form.submit")}
+            onPress={() => void handleSubmit()}
+            loading={submitting}
+            disabled={busy}
+            size="lg"
+          />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  flex: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.sm,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: FontSize.md,
+    fontWeight: "600",
+    textAlign: "center",
+    color: colors.text,
+  },
+  scrollContent: {
+    padding: Spacing.lg,
+    paddingBottom: Spacing.xxl,
+  },
+  sectionTitle: {
+    fontSize: FontSize.md,
+    fontWeight: "700",
+    color: colors.text,
+    marginTop: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  row: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  half: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipActive: {
+    borderColor: Brand.primary,
+    backgroundColor: `${Brand.primary}15`,
+  },
+  chipText: {
+    fontSize: FontSize.sm,
+    color: colors.textSecondary,
+  },
+  chipTextActive: {
+    color: colors.text,
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: FontSize.xs,
+    color: colors.textMuted,
+  },
+  rejected: {
+    color: Brand.error,
+  },
+  photoRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.border,
+  },
+  thumb: {
+    width: 64,
+    height: 48,
+    borderRadius: BorderRadius.sm,
+  },
+  thumbEmpty: {
+    backgroundColor: colors.backgroundSecondary,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  photoLabel: {
+    fontSize: FontSize.sm,
+    fontWeight: "600",
+    color: colors.text,
+  },
+  saveButton: {
+    marginTop: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+});
@@ -0,0 +1,257 @@
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Button } from "@/components/ui";
+import {
+  Brand,
+  BorderRadius,
+  Colors,
+  FontSize,
+  Spacing,
+} from "@/constants/theme";
+import { useTranslation } from "@/lib/i18n";
+import { signOut } from "@/lib/auth-client";
+import { getErrorMessage, type DriverApplication } from "@/lib/api";
+import { useDriverApplication } from "@/hooks/use-driver-application";
+
+const colors = Colors.light;
+
+type ApplicationState = "draft" | "review" | "rejected" | "suspended";
+
+function applicationState(app: DriverApplication): ApplicationState {
+  if (app.approvalStatus === "SUSPENDED") return "suspended";
+  if (app.approvalStatus === "REJECTED") return "rejected";
+  return app.submittedAt ? "review" : "draft";
+}
+
+const STATE_ICON: Record<
+  ApplicationState,
+  { name: keyof typeof Ionicons.glyphMap; color: string }
+> = {
+  draft: { name: "document-text-outline", color: Brand.primary },
+  review: { name: "time-outline", color: Brand.warning },
+  rejected: { name: "close-circle-outline", color: Brand.error },
+  suspended: { name: "ban-outline", color: Brand.error },
+};
+
+export default function ApplicationStatusScreen() {
+  const { t } = useTranslation();
+  const { data: application, error, isRefetching, refetch } =
+    useDriverApplication();
+
+  if (!application) {
+    return (
+      <SafeAreaView style={[styles.container, styles.center]}>
+        {error ? (
+          <>
+            <Text style={styles.errorText}>{getErrorMessage(error)}</Text>
+            <Button
+              title={t("application.retry")}
+              variant="outline"
+              onPress={() => void refetch()}
+            />
+          </>
+        ) : (
+          <ActivityIndicator size="large" color={Brand.primary} />
+        )}
+      </SafeAreaView>
+    );
+  }
+
+  const state = applicationState(application);
+  const icon = STATE_ICON[state];
+  const canEdit = state !== "suspended";
+  const suspendedMessage =
+    application.suspensionReason === "DOCUMENT_EXPIRED"
+      ? t("documents.suspendedMessage")
+      : t("application.suspended.message");
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top"]}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefetching}
+            onRefresh={() => void refetch()}
+            tintColor={Brand.primary}
+            colors={[Brand.primary]}
+          />
+        }
+      >
+        <Text style={styles.title}>{t("application.title")}</Text>
+
+        {/* Status */}
+        <View style={styles.card}>
+          <View
+            style={[styles.iconWrap, { backgroundColor: `${icon.color}15` }]}
+          >
+            <Ionicons name={icon.name} size={32} color={icon.color} />
+          </View>
+          <Text style={styles.statusTitle}>
+            {t(`application.${state}.title`)}
+          </Text>
+          <Text style={styles.statusMessage}>
+            {state === "suspended"
+              ? suspendedMessage
+              : t(`application.${state}.message`)}
+          </Text>
+          {state === "review" && application.submittedAt && (
+            <Text style={styles.meta}>
+              {t("application.submittedOn", {
+                date: new Date(application.submittedAt).toLocaleDateString(),
+              })}
+            </Text>
+          )}
+        </View>
+
+        {/* Rejection reason */}
+        {state === "rejected" && (
+          <View style={[styles.card, styles.reasonCard]}>
+            <Text style={styles.reasonLabel}>
+              {t("application.rejected.reason")}
+            </Text>
+            <Text style={styles.reasonText}>
+              {application.rejectionReason ?? t("application.rejected.noReason")}
+            </Text>
+          </View>
+        )}
+
+        {/* Still missing */}
+        {canEdit && application.missing.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.reasonLabel}>{t("application.missing")}</Text>
+            {application.missing.map((item) => (
+              <View key={item} style={styles.missingRow}>
+                <Ionicons
+                  name="ellipse-outline"
+                  size={14}
+                  color={colors.textMuted}
+                />
+                <Text style={styles.missingText}>
+                  {t(`application.fields.${item}`)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {canEdit && (
+          <Button
+            title={t(
+              state === "rejected"
+                ? "application.resubmit"
+                : state === "review"
+                  ? "application.edit"
+                  : "application.continue",
+            )}
+            onPress={() => router.push("/(application)/form")}
+            size="lg"
+            style={styles.primaryButton}
+          />
+        )}
+        <Button
+          title={t("profile.logOut")}
+          variant="ghost"
+          onPress={() => void signOut()}
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  center: {
+    justifyContent: "center",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+  },
+  scrollContent: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  title: {
+    fontSize: FontSize.xxl,
+    fontWeight: "700",
+    color: colors.text,
+  },
+  card: {
+    backgroundColor: colors.backgroundSecondary,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: Spacing.md,
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  iconWrap: {
+    width: 64,
+    height: 64,
+    borderRadius: BorderRadius.full,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: Spacing.xs,
+  },
+  statusTitle: {
+    fontSize: FontSize.lg,
+    fontWeight: "700",
+    color: colors.text,
+    textAlign: "center",
+  },
+  statusMessage: {
+    fontSize: FontSize.sm,
+    color: colors.textSecondary,
+    textAlign: "center",
+  },
+  meta: {
+    fontSize: FontSize.xs,
+    color: colors.textMuted,
+  },
+  reasonCard: {
+    alignItems: "flex-start",
+    borderColor: `${Brand.error}40`,
+    backgroundColor: `${Brand.error}08`,
+  },
+  reasonLabel: {
+    alignSelf: "flex-start",
+    fontSize: FontSize.sm,
+    fontWeight: "600",
+    color: colors.text,
+  },
+  reasonText: {
+    fontSize: FontSize.sm,
+    color: colors.text,
+  },
+  missingRow: {
+    alignSelf: "flex-start",
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  missingText: {
+    fontSize: FontSize.sm,
+    color: colors.textSecondary,
+  },
+  primaryButton: {
+    marginTop: Spacing.sm,
+  },
+  errorText: {
+    fontSize: FontSize.sm,
+    color: Brand.error,
+    textAlign: "center",
+  },
+});
@@ -9,6 +9,7 @@ export default function AuthLayout() {
       }}
     >
       <Stack.Screen name="sign-in" />
+      <Stack.Screen name="register" />
       <Stack.Screen name="verify-otp" />
     </Stack>
   );
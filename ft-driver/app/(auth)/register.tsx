@@ -0,0 +1,255 @@
+import { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  TouchableOpacity,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+
+import { Button, Input } from "@/components/ui";
+import {
+  Brand,
+  Colors,
+  FontSize,
+  Spacing,
+  BorderRadius,
+} from "@/constants/theme";
+import { useTranslation } from "@/lib/i18n";
+import {
+  createRegisterSchema,
+  type RegisterFormValues,
+} from "@/lib/validations";
+import { emailOtp } from "@/lib/auth-client";
+import { registerDriver, getErrorMessage } from "@/lib/api";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { showAlert } from "@/lib/alert-store";
+
+export default function RegisterScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useTranslation();
+  const [loading, setLoading] = useState(false);
+
+  const registerSchema = useMemo(() => createRegisterSchema(t), [t]);
+  const { control, handleSubmit } = useForm<RegisterFormValues>({
+    resolver: zodResolver(registerSchema),
+    defaultValues: { name: "", email: "", phone: "" },
+  });
+
+  const onRegister = async (data: RegisterFormValues) => {
+    setLoading(true);
+    const trimmedEmail = data.email.trim().toLowerCase();
+
+    try {
+      // 1) Create the PENDING driver account
+      await registerDriver({ ...data, email: trimmedEmail });
+    } catch (error: unknown) {
+      showAlert({
+        title: t("auth.register.failed"),
+        message: getErrorMessage(error),
+      });
+      setLoading(false);
+      return;
+    }
+
+    try {
+      // 2) Verify the email with a sign-in code, as for existing drivers
+      const result = await emailOtp.sendVerificationOtp({
+        email: trimmedEmail,
+        type: "sign-in",
+      });
+
+      if (result.error) {
+        showAlert({
+          title: t("auth.errors.signInFailed"),
+          message: result.error.message || t("auth.errors.signInFailedMessage"),
+        });
+      } else {
+        router.replace({
+          pathname: "/(auth)/verify-otp",
+          params: { email: trimmedEmail },
+        });
+      }
+    } catch (error: unknown) {
+      const message =
+        error instanceof Error ? error.message : t("auth.errors.unexpectedError");
+      showAlert({ title: t("auth.errors.error"), message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.background }]}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+          bounces={false}
+        >
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <Ionicons name="arrow-back" size={24} color={colors.text} />
+          </TouchableOpacity>
+
+          {/* Header */}
+          <View style={styles.header}>
+            <View
+              style={[
+                styles.logoContainer,
+                { backgroundColor: `${Brand.primary}15` },
+              ]}
+            >
+              <Ionicons name="person-add" size={32} color={Brand.primary} />
+            </View>
+            <Text style={[styles.title, { color: colors.text }]}>
+              {t("auth.register.title")}
+            </Text>
+            <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+              {t("auth.register.subtitle")}
+            </Text>
+          </View>
+
+          {/* Form */}
+          <View style={styles.form}>
+            <Controller
+              control={control}
+              name="name"
+              render={({
+                field: { onChange, onBlur, value },
+                fieldState: { error },
+              }) => (
+                <Input
+                  label={t("auth.register.name")}
+                  placeholder={t("auth.register.namePlaceholder")}
+                  value={value}
+                  onChangeText={onChange}
+                  onBlur={onBlur}
+                  autoComplete="name"
+                  leftIcon="person-outline"
+                  error={error?.message}
+                  containerStyle={styles.inputCompact}
+                />
+              )}
+            />
+            <Controller
+              control={control}
+              name="email"
+              render={({
+                field: { onChange, onBlur, value },
+                fieldState: { error },
+              }) => (
+                <Input
+                  label={t("auth.signIn.email")}
+                  placeholder={t("auth.register.emailPlaceholder")}
+                  value={value}
+                  onChangeText={onChange}
+                  onBlur={onBlur}
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  autoComplete="email"
+                  leftIcon="mail-outline"
+                  error={error?.message}
+                  containerStyle={styles.inputCompact}
+                />
+              )}
+            />
+            <Controller
+              control={control}
+              name="phone"
+              render={({
+                field: { onChange, onBlur, value },
+                fieldState: { error },
+              }) => (
+                <Input
+                  label={t("auth.register.phone")}
+                  placeholder={t("auth.register.phonePlaceholder")}
+                  value={value}
+                  onChangeText={onChange}
+                  onBlur={onBlur}
+                  keyboardType="phone-pad"
+                  autoComplete="tel"
+                  leftIcon="call-outline"
+                  error={error?.message}
+                  containerStyle={styles.inputCompact}
+                />
+              )}
+            />
+
+            <Button
+              title={t("auth.register.submit")}
+              onPress={handleSubmit(onRegister)}
+              loading={loading}
+              size="lg"
+            />
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.sm,
+    paddingBottom: Spacing.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    marginBottom: Spacing.sm,
+  },
+  header: {
+    alignItems: "center",
+    marginBottom: Spacing.xl,
+  },
+  logoContainer: {
+    width: 56,
+    height: 56,
+    borderRadius: BorderRadius.full,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: Spacing.sm,
+  },
+  title: {
+    fontSize: FontSize.xxl,
+    fontWeight: "700",
+    marginBottom: Spacing.xs,
+  },
+  subtitle: {
+    fontSize: FontSize.sm,
+    textAlign: "center",
+    paddingHorizontal: Spacing.lg,
+  },
+  form: {
+    flex: 1,
+  },
+  inputCompact: {
+    marginBottom: Spacing.md,
+  },
+});
@@ -50,7 +50,7 @@ export default function SignInScreen() {
     const trimmedEmail = data.email.trim().toLowerCase();
 
     try {
-      // 1) Validate the email is an approved driver BEFORE sending OTP
+      // 1) Validate the email belongs to a driver BEFORE sending OTP
       await validateDriverLogin(trimmedEmail);
     } catch (error: unknown) {
       const message = getErrorMessage(error);
@@ -195,6 +195,17 @@ export default function SignInScreen() {
               size="lg"
               style={styles.sendCodeButton}
             />
+
+            <View style={styles.registerRow}>
+              <Text style={[styles.registerText, { color: colors.textSecondary }]}>
+                {t("auth.signIn.noAccount")}
+              </Text>
+              <TouchableOpacity onPress={() => router.push("/(auth)/register")}>
+                <Text style={styles.registerLink}>
+                  {t("auth.signIn.apply")}
+                </Text>
+              </TouchableOpacity>
+            </View>
           </View>
         </ScrollView>
       </KeyboardAvoidingView>
@@ -265,4 +276,19 @@ const styles = StyleSheet.create({
   sendCodeButton: {
     marginBottom: Spacing.sm,
   },
+  registerRow: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: Spacing.xs,
+    marginTop: Spacing.sm,
+  },
+  registerText: {
+    fontSize: FontSize.sm,
+  },
+  registerLink: {
+    fontSize: FontSize.sm,
+    fontWeight: "600",
+    color: Brand.primary,
+  },
 });
@@ -57,6 +57,16 @@ export default function TabLayout() {
             <Label>{t("tabs.home")}</Label>
           </NativeTabs.Trigger>
 
+          <NativeTabs.Trigger name="earnings">
+            <Icon
+              sf={{ default: "chart.bar", selected: "chart.bar.fill" }}
+              androidSrc={
+                <VectorIcon family={MaterialIcons} name="bar-chart" />
+              }
+            />
+            <Label>{t("tabs.earnings")}</Label>
+          </NativeTabs.Trigger>
+
           <NativeTabs.Trigger name="explore">
             <Icon
               sf={{ default: "person", selected: "person.fill" }}
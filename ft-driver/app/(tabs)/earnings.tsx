@@ -0,0 +1,445 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { MaterialIcons } from "@expo/vector-icons";
+
+import {
+  Brand,
+  BorderRadius,
+  Colors,
+  FontSize,
+  Spacing,
+} from "@/constants/theme";
+import { useTranslation } from "@/lib/i18n";
+import {
+  fetchEarnings,
+  getErrorMessage,
+  type EarningsBucket,
+  type EarningsPeriod,
+  type EarningsSummary,
+} from "@/lib/api";
+
+const colors = Colors.light;
+
+const PERIODS: EarningsPeriod[] = ["day", "week", "month"];
+const WEEKDAY_KEYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const CHART_HEIGHT = 140;
+
+function formatMoney(amount: number, currency: string): string {
+  return `${Math.round(amount).toLocaleString()} ${currency}`;
+}
+
+function formatTime(iso: string): string {
+  const d = new Date(iso);
+  const hh = String(d.getHours()).padStart(2, "0");
+  const mm = String(d.getMinutes()).padStart(2, "0");
+  return `${d.getDate()}/${d.getMonth() + 1} ${hh}:${mm}`;
+}
+
+export default function EarningsScreen() {
+  const { t } = useTranslation();
+  const [period, setPeriod] = useState<EarningsPeriod>("day");
+  const [summary, setSummary] = useState<EarningsSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (selected: EarningsPeriod) => {
+    setError(null);
+    try {
+      setSummary(await fetchEarnings(selected));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    setIsLoading(true);
+    void load(period).finally(() => setIsLoading(false));
+  }, [period, load]);
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await load(period);
+    setIsRefreshing(false);
+  }, [period, load]);
+
+  const bucketLabel = useCallback(
+    (bucket: EarningsBucket, index: number): string => {
+      const d = new Date(bucket.startsAt);
+      if (period === "day") {
+        // Label every 6th hour so 24 bars stay readable
+        return index % 6 === 0 ? String(d.getHours()).padStart(2, "0") : "";
+      }
+      if (period === "week") {
+        return t(`earnings.weekdays.${WEEKDAY_KEYS[d.getDay()]}`);
+      }
+      return t("earnings.weekShort", { n: index + 1 });
+    },
+    [period, t],
+  );
+
+  const maxBucket = Math.max(
+    1,
+    ...(summary?.buckets.map((b) => b.earnings) ?? []),
+  );
+  const currency = summary?.currency ?? "";
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top"]}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{t("earnings.title")}</Text>
+      </View>
+
+      {/* ── Period selector ── */}
+      <View style={styles.segment}>
+        {PERIODS.map((p) => (
+          <Pressable
+            key={p}
+            style={[styles.segmentItem, period === p && styles.segmentActive]}
+            onPress={() => setPeriod(p)}
+          >
+            <Text
+              style={[
+                styles.segmentText,
+                period === p && styles.segmentTextActive,
+              ]}
+            >
+              {t(`earnings.periods.${p}`)}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {isLoading && !summary ? (
+        <ActivityIndicator
+          style={styles.loader}
+          size="large"
+          color={Brand.primary}
+        />
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={() => void handleRefresh()}
+              tintColor={Brand.primary}
+            />
+          }
+        >
+          {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+          {summary ? (
+            <>
+              {/* ── Totals ── */}
+              <View style={styles.totalCard}>
+                <Text style={styles.totalLabel}>
+                  {t("earnings.totalEarnings")}
+                </Text>
+                <Text style={styles.totalValue}>
+                  {formatMoney(summary.totals.earnings, currency)}
+                </Text>
+                <Text style={styles.totalSub}>
+                  {t("earnings.grossLessFees", {
+                    gross: formatMoney(summary.totals.grossFares, currency),
+                    fees: formatMoney(summary.totals.platformFees, currency),
+                  })}
+                </Text>
+              </View>
+
+              <View style={styles.statsRow}>
+                <View style={styles.statCard}>
+                  <MaterialIcons
+                    name="local-taxi"
+                    size={20}
+                    color={Brand.secondary}
+                  />
+                  <Text style={styles.statValue}>{summary.totals.trips}</Text>
+                  <Text style={styles.statLabel}>{t("earnings.trips")}</Text>
+                </View>
+                <View style={styles.statCard}>
+                  <MaterialIcons
+                    name="schedule"
+                    size={20}
+                    color={Brand.secondary}
+                  />
+                  <Text style={styles.statValue}>
+                    {t("earnings.hoursValue", {
+                      hours: summary.totals.onlineHours,
+                    })}
+                  </Text>
+                  <Text style={styles.statLabel}>
+                    {t("earnings.onlineTime")}
+                  </Text>
+                </View>
+                <View style={styles.statCard}>
+                  <MaterialIcons
+                    name="trending-up"
+                    size={20}
+                    color={Brand.secondary}
+                  />
+                  <Text style={styles.statValue}>
+                    {Math.round(summary.totals.perOnlineHour).toLocaleString()}
+                  </Text>
+                  <Text style={styles.statLabel}>{t("earnings.perHour")}</Text>
+                </View>
+              </View>
+
+              {/* ── Chart ── */}
+              <View style={styles.chartCard}>
+                <Text style={styles.sectionTitle}>
+                  {t(`earnings.chartTitle.${period}`)}
+                </Text>
+                <View style={styles.chart}>
+                  {summary.buckets.map((bucket, index) => (
+                    <View key={bucket.startsAt} style={styles.barColumn}>
+                      <View style={styles.barTrack}>
+                        <View
+                          style={[
+                            styles.bar,
+                            {
+                              height:
+                                (bucket.earnings / maxBucket) * CHART_HEIGHT,
+                            },
+                            bucket.earnings === 0 && styles.barEmpty,
+                          ]}
+                        />
+                      </View>
+                      <Text style={styles.barLabel} numberOfLines={1}>
+                        {bucketLabel(bucket, index)}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              </View>
+
+              {/* ── Line items ── */}
+              <Text style={styles.sectionTitle}>{t("earnings.rides")}</Text>
+              {summary.items.length === 0 ? (
+                <Text style={styles.emptyText}>{t("earnings.noRides")}</Text>
+              ) : (
+                summary.items.map((item) => (
+                  <View key={item.id} style={styles.itemRow}>
+                    <View style={styles.itemInfo}>
+                      <Text style={styles.itemTitle} numberOfLines={1}>
+                        {item.ride?.dropoffAddress ??
+                          item.description ??
+                          item.type}
+                      </Text>
+                      <Text style={styles.itemMeta}>
+                        {formatTime(item.ride?.completedAt ?? item.createdAt)}
+                        {item.ride?.paymentMethod
+                          ? ` · ${t(`earnings.methods.${item.ride.paymentMethod}`)}`
+                          : ""}
+                      </Text>
+                      {item.ride?.grossFare !== null &&
+                      item.ride?.grossFare !== undefined ? (
+                        <Text style={styles.itemMeta}>
+                          {t("earnings.grossLessFees", {
+                            gross: formatMoney(
+                              item.ride.grossFare,
+                              item.currency,
+                            ),
+                            fees: formatMoney(
+                              item.ride.platformFee ?? 0,
+                              item.currency,
+                            ),
+                          })}
+                        </Text>
+                      ) : null}
+                    </View>
+                    <Text style={styles.itemAmount}>
+                      {formatMoney(item.amount, item.currency)}
+                    </Text>
+                  </View>
+                ))
+              )}
+            </>
+          ) : null}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.sm,
+    paddingBottom: Spacing.md,
+  },
+  title: {
+    fontSize: FontSize.xxl,
+    fontWeight: "700",
+    color: colors.text,
+  },
+  segment: {
+    flexDirection: "row",
+    marginHorizontal: Spacing.lg,
+    padding: 4,
+    borderRadius: BorderRadius.md,
+    backgroundColor: colors.inputBackground,
+  },
+  segmentItem: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+  },
+  segmentActive: {
+    backgroundColor: Brand.primary,
+  },
+  segmentText: {
+    fontSize: FontSize.sm,
+    fontWeight: "600",
+    color: colors.textSecondary,
+  },
+  segmentTextActive: {
+    color: Brand.secondary,
+  },
+  loader: {
+    marginTop: Spacing.xxl,
+  },
+  content: {
+    padding: Spacing.lg,
+    // Leave room for the floating tab bar
+    paddingBottom: 120,
+  },
+  errorText: {
+    color: Brand.error,
+    fontSize: FontSize.sm,
+    textAlign: "center",
+    marginBottom: Spacing.md,
+  },
+  totalCard: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: Brand.secondary,
+    alignItems: "center",
+  },
+  totalLabel: {
+    fontSize: FontSize.sm,
+    color: "#94A3B8",
+  },
+  totalValue: {
+    fontSize: FontSize.xxxl,
+    fontWeight: "700",
+    color: Brand.primary,
+    marginVertical: Spacing.xs,
+  },
+  totalSub: {
+    fontSize: FontSize.xs,
+    color: "#CBD5E1",
+  },
+  statsRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  statCard: {
+    flex: 1,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: colors.border,
+    alignItems: "center",
+    gap: 2,
+  },
+  statValue: {
+    fontSize: FontSize.lg,
+    fontWeight: "700",
+    color: colors.text,
+  },
+  statLabel: {
+    fontSize: FontSize.xs,
+    color: colors.textSecondary,
+  },
+  chartCard: {
+    marginTop: Spacing.md,
+    marginBottom: Spacing.lg,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: colors.border,
+  },
+  sectionTitle: {
+    fontSize: FontSize.md,
+    fontWeight: "600",
+    color: colors.text,
+    marginBottom: Spacing.sm,
+  },
+  chart: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    gap: 2,
+  },
+  barColumn: {
+    flex: 1,
+    alignItems: "center",
+  },
+  barTrack: {
+    height: CHART_HEIGHT,
+    width: "100%",
+    justifyContent: "flex-end",
+  },
+  bar: {
+    width: "100%",
+    minHeight: 2,
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+    backgroundColor: Brand.primary,
+  },
+  barEmpty: {
+    backgroundColor: colors.border,
+  },
+  barLabel: {
+    fontSize: 10,
+    color: colors.textMuted,
+    marginTop: 4,
+  },
+  emptyText: {
+    fontSize: FontSize.sm,
+    color: colors.textMuted,
+    textAlign: "center",
+    paddingVertical: Spacing.lg,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.border,
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  itemTitle: {
+    fontSize: FontSize.md,
+    fontWeight: "500",
+    color: colors.text,
+  },
+  itemMeta: {
+    fontSize: FontSize.xs,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  itemAmount: {
+    fontSize: FontSize.md,
+    fontWeight: "700",
+    color: Brand.success,
+  },
+});
@@ -1,5 +1,7 @@
 import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+import { MaterialIcons } from "@expo/vector-icons";
 
 import { Button } from "@/components/ui";
 import { Brand, Colors, FontSize, Spacing } from "@/constants/theme";
@@ -40,6 +42,19 @@ export default function ProfileScreen() {
         <Text style={styles.email}>{user?.email ?? ""}</Text>
       </View>
 
+      <TouchableOpacity
+        style={styles.menuRow}
+        onPress={() => router.push("/ride-history")}
+      >
+        <MaterialIcons name="history" size={22} color={colors.text} />
+        <Text style={styles.menuText}>{t("history.title")}</Text>
+        <MaterialIcons
+          name="chevron-right"
+          size={22}
+          color={colors.textMuted}
+        />
+      </TouchableOpacity>
+
       <View style={styles.languageSection}>
         <Text style={styles.languageLabel}>{t("profile.language")}</Text>
         <View style={styles.languageRow}>
@@ -143,6 +158,25 @@ const styles = StyleSheet.create({
     fontSize: FontSize.sm,
     color: colors.textSecondary,
   },
+  menuRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    marginHorizontal: Spacing.lg,
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: colors.border,
+  },
+  menuText: {
+    flex: 1,
+    fontSize: FontSize.md,
+    fontWeight: "500",
+    color: colors.text,
+  },
   languageSection: {
     marginHorizontal: Spacing.lg,
     marginTop: Spacing.lg,
@@ -5,8 +5,10 @@ import * as Location from "expo-location";
 import OnlineToggle from "@/components/driver/OnlineToggle";
 import RideRequestModal from "@/components/driver/RideRequestModal";
 import ActiveRideCard from "@/components/driver/ActiveRideCard";
+import RatePassengerSheet from "@/components/driver/RatePassengerSheet";
 import { useRideStore } from "@/lib/ride-store";
 import { useDriverStatusStore } from "@/lib/driver-status-store";
+import { fetchPendingRating } from "@/lib/api";
 import { addLocationListener, type DriverCoords } from "@/lib/location-tracker";
 import { Brand } from "@/constants/theme";
 
@@ -66,6 +68,7 @@ export default function DriverHomeScreen() {
   const [driverCoords, setDriverCoords] = useState<DriverCoords | null>(null);
   const incomingRequest = useRideStore((s) => s.incomingRequest);
   const activeRide = useRideStore((s) => s.activeRide);
+  const pendingRating = useRideStore((s) => s.pendingRating);
   const isOnline = useDriverStatusStore((s) => s.isOnline);
   const mapRef = useRef<MapView>(null);
 
@@ -126,6 +129,28 @@ export default function DriverHomeScreen() {
     };
   }, []);
 
+  // ── Re-offer a missed passenger rating (e.g. app restarted after drop-off) ──
+  useEffect(() => {
+    fetchPendingRating()
+      .then((pending) => {
+        const { activeRide, pendingRating, setPendingRating } =
+          useRideStore.getState();
+        if (pending && !activeRide && !pendingRating) {
+          setPendingRating({
+            rideId: pending.rideId,
+            totalFare: pending.totalFare,
+            currency: pending.currency,
+            dropoffAddress: pending.dropoffAddress,
+            cashPending: pending.cashPending,
+            driverPayout: pending.driverPayout,
+          });
+        }
+      })
+      .catch(() => {
+        // Non-critical — the driver can still take new rides
+      });
+  }, []);
+
   // ── When going online, immediately seed driverCoords if missing ──
   useEffect(() => {
     if (!isOnline || driverCoords) return;
@@ -227,6 +252,11 @@ export default function DriverHomeScreen() {
       {/* Active ride bottom card */}
       {activeRide ? <ActiveRideCard ride={activeRide} /> : null}
 
+      {/* Post-trip summary + passenger rating */}
+      {pendingRating && !activeRide ? (
+        <RatePassengerSheet key={pendingRating.rideId} ride={pendingRating} />
+      ) : null}
+
       {/* Ride request modal overlays everything */}
       {incomingRequest ? (
         <RideRequestModal key={incomingRequest.rideId} request={incomingRequest} />
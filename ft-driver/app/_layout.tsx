@@ -13,6 +13,10 @@ import {
   useOnboarding,
 } from "@/context/onboarding-context";
 import { useColorScheme } from "@/hooks/use-color-scheme";
+import {
+  DRIVER_APPLICATION_QUERY_KEY,
+  useDriverApplication,
+} from "@/hooks/use-driver-application";
 import { useTranslation } from "@/lib/i18n";
 import { Brand, Colors } from "@/constants/theme";
 import { CustomAlert } from "@/components/ui/custom-alert";
@@ -30,7 +34,8 @@ function RootStack() {
     useOnboarding();
   const appStateRef = useRef<AppStateStatus>(AppState.currentState);
 
-  // Revalidate session when app comes to foreground (e.g. after admin revokes sessions)
+  // Revalidate session and approval status when app comes to foreground
+  // (e.g. after admin revokes sessions or reviews the application)
   useEffect(() => {
     const sub = AppState.addEventListener("change", (nextState) => {
       if (
@@ -38,6 +43,9 @@ function RootStack() {
         nextState === "active"
       ) {
         void refetch?.();
+        void queryClient.invalidateQueries({
+          queryKey: DRIVER_APPLICATION_QUERY_KEY,
+        });
       }
       appStateRef.current = nextState;
     });
@@ -98,7 +106,17 @@ function RootStack() {
     session.user?.emailVerified === true &&
     userRole === "DRIVER";
   const hasCompletedOnboarding = onboardingComplete === true;
-  const isLoading = isPending || isOnboardingLoading;
+
+  // Signed-in drivers who aren't approved yet (or were rejected / suspended)
+  // see their application instead of the tabs
+  const { data: application, isLoading: isApplicationLoading } =
+    useDriverApplication(isFullyAuthenticated);
+  const isApproved = application?.approvalStatus === "APPROVED";
+
+  const isLoading =
+    isPending ||
+    isOnboardingLoading ||
+    (isFullyAuthenticated && isApplicationLoading);
 
   if (isLoading) {
     return (
@@ -121,8 +139,27 @@ function RootStack() {
       <Stack.Protected guard={hasCompletedOnboarding && !isFullyAuthenticated}>
         <Stack.Screen name="(auth)" />
       </Stack.Protected>
-      <Stack.Protected guard={isFullyAuthenticated}>
+      <Stack.Protected guard={isFullyAuthenticated && !isApproved}>
+        <Stack.Screen name="(application)" />
+      </Stack.Protected>
+      <Stack.Protected guard={isFullyAuthenticated && isApproved}>
         <Stack.Screen name="(tabs)" />
+        <Stack.Screen
+          name="ride-history/index"
+          options={{
+            headerShown: true,
+            animation: "default",
+            title: t("history.title"),
+          }}
+        />
+        <Stack.Screen
+          name="ride-history/[id]"
+          options={{
+            headerShown: true,
+            animation: "default",
+            title: t("history.detailTitle"),
+          }}
+        />
         <Stack.Screen
           name="modal"
           options={{
@@ -0,0 +1,317 @@
+import { useMemo, useRef } from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { useLocalSearchParams } from "expo-router";
+import MapView, { Marker, Polyline, PROVIDER_GOOGLE } from "react-native-maps";
+import { MaterialIcons } from "@expo/vector-icons";
+
+import { Button } from "@/components/ui";
+import {
+  Brand,
+  BorderRadius,
+  Colors,
+  FontSize,
+  Spacing,
+} from "@/constants/theme";
+import { useTranslation } from "@/lib/i18n";
+import { getErrorMessage } from "@/lib/api";
+import { decodePolyline } from "@/lib/polyline";
+import { useRideHistoryDetail } from "@/hooks/use-ride-history";
+
+const colors = Colors.light;
+const MAP_HEIGHT = 240;
+
+function formatMoney(amount: number, currency: string): string {
+  return `${Math.round(amount).toLocaleString()} ${currency}`;
+}
+
+function formatDateTime(iso: string): string {
+  const d = new Date(iso);
+  const hh = String(d.getHours()).padStart(2, "0");
+  const mm = String(d.getMinutes()).padStart(2, "0");
+  return `${d.getDate()}/${d.getMonth() + 1}/${d.getFullYear()} ${hh}:${mm}`;
+}
+
+export default function RideHistoryDetailScreen() {
+  const { t } = useTranslation();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { data: ride, error, refetch } = useRideHistoryDetail(id);
+  const mapRef = useRef<MapView>(null);
+
+  // Stored route; a straight pickup → dropoff line when none was saved
+  const routeCoords = useMemo(() => {
+    if (!ride) return [];
+    if (ride.polyline) return decodePolyline(ride.polyline);
+    return [
+      { latitude: ride.pickupLat, longitude: ride.pickupLng },
+      { latitude: ride.dropoffLat, longitude: ride.dropoffLng },
+    ];
+  }, [ride]);
+
+  if (!ride) {
+    return (
+      <View style={[styles.container, styles.center]}>
+        {error ? (
+          <>
+            <Text style={styles.errorText}>{getErrorMessage(error)}</Text>
+            <Button
+              title={t("history.retry")}
+              variant="outline"
+              onPress={() => void refetch()}
+            />
+          </>
+        ) : (
+          <ActivityIndicator size="large" color={Brand.primary} />
+        )}
+      </View>
+    );
+  }
+
+  const cancelled = ride.status === "CANCELLED";
+  const distanceKm =
+    ride.distanceMeters !== null
+      ? (ride.distanceMeters / 1000).toFixed(1)
+      : null;
+  const durationMin =
+    ride.durationSeconds !== null
+      ? Math.round(ride.durationSeconds / 60)
+      : null;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <MapView
+        ref={mapRef}
+        provider={PROVIDER_GOOGLE}
+        style={styles.map}
+        initialRegion={{
+          latitude: (ride.pickupLat + ride.dropoffLat) / 2,
+          longitude: (ride.pickupLng + ride.dropoffLng) / 2,
+          latitudeDelta: 0.05,
+          longitudeDelta: 0.05,
+        }}
+        onMapReady={() =>
+          mapRef.current?.fitToCoordinates(routeCoords, {
+            edgePadding: { top: 40, right: 40, bottom: 40, left: 40 },
+            animated: false,
+          })
+        }
+        scrollEnabled={false}
+        zoomEnabled={false}
+        toolbarEnabled={false}
+      >
+        <Polyline
+          coordinates={routeCoords}
+          strokeColor={Brand.secondary}
+          strokeWidth={4}
+        />
+        <Marker
+          coordinate={{ latitude: ride.pickupLat, longitude: ride.pickupLng }}
+          title={t("history.pickup")}
+          pinColor={Brand.primary}
+          tracksViewChanges={false}
+        />
+        {ride.stops.map((stop) => (
+          <Marker
+            key={stop.sequence}
+            coordinate={{ latitude: stop.lat, longitude: stop.lng }}
+            title={stop.mainText ?? stop.address}
+            pinColor="#64748B"
+            tracksViewChanges={false}
+          />
+        ))}
+        <Marker
+          coordinate={{ latitude: ride.dropoffLat, longitude: ride.dropoffLng }}
+          title={t("history.dropoff")}
+          pinColor="red"
+          tracksViewChanges={false}
+        />
+      </MapView>
+
+      {/* ── Route ── */}
+      <View style={styles.card}>
+        <Text style={styles.meta}>
+          {formatDateTime(
+            ride.completedAt ?? ride.cancelledAt ?? ride.requestedAt,
+          )}
+          {ride.isShared ? ` · ${t("history.shared")}` : ""}
+        </Text>
+        <View style={styles.placeRow}>
+          <MaterialIcons name="trip-origin" size={16} color={Brand.primary} />
+          <Text style={styles.placeText}>{ride.pickupAddress}</Text>
+        </View>
+        <View style={styles.placeRow}>
+          <MaterialIcons name="place" size={16} color={Brand.error} />
+          <Text style={styles.placeText}>{ride.dropoffAddress}</Text>
+        </View>
+        <Text style={styles.meta}>
+          {t("history.passenger", { name: ride.passengerName })}
+          {distanceKm !== null ? ` · ${distanceKm} km` : ""}
+          {durationMin !== null
+            ? ` · ${t("history.minutes", { minutes: durationMin })}`
+            : ""}
+        </Text>
+      </View>
+
+      {/* ── Cancellation ── */}
+      {cancelled ? (
+        <View style={[styles.card, styles.cancelCard]}>
+          <Text style={styles.sectionTitle}>{t("history.cancellation")}</Text>
+          <Text style={styles.value}>
+            {ride.cancellationReason
+              ? t(`history.cancellationReasons.${ride.cancellationReason}`)
+              : t("history.noReason")}
+          </Text>
+          {ride.cancelledByDriver !== null ? (
+            <Text style={styles.meta}>
+              {t(
+                ride.cancelledByDriver
+                  ? "history.cancelledByYou"
+                  : "history.cancelledByRider",
+              )}
+            </Text>
+          ) : null}
+        </View>
+      ) : null}
+
+      {/* ── Payment ── */}
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>{t("history.payment")}</Text>
+        <DetailRow
+          label={t("history.fare")}
+          value={formatMoney(ride.fare, ride.currency)}
+        />
+        {ride.driverPayout !== null ? (
+          <DetailRow
+            label={t("history.payout")}
+            value={formatMoney(ride.driverPayout, ride.currency)}
+          />
+        ) : null}
+        <DetailRow
+          label={t("history.method")}
+          value={t(`earnings.methods.${ride.paymentMethod}`)}
+        />
+      </View>
+
+      {/* ── Rating received ── */}
+      {!cancelled ? (
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>{t("history.ratingReceived")}</Text>
+          {ride.ratingsReceived.length === 0 ? (
+            <Text style={styles.meta}>{t("history.notRated")}</Text>
+          ) : (
+            ride.ratingsReceived.map((rating, index) => (
+              <View key={index} style={styles.ratingBlock}>
+                <View style={styles.starsRow}>
+                  {[1, 2, 3, 4, 5].map((star) => (
+                    <MaterialIcons
+                      key={star}
+                      name={star <= rating.rating ? "star" : "star-border"}
+                      size={18}
+                      color={Brand.primary}
+                    />
+                  ))}
+                </View>
+                {rating.tags.length > 0 ? (
+                  <Text style={styles.meta}>
+                    {rating.tags
+                      .map((tag) => t(`history.tags.${tag}`))
+                      .join(" · ")}
+                  </Text>
+                ) : null}
+                {rating.comment ? (
+                  <Text style={styles.value}>“{rating.comment}”</Text>
+                ) : null}
+              </View>
+            ))
+          )}
+        </View>
+      ) : null}
+    </ScrollView>
+  );
+}
+
+function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.detailRow}>
+      <Text style={styles.meta}>{label}</Text>
+      <Text style={styles.value}>{value}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  center: {
+    justifyContent: "center",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.lg,
+  },
+  content: {
+    paddingBottom: Spacing.xl,
+    gap: Spacing.md,
+  },
+  map: {
+    height: MAP_HEIGHT,
+  },
+  card: {
+    marginHorizontal: Spacing.lg,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: colors.border,
+    gap: Spacing.xs,
+  },
+  cancelCard: {
+    borderColor: `${Brand.error}40`,
+    backgroundColor: `${Brand.error}08`,
+  },
+  sectionTitle: {
+    fontSize: FontSize.md,
+    fontWeight: "600",
+    color: colors.text,
+  },
+  placeRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.sm,
+  },
+  placeText: {
+    flex: 1,
+    fontSize: FontSize.sm,
+    color: colors.text,
+  },
+  meta: {
+    fontSize: FontSize.xs,
+    color: colors.textSecondary,
+  },
+  value: {
+    fontSize: FontSize.sm,
+    color: colors.text,
+  },
+  detailRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  ratingBlock: {
+    gap: 2,
+    paddingTop: Spacing.xs,
+  },
+  starsRow: {
+    flexDirection: "row",
+  },
+  errorText: {
+    fontSize: FontSize.sm,
+    color: Brand.error,
+    textAlign: "center",
+  },
+});
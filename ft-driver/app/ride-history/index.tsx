@@ -0,0 +1,369 @@
+import { useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { router } from "expo-router";
+import { MaterialIcons } from "@expo/vector-icons";
+
+import {
+  Brand,
+  BorderRadius,
+  Colors,
+  FontSize,
+  Spacing,
+} from "@/constants/theme";
+import { useTranslation } from "@/lib/i18n";
+import {
+  getErrorMessage,
+  type RideHistoryFilters,
+  type RideHistoryItem,
+  type RideHistoryStatus,
+} from "@/lib/api";
+import { useRideHistory } from "@/hooks/use-ride-history";
+
+const colors = Colors.light;
+
+const STATUS_FILTERS: ("ALL" | RideHistoryStatus)[] = [
+  "ALL",
+  "COMPLETED",
+  "CANCELLED",
+];
+
+/** Date ranges offered as chips, in days back from today (null = all time). */
+const RANGE_FILTERS: { key: string; days: number | null }[] = [
+  { key: "all", days: null },
+  { key: "week", days: 7 },
+  { key: "month", days: 30 },
+];
+
+function formatMoney(amount: number, currency: string): string {
+  return `${Math.round(amount).toLocaleString()} ${currency}`;
+}
+
+function formatDateTime(iso: string): string {
+  const d = new Date(iso);
+  const hh = String(d.getHours()).padStart(2, "0");
+  const mm = String(d.getMinutes()).padStart(2, "0");
+  return `${d.getDate()}/${d.getMonth() + 1}/${d.getFullYear()} ${hh}:${mm}`;
+}
+
+export default function RideHistoryScreen() {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<"ALL" | RideHistoryStatus>("ALL");
+  const [range, setRange] = useState("all");
+
+  const filters = useMemo<RideHistoryFilters>(() => {
+    const days = RANGE_FILTERS.find((r) => r.key === range)?.days ?? null;
+    let from: string | undefined;
+    if (days !== null) {
+      const start = new Date();
+      start.setHours(0, 0, 0, 0);
+      start.setDate(start.getDate() - (days - 1));
+      from = start.toISOString();
+    }
+    return { status: status === "ALL" ? undefined : status, from };
+  }, [status, range]);
+
+  const {
+    data,
+    error,
+    isLoading,
+    isRefetching,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useRideHistory(filters);
+
+  const rides = useMemo(
+    () => data?.pages.flatMap((page) => page.rides) ?? [],
+    [data],
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* ── Filters ── */}
+      <View style={styles.segment}>
+        {STATUS_FILTERS.map((s) => (
+          <Pressable
+            key={s}
+            style={[styles.segmentItem, status === s && styles.segmentActive]}
+            onPress={() => setStatus(s)}
+          >
+            <Text
+              style={[
+                styles.segmentText,
+                status === s && styles.segmentTextActive,
+              ]}
+            >
+              {t(`history.status.${s}`)}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      <View style={styles.chipRow}>
+        {RANGE_FILTERS.map((r) => (
+          <Pressable
+            key={r.key}
+            style={[styles.chip, range === r.key && styles.chipActive]}
+            onPress={() => setRange(r.key)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                range === r.key && styles.chipTextActive,
+              ]}
+            >
+              {t(`history.range.${r.key}`)}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator
+          style={styles.loader}
+          size="large"
+          color={Brand.primary}
+        />
+      ) : (
+        <FlatList
+          data={rides}
+          keyExtractor={(ride) => ride.id}
+          contentContainerStyle={styles.content}
+          renderItem={({ item }) => <RideRow ride={item} />}
+          onEndReached={() => {
+            if (hasNextPage && !isFetchingNextPage) void fetchNextPage();
+          }}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching && !isFetchingNextPage}
+              onRefresh={() => void refetch()}
+              tintColor={Brand.primary}
+            />
+          }
+          ListEmptyComponent={
+            error ? (
+              <Text style={styles.errorText}>{getErrorMessage(error)}</Text>
+            ) : (
+              <Text style={styles.emptyText}>{t("history.empty")}</Text>
+            )
+          }
+          ListFooterComponent={
+            isFetchingNextPage ? (
+              <ActivityIndicator
+                style={styles.footerLoader}
+                color={Brand.primary}
+              />
+            ) : null
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+function RideRow({ ride }: { ride: RideHistoryItem }) {
+  const { t } = useTranslation();
+  const cancelled = ride.status === "CANCELLED";
+
+  return (
+    <Pressable
+      style={styles.row}
+      onPress={() =>
+        router.push({ pathname: "/ride-history/[id]", params: { id: ride.id } })
+      }
+    >
+      <View style={styles.rowInfo}>
+        <Text style={styles.rowTitle} numberOfLines={1}>
+          {ride.dropoffMainText ?? ride.dropoffAddress}
+        </Text>
+        <Text style={styles.rowMeta} numberOfLines={1}>
+          {t("history.from", {
+            place: ride.pickupMainText ?? ride.pickupAddress,
+          })}
+        </Text>
+        <Text style={styles.rowMeta}>
+          {formatDateTime(
+            ride.completedAt ?? ride.cancelledAt ?? ride.requestedAt,
+          )}
+          {` · ${t(`earnings.methods.${ride.paymentMethod}`)}`}
+        </Text>
+        {cancelled && ride.cancellationReason ? (
+          <Text style={styles.rowCancelled} numberOfLines={1}>
+            {t(`history.cancellationReasons.${ride.cancellationReason}`)}
+          </Text>
+        ) : null}
+      </View>
+      <View style={styles.rowSide}>
+        <Text style={[styles.rowFare, cancelled && styles.rowFareCancelled]}>
+          {formatMoney(ride.fare, ride.currency)}
+        </Text>
+        {ride.rating !== null ? (
+          <View style={styles.ratingRow}>
+            <MaterialIcons name="star" size={14} color={Brand.primary} />
+            <Text style={styles.ratingText}>{ride.rating}</Text>
+          </View>
+        ) : null}
+        <Text
+          style={[
+            styles.statusBadge,
+            cancelled ? styles.statusCancelled : styles.statusCompleted,
+          ]}
+        >
+          {t(`history.status.${ride.status}`)}
+        </Text>
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  segment: {
+    flexDirection: "row",
+    marginHorizontal: Spacing.lg,
+    marginTop: Spacing.md,
+    padding: 4,
+    borderRadius: BorderRadius.md,
+    backgroundColor: colors.inputBackground,
+  },
+  segmentItem: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+  },
+  segmentActive: {
+    backgroundColor: Brand.primary,
+  },
+  segmentText: {
+    fontSize: FontSize.sm,
+    fontWeight: "600",
+    color: colors.textSecondary,
+  },
+  segmentTextActive: {
+    color: Brand.secondary,
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginHorizontal: Spacing.lg,
+    marginTop: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipActive: {
+    borderColor: Brand.primary,
+    backgroundColor: `${Brand.primary}20`,
+  },
+  chipText: {
+    fontSize: FontSize.xs,
+    fontWeight: "600",
+    color: colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Brand.secondary,
+  },
+  loader: {
+    marginTop: Spacing.xxl,
+  },
+  footerLoader: {
+    marginVertical: Spacing.md,
+  },
+  content: {
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  errorText: {
+    color: Brand.error,
+    fontSize: FontSize.sm,
+    textAlign: "center",
+    marginTop: Spacing.lg,
+  },
+  emptyText: {
+    fontSize: FontSize.sm,
+    color: colors.textMuted,
+    textAlign: "center",
+    marginTop: Spacing.lg,
+  },
+  row: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: colors.border,
+  },
+  rowInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: FontSize.md,
+    fontWeight: "600",
+    color: colors.text,
+  },
+  rowMeta: {
+    fontSize: FontSize.xs,
+    color: colors.textSecondary,
+  },
+  rowCancelled: {
+    fontSize: FontSize.xs,
+    color: Brand.error,
+  },
+  rowSide: {
+    alignItems: "flex-end",
+    gap: 4,
+  },
+  rowFare: {
+    fontSize: FontSize.md,
+    fontWeight: "700",
+    color: colors.text,
+  },
+  rowFareCancelled: {
+    color: colors.textMuted,
+    textDecorationLine: "line-through",
+  },
+  ratingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+  },
+  ratingText: {
+    fontSize: FontSize.xs,
+    fontWeight: "600",
+    color: colors.text,
+  },
+  statusBadge: {
+    fontSize: FontSize.xs,
+    fontWeight: "600",
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+    overflow: "hidden",
+  },
+  statusCompleted: {
+    color: Brand.success,
+    backgroundColor: `${Brand.success}15`,
+  },
+  statusCancelled: {
+    color: Brand.error,
+    backgroundColor: `${Brand.error}15`,
+  },
+});
@@ -32,6 +32,13 @@ const TABS_CONFIG = [
     icon: "home" as const,
     iconFilled: "home" as const,
   },
+  {
+    name: "earnings" as const,
+    href: "/(tabs)/earnings" as const,
+    labelKey: "tabs.earnings" as const,
+    icon: "bar-chart" as const,
+    iconFilled: "bar-chart" as const,
+  },
   {
     name: "explore" as const,
     href: "/(tabs)/explore" as const,
@@ -10,9 +10,22 @@ import {
   View,
 } from "react-native";
 import { MaterialIcons } from "@expo/vector-icons";
-import { useRideStore, type ActiveRide } from "@/lib/ride-store";
+import {
+  useRideStore,
+  type ActiveRide,
+  type ActiveRideStatus,
+} from "@/lib/ride-store";
 import { setActiveRide as setTrackerActiveRide } from "@/lib/location-tracker";
-import { cancelRide, getErrorMessage } from "@/lib/api";
+import {
+  cancelRide,
+  completeRide,
+  getErrorMessage,
+  markArrived,
+  markArriving,
+  markStopReached,
+  startRide,
+  type TripStepResult,
+} from "@/lib/api";
 import { Brand, BorderRadius, FontSize, Spacing } from "@/constants/theme";
 import { useTranslation } from "@/lib/i18n";
 import { showAlert } from "@/lib/alert-store";
@@ -25,10 +38,46 @@ interface Props {
 /** Height of the iOS native tab bar (points). */
 const IOS_TAB_BAR_HEIGHT = 50;
 
+/** The next trip step for each status: API call, button label, icon. */
+const NEXT_STEP: Record<
+  ActiveRideStatus,
+  {
+    action: (rideId: string) => Promise<TripStepResult>;
+    labelKey: string;
+    icon: keyof typeof MaterialIcons.glyphMap;
+  }
+> = {
+  ACCEPTED: {
+    action: markArriving,
+    labelKey: "activeRide.startHeadingToPickup",
+    icon: "directions-car",
+  },
+  DRIVER_ARRIVING: {
+    action: markArrived,
+    labelKey: "activeRide.markArrived",
+    icon: "place",
+  },
+  ARRIVED: {
+    action: startRide,
+    labelKey: "activeRide.startTrip",
+    icon: "play-arrow",
+  },
+  IN_PROGRESS: {
+    action: completeRide,
+    labelKey: "activeRide.completeTrip",
+    icon: "flag",
+  },
+};
+
 export default memo(function ActiveRideCard({ ride }: Props) {
   const { t } = useTranslation();
   const clearActiveRide = useRideStore((s) => s.clearActiveRide);
+  const setPendingRating = useRideStore((s) => s.setPendingRating);
+  const setActiveRideStatus = useRideStore((s) => s.setActiveRideStatus);
+  const setStopReached = useRideStore((s) => s.markStopReached);
+  const [reachingStopId, setReachingStopId] = useState<string | null>(null);
   const [isCancelling, setIsCancelling] = useState(false);
+  const [isAdvancing, setIsAdvancing] = useState(false);
   const [photoModalVisible, setPhotoModalVisible] = useState(false);
 
   const bottomOffset = useMemo(
@@ -38,15 +87,82 @@ export default memo(function ActiveRideCard({ ride }: Props) {
 
   const fareText = `${Math.round(ride.totalFare).toLocaleString()} ${ride.currency}`;
 
+  // Once the passenger is on board, navigation targets the next unreached
+  // stop, then the drop-off
+  const isOnTrip = ride.status === "IN_PROGRESS";
+  const nextStep = NEXT_STEP[ride.status];
+  const nextStop = isOnTrip
+    ? ride.stops.find((s) => !s.reachedAt) ?? null
+    : null;
+
   const handleNavigate = useCallback(() => {
+    const lat = nextStop?.lat ?? (isOnTrip ? ride.dropoffLat : ride.pickupLat);
+    const lng = nextStop?.lng ?? (isOnTrip ? ride.dropoffLng : ride.pickupLng);
     const url = Platform.select({
-      ios: `maps://app?daddr=${ride.pickupLat},${ride.pickupLng}`,
-      default: `google.navigation:q=${ride.pickupLat},${ride.pickupLng}`,
+      ios: `maps://app?daddr=${lat},${lng}`,
+      default: `google.navigation:q=${lat},${lng}`,
     });
     if (url) {
       void Linking.openURL(url);
     }
-  }, [ride.pickupLat, ride.pickupLng]);
+  }, [
+    nextStop,
+    isOnTrip,
+    ride.pickupLat,
+    ride.pickupLng,
+    ride.dropoffLat,
+    ride.dropoffLng,
+  ]);
+
+  const handleStopReached = useCallback(
+    async (stopId: string) => {
+      setReachingStopId(stopId);
+      try {
+        const result = await markStopReached(ride.rideId, stopId);
+        setStopReached(stopId, result.reachedAt);
+      } catch (err) {
+        showAlert({ title: "Error", message: getErrorMessage(err) });
+      } finally {
+        setReachingStopId(null);
+      }
+    },
+    [ride.rideId, setStopReached],
+  );
+
+  const handleNextStep = useCallback(async () => {
+    setIsAdvancing(true);
+    try {
+      const result = await nextStep.action(ride.rideId);
+      if (result.status === "COMPLETED") {
+        clearActiveRide();
+        void setTrackerActiveRide(null);
+        // The rating sheet doubles as the trip summary (final fare)
+        setPendingRating({
+          rideId: ride.rideId,
+          totalFare: result.totalFare,
+          currency: result.currency,
+          dropoffAddress: ride.dropoffAddress,
+          cashPending:
+            result.payment?.method === "CASH" &&
+            result.payment.status === "PENDING",
+          driverPayout: result.payment?.driverPayout ?? null,
+        });
+      } else {
+        setActiveRideStatus(result.status as ActiveRideStatus);
+      }
+    } catch (err) {
+      showAlert({ title: "Error", message: getErrorMessage(err) });
+    } finally {
+      setIsAdvancing(false);
+    }
+  }, [
+    nextStep,
+    ride.rideId,
+    ride.dropoffAddress,
+    clearActiveRide,
+    setActiveRideStatus,
+    setPendingRating,
+  ]);
 
   const handleCancel = useCallback(() => {
     showAlert({
@@ -84,6 +200,11 @@ export default memo(function ActiveRideCard({ ride }: Props) {
         },
       ]}
     >
+      {/* ── Trip step ── */}
+      <Text style={styles.statusText}>
+        {t(`activeRide.status.${ride.status}`)}
+      </Text>
+
       {/* ── Fare hero ── */}
       <View style={styles.fareRow}>
         <MaterialIcons name="payments" size={20} color={Brand.primary} />
@@ -111,6 +232,69 @@ export default memo(function ActiveRideCard({ ride }: Props) {
           </View>
         </View>
 
+        {/* Intermediate stops */}
+        {ride.stops.map((stop) => (
+          <View key={stop.id} style={styles.routeRow}>
+            <View style={styles.routeIconCol}>
+              <View
+                style={[
+                  styles.dot,
+                  stop.reachedAt
+                    ? styles.dotReached
+                    : stop.kind === "PICKUP"
+                      ? styles.dotPickup
+                      : stop.kind === "DROPOFF"
+                        ? styles.dotDropoff
+                        : styles.dotStop,
+                ]}
+              />
+              <View style={styles.routeLine} />
+            </View>
+            <View style={styles.routeTextCol}>
+              <Text style={styles.routeLabel}>
+                {stop.kind === "PICKUP" || stop.kind === "DROPOFF"
+                  ? t(
+                      stop.kind === "PICKUP"
+                        ? "activeRide.pickupPassenger"
+                        : "activeRide.dropoffPassenger",
+                      {
+                        name:
+                          stop.passengerName ??
+                          t("activeRide.sharedPassenger"),
+                      },
+                    )
+                  : t("activeRide.stopLabel", { number: stop.sequence })}
+              </Text>
+              <Text
+                style={[
+                  styles.routeValue,
+                  stop.reachedAt ? styles.routeValueReached : null,
+                ]}
+                numberOfLines={1}
+              >
+                {stop.mainText || stop.address}
+              </Text>
+            </View>
+            {stop.reachedAt ? (
+              <MaterialIcons name="check-circle" size={22} color={Brand.success} />
+            ) : isOnTrip ? (
+              <Pressable
+                style={styles.stopButton}
+                onPress={() => void handleStopReached(stop.id)}
+                disabled={reachingStopId !== null}
+              >
+                {reachingStopId === stop.id ? (
+                  <ActivityIndicator size="small" color={Brand.success} />
+                ) : (
+                  <Text style={styles.stopButtonText}>
+                    {t("activeRide.markStopReached")}
+                  </Text>
+                )}
+              </Pressable>
+            ) : null}
+          </View>
+        ))}
+
         {/* Dropoff */}
         <View style={styles.routeRow}>
           <View style={styles.routeIconCol}>
@@ -174,26 +358,45 @@ export default memo(function ActiveRideCard({ ride }: Props) {
 
       {/* ── Actions ── */}
       <View style={styles.actions}>
-        <Pressable
-          style={styles.cancelButton}
-          onPress={handleCancel}
-          disabled={isCancelling}
-        >
-          {isCancelling ? (
-            <ActivityIndicator size="small" color={Brand.error} />
-          ) : (
-            <MaterialIcons name="close" size={18} color={Brand.error} />
-          )}
-          <Text style={styles.cancelText}>{t("activeRide.cancel")}</Text>
-        </Pressable>
+        {!isOnTrip && (
+          <Pressable
+            style={styles.cancelButton}
+            onPress={handleCancel}
+            disabled={isCancelling || isAdvancing}
+          >
+            {isCancelling ? (
+              <ActivityIndicator size="small" color={Brand.error} />
+            ) : (
+              <MaterialIcons name="close" size={18} color={Brand.error} />
+            )}
+            <Text style={styles.cancelText}>{t("activeRide.cancel")}</Text>
+          </Pressable>
+        )}
 
         <Pressable style={styles.navigateButton} onPress={handleNavigate}>
           <MaterialIcons name="navigation" size={18} color="#fff" />
           <Text style={styles.navigateText}>
-            {t("activeRide.navigateToPickup")}
+            {nextStop
+              ? t("activeRide.navigateToStop", { number: nextStop.sequence })
+              : isOnTrip
+                ? t("activeRide.navigateToDropoff")
+                : t("activeRide.navigateToPickup")}
           </Text>
         </Pressable>
       </View>
+
+      <Pressable
+        style={[styles.stepButton, isAdvancing && styles.stepButtonDisabled]}
+        onPress={() => void handleNextStep()}
+        disabled={isAdvancing || isCancelling}
+      >
+        {isAdvancing ? (
+          <ActivityIndicator size="small" color={Brand.secondary} />
+        ) : (
+          <MaterialIcons name={nextStep.icon} size={20} color={Brand.secondary} />
+        )}
+        <Text style={styles.stepText}>{t(nextStep.labelKey)}</Text>
+      </Pressable>
     </View>
   );
 });
@@ -214,6 +417,16 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
   },
 
+  // Trip step
+  statusText: {
+    fontSize: FontSize.xs,
+    fontWeight: "700",
+    color: "#64748B",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginBottom: Spacing.xs,
+  },
+
   // Fare
   fareRow: {
     flexDirection: "row",
@@ -261,6 +474,12 @@ const styles = StyleSheet.create({
   dotDropoff: {
     backgroundColor: Brand.error,
   },
+  dotStop: {
+    backgroundColor: Brand.primary,
+  },
+  dotReached: {
+    backgroundColor: "#CBD5E1",
+  },
   routeLine: {
     width: 2,
     flex: 1,
@@ -284,6 +503,23 @@ const styles = StyleSheet.create({
     color: "#1A1A2E",
     fontWeight: "500",
   },
+  routeValueReached: {
+    color: "#94A3B8",
+    textDecorationLine: "line-through",
+  },
+  stopButton: {
+    alignSelf: "center",
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    borderColor: Brand.success,
+  },
+  stopButtonText: {
+    fontSize: FontSize.xs,
+    fontWeight: "600",
+    color: Brand.success,
+  },
 
   // Note
   noteRow: {
@@ -355,4 +591,22 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     color: "#fff",
   },
+  stepButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 14,
+    marginTop: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Brand.primary,
+  },
+  stepButtonDisabled: {
+    opacity: 0.6,
+  },
+  stepText: {
+    fontSize: FontSize.md,
+    fontWeight: "700",
+    color: Brand.secondary,
+  },
 });
@@ -0,0 +1,375 @@
+import React, { memo, useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import { MaterialIcons } from "@expo/vector-icons";
+import { useRideStore, type RideToRate } from "@/lib/ride-store";
+import { confirmCashCollected, getErrorMessage, rateRide } from "@/lib/api";
+import { Brand, BorderRadius, FontSize, Spacing } from "@/constants/theme";
+import { useTranslation } from "@/lib/i18n";
+
+interface Props {
+  ride: RideToRate;
+}
+
+/** Must match PASSENGER_RATING_TAGS on the API. */
+const POSITIVE_TAGS = ["polite", "on_time", "clear_pickup", "respectful"];
+const NEGATIVE_TAGS = ["late", "rude", "messy", "wrong_pickup"];
+
+/**
+ * Post-trip sheet: shows the final fare, asks the driver to confirm cash
+ * collection (cash rides) and lets them rate the passenger. Dismissing it
+ * ("Not now") skips rating for this ride.
+ */
+export default memo(function RatePassengerSheet({ ride }: Props) {
+  const { t } = useTranslation();
+  const setPendingRating = useRideStore((s) => s.setPendingRating);
+  const [stars, setStars] = useState(0);
+  const [tags, setTags] = useState<string[]>([]);
+  const [comment, setComment] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cashPending, setCashPending] = useState(ride.cashPending);
+  const [isConfirmingCash, setIsConfirmingCash] = useState(false);
+
+  // Low ratings show complaint tags, high ratings compliments
+  const tagOptions = stars > 0 && stars <= 3 ? NEGATIVE_TAGS : POSITIVE_TAGS;
+
+  const handleSelectStars = useCallback((value: number) => {
+    setStars(value);
+    const allowed = value <= 3 ? NEGATIVE_TAGS : POSITIVE_TAGS;
+    setTags((prev) => prev.filter((tag) => allowed.includes(tag)));
+  }, []);
+
+  const toggleTag = useCallback((tag: string) => {
+    setTags((prev) =>
+      prev.includes(tag) ? prev.filter((x) => x !== tag) : [...prev, tag],
+    );
+  }, []);
+
+  const dismiss = useCallback(
+    () => setPendingRating(null),
+    [setPendingRating],
+  );
+
+  const handleConfirmCash = useCallback(async () => {
+    setIsConfirmingCash(true);
+    setError(null);
+    try {
+      await confirmCashCollected(ride.rideId);
+      setCashPending(false);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsConfirmingCash(false);
+    }
+  }, [ride.rideId]);
+
+  const handleSubmit = useCallback(async () => {
+    if (stars === 0) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await rateRide(ride.rideId, {
+        rating: stars,
+        comment: comment.trim() || undefined,
+        tags,
+      });
+      setPendingRating(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [ride.rideId, stars, comment, tags, setPendingRating]);
+
+  const canSubmit = stars > 0 && !isSubmitting;
+
+  return (
+    <Modal visible transparent animationType="slide" onRequestClose={dismiss}>
+      <KeyboardAvoidingView
+        style={styles.backdrop}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={styles.sheet}>
+          {/* ── Trip summary ── */}
+          <MaterialIcons
+            name="check-circle"
+            size={40}
+            color={Brand.success}
+            style={styles.doneIcon}
+          />
+          <Text style={styles.title}>{t("activeRide.completedTitle")}</Text>
+          <Text style={styles.subtitle}>
+            {t("activeRide.completedMessage", {
+              fare: `${Math.round(ride.totalFare).toLocaleString()} ${ride.currency}`,
+            })}
+          </Text>
+          {ride.driverPayout !== null ? (
+            <Text style={styles.address}>
+              {t("activeRide.yourEarnings", {
+                amount: `${Math.round(ride.driverPayout).toLocaleString()} ${ride.currency}`,
+              })}
+            </Text>
+          ) : null}
+          <Text style={styles.address} numberOfLines={1}>
+            {ride.dropoffAddress}
+          </Text>
+
+          {/* ── Cash collection ── */}
+          {cashPending ? (
+            <Pressable
+              style={styles.cashButton}
+              onPress={() => void handleConfirmCash()}
+              disabled={isConfirmingCash}
+            >
+              {isConfirmingCash ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <MaterialIcons name="payments" size={18} color="#fff" />
+              )}
+              <Text style={styles.cashButtonText}>
+                {t("activeRide.confirmCashCollected")}
+              </Text>
+            </Pressable>
+          ) : ride.cashPending ? (
+            <View style={styles.cashDone}>
+              <MaterialIcons name="check" size={16} color={Brand.success} />
+              <Text style={styles.cashDoneText}>
+                {t("activeRide.cashCollected")}
+              </Text>
+            </View>
+          ) : null}
+
+          {/* ── Stars ── */}
+          <Text style={styles.prompt}>{t("rating.prompt")}</Text>
+          <View style={styles.starsRow}>
+            {[1, 2, 3, 4, 5].map((value) => (
+              <Pressable
+                key={value}
+                onPress={() => handleSelectStars(value)}
+                hitSlop={6}
+              >
+                <MaterialIcons
+                  name={value <= stars ? "star" : "star-border"}
+                  size={40}
+                  color={value <= stars ? Brand.primary : "#CBD5E1"}
+                />
+              </Pressable>
+            ))}
+          </View>
+
+          {/* ── Tags + comment ── */}
+          {stars > 0 ? (
+            <>
+              <View style={styles.tagsRow}>
+                {tagOptions.map((tag) => {
+                  const isActive = tags.includes(tag);
+                  return (
+                    <Pressable
+                      key={tag}
+                      onPress={() => toggleTag(tag)}
+                      style={[styles.tagPill, isActive && styles.tagPillActive]}
+                    >
+                      <Text
+                        style={[
+                          styles.tagText,
+                          isActive && styles.tagTextActive,
+                        ]}
+                      >
+                        {t(`rating.tags.${tag}`)}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <TextInput
+                style={styles.commentInput}
+                value={comment}
+                onChangeText={setComment}
+                placeholder={t("rating.commentPlaceholder")}
+                placeholderTextColor="#94A3B8"
+                multiline
+                maxLength={500}
+              />
+            </>
+          ) : null}
+
+          {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+          {/* ── Actions ── */}
+          <Pressable
+            style={[styles.submitButton, !canSubmit && styles.submitDisabled]}
+            onPress={() => void handleSubmit()}
+            disabled={!canSubmit}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color={Brand.secondary} />
+            ) : (
+              <Text style={styles.submitText}>{t("rating.submit")}</Text>
+            )}
+          </Pressable>
+          <Pressable
+            style={styles.skipButton}
+            onPress={dismiss}
+            disabled={isSubmitting}
+          >
+            <Text style={styles.skipText}>{t("rating.skip")}</Text>
+          </Pressable>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+});
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0,0,0,0.4)",
+  },
+  sheet: {
+    backgroundColor: "#fff",
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    padding: Spacing.lg,
+    paddingBottom: Platform.OS === "ios" ? Spacing.xl : Spacing.lg,
+  },
+  doneIcon: {
+    alignSelf: "center",
+    marginBottom: Spacing.xs,
+  },
+  title: {
+    fontSize: FontSize.xl,
+    fontWeight: "700",
+    color: Brand.secondary,
+    textAlign: "center",
+  },
+  subtitle: {
+    fontSize: FontSize.md,
+    color: "#64748B",
+    textAlign: "center",
+    marginTop: Spacing.xs,
+  },
+  address: {
+    fontSize: FontSize.sm,
+    color: "#94A3B8",
+    textAlign: "center",
+    marginTop: 2,
+  },
+  cashButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    height: 48,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Brand.success,
+    marginTop: Spacing.md,
+  },
+  cashButtonText: {
+    color: "#fff",
+    fontSize: FontSize.md,
+    fontWeight: "700",
+  },
+  cashDone: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.xs,
+    marginTop: Spacing.md,
+  },
+  cashDoneText: {
+    color: Brand.success,
+    fontSize: FontSize.sm,
+    fontWeight: "600",
+  },
+  prompt: {
+    fontSize: FontSize.md,
+    fontWeight: "600",
+    color: Brand.secondary,
+    textAlign: "center",
+    marginTop: Spacing.lg,
+  },
+  starsRow: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    marginVertical: Spacing.md,
+  },
+  tagsRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  tagPill: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: "#E2E8F0",
+    backgroundColor: "#F1F5F9",
+  },
+  tagPillActive: {
+    borderColor: Brand.primary,
+    backgroundColor: Brand.primary,
+  },
+  tagText: {
+    fontSize: FontSize.sm,
+    fontWeight: "500",
+    color: "#64748B",
+  },
+  tagTextActive: {
+    color: Brand.secondary,
+  },
+  commentInput: {
+    minHeight: 64,
+    borderWidth: 1,
+    borderColor: "#E2E8F0",
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    fontSize: FontSize.md,
+    color: Brand.secondary,
+    textAlignVertical: "top",
+    marginBottom: Spacing.md,
+  },
+  errorText: {
+    color: Brand.error,
+    fontSize: FontSize.sm,
+    textAlign: "center",
+    marginBottom: Spacing.sm,
+  },
+  submitButton: {
+    height: 52,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Brand.primary,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  submitDisabled: {
+    backgroundColor: "#E2E8F0",
+  },
+  submitText: {
+    color: Brand.secondary,
+    fontSize: FontSize.md,
+    fontWeight: "700",
+  },
+  skipButton: {
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+  },
+  skipText: {
+    fontSize: FontSize.md,
+    color: "#64748B",
+  },
+});
@@ -19,6 +19,7 @@ import {
 } from "@/lib/ride-store";
 import { setActiveRide as setTrackerActiveRide } from "@/lib/location-tracker";
 import { acceptRide, skipRide, acknowledgeRide, getErrorMessage } from "@/lib/api";
+import { refreshAblyAuth } from "@/lib/ably";
 import { useTranslation } from "@/lib/i18n";
 import { Brand, BorderRadius, FontSize, Spacing } from "@/constants/theme";
 import { showAlert } from "@/lib/alert-store";
@@ -129,9 +130,12 @@ export default function RideRequestModal({ request }: Props) {
 
     try {
       await acceptRide(request.rideId);
+      // Token capability now needs this ride's tracking channel
+      void refreshAblyAuth();
 
       // Build the ActiveRide from the incoming request data
       const ride: ActiveRide = {
+        status: "ACCEPTED",
         rideId: request.rideId,
         pickupAddress: request.pickupAddress,
         pickupLat: request.pickupLat,
@@ -145,6 +149,7 @@ export default function RideRequestModal({ request }: Props) {
         passengerNote: request.passengerNote,
         pickupPhotoUrl: request.pickupPhotoUrl,
         extraPassengers: request.extraPassengers ?? false,
+        stops: (request.stops ?? []).map((s) => ({ ...s, reachedAt: null })),
       };
 
       setActiveRide(ride);
@@ -236,6 +241,24 @@ export default function RideRequestModal({ request }: Props) {
             </View>
           </View>
 
+          {/* Intermediate stops */}
+          {request.stops?.map((stop) => (
+            <View key={stop.id} style={styles.routeRow}>
+              <View style={styles.routeIconCol}>
+                <View style={[styles.routeDot, styles.routeDotStop]} />
+                <View style={styles.routeLine} />
+              </View>
+              <View style={styles.routeTextCol}>
+                <Text style={styles.routeLabel}>
+                  {t("rideRequest.stop", { number: stop.sequence })}
+                </Text>
+                <Text style={styles.routeValue} numberOfLines={1}>
+                  {stop.mainText || stop.address}
+                </Text>
+              </View>
+            </View>
+          ))}
+
           {/* Dropoff */}
           <View style={styles.routeRow}>
             <View style={styles.routeIconCol}>
@@ -436,6 +459,9 @@ const styles = StyleSheet.create({
   routeDotDropoff: {
     backgroundColor: Brand.error,
   },
+  routeDotStop: {
+    backgroundColor: Brand.primary,
+  },
   routeLine: {
     width: 2,
     flex: 1,
@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { fetchDriverApplication } from "@/lib/api";
+
+export const DRIVER_APPLICATION_QUERY_KEY = ["driver-application"];
+
+/**
+ * The signed-in driver's application / approval status. Shared by the root
+ * layout (to route unapproved drivers away from the tabs) and the
+ * application screens.
+ */
+export function useDriverApplication(enabled = true) {
+  return useQuery({
+    queryKey: DRIVER_APPLICATION_QUERY_KEY,
+    queryFn: fetchDriverApplication,
+    enabled,
+  });
+}
@@ -0,0 +1,28 @@
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+
+import {
+  fetchRideHistory,
+  fetchRideHistoryDetail,
+  type RideHistoryFilters,
+} from "@/lib/api";
+
+export const RIDE_HISTORY_QUERY_KEY = ["ride-history"];
+
+/** The driver's finished rides, loaded page by page as the list scrolls. */
+export function useRideHistory(filters: RideHistoryFilters) {
+  return useInfiniteQuery({
+    queryKey: [...RIDE_HISTORY_QUERY_KEY, filters],
+    queryFn: ({ pageParam }) => fetchRideHistory(filters, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+}
+
+/** One ride from the history, with its route for the detail map. */
+export function useRideHistoryDetail(rideId: string) {
+  return useQuery({
+    queryKey: [...RIDE_HISTORY_QUERY_KEY, "detail", rideId],
+    queryFn: () => fetchRideHistoryDetail(rideId),
+    enabled: !!rideId,
+  });
+}
@@ -1,18 +1,54 @@
 import Ably from "ably";
+import { api } from "./api";
+import {
+  WsRealtimeClient,
+  type RealtimeClient,
+  type RealtimeConnectionStateChange,
+} from "./ws-realtime";
+
+export type {
+  RealtimeChannel,
+  RealtimeClient,
+  RealtimeConnection,
+  RealtimeConnectionStateChange,
+  RealtimeMessage,
+} from "./ws-realtime";
 
-const ABLY_KEY = process.env.EXPO_PUBLIC_ABLY_API_KEY ?? "";
 const CHANNEL_NAME = "drivers:available";
 
+// ── Transport ──────────────────────────────────────────────
+
+/**
+ * `ws` connects to the API's own WebSocket gateway — set it when the server
+ * runs with REALTIME_TRANSPORT=ws. Anything else uses Ably.
+ */
+const USE_WS_TRANSPORT = process.env.EXPO_PUBLIC_REALTIME_TRANSPORT === "ws";
+
+// ── Token auth ─────────────────────────────────────────────
+
+/**
+ * Fetch a short-lived, role-scoped token request from the API.
+ * Ably calls this on connect and again before each token expires.
+ */
+const authCallback: Ably.AuthOptions["authCallback"] = (_params, callback) => {
+  api
+    .get<Ably.TokenRequest>("/realtime/token")
+    .then((res) => callback(null, res.data))
+    .catch((err: unknown) =>
+      callback(err instanceof Error ? err.message : String(err), null),
+    );
+};
+
 // ── Singleton Ably client ──────────────────────────────────
-let ablyClient: Ably.Realtime | null = null;
+let ablyClient: RealtimeClient | null = null;
 let currentClientId: string | null = null;
 
 /**
- * Return (or lazily create) an Ably Realtime client bound to this userId.
- * If the userId changes (e.g. sign-out → sign-in as different user),
+ * Return (or lazily create) an Ably Realtime client bound to this userId
+ * (the local WebSocket client with the ws transport). If the userId changes (e.g. sign-out → sign-in as different user),
  * the old client is closed and a new one is created.
  */
-export function getAblyClient(userId: string): Ably.Realtime {
+export function getAblyClient(userId: string): RealtimeClient {
   if (ablyClient && currentClientId === userId) return ablyClient;
 
   // Tear down stale client for a different user
@@ -21,11 +57,13 @@ export function getAblyClient(userId: string): Ably.Realtime {
     ablyClient = null;
   }
 
-  ablyClient = new Ably.Realtime({
-    key: ABLY_KEY,
-    clientId: userId,
-    autoConnect: false, // We connect manually when driver goes online
-  });
+  ablyClient = USE_WS_TRANSPORT
+    ? new WsRealtimeClient()
+    : new Ably.Realtime({
+        authCallback,
+        clientId: userId,
+        autoConnect: false, // We connect manually when driver goes online
+      });
   currentClientId = userId;
   return ablyClient;
 }
@@ -42,6 +80,19 @@ export function closeAblyClient(): void {
   }
 }
 
+/**
+ * Request a fresh token so its capability picks up a newly accepted ride's
+ * tracking channel. No-op while disconnected — the next connect fetches one.
+ */
+export async function refreshAblyAuth(): Promise<void> {
+  if (!ablyClient || ablyClient.connection.state !== "connected") return;
+  try {
+    await ablyClient.auth.authorize();
+  } catch {
+    // Location still reaches the rider via the REST fallback
+  }
+}
+
 // ── Presence helpers ───────────────────────────────────────
 
 /**
@@ -59,7 +110,7 @@ export async function enterPresence(userId: string): Promise<void> {
         cleanup();
         resolve();
       };
-      const onFailed = (stateChange: Ably.ConnectionStateChange) => {
+      const onFailed = (stateChange: RealtimeConnectionStateChange) => {
         cleanup();
         reject(stateChange.reason ?? new Error("Ably connection failed"));
       };
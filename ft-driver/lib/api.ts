@@ -85,26 +85,87 @@ api.interceptors.response.use(
 // Ride History
 // =========================================================================
 
+export type RideHistoryStatus = "COMPLETED" | "CANCELLED";
+
+export interface RideHistoryFilters {
+  status?: RideHistoryStatus;
+  /** Inclusive start (ISO). */
+  from?: string;
+  /** Exclusive end (ISO). */
+  to?: string;
+}
+
+export interface ReceivedRating {
+  rating: number;
+  comment: string | null;
+  tags: string[];
+}
+
 export interface RideHistoryItem {
   id: string;
-  status: string;
+  status: RideHistoryStatus;
+  isShared: boolean;
+  passengerName: string;
   pickupAddress: string;
+  pickupMainText: string | null;
   pickupLat: number;
   pickupLng: number;
   dropoffAddress: string;
+  dropoffMainText: string | null;
   dropoffLat: number;
   dropoffLng: number;
-  totalFare: number;
+  distanceMeters: number | null;
+  durationSeconds: number | null;
+  fare: number;
+  driverPayout: number | null;
   currency: string;
+  paymentMethod: string;
+  paymentStatus: string | null;
+  /** Average stars received (shared rides can have several ratings). */
+  rating: number | null;
+  ratingsReceived: ReceivedRating[];
+  cancellationReason: string | null;
+  cancelledByDriver: boolean | null;
+  requestedAt: string;
+  startedAt: string | null;
   completedAt: string | null;
-  createdAt: string;
+  cancelledAt: string | null;
 }
 
-export async function fetchRideHistory(limit = 10): Promise<RideHistoryItem[]> {
-  const { data } = await api.get<{ rides: RideHistoryItem[] }>(
-    `/user/history?limit=${limit}`,
-  );
-  return data.rides ?? [];
+export interface RideHistoryPage {
+  rides: RideHistoryItem[];
+  nextCursor: string | null;
+}
+
+export interface RideHistoryDetail extends RideHistoryItem {
+  polyline: string | null;
+  stops: {
+    sequence: number;
+    kind: string;
+    address: string;
+    mainText: string | null;
+    lat: number;
+    lng: number;
+    reachedAt: string | null;
+  }[];
+}
+
+/** The driver's finished rides, newest first, one page at a time. */
+export async function fetchRideHistory(
+  filters: RideHistoryFilters,
+  cursor?: string,
+): Promise<RideHistoryPage> {
+  const { data } = await api.get<RideHistoryPage>("/driver/rides", {
+    params: { ...filters, cursor, limit: 20 },
+  });
+  return data;
+}
+
+export async function fetchRideHistoryDetail(
+  rideId: string,
+): Promise<RideHistoryDetail> {
+  const { data } = await api.get<RideHistoryDetail>(`/driver/rides/${rideId}`);
+  return data;
 }
 
 // =========================================================================
@@ -155,8 +216,9 @@ export interface RouteQuoteResult {
   durationMinutes: number;
   encodedPolyline: string;
   speedReadingIntervals: SpeedReadingInterval[];
-  standardFareMmkt: number;
-  plusFareMmkt: number;
+  /** Null when that tier isn't offered. */
+  standardFareMmkt: number | null;
+  plusFareMmkt: number | null;
   currency: string;
   routeQuoteId: string;
 }
@@ -267,6 +329,169 @@ export async function cancelRide(rideId: string): Promise<void> {
   await api.post(`/rides/${rideId}/cancel`, { reason: 'DRIVER_CANCELLED' });
 }
 
+// =========================================================================
+// Trip Lifecycle
+// =========================================================================
+
+export interface RidePayment {
+  method: "CASH" | "CARD" | "WALLET";
+  status: "PENDING" | "COMPLETED" | "FAILED" | "REFUNDED";
+  amount: number;
+  driverPayout: number;
+  platformFee: number;
+  currency: string;
+}
+
+export interface TripStepResult {
+  id: string;
+  status: string;
+  arrivedAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  totalFare: number;
+  currency: string;
+  /** Set once the ride is COMPLETED. */
+  payment: RidePayment | null;
+}
+
+/** Driver is heading to the pickup point (ACCEPTED → DRIVER_ARRIVING). */
+export async function markArriving(rideId: string): Promise<TripStepResult> {
+  const { data } = await api.post<TripStepResult>(`/rides/${rideId}/arriving`);
+  return data;
+}
+
+/** Driver has reached the pickup point (→ ARRIVED). */
+export async function markArrived(rideId: string): Promise<TripStepResult> {
+  const { data } = await api.post<TripStepResult>(`/rides/${rideId}/arrived`);
+  return data;
+}
+
+/** Passenger is on board (ARRIVED → IN_PROGRESS). */
+export async function startRide(rideId: string): Promise<TripStepResult> {
+  const { data } = await api.post<TripStepResult>(`/rides/${rideId}/start`);
+  return data;
+}
+
+/**
+ * Passenger dropped off (IN_PROGRESS → COMPLETED).
+ * The backend sets the driver back to ONLINE.
+ */
+export async function completeRide(rideId: string): Promise<TripStepResult> {
+  const { data } = await api.post<TripStepResult>(`/rides/${rideId}/complete`);
+  return data;
+}
+
+/** Confirm the passenger paid the fare of a completed cash ride. */
+export async function confirmCashCollected(
+  rideId: string,
+): Promise<RidePayment> {
+  const { data } = await api.post<RidePayment>(
+    `/rides/${rideId}/payment/cash-collected`,
+  );
+  return data;
+}
+
+/** Mark an intermediate stop as reached (only while IN_PROGRESS). */
+export async function markStopReached(
+  rideId: string,
+  stopId: string,
+): Promise<{ id: string; reachedAt: string }> {
+  const { data } = await api.post<{ id: string; reachedAt: string }>(
+    `/rides/${rideId}/stops/${stopId}/reached`,
+  );
+  return data;
+}
+
+// =========================================================================
+// Passenger Ratings
+// =========================================================================
+
+export interface PendingRating {
+  rideId: string;
+  rateeRole: "DRIVER" | "PASSENGER";
+  rateeName: string | null;
+  totalFare: number;
+  currency: string;
+  dropoffAddress: string;
+  completedAt: string;
+  cashPending: boolean;
+  driverPayout: number | null;
+}
+
+/** Latest completed ride the driver hasn't rated the passenger for yet. */
+export async function fetchPendingRating(): Promise<PendingRating | null> {
+  const { data } = await api.get<PendingRating | null>("/rides/pending-rating");
+  return data || null;
+}
+
+/** Rate the passenger of a completed ride (1-5 stars, optional tags). */
+export async function rateRide(
+  rideId: string,
+  payload: { rating: number; comment?: string; tags?: string[] },
+): Promise<void> {
+  await api.post(`/rides/${rideId}/rating`, payload);
+}
+
+// =========================================================================
+// Earnings
+// =========================================================================
+
+export type EarningsPeriod = "day" | "week" | "month";
+
+export interface EarningsBucket {
+  startsAt: string;
+  earnings: number;
+  trips: number;
+}
+
+export interface EarningsLineItem {
+  id: string;
+  type: string;
+  description: string | null;
+  amount: number;
+  currency: string;
+  createdAt: string;
+  ride: {
+    id: string;
+    pickupAddress: string;
+    dropoffAddress: string;
+    completedAt: string | null;
+    grossFare: number | null;
+    platformFee: number | null;
+    paymentMethod: string | null;
+    paymentStatus: string | null;
+  } | null;
+}
+
+export interface EarningsSummary {
+  period: EarningsPeriod;
+  from: string;
+  to: string;
+  currency: string;
+  totals: {
+    earnings: number;
+    grossFares: number;
+    platformFees: number;
+    trips: number;
+    onlineSeconds: number;
+    onlineHours: number;
+    perTrip: number;
+    perOnlineHour: number;
+  };
+  buckets: EarningsBucket[];
+  items: EarningsLineItem[];
+}
+
+/** Totals, chart buckets and per-ride line items for the current period. */
+export async function fetchEarnings(
+  period: EarningsPeriod,
+): Promise<EarningsSummary> {
+  const { data } = await api.get<EarningsSummary>("/driver/earnings", {
+    params: { period },
+  });
+  return data;
+}
+
 // =========================================================================
 // Driver Login Validation
 // =========================================================================
@@ -280,3 +505,147 @@ export async function cancelRide(rideId: string): Promise<void> {
 export async function validateDriverLogin(email: string): Promise<void> {
   await api.post("/driver/validate-login", { email: email.trim().toLowerCase() });
 }
+
+/**
+ * Self-register as a driver applicant. Creates a PENDING driver account;
+ * the applicant then signs in with an email OTP to finish their application.
+ */
+export async function registerDriver(data: {
+  name: string;
+  email: string;
+  phone?: string;
+}): Promise<void> {
+  await api.post("/driver/register", {
+    name: data.name.trim(),
+    email: data.email.trim().toLowerCase(),
+    phone: data.phone?.trim() || undefined,
+  });
+}
+
+// =========================================================================
+// Driver Application
+// =========================================================================
+
+export type ApprovalStatus = "PENDING" | "APPROVED" | "REJECTED" | "SUSPENDED";
+
+export type DriverDocumentType =
+  | "NRC_FRONT"
+  | "NRC_BACK"
+  | "LICENSE_FRONT"
+  | "LICENSE_BACK"
+  | "VEHICLE_REGISTRATION"
+  | "VEHICLE_INSURANCE"
+  | "VEHICLE_FRONT"
+  | "VEHICLE_BACK"
+  | "VEHICLE_LEFT"
+  | "VEHICLE_RIGHT";
+
+export interface ApplicationDocument {
+  type: DriverDocumentType;
+  imageUrl: string;
+  status: "PENDING" | "APPROVED" | "REJECTED";
+  /** Set when an admin rejected the photo; it must be retaken. */
+  rejectionReason: string | null;
+}
+
+export interface ApplicationVehicle {
+  type: string;
+  make: string;
+  model: string;
+  year: number;
+  color: string;
+  plateNumber: string;
+  capacity: number;
+  registrationNumber: string | null;
+  registrationExpiry: string | null;
+  insuranceNumber: string | null;
+  insuranceExpiry: string | null;
+}
+
+export interface DriverApplication {
+  approvalStatus: ApprovalStatus;
+  rejectionReason: string | null;
+  suspensionReason: string | null;
+  /** Null until the applicant submits for review. */
+  submittedAt: string | null;
+  licenseNumber: string | null;
+  licenseExpiry: string | null;
+  nationalId: string | null;
+  vehicle: ApplicationVehicle | null;
+  documents: ApplicationDocument[];
+  /**
+   * Details and document types still required (or rejected) before the
+   * application can be submitted.
+   */
+  missing: string[];
+}
+
+export interface ApplicationDetailsPayload {
+  licenseNumber?: string;
+  licenseExpiry?: string;
+  nationalId?: string;
+  vehicle?: {
+    type: string;
+    make: string;
+    model: string;
+    year: number;
+    color: string;
+    plateNumber: string;
+    capacity?: number;
+    registrationNumber?: string;
+    registrationExpiry?: string;
+    insuranceNumber?: string;
+    insuranceExpiry?: string;
+  };
+}
+
+export async function fetchDriverApplication(): Promise<DriverApplication> {
+  const { data } = await api.get<DriverApplication>("/driver/application");
+  return data;
+}
+
+export async function updateDriverApplication(
+  payload: ApplicationDetailsPayload,
+): Promise<DriverApplication> {
+  const { data } = await api.put<DriverApplication>(
+    "/driver/application",
+    payload,
+  );
+  return data;
+}
+
+/** Upload a document photo; optimized server-side and stored on Vercel Blob. */
+export async function uploadApplicationDocument(
+  type: DriverDocumentType,
+  uri: string,
+): Promise<void> {
+  const formData = new FormData();
+
+  const filename = uri.split("/").pop() ?? "document.jpg";
+  const ext = filename.split(".").pop()?.toLowerCase();
+  const mimeType =
+    ext === "png"
+      ? "image/png"
+      : ext === "webp"
+        ? "image/webp"
+        : "image/jpeg";
+
+  formData.append("file", {
+    uri,
+    name: filename,
+    type: mimeType,
+  } as unknown as Blob);
+  formData.append("type", type);
+
+  await api.post("/driver/application/documents", formData, {
+    headers: { "Content-Type": "multipart/form-data" },
+    timeout: 30_000,
+  });
+}
+
+export async function submitDriverApplication(): Promise<DriverApplication> {
+  const { data } = await api.post<DriverApplication>(
+    "/driver/application/submit",
+  );
+  return data;
+}
@@ -1,16 +1,26 @@
-import type Ably from "ably";
-import { getAblyClient } from "./ably";
-import { useRideStore, type IncomingRideRequest } from "./ride-store";
+import {
+  getAblyClient,
+  type RealtimeChannel,
+  type RealtimeConnectionStateChange,
+  type RealtimeMessage,
+} from "./ably";
+import { showAlert } from "./alert-store";
+import { t } from "./i18n";
+import {
+  useRideStore,
+  type ActiveRideStop,
+  type IncomingRideRequest,
+} from "./ride-store";
 
 /**
  * Private Ably channel listener for ride dispatch events.
  *
  * When the driver is online, subscribes to `driver:private:<userId>`.
- * The backend publishes `new_ride_request` and `ride_cancelled` events here.
+ * The backend publishes `new_ride_request`, `ride_cancelled`, for shared
+ * rides `ride_stops_updated`, and `document_expiry_warning` events here.
  */
 
-let subscribedChannel: Ably.RealtimeChannel | null = null;
-let subscribedUserId: string | null = null;
+let subscribedChannel: RealtimeChannel | null = null;
 
 /**
  * Subscribe to the driver's private channel for incoming ride requests.
@@ -37,7 +47,7 @@ export async function subscribeToPrivateChannel(
         cleanup();
         resolve();
       };
-      const onFailed = (sc: Ably.ConnectionStateChange) => {
+      const onFailed = (sc: RealtimeConnectionStateChange) => {
         cleanup();
         reject(sc.reason ?? new Error("Ably connection failed"));
       };
@@ -63,7 +73,7 @@ export async function subscribeToPrivateChannel(
   );
 
   // ── 3. Subscribe to incoming ride requests ──
-  channel.subscribe("new_ride_request", (message: Ably.Message) => {
+  channel.subscribe("new_ride_request", (message: RealtimeMessage) => {
     console.log(
       "[RideListener] new_ride_request received:",
       JSON.stringify(message.data),
@@ -81,7 +91,7 @@ export async function subscribeToPrivateChannel(
   });
 
   // ── 4. Subscribe to ride cancelled (another driver accepted or TTL expired) ──
-  channel.subscribe("ride_cancelled", (message: Ably.Message) => {
+  channel.subscribe("ride_cancelled", (message: RealtimeMessage) => {
     console.log(
       "[RideListener] ride_cancelled received:",
       JSON.stringify(message.data),
@@ -94,8 +104,61 @@ export async function subscribeToPrivateChannel(
     useRideStore.getState().removeRequest(data.rideId);
   });
 
+  // ── 5. Subscribe to shared-ride stop changes (a rider joined or left) ──
+  channel.subscribe("ride_stops_updated", (message: RealtimeMessage) => {
+    console.log(
+      "[RideListener] ride_stops_updated received:",
+      JSON.stringify(message.data),
+    );
+
+    const data = message.data as
+      | { rideId: string; totalFare: number; stops: ActiveRideStop[] }
+      | undefined;
+    if (!data?.rideId) return;
+
+    useRideStore
+      .getState()
+      .updateActiveRideStops(data.rideId, data.stops, data.totalFare);
+  });
+
+  // ── 6. Subscribe to document expiry warnings / suspension ──
+  channel.subscribe("document_expiry_warning", (message: RealtimeMessage) => {
+    const data = message.data as
+      | {
+          suspended: boolean;
+          documents: { document: string; daysLeft: number }[];
+        }
+      | undefined;
+    if (!data?.documents?.length) return;
+
+    const lines = data.documents.map((d) =>
+      d.daysLeft > 0
+        ? t("documents.expiresIn", {
+            document: t(`documents.types.${d.document}`),
+            count: d.daysLeft,
+          })
+        : t("documents.expired", {
+            document: t(`documents.types.${d.document}`),
+          }),
+    );
+    showAlert({
+      variant: data.suspended ? "error" : "warning",
+      title: t(
+        data.suspended ? "documents.suspendedTitle" : "documents.expiringTitle",
+      ),
+      message: [
+        ...lines,
+        "",
+        t(
+          data.suspended
+            ? "documents.suspendedMessage"
+            : "documents.expiringMessage",
+        ),
+      ].join("\n"),
+    });
+  });
+
   subscribedChannel = channel;
-  subscribedUserId = userId;
 
   console.log(`[RideListener] ✅ Fully subscribed to ${channelName}`);
 }
@@ -120,7 +183,6 @@ export async function unsubscribeFromPrivateChannel(): Promise<void> {
   }
 
   subscribedChannel = null;
-  subscribedUserId = null;
 
   console.log(`[RideListener] Unsubscribed from ${channelName}`);
 }
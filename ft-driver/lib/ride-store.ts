@@ -1,5 +1,27 @@
 import { create } from "zustand";
 
+/** WAYPOINT stops belong to the lead rider; PICKUP/DROPOFF to a shared rider. */
+export type RideStopKind = "WAYPOINT" | "PICKUP" | "DROPOFF";
+
+/** Intermediate stop between pickup and dropoff, in route order. */
+export interface RideStop {
+  id: string;
+  sequence: number;
+  kind?: RideStopKind;
+  /** Shared rider this PICKUP / DROPOFF stop is for. */
+  passengerId?: string | null;
+  passengerName?: string | null;
+  address: string;
+  mainText: string | null;
+  lat: number;
+  lng: number;
+}
+
+/** A stop on the active ride — `reachedAt` is set once the driver marks it. */
+export interface ActiveRideStop extends RideStop {
+  reachedAt: string | null;
+}
+
 /** Shape of the incoming ride request payload from Ably. */
 export interface IncomingRideRequest {
   rideId: string;
@@ -15,10 +37,21 @@ export interface IncomingRideRequest {
   passengerNote: string | null;
   pickupPhotoUrl: string | null;
   extraPassengers: boolean;
+  /** Intermediate stops (empty for single-destination rides). */
+  stops: RideStop[];
 }
 
+/** Trip steps the driver walks through after accepting a ride. */
+export type ActiveRideStatus =
+  | "ACCEPTED"
+  | "DRIVER_ARRIVING"
+  | "ARRIVED"
+  | "IN_PROGRESS";
+
 /** Full details of the ride the driver has accepted. */
 export interface ActiveRide {
+  /** Current trip step — drives the primary action on the ride card. */
+  status: ActiveRideStatus;
   rideId: string;
   pickupAddress: string;
   pickupLat: number;
@@ -32,6 +65,19 @@ export interface ActiveRide {
   passengerNote: string | null;
   pickupPhotoUrl: string | null;
   extraPassengers: boolean;
+  stops: ActiveRideStop[];
+}
+
+/** A completed ride the driver can still rate the passenger for. */
+export interface RideToRate {
+  rideId: string;
+  totalFare: number;
+  currency: string;
+  dropoffAddress: string;
+  /** Cash ride whose collection the driver hasn't confirmed yet. */
+  cashPending: boolean;
+  /** Driver's share after the platform commission, if known. */
+  driverPayout: number | null;
 }
 
 interface RideState {
@@ -45,8 +91,22 @@ interface RideState {
   requestQueue: IncomingRideRequest[];
   /** Set the active ride with full details. */
   setActiveRide: (ride: ActiveRide) => void;
+  /** Move the active ride to the next trip step. */
+  setActiveRideStatus: (status: ActiveRideStatus) => void;
+  /** Record that the driver reached an intermediate stop. */
+  markStopReached: (stopId: string, reachedAt: string) => void;
+  /** Replace the stops and fare after a shared rider joins or leaves. */
+  updateActiveRideStops: (
+    rideId: string,
+    stops: ActiveRideStop[],
+    totalFare: number,
+  ) => void;
   /** Clear the active ride. */
   clearActiveRide: () => void;
+  /** Completed ride awaiting the driver's passenger rating, or null. */
+  pendingRating: RideToRate | null;
+  /** Show (or dismiss, with null) the post-trip rating sheet. */
+  setPendingRating: (ride: RideToRate | null) => void;
   /** Set an incoming ride request (from Ably private channel). */
   setIncomingRequest: (req: IncomingRideRequest | null) => void;
   /**
@@ -73,12 +133,40 @@ export const useRideStore = create<RideState>()((set, get) => ({
   activeRideId: null,
   incomingRequest: null,
   requestQueue: [],
+  pendingRating: null,
 
   setActiveRide: (ride) =>
     set({ activeRide: ride, activeRideId: ride.rideId }),
 
+  setActiveRideStatus: (status) => {
+    const { activeRide } = get();
+    if (!activeRide) return;
+    set({ activeRide: { ...activeRide, status } });
+  },
+
+  markStopReached: (stopId, reachedAt) => {
+    const { activeRide } = get();
+    if (!activeRide) return;
+    set({
+      activeRide: {
+        ...activeRide,
+        stops: activeRide.stops.map((s) =>
+          s.id === stopId ? { ...s, reachedAt } : s,
+        ),
+      },
+    });
+  },
+
+  updateActiveRideStops: (rideId, stops, totalFare) => {
+    const { activeRide } = get();
+    if (activeRide?.rideId !== rideId) return;
+    set({ activeRide: { ...activeRide, stops, totalFare } });
+  },
+
   clearActiveRide: () => set({ activeRide: null, activeRideId: null }),
 
+  setPendingRating: (ride) => set({ pendingRating: ride }),
+
   setIncomingRequest: (req) => set({ incomingRequest: req }),
 
   enqueueRequest: (req) => {
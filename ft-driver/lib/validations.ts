@@ -12,3 +12,18 @@ export function createSignInSchema(t: Translate) {
 }
 
 export type SignInFormValues = z.infer<ReturnType<typeof createSignInSchema>>;
+
+/**
+ * Driver self-registration schema. Phone is optional.
+ */
+export function createRegisterSchema(t: Translate) {
+  return z.object({
+    name: z.string().trim().min(1, t("auth.errors.nameRequired")),
+    email: z.email(t("auth.errors.emailInvalid")),
+    phone: z.string().trim().optional(),
+  });
+}
+
+export type RegisterFormValues = z.infer<
+  ReturnType<typeof createRegisterSchema>
+>;
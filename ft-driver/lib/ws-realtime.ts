@@ -0,0 +1,405 @@
+import type Ably from "ably";
+import { api, getApiBaseUrl, getSessionTokenForApi } from "./api";
+
+/**
+ * Client for the API's local WebSocket gateway, used when the server runs
+ * with REALTIME_TRANSPORT=ws (offline development, integration tests).
+ *
+ * Mirrors the slice of the Ably client the app uses — connection states,
+ * channel attach / subscribe / publish and presence — so the listeners run
+ * unchanged on either transport. Frames follow the gateway's JSON protocol
+ * (ft-api `src/realtime/ws-realtime.gateway.ts`).
+ *
+ * ft-user and ft-driver keep identical copies of this file.
+ */
+
+// ── Client surface shared by both transports ───────────────
+
+export interface RealtimeMessage {
+  name?: string;
+  data?: unknown;
+}
+
+export interface RealtimeConnectionStateChange {
+  current: Ably.ConnectionState;
+  previous: Ably.ConnectionState;
+  reason?: Error;
+}
+
+export interface RealtimeConnection {
+  readonly state: Ably.ConnectionState;
+  on(listener: (change: RealtimeConnectionStateChange) => void): void;
+  once(
+    event: Ably.ConnectionEvent,
+    listener: (change: RealtimeConnectionStateChange) => void,
+  ): void;
+  off(
+    event: Ably.ConnectionEvent,
+    listener: (change: RealtimeConnectionStateChange) => void,
+  ): void;
+  off(listener: (change: RealtimeConnectionStateChange) => void): void;
+}
+
+export interface RealtimeChannel {
+  readonly name: string;
+  readonly state: Ably.ChannelState;
+  readonly presence: {
+    enter(): Promise<void>;
+    leave(): Promise<void>;
+  };
+  attach(): Promise<unknown>;
+  detach(): Promise<void>;
+  subscribe(
+    event: string,
+    listener: (message: RealtimeMessage) => void,
+  ): unknown;
+  unsubscribe(event?: string): void;
+  publish(event: string, data?: unknown): Promise<unknown>;
+}
+
+/** The parts of `Ably.Realtime` the app uses; {@link WsRealtimeClient} has them too. */
+export interface RealtimeClient {
+  readonly connection: RealtimeConnection;
+  readonly channels: { get(name: string): RealtimeChannel };
+  readonly auth: { authorize(): Promise<unknown> };
+  connect(): void;
+  close(): void;
+}
+
+/** Delay before reconnecting after the socket drops. */
+const RECONNECT_MS = 5_000;
+
+/** How long to wait for the gateway to acknowledge a frame. */
+const ACK_TIMEOUT_MS = 10_000;
+
+// ── Wire protocol ──────────────────────────────────────────
+
+type ClientFrame =
+  | { type: "subscribe" | "unsubscribe"; channel: string }
+  | { type: "presence.enter" | "presence.leave"; channel: string }
+  | { type: "publish"; channel: string; event: string; data?: unknown }
+  | { type: "authorize" };
+
+type ServerFrame =
+  | { type: "connected"; clientId: string }
+  | { type: "message"; channel: string; event: string; data: unknown }
+  | { type: "ok"; ref: ClientFrame["type"]; channel?: string }
+  | {
+      type: "error";
+      message: string;
+      ref?: ClientFrame["type"];
+      channel?: string;
+    }
+  | { type: "pong" };
+
+/** `GET /realtime/token` response while the server runs the ws transport. */
+interface WsConnectionInfo {
+  transport: "ws";
+  path: string;
+  clientId: string;
+}
+
+/** Acks carry the frame type and channel they answer. */
+function ackKey(ref: ClientFrame["type"], channel?: string): string {
+  return `${ref}:${channel ?? ""}`;
+}
+
+// ── Connection state ───────────────────────────────────────
+
+type StateListener = (change: RealtimeConnectionStateChange) => void;
+
+class WsConnection implements RealtimeConnection {
+  state: Ably.ConnectionState = "initialized";
+  private readonly listeners = new Set<{
+    event: Ably.ConnectionEvent | null;
+    listener: StateListener;
+    once: boolean;
+  }>();
+
+  on(listener: StateListener): void {
+    this.listeners.add({ event: null, listener, once: false });
+  }
+
+  once(event: Ably.ConnectionEvent, listener: StateListener): void {
+    this.listeners.add({ event, listener, once: true });
+  }
+
+  off(
+    eventOrListener: Ably.ConnectionEvent | StateListener,
+    listener?: StateListener,
+  ): void {
+    const target =
+      typeof eventOrListener === "function" ? eventOrListener : listener;
+    for (const entry of this.listeners) {
+      if (entry.listener === target) this.listeners.delete(entry);
+    }
+  }
+
+  /** Move to a new state and notify listeners. */
+  setState(current: Ably.ConnectionState, reason?: Error): void {
+    const change = { current, previous: this.state, reason };
+    this.state = current;
+    for (const entry of [...this.listeners]) {
+      if (entry.event && entry.event !== current) continue;
+      if (entry.once) this.listeners.delete(entry);
+      entry.listener(change);
+    }
+  }
+}
+
+// ── Channels ───────────────────────────────────────────────
+
+type MessageListener = (message: RealtimeMessage) => void;
+
+class WsChannel implements RealtimeChannel {
+  state: Ably.ChannelState = "initialized";
+  /** In presence — entered again after a reconnect. */
+  present = false;
+  readonly presence = {
+    enter: () => this.setPresence(true),
+    leave: () => this.setPresence(false),
+  };
+  private readonly listeners = new Map<string, Set<MessageListener>>();
+
+  constructor(
+    readonly name: string,
+    private readonly client: WsRealtimeClient,
+  ) {}
+
+  async attach(): Promise<void> {
+    if (this.state === "attached") return;
+    this.state = "attaching";
+    try {
+      await this.client.request({ type: "subscribe", channel: this.name });
+      this.state = "attached";
+    } catch (err) {
+      this.state = "failed";
+      throw err;
+    }
+  }
+
+  async detach(): Promise<void> {
+    const wasAttached = this.state === "attached";
+    this.state = "detaching";
+    try {
+      // A dropped socket already lost its subscriptions on the server
+      if (wasAttached && this.client.connection.state === "connected") {
+        await this.client.request({ type: "unsubscribe", channel: this.name });
+      }
+    } finally {
+      this.state = "detached";
+    }
+  }
+
+  subscribe(event: string, listener: MessageListener): void {
+    const listeners = this.listeners.get(event) ?? new Set<MessageListener>();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+  }
+
+  unsubscribe(event?: string): void {
+    if (event) this.listeners.delete(event);
+    else this.listeners.clear();
+  }
+
+  publish(event: string, data?: unknown): Promise<void> {
+    return this.client.request({
+      type: "publish",
+      channel: this.name,
+      event,
+      data,
+    });
+  }
+
+  /** Hand an incoming message to this channel's subscribers. */
+  deliver(event: string, data: unknown): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      listener({ name: event, data });
+    }
+  }
+
+  private async setPresence(present: boolean): Promise<void> {
+    if (present || this.client.connection.state === "connected") {
+      await this.client.request({
+        type: present ? "presence.enter" : "presence.leave",
+        channel: this.name,
+      });
+    }
+    this.present = present;
+  }
+}
+
+// ── Client ─────────────────────────────────────────────────
+
+export class WsRealtimeClient implements RealtimeClient {
+  readonly connection = new WsConnection();
+  readonly channels = {
+    get: (name: string): WsChannel => {
+      let channel = this.channelsByName.get(name);
+      if (!channel) {
+        channel = new WsChannel(name, this);
+        this.channelsByName.set(name, channel);
+      }
+      return channel;
+    },
+  };
+  readonly auth = {
+    /** Re-read the capability, e.g. after a ride is accepted. */
+    authorize: () => this.request({ type: "authorize" }),
+  };
+
+  private socket: WebSocket | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly channelsByName = new Map<string, WsChannel>();
+  /** Frames awaiting an ack, oldest first per key. */
+  private readonly pending = new Map<string, ((err?: Error) => void)[]>();
+
+  connect(): void {
+    const { state } = this.connection;
+    if (state === "connected" || state === "connecting") return;
+    this.clearReconnect();
+    this.connection.setState("connecting");
+    void this.open();
+  }
+
+  close(): void {
+    this.clearReconnect();
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.failPending(new Error("Realtime connection closed"));
+    this.connection.setState("closed");
+  }
+
+  /** Send a frame and wait for the gateway to acknowledge it. */
+  request(frame: ClientFrame): Promise<void> {
+    const socket = this.socket;
+    if (!socket || this.connection.state !== "connected") {
+      return Promise.reject(new Error("Realtime connection is not open"));
+    }
+
+    const key = ackKey(frame.type, "channel" in frame ? frame.channel : "");
+    return new Promise<void>((resolve, reject) => {
+      const settle = (err?: Error) => {
+        clearTimeout(timer);
+        const queue = this.pending.get(key) ?? [];
+        const i = queue.indexOf(settle);
+        if (i >= 0) queue.splice(i, 1);
+        if (err) reject(err);
+        else resolve();
+      };
+      const timer = setTimeout(
+        () => settle(new Error(`No reply to ${frame.type}`)),
+        ACK_TIMEOUT_MS,
+      );
+      this.pending.set(key, [...(this.pending.get(key) ?? []), settle]);
+      socket.send(JSON.stringify(frame));
+    });
+  }
+
+  private async open(): Promise<void> {
+    let url: string;
+    try {
+      const { data } = await api.get<WsConnectionInfo | Ably.TokenRequest>(
+        "/realtime/token",
+      );
+      if (!("transport" in data) || data.transport !== "ws") {
+        this.connection.setState(
+          "failed",
+          new Error("The API is not running the ws realtime transport"),
+        );
+        return;
+      }
+      const token = (await getSessionTokenForApi()) ?? "";
+      const base = getApiBaseUrl().replace(/^http/, "ws");
+      url = `${base}${data.path}?token=${encodeURIComponent(token)}`;
+    } catch (err) {
+      this.dropped(err instanceof Error ? err : new Error(String(err)));
+      return;
+    }
+    // Closed while the connection info was loading
+    if (this.connection.state !== "connecting") return;
+
+    const socket = new WebSocket(url);
+    this.socket = socket;
+    socket.onmessage = (event) => this.handleFrame(String(event.data));
+    // onerror is always followed by onclose
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.dropped(new Error("Realtime connection lost"));
+    };
+  }
+
+  private handleFrame(raw: string): void {
+    let frame: ServerFrame;
+    try {
+      frame = JSON.parse(raw) as ServerFrame;
+    } catch {
+      return;
+    }
+
+    switch (frame.type) {
+      case "connected":
+        this.connection.setState("connected");
+        this.restore();
+        return;
+      case "message":
+        this.channelsByName
+          .get(frame.channel)
+          ?.deliver(frame.event, frame.data);
+        return;
+      case "ok":
+        this.pending.get(ackKey(frame.ref, frame.channel))?.[0]?.();
+        return;
+      case "error":
+        if (frame.ref) {
+          this.pending.get(ackKey(frame.ref, frame.channel))?.[0]?.(
+            new Error(frame.message),
+          );
+        } else {
+          console.warn(`[Realtime] ${frame.message}`);
+        }
+        return;
+    }
+  }
+
+  /** Re-subscribe and re-enter presence after a reconnect, like Ably does. */
+  private restore(): void {
+    for (const channel of this.channelsByName.values()) {
+      if (channel.state === "attached") {
+        this.request({ type: "subscribe", channel: channel.name }).catch(
+          () => (channel.state = "failed"),
+        );
+      }
+      if (channel.present) {
+        void channel.presence.enter().catch(() => undefined);
+      }
+    }
+  }
+
+  private dropped(reason: Error): void {
+    this.failPending(reason);
+    const { state } = this.connection;
+    if (state === "closed" || state === "failed") return;
+    this.connection.setState("disconnected", reason);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, RECONNECT_MS);
+  }
+
+  private failPending(reason: Error): void {
+    for (const queue of [...this.pending.values()]) {
+      for (const settle of [...queue]) settle(reason);
+    }
+    this.pending.clear();
+  }
+
+  private clearReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+}
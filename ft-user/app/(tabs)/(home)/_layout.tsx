@@ -24,6 +24,10 @@ export default function HomeLayout() {
           gestureEnabled: false,
         }}
       />
+      <Stack.Screen
+        name="scheduled-rides"
+        options={{ animation: "slide_from_right" }}
+      />
       <Stack.Screen
         name="book-taxi"
         options={{
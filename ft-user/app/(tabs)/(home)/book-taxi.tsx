@@ -7,6 +7,8 @@ import {
   ActivityIndicator,
   Platform,
   Image,
+  ScrollView,
+  TextInput,
   useWindowDimensions,
 } from "react-native";
 import { useRouter, useFocusEffect } from "expo-router";
@@ -25,12 +27,20 @@ import {
   uploadPickupPhoto,
   createRide,
   fetchNearbyDrivers,
+  validatePromo,
   getErrorMessage,
+  type RouteQuoteResult,
   type SpeedReadingInterval,
   type NearbyDriver,
+  type VehicleType,
 } from "@/lib/api";
 import { decodePolyline } from "@/lib/polyline";
-import { startListening, startPolling, stopListening } from "@/lib/ride-status-listener";
+import {
+  startListening,
+  startPolling,
+  startTracking,
+  stopListening,
+} from "@/lib/ride-status-listener";
 import { useSession } from "@/lib/auth-client";
 import {
   Colors,
@@ -43,20 +53,50 @@ import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useTabBarVisibility } from "@/context/tab-bar-context";
 import { useRideBookingStore } from "@/store/ride-booking";
 import BookingStatusOverlay from "@/components/booking/BookingStatusOverlay";
+import { SchedulePicker } from "@/components/booking/SchedulePicker";
 import { CarMarker } from "@/components/map/CarMarker";
+import { LiveCarMarker } from "@/components/map/LiveCarMarker";
 import { showAlert } from "@/store/alert-store";
 
 /** Height of the iOS native tab bar (points). Bottom card must sit above it. */
 const IOS_TAB_BAR_HEIGHT = 50;
 
-type SelectedVehicle = "STANDARD" | "PLUS";
+type SelectedVehicle = VehicleType | "SHARED";
+
+/** Fare card icon per vehicle type; labels are `bookTaxi.tiers.*`. */
+const TIER_ICONS: Record<VehicleType, keyof typeof MaterialIcons.glyphMap> = {
+  STANDARD: "local-taxi",
+  PLUS: "star",
+  ECONOMY: "directions-car",
+  COMFORT: "airline-seat-recline-extra",
+  PREMIUM: "workspace-premium",
+  XL: "airport-shuttle",
+  MOTORBIKE: "two-wheeler",
+};
+
+/** API rejection codes that have their own `bookTaxi.promoErrors.*` text. */
+const PROMO_ERROR_CODES = [
+  "PROMO_INVALID",
+  "PROMO_NOT_STARTED",
+  "PROMO_EXPIRED",
+  "PROMO_EXHAUSTED",
+  "PROMO_ALREADY_USED",
+  "PROMO_MINIMUM_FARE",
+];
+
+/** API rejection codes that have their own `schedule.errors.*` text. */
+const SCHEDULE_ERROR_CODES = [
+  "SCHEDULE_INVALID",
+  "SCHEDULE_TOO_SOON",
+  "SCHEDULE_TOO_FAR",
+];
 
 export default function BookTaxiScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? "light"];
-  const { t } = useTranslation();
+  const { t, locale } = useTranslation();
   const { width: screenWidth } = useWindowDimensions();
   const { setTabBarHidden } = useTabBarVisibility();
   const { data: session } = useSession();
@@ -81,8 +121,9 @@ export default function BookTaxiScreen() {
   const routeQuoteId = useRideBookingStore((s) => s.routeQuoteId);
   const encodedPolyline = useRideBookingStore((s) => s.encodedPolyline);
   const speedReadingIntervals = useRideBookingStore((s) => s.speedReadingIntervals);
-  const standardFare = useRideBookingStore((s) => s.standardFare);
-  const plusFare = useRideBookingStore((s) => s.plusFare);
+  const fares = useRideBookingStore((s) => s.fares);
+  const sharedFare = useRideBookingStore((s) => s.sharedFare);
+  const promoCode = useRideBookingStore((s) => s.promoCode);
   const distanceKm = useRideBookingStore((s) => s.distanceKm);
   const durationMinutes = useRideBookingStore((s) => s.durationMinutes);
   const currency = useRideBookingStore((s) => s.currency);
@@ -90,6 +131,7 @@ export default function BookTaxiScreen() {
   const reset = useRideBookingStore((s) => s.reset);
   const bookingStatus = useRideBookingStore((s) => s.bookingStatus);
   const setBookingSearching = useRideBookingStore((s) => s.setBookingSearching);
+  const setBookingAccepted = useRideBookingStore((s) => s.setBookingAccepted);
   const resetBookingStatus = useRideBookingStore((s) => s.resetBookingStatus);
   const skippedDriverUserIds = useRideBookingStore((s) => s.skippedDriverUserIds);
   const vehicleTypePreference = useRideBookingStore((s) => s.vehicleType);
@@ -97,7 +139,11 @@ export default function BookTaxiScreen() {
   const petFriendly = useRideBookingStore((s) => s.petFriendly);
   const extraPassengers = useRideBookingStore((s) => s.extraPassengers);
   const currentDispatchDriver = useRideBookingStore((s) => s.currentDispatchDriver);
+  const acceptedDriver = useRideBookingStore((s) => s.acceptedDriver);
+  const rideStatus = useRideBookingStore((s) => s.rideStatus);
   const quoteFetchedAt = useRideBookingStore((s) => s.quoteFetchedAt);
+  const scheduledFor = useRideBookingStore((s) => s.scheduledFor);
+  const setScheduledFor = useRideBookingStore((s) => s.setScheduledFor);
 
   // ── Local state ──
   // Default the fare card to "PLUS" when rider chose "PLUS" in filters
@@ -108,6 +154,10 @@ export default function BookTaxiScreen() {
   const [routeError, setRouteError] = useState<string | null>(null);
   const [isBooking, setIsBooking] = useState(false);
   const [quoteExpired, setQuoteExpired] = useState(false);
+  const [promoInput, setPromoInput] = useState("");
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [isSchedulePickerOpen, setIsSchedulePickerOpen] = useState(false);
   const [nearbyDrivers, setNearbyDrivers] = useState<NearbyDriver[]>([]);
   const driverPollRef = useRef<ReturnType<typeof setInterval> | null>(null);
   /** Toggles between two circle sizes for a breathing pulse on the map. */
@@ -127,6 +177,8 @@ export default function BookTaxiScreen() {
         ? filledStops.slice(0, -1).map((s) => ({
             lat: s.latitude,
             lng: s.longitude,
+            address: s.address,
+            mainText: s.mainText || undefined,
           }))
         : undefined,
     [filledStops],
@@ -164,35 +216,114 @@ export default function BookTaxiScreen() {
     );
   }, [routeCoords, speedReadingIntervals]);
 
-  // ── Load route quote (reusable — called on mount + retry) ──
-  const loadRouteQuote = useCallback(async () => {
-    if (!pickup || !finalDestination) return;
-    setIsLoadingRoute(true);
-    setRouteError(null);
-    try {
-      const result = await fetchRouteQuote({
+  // ── Request a quote for the current route (optionally with a promo) ──
+  const requestQuote = useCallback(
+    (code: string | null): Promise<RouteQuoteResult> | null => {
+      if (!pickup || !finalDestination) return null;
+      return fetchRouteQuote({
         pickupLat: pickup.latitude,
         pickupLng: pickup.longitude,
         dropoffLat: finalDestination.latitude,
         dropoffLng: finalDestination.longitude,
         waypoints,
+        promoCode: code ?? undefined,
+        scheduledFor: scheduledFor ?? undefined,
       });
+    },
+    [pickup, finalDestination, waypoints, scheduledFor],
+  );
+
+  const applyQuote = useCallback(
+    (result: RouteQuoteResult) => {
       setRouteQuote({
         routeQuoteId: result.routeQuoteId,
         encodedPolyline: result.encodedPolyline,
         speedReadingIntervals: result.speedReadingIntervals,
-        standardFare: result.standardFareMmkt,
-        plusFare: result.plusFareMmkt,
+        fares: result.fares,
+        sharedFare: result.sharedFareMmkt,
+        promoCode: result.promoCode,
         distanceKm: result.distanceKm,
         durationMinutes: result.durationMinutes,
         currency: result.currency,
       });
+    },
+    [setRouteQuote],
+  );
+
+  // Shared seats disappear with extra stops or a pickup time, and a tier can
+  // be switched off between quotes — fall back to the first tier on offer
+  useEffect(() => {
+    if (isLoadingRoute || fares.length === 0) return;
+    const offered =
+      selectedVehicle === "SHARED"
+        ? sharedFare != null
+        : fares.some((f) => f.vehicleType === selectedVehicle);
+    if (!offered) setSelectedVehicle(fares[0].vehicleType);
+  }, [selectedVehicle, sharedFare, fares, isLoadingRoute]);
+
+  // ── Route errors (schedule codes get a friendly message) ──
+  const quoteErrorMessage = useCallback(
+    (err: unknown): string => {
+      const msg = getErrorMessage(err);
+      const code = SCHEDULE_ERROR_CODES.find((c) => msg.includes(c));
+      return code ? t(`schedule.errors.${code}`) : msg;
+    },
+    [t],
+  );
+
+  // ── Load route quote (reusable — called on mount + retry) ──
+  // Keeps the applied promo unless `code` says otherwise (null = remove it).
+  const loadRouteQuote = useCallback(
+    async (code: string | null = promoCode) => {
+      const request = requestQuote(code);
+      if (!request) return;
+      setIsLoadingRoute(true);
+      setRouteError(null);
+      try {
+        applyQuote(await request);
+      } catch (err) {
+        setRouteError(quoteErrorMessage(err));
+      } finally {
+        setIsLoadingRoute(false);
+      }
+    },
+    [promoCode, requestQuote, applyQuote, quoteErrorMessage],
+  );
+
+  // ── Promo code ──
+  const promoErrorMessage = useCallback(
+    (err: unknown): string => {
+      const msg = getErrorMessage(err);
+      const code = PROMO_ERROR_CODES.find((c) => msg.includes(c));
+      return code ? t(`bookTaxi.promoErrors.${code}`) : msg;
+    },
+    [t],
+  );
+
+  const handleApplyPromo = useCallback(async () => {
+    const code = promoInput.trim();
+    if (!code) return;
+    setIsApplyingPromo(true);
+    setPromoError(null);
+    try {
+      await validatePromo(code);
+      // Re-quote so both fares carry the discount and the quote records it
+      const request = requestQuote(code);
+      if (!request) return;
+      applyQuote(await request);
+      setQuoteExpired(false);
+      setPromoInput("");
     } catch (err) {
-      setRouteError(getErrorMessage(err));
+      setPromoError(promoErrorMessage(err));
     } finally {
-      setIsLoadingRoute(false);
+      setIsApplyingPromo(false);
     }
-  }, [pickup, finalDestination, waypoints, setRouteQuote]);
+  }, [promoInput, requestQuote, applyQuote, promoErrorMessage]);
+
+  const handleRemovePromo = useCallback(() => {
+    setPromoError(null);
+    void loadRouteQuote(null);
+  }, [loadRouteQuote]);
 
   // ── Fetch on mount ──
   useEffect(() => {
@@ -201,6 +332,38 @@ export default function BookTaxiScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // ── Re-quote when the pickup time changes — fares are priced for it ──
+  const isFirstScheduleRef = useRef(true);
+  useEffect(() => {
+    if (isFirstScheduleRef.current) {
+      isFirstScheduleRef.current = false;
+      return;
+    }
+    setQuoteExpired(false);
+    void loadRouteQuote();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scheduledFor]);
+
+  const handleScheduleConfirm = useCallback(
+    (iso: string | null) => {
+      setIsSchedulePickerOpen(false);
+      if (iso !== scheduledFor) setScheduledFor(iso);
+    },
+    [scheduledFor, setScheduledFor],
+  );
+
+  const formatPickupTime = useCallback(
+    (iso: string) =>
+      new Date(iso).toLocaleString(locale, {
+        weekday: "short",
+        day: "numeric",
+        month: "short",
+        hour: "numeric",
+        minute: "2-digit",
+      }),
+    [locale],
+  );
+
   // ── Quote expiry timer (10 minutes) ──
   useEffect(() => {
     if (!quoteFetchedAt) {
@@ -299,6 +462,32 @@ export default function BookTaxiScreen() {
     prevBookingStatusRef.current = bookingStatus;
   }, [bookingStatus, routeCoords]);
 
+  // ── Frame the accepted driver with the leg they're driving ──
+  const driverLocation = acceptedDriver?.driverLocation ?? null;
+  const hasDriverLocation = driverLocation !== null;
+  useEffect(() => {
+    if (bookingStatus !== "accepted" || !driverLocation || !pickup) return;
+    const target =
+      rideStatus === "IN_PROGRESS" && finalDestination
+        ? finalDestination
+        : pickup;
+    mapRef.current?.fitToCoordinates(
+      [
+        {
+          latitude: driverLocation.latitude,
+          longitude: driverLocation.longitude,
+        },
+        { latitude: target.latitude, longitude: target.longitude },
+      ],
+      {
+        edgePadding: { top: 100, right: 60, bottom: 320, left: 60 },
+        animated: true,
+      },
+    );
+    // Re-frame per leg only — following every update would fight panning
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [bookingStatus, rideStatus, hasDriverLocation]);
+
   // ── Poll nearby drivers while searching ──
   useEffect(() => {
     if (bookingStatus !== "searching" || !pickup) {
@@ -337,9 +526,10 @@ export default function BookTaxiScreen() {
     setIsBooking(true);
     try {
       // 1. Subscribe to Ably FIRST so we don't miss immediate responses
-      //    (e.g., no_driver_found fires instantly when 0 drivers exist)
+      //    (e.g., no_driver_found fires instantly when 0 drivers exist).
+      //    Scheduled rides aren't dispatched now, so there is nothing to hear.
       const userId = session?.user?.id;
-      if (userId) {
+      if (userId && !scheduledFor) {
         await startListening(userId);
       }
 
@@ -349,7 +539,9 @@ export default function BookTaxiScreen() {
         photoUrl = await uploadPickupPhoto(pickupPhotoUri);
       }
 
-      // 3. Create ride — backend dispatches immediately after
+      // 3. Create ride — backend dispatches immediately after (or at the
+      //    scheduled time for an advance booking)
+      const isShared = selectedVehicle === "SHARED";
       const ride = await createRide({
         pickupAddress: pickup.address,
         pickupMainText: pickup.mainText || undefined,
@@ -359,7 +551,8 @@ export default function BookTaxiScreen() {
         dropoffMainText: finalDestination.mainText || undefined,
         dropoffLat: finalDestination.latitude,
         dropoffLng: finalDestination.longitude,
-        vehicleType: selectedVehicle,
+        vehicleType: isShared ? "STANDARD" : selectedVehicle,
+        shared: isShared || undefined,
         passengerNote: pickupNote || undefined,
         pickupPhotoUrl: photoUrl,
         routeQuoteId,
@@ -368,8 +561,42 @@ export default function BookTaxiScreen() {
         fuelPreference: fuelPreference !== "ANY" ? fuelPreference : undefined,
         petFriendly: petFriendly || undefined,
         extraPassengers: extraPassengers || undefined,
+        // Shared fares are already split — promos don't apply to them
+        promoCode: isShared ? undefined : (promoCode ?? undefined),
       });
 
+      if (ride.scheduledFor) {
+        // Advance booking — confirm and go home; it shows under Scheduled rides
+        showAlert({
+          variant: "success",
+          title: t("schedule.bookedTitle"),
+          message: t("schedule.bookedMessage", {
+            time: formatPickupTime(ride.scheduledFor),
+          }),
+          buttons: [
+            {
+              text: t("auth.ok"),
+              onPress: () => {
+                reset();
+                router.dismissAll();
+              },
+            },
+          ],
+        });
+        return;
+      }
+
+      if (ride.shared?.joined) {
+        // Seated on a ride already heading this way — the driver is assigned
+        setBookingSearching(ride.id);
+        setBookingAccepted({
+          driverName: ride.shared.driverName ?? "Driver",
+          driverLocation: ride.shared.driverLocation ?? null,
+        });
+        void startTracking(ride.id);
+        return;
+      }
+
       // 4. Enter "searching for driver" state
       setBookingSearching(ride.id);
 
@@ -386,6 +613,24 @@ export default function BookTaxiScreen() {
           title: t("bookTaxi.priceExpiredTitle"),
           message: t("bookTaxi.priceExpiredMessage"),
         });
+      } else if (msg.includes("PROMO_")) {
+        // Promo ran out / was used up since quoting — the rider can remove it
+        setPromoError(promoErrorMessage(err));
+      } else if (msg.includes("SHARED_")) {
+        // No shared seat for this trip any more — pick another fare
+        setSelectedVehicle("STANDARD");
+        showAlert({
+          variant: "warning",
+          title: t("bookTaxi.sharedRide"),
+          message: t("bookTaxi.sharedUnavailable"),
+        });
+      } else if (msg.includes("SCHEDULE_")) {
+        // Pickup time slipped out of the booking window — pick a new one
+        showAlert({
+          variant: "warning",
+          title: t("schedule.title"),
+          message: quoteErrorMessage(err),
+        });
       } else {
         showAlert({ title: "Error", message: msg });
       }
@@ -403,8 +648,17 @@ export default function BookTaxiScreen() {
     fuelPreference,
     petFriendly,
     extraPassengers,
+    promoCode,
+    scheduledFor,
     session,
     setBookingSearching,
+    setBookingAccepted,
+    promoErrorMessage,
+    quoteErrorMessage,
+    formatPickupTime,
+    reset,
+    router,
+    t,
   ]);
 
   // ── Go back: clear stale route quote so re-entry fetches fresh data ──
@@ -438,7 +692,7 @@ export default function BookTaxiScreen() {
     );
   }
 
-  // ── Card width (responsive) ──
+  // ── Card width (responsive) — two per row, more tiers scroll ──
   const fareCardWidth = (screenWidth - Spacing.md * 2 - Spacing.sm) / 2;
 
   return (
@@ -471,8 +725,8 @@ export default function BookTaxiScreen() {
           tracksViewChanges={false}
         />
 
-        {/* Route markers + polyline — only shown when idle */}
-        {bookingStatus === "idle" && (
+        {/* Route markers + polyline — shown when idle and during the trip */}
+        {(bookingStatus === "idle" || bookingStatus === "accepted") && (
           <>
             {/* Intermediate stop markers */}
             {filledStops.slice(0, -1).map((stop, idx) => (
@@ -527,6 +781,16 @@ export default function BookTaxiScreen() {
             />
           ))}
 
+        {/* Accepted driver, gliding between live location updates */}
+        {bookingStatus === "accepted" && driverLocation && (
+          <LiveCarMarker
+            id="assigned-driver"
+            coordinate={driverLocation}
+            heading={driverLocation.heading}
+            title={acceptedDriver?.driverName}
+          />
+        )}
+
         {/* Pulsing circle overlay while contacting a driver */}
         {bookingStatus === "searching" && currentDispatchDriver && pickup && (
           <>
@@ -674,6 +938,39 @@ export default function BookTaxiScreen() {
               </View>
             </View>
 
+            {/* Pickup time — now or an advance booking */}
+            <Pressable
+              onPress={() => setIsSchedulePickerOpen(true)}
+              style={[
+                styles.scheduleRow,
+                { backgroundColor: colors.backgroundSecondary },
+              ]}
+            >
+              <MaterialIcons
+                name={scheduledFor ? "event" : "bolt"}
+                size={18}
+                color={Brand.primary}
+              />
+              <Text
+                style={[styles.scheduleLabel, { color: colors.textSecondary }]}
+              >
+                {t("schedule.pickupTime")}
+              </Text>
+              <Text
+                style={[styles.scheduleValue, { color: colors.text }]}
+                numberOfLines={1}
+              >
+                {scheduledFor
+                  ? formatPickupTime(scheduledFor)
+                  : t("schedule.now")}
+              </Text>
+              <MaterialIcons
+                name="chevron-right"
+                size={20}
+                color={colors.textSecondary}
+              />
+            </Pressable>
+
             {/* Select fare label */}
             <Text
               style={[styles.selectFareLabel, { color: colors.textSecondary }]}
@@ -681,81 +978,201 @@ export default function BookTaxiScreen() {
               {t("bookTaxi.selectFare")}
             </Text>
 
-            {/* Fare cards */}
-            <View style={styles.fareRow}>
-              {/* Standard */}
+            {/* Fare cards — one per vehicle type on offer */}
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.fareScroll}
+              contentContainerStyle={styles.fareRow}
+            >
+              {fares.map((tier) => {
+                const selected = selectedVehicle === tier.vehicleType;
+                return (
+                  <Pressable
+                    key={tier.vehicleType}
+                    onPress={() => setSelectedVehicle(tier.vehicleType)}
+                    style={[
+                      styles.fareCard,
+                      {
+                        width: fareCardWidth,
+                        backgroundColor: colors.card,
+                        borderColor: selected ? Brand.primary : colors.border,
+                        borderWidth: selected ? 2 : 1,
+                      },
+                    ]}
+                  >
+                    <View style={styles.fareCardHeader}>
+                      <MaterialIcons
+                        name={TIER_ICONS[tier.vehicleType]}
+                        size={28}
+                        color={selected ? Brand.primary : colors.textMuted}
+                      />
+                      {tier.vehicleType === "PLUS" && (
+                        <View style={styles.plusBadge}>
+                          <Text style={styles.plusBadgeText}>
+                            {t("bookTaxi.plusBadge")}
+                          </Text>
+                        </View>
+                      )}
+                    </View>
+                    <Text
+                      style={[styles.fareCardTitle, { color: colors.text }]}
+                    >
+                      {t(`bookTaxi.tiers.${tier.vehicleType}`)}
+                    </Text>
+                    {tier.discountMmkt > 0 && (
+                      <Text
+                        style={[
+                          styles.fareCardOriginal,
+                          { color: colors.textMuted },
+                        ]}
+                      >
+                        {formatFare(tier.fareMmkt + tier.discountMmkt)}
+                      </Text>
+                    )}
+                    <Text
+                      style={[styles.fareCardPrice, { color: colors.text }]}
+                    >
+                      {formatFare(tier.fareMmkt)}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </ScrollView>
+
+            {/* Shared — Standard taxi split with another rider */}
+            {sharedFare != null && (
               <Pressable
-                onPress={() => setSelectedVehicle("STANDARD")}
+                onPress={() => setSelectedVehicle("SHARED")}
                 style={[
-                  styles.fareCard,
+                  styles.sharedCard,
                   {
-                    width: fareCardWidth,
                     backgroundColor: colors.card,
                     borderColor:
-                      selectedVehicle === "STANDARD"
+                      selectedVehicle === "SHARED"
                         ? Brand.primary
                         : colors.border,
-                    borderWidth: selectedVehicle === "STANDARD" ? 2 : 1,
+                    borderWidth: selectedVehicle === "SHARED" ? 2 : 1,
                   },
                 ]}
               >
                 <MaterialIcons
-                  name="local-taxi"
+                  name="people"
                   size={28}
                   color={
-                    selectedVehicle === "STANDARD"
+                    selectedVehicle === "SHARED"
                       ? Brand.primary
                       : colors.textMuted
                   }
                 />
-                <Text style={[styles.fareCardTitle, { color: colors.text }]}>
-                  {t("bookTaxi.standardTaxi")}
-                </Text>
+                <View style={styles.sharedInfo}>
+                  <Text style={[styles.fareCardTitle, { color: colors.text }]}>
+                    {t("bookTaxi.sharedRide")}
+                  </Text>
+                  <Text
+                    style={[styles.sharedHint, { color: colors.textSecondary }]}
+                  >
+                    {t("bookTaxi.sharedHint")}
+                  </Text>
+                </View>
                 <Text style={[styles.fareCardPrice, { color: colors.text }]}>
-                  {formatFare(standardFare)}
+                  {formatFare(sharedFare)}
                 </Text>
               </Pressable>
+            )}
 
-              {/* Plus */}
-              <Pressable
-                onPress={() => setSelectedVehicle("PLUS")}
+            {/* Promo code */}
+            {promoCode ? (
+              <View
                 style={[
-                  styles.fareCard,
-                  {
-                    width: fareCardWidth,
-                    backgroundColor: colors.card,
-                    borderColor:
-                      selectedVehicle === "PLUS"
-                        ? Brand.primary
-                        : colors.border,
-                    borderWidth: selectedVehicle === "PLUS" ? 2 : 1,
-                  },
+                  styles.promoApplied,
+                  { backgroundColor: colors.backgroundSecondary },
                 ]}
               >
-                <View style={styles.fareCardHeader}>
+                <MaterialIcons
+                  name="local-offer"
+                  size={18}
+                  color={Brand.success}
+                />
+                <Text
+                  style={[styles.promoAppliedText, { color: colors.text }]}
+                  numberOfLines={1}
+                >
+                  {t("bookTaxi.promoApplied", {
+                    code: promoCode,
+                    amount: formatFare(
+                      fares.find((f) => f.vehicleType === selectedVehicle)
+                        ?.discountMmkt ?? 0,
+                    ),
+                  })}
+                </Text>
+                <Pressable
+                  onPress={handleRemovePromo}
+                  disabled={isLoadingRoute}
+                  hitSlop={8}
+                >
                   <MaterialIcons
-                    name="star"
-                    size={28}
-                    color={
-                      selectedVehicle === "PLUS"
-                        ? Brand.primary
-                        : colors.textMuted
-                    }
+                    name="close"
+                    size={18}
+                    color={colors.textSecondary}
                   />
-                  <View style={styles.plusBadge}>
-                    <Text style={styles.plusBadgeText}>
-                      {t("bookTaxi.plusBadge")}
+                </Pressable>
+              </View>
+            ) : (
+              <View style={styles.promoRow}>
+                <TextInput
+                  style={[
+                    styles.promoInput,
+                    {
+                      backgroundColor: colors.inputBackground,
+                      borderColor: promoError ? Brand.error : colors.inputBorder,
+                      color: colors.text,
+                    },
+                  ]}
+                  value={promoInput}
+                  onChangeText={(text) => {
+                    setPromoInput(text);
+                    setPromoError(null);
+                  }}
+                  placeholder={t("bookTaxi.promoPlaceholder")}
+                  placeholderTextColor={colors.inputPlaceholder}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  returnKeyType="done"
+                  onSubmitEditing={() => void handleApplyPromo()}
+                />
+                <Pressable
+                  onPress={() => void handleApplyPromo()}
+                  disabled={!promoInput.trim() || isApplyingPromo}
+                  style={[
+                    styles.promoButton,
+                    {
+                      backgroundColor: promoInput.trim()
+                        ? Brand.secondary
+                        : colors.inputBackground,
+                    },
+                  ]}
+                >
+                  {isApplyingPromo ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text
+                      style={[
+                        styles.promoButtonText,
+                        {
+                          color: promoInput.trim()
+                            ? "#fff"
+                            : colors.textMuted,
+                        },
+                      ]}
+                    >
+                      {t("bookTaxi.promoApply")}
                     </Text>
-                  </View>
-                </View>
-                <Text style={[styles.fareCardTitle, { color: colors.text }]}>
-                  {t("bookTaxi.taxiPlus")}
-                </Text>
-                <Text style={[styles.fareCardPrice, { color: colors.text }]}>
-                  {formatFare(plusFare)}
-                </Text>
-              </Pressable>
-            </View>
+                  )}
+                </Pressable>
+              </View>
+            )}
+            {promoError && <Text style={styles.promoError}>{promoError}</Text>}
 
             {/* Pickup note & photo preview */}
             {(pickupNote || pickupPhotoUri) && (
@@ -857,7 +1274,7 @@ export default function BookTaxiScreen() {
                   <Text
                     style={[styles.bookButtonText, { color: Brand.secondary }]}
                   >
-                    {t("bookTaxi.book")}
+                    {scheduledFor ? t("schedule.book") : t("bookTaxi.book")}
                   </Text>
                 )}
               </Pressable>
@@ -871,6 +1288,13 @@ export default function BookTaxiScreen() {
       {(bookingStatus === "searching" || bookingStatus === "accepted") && (
         <BookingStatusOverlay onContinue={handleBookingContinue} />
       )}
+
+      <SchedulePicker
+        visible={isSchedulePickerOpen}
+        value={scheduledFor}
+        onClose={() => setIsSchedulePickerOpen(false)}
+        onConfirm={handleScheduleConfirm}
+      />
     </View>
   );
 }
@@ -980,6 +1404,26 @@ const styles = StyleSheet.create({
     marginHorizontal: Spacing.sm,
   },
 
+  // Pickup time
+  scheduleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    marginBottom: Spacing.sm,
+  },
+  scheduleLabel: {
+    fontSize: FontSize.xs,
+    fontWeight: "600",
+  },
+  scheduleValue: {
+    flex: 1,
+    fontSize: FontSize.sm,
+    fontWeight: "600",
+    textAlign: "right",
+  },
+
   // "Select your ride"
   selectFareLabel: {
     fontSize: FontSize.sm,
@@ -988,10 +1432,12 @@ const styles = StyleSheet.create({
   },
 
   // Fare cards
+  fareScroll: {
+    flexGrow: 0,
+    marginBottom: Spacing.sm,
+  },
   fareRow: {
-    flexDirection: "row",
     gap: Spacing.sm,
-    marginBottom: Spacing.sm,
   },
   fareCard: {
     borderRadius: BorderRadius.md,
@@ -1012,6 +1458,25 @@ const styles = StyleSheet.create({
     fontSize: FontSize.lg,
     fontWeight: "800",
   },
+  sharedCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  sharedInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  sharedHint: {
+    fontSize: FontSize.xs,
+  },
+  fareCardOriginal: {
+    fontSize: FontSize.xs,
+    textDecorationLine: "line-through",
+  },
   plusBadge: {
     backgroundColor: Brand.primary,
     paddingHorizontal: 6,
@@ -1024,6 +1489,52 @@ const styles = StyleSheet.create({
     color: Brand.secondary,
   },
 
+  // Promo code
+  promoRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  promoInput: {
+    flex: 1,
+    height: 44,
+    borderWidth: 1,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.sm,
+    fontSize: FontSize.sm,
+  },
+  promoButton: {
+    height: 44,
+    minWidth: 80,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  promoButtonText: {
+    fontSize: FontSize.sm,
+    fontWeight: "700",
+  },
+  promoApplied: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    marginBottom: Spacing.sm,
+  },
+  promoAppliedText: {
+    flex: 1,
+    fontSize: FontSize.sm,
+    fontWeight: "600",
+  },
+  promoError: {
+    fontSize: FontSize.xs,
+    color: Brand.error,
+    marginTop: -Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+
   // Note / photo
   noteRow: {
     flexDirection: "row",
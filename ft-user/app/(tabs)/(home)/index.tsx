@@ -4,13 +4,15 @@ import {
   Text,
   StyleSheet,
   ScrollView,
+  Pressable,
   RefreshControl,
   ActivityIndicator,
   useWindowDimensions,
 } from "react-native";
-import { useRouter } from "expo-router";
+import { useFocusEffect, useRouter } from "expo-router";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useQueryClient } from "@tanstack/react-query";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
 
 import {
   SearchHeader,
@@ -18,16 +20,27 @@ import {
   BookRideButton,
   AnnouncementCard,
 } from "@/components/home";
+import { RateTripSheet } from "@/components/rating";
+import { fetchPendingRating, type PendingRating } from "@/lib/api";
 import { useSession } from "@/lib/auth-client";
 import { useAnnouncements } from "@/hooks/use-home-data";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useTranslation } from "@/lib/i18n";
-import { Colors, Brand, FontSize, Spacing } from "@/constants/theme";
+import {
+  Colors,
+  Brand,
+  FontSize,
+  Spacing,
+  BorderRadius,
+} from "@/constants/theme";
 import { useRideBookingStore } from "@/store/ride-booking";
 
 /** Content never grows wider than this on tablets / landscape. */
 const MAX_CONTENT_WIDTH = 600;
 
+/** Rides the rider skipped rating this session — don't prompt again. */
+const dismissedRatings = new Set<string>();
+
 export default function HomeScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
@@ -56,6 +69,34 @@ export default function HomeScreen() {
 
   const resetBooking = useRideBookingStore((s) => s.reset);
 
+  // Offer to rate the last completed trip whenever Home comes into focus
+  const [pendingRating, setPendingRating] =
+    React.useState<PendingRating | null>(null);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      let cancelled = false;
+      fetchPendingRating()
+        .then((pending) => {
+          if (cancelled) return;
+          setPendingRating(
+            pending && !dismissedRatings.has(pending.rideId) ? pending : null,
+          );
+        })
+        .catch(() => {
+          // Non-critical — try again next time Home is focused
+        });
+      return () => {
+        cancelled = true;
+      };
+    }, []),
+  );
+
+  const dismissRating = () => {
+    if (pendingRating) dismissedRatings.add(pendingRating.rideId);
+    setPendingRating(null);
+  };
+
   const navigateToSearch = () => {
     // Reset any stale booking data so the user always starts a fresh flow
     resetBooking();
@@ -105,6 +146,25 @@ export default function HomeScreen() {
         {/* Book a ride CTA */}
         <BookRideButton onPress={navigateToSearch} />
 
+        {/* Upcoming advance bookings */}
+        <Pressable
+          onPress={() => router.push("/(tabs)/(home)/scheduled-rides")}
+          style={[
+            styles.scheduledLink,
+            { backgroundColor: colors.backgroundSecondary },
+          ]}
+        >
+          <MaterialIcons name="event" size={20} color={Brand.primary} />
+          <Text style={[styles.scheduledLinkText, { color: colors.text }]}>
+            {t("schedule.listTitle")}
+          </Text>
+          <MaterialIcons
+            name="chevron-right"
+            size={20}
+            color={colors.textSecondary}
+          />
+        </Pressable>
+
         <View style={{ height: sectionGap }} />
 
         {/* Announcements */}
@@ -135,6 +195,12 @@ export default function HomeScreen() {
         {/* Bottom padding for tab bar */}
         <View style={{ height: insets.bottom + 80 }} />
       </ScrollView>
+
+      <RateTripSheet
+        pending={pendingRating}
+        onSubmitted={() => setPendingRating(null)}
+        onDismiss={dismissRating}
+      />
     </View>
   );
 }
@@ -146,6 +212,20 @@ const styles = StyleSheet.create({
   scrollContent: {
     flexGrow: 1,
   },
+  scheduledLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginHorizontal: Spacing.md,
+    marginTop: Spacing.sm,
+    padding: Spacing.sm + 4,
+    borderRadius: BorderRadius.md,
+  },
+  scheduledLinkText: {
+    flex: 1,
+    fontSize: FontSize.sm,
+    fontWeight: "600",
+  },
   sectionHeader: {
     paddingHorizontal: Spacing.md,
     marginBottom: Spacing.sm,
@@ -0,0 +1,272 @@
+import React, { useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { useTranslation } from "@/lib/i18n";
+import {
+  cancelRide,
+  fetchScheduledRides,
+  getErrorMessage,
+  type ScheduledRide,
+} from "@/lib/api";
+import {
+  Colors,
+  Brand,
+  FontSize,
+  Spacing,
+  BorderRadius,
+} from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { showAlert } from "@/store/alert-store";
+
+const QUERY_KEY = ["scheduled-rides"];
+
+export default function ScheduledRidesScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t, locale } = useTranslation();
+  const queryClient = useQueryClient();
+
+  const { data: rides, isLoading, isRefetching, refetch } = useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: fetchScheduledRides,
+  });
+
+  const confirmCancel = useCallback(
+    (ride: ScheduledRide) => {
+      showAlert({
+        variant: "warning",
+        title: t("schedule.cancelTitle"),
+        message: t("schedule.cancelMessage"),
+        buttons: [
+          { text: t("schedule.keep"), style: "cancel" },
+          {
+            text: t("schedule.cancelRide"),
+            onPress: () => {
+              cancelRide(ride.id).then(
+                () => queryClient.invalidateQueries({ queryKey: QUERY_KEY }),
+                (err) =>
+                  showAlert({ title: "Error", message: getErrorMessage(err) }),
+              );
+            },
+          },
+        ],
+      });
+    },
+    [t, queryClient],
+  );
+
+  const renderItem = useCallback(
+    ({ item }: { item: ScheduledRide }) => (
+      <View
+        style={[
+          styles.card,
+          { backgroundColor: colors.card, borderColor: colors.border },
+        ]}
+      >
+        <View style={styles.cardHeader}>
+          <MaterialIcons name="event" size={18} color={Brand.primary} />
+          <Text style={[styles.time, { color: colors.text }]}>
+            {new Date(item.scheduledFor).toLocaleString(locale, {
+              weekday: "short",
+              day: "numeric",
+              month: "short",
+              hour: "numeric",
+              minute: "2-digit",
+            })}
+          </Text>
+          <Text style={[styles.fare, { color: colors.text }]}>
+            {`${item.totalFare.toLocaleString()} ${item.currency}`}
+          </Text>
+        </View>
+
+        <View style={styles.routeRow}>
+          <MaterialIcons name="trip-origin" size={14} color={Brand.primary} />
+          <Text
+            style={[styles.address, { color: colors.textSecondary }]}
+            numberOfLines={1}
+          >
+            {item.pickupMainText ?? item.pickupAddress}
+          </Text>
+        </View>
+        <View style={styles.routeRow}>
+          <MaterialIcons name="place" size={14} color={Brand.error} />
+          <Text
+            style={[styles.address, { color: colors.textSecondary }]}
+            numberOfLines={1}
+          >
+            {item.dropoffMainText ?? item.dropoffAddress}
+          </Text>
+        </View>
+
+        <Pressable
+          onPress={() => confirmCancel(item)}
+          style={[styles.cancelButton, { borderColor: colors.border }]}
+        >
+          <Text style={styles.cancelText}>{t("schedule.cancelRide")}</Text>
+        </Pressable>
+      </View>
+    ),
+    [colors, locale, t, confirmCancel],
+  );
+
+  return (
+    <View
+      style={[
+        styles.screen,
+        { backgroundColor: colors.background, paddingTop: insets.top },
+      ]}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.backButton}>
+          <MaterialIcons name="arrow-back" size={24} color={colors.text} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>
+          {t("schedule.listTitle")}
+        </Text>
+        <View style={styles.backButton} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={Brand.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={rides ?? []}
+          keyExtractor={(item) => item.id}
+          renderItem={renderItem}
+          contentContainerStyle={[
+            styles.list,
+            { paddingBottom: insets.bottom + 80 },
+          ]}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching}
+              onRefresh={() => void refetch()}
+              tintColor={Brand.primary}
+              colors={[Brand.primary]}
+            />
+          }
+          ListEmptyComponent={
+            <View style={styles.center}>
+              <MaterialIcons
+                name="event-available"
+                size={40}
+                color={colors.textMuted}
+              />
+              <Text style={[styles.emptyText, { color: colors.textMuted }]}>
+                {t("schedule.empty")}
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+  },
+  center: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.xl,
+  },
+
+  // Header
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.sm,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    fontSize: FontSize.md,
+    fontWeight: "600",
+    flex: 1,
+    textAlign: "center",
+  },
+
+  // List
+  list: {
+    flexGrow: 1,
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    gap: Spacing.xs,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    marginBottom: Spacing.xs,
+  },
+  time: {
+    flex: 1,
+    fontSize: FontSize.sm,
+    fontWeight: "700",
+  },
+  fare: {
+    fontSize: FontSize.sm,
+    fontWeight: "700",
+  },
+  routeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  address: {
+    flex: 1,
+    fontSize: FontSize.sm,
+  },
+  cancelButton: {
+    alignSelf: "flex-end",
+    marginTop: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs + 2,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+  cancelText: {
+    fontSize: FontSize.sm,
+    fontWeight: "600",
+    color: Brand.error,
+  },
+  emptyText: {
+    fontSize: FontSize.sm,
+  },
+});
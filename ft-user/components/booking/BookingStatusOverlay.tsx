@@ -1,4 +1,4 @@
-import React, { memo, useEffect, useRef } from "react";
+import React, { memo, useEffect, useMemo, useRef } from "react";
 import {
   Animated,
   Easing,
@@ -11,6 +11,12 @@ import {
 import { MaterialIcons } from "@expo/vector-icons";
 
 import { useTranslation } from "@/lib/i18n";
+import { decodePolyline } from "@/lib/polyline";
+import {
+  etaToDropoffMinutes,
+  etaToPickupMinutes,
+  quotedSpeedKmh,
+} from "@/lib/live-eta";
 import { useRideBookingStore } from "@/store/ride-booking";
 import { Brand, BorderRadius, FontSize, Spacing } from "@/constants/theme";
 
@@ -24,7 +30,6 @@ interface Props {
 export default function BookingStatusOverlay({ onContinue }: Props) {
   const { t } = useTranslation();
   const bookingStatus = useRideBookingStore((s) => s.bookingStatus);
-  const acceptedDriver = useRideBookingStore((s) => s.acceptedDriver);
 
   // Slide-up entrance animation
   const slideAnim = useRef(new Animated.Value(300)).current;
@@ -61,11 +66,7 @@ export default function BookingStatusOverlay({ onContinue }: Props) {
       {bookingStatus === "searching" && <SearchingContent t={t} />}
 
       {bookingStatus === "accepted" && (
-        <AcceptedContent
-          driverName={acceptedDriver?.driverName ?? "Driver"}
-          t={t}
-          onContinue={onContinue}
-        />
+        <LiveTripContent t={t} onContinue={onContinue} />
       )}
     </Animated.View>
   );
@@ -248,58 +249,110 @@ const DotIndicator = memo(function DotIndicator({
   return <Animated.View style={[styles.dot, { opacity }]} />;
 });
 
-// ── Accepted ───────────────────────────────────────────────
-const AcceptedContent = memo(function AcceptedContent({
-  driverName,
+// ── Accepted: live trip ─────────────────────────────────
+type TripPhase = "toPickup" | "arrived" | "toDropoff" | "completed";
+
+function tripPhase(rideStatus: string | null): TripPhase {
+  switch (rideStatus) {
+    case "ARRIVED":
+      return "arrived";
+    case "IN_PROGRESS":
+      return "toDropoff";
+    case "COMPLETED":
+      return "completed";
+    default:
+      return "toPickup";
+  }
+}
+
+const PHASE_ICON: Record<TripPhase, keyof typeof MaterialIcons.glyphMap> = {
+  toPickup: "local-taxi",
+  arrived: "place",
+  toDropoff: "navigation",
+  completed: "check",
+};
+
+const LiveTripContent = memo(function LiveTripContent({
   t,
   onContinue,
 }: {
-  driverName: string;
-  t: (key: string, opts?: Record<string, string>) => string;
+  t: (key: string, opts?: Record<string, string | number>) => string;
   onContinue: () => void;
 }) {
-  const scaleAnim = useRef(new Animated.Value(0)).current;
-  const opacityAnim = useRef(new Animated.Value(0)).current;
+  const acceptedDriver = useRideBookingStore((s) => s.acceptedDriver);
+  const rideStatus = useRideBookingStore((s) => s.rideStatus);
+  const trackingMode = useRideBookingStore((s) => s.trackingMode);
+  const pickup = useRideBookingStore((s) => s.pickup);
+  const encodedPolyline = useRideBookingStore((s) => s.encodedPolyline);
+  const distanceKm = useRideBookingStore((s) => s.distanceKm);
+  const durationMinutes = useRideBookingStore((s) => s.durationMinutes);
+
+  const route = useMemo(
+    () => (encodedPolyline ? decodePolyline(encodedPolyline) : []),
+    [encodedPolyline],
+  );
 
-  useEffect(() => {
-    Animated.parallel([
-      Animated.spring(scaleAnim, {
-        toValue: 1,
-        friction: 4,
-        tension: 100,
-        useNativeDriver: true,
-      }),
-      Animated.timing(opacityAnim, {
-        toValue: 1,
-        duration: 300,
-        useNativeDriver: true,
-      }),
-    ]).start();
-  }, [scaleAnim, opacityAnim]);
+  const phase = tripPhase(rideStatus);
+  const driverName = acceptedDriver?.driverName ?? "Driver";
+  const driverLocation = acceptedDriver?.driverLocation ?? null;
+
+  // Recomputed on every location update (every ~2s while live)
+  const etaMinutes = useMemo(() => {
+    if (!driverLocation) return null;
+    const speedKmh = quotedSpeedKmh(distanceKm, durationMinutes);
+    if (phase === "toPickup" && pickup) {
+      return etaToPickupMinutes(driverLocation, pickup, speedKmh);
+    }
+    if (phase === "toDropoff" && route.length > 0) {
+      return etaToDropoffMinutes(driverLocation, route, speedKmh);
+    }
+    return null;
+  }, [driverLocation, phase, pickup, route, distanceKm, durationMinutes]);
+
+  const iconColor = phase === "completed" ? Brand.success : Brand.primary;
 
   return (
-    <View style={styles.contentCenter}>
-      <Animated.View
-        style={[
-          styles.successCircle,
-          {
-            transform: [{ scale: scaleAnim }],
-            opacity: opacityAnim,
-          },
-        ]}
-      >
-        <MaterialIcons name="check" size={36} color="#fff" />
-      </Animated.View>
-      <Text style={styles.title}>{t("bookTaxi.driverAccepted")}</Text>
-      <Text style={styles.subtitle}>
-        {t("bookTaxi.driverName", { name: driverName })}
-      </Text>
+    <View style={styles.liveContent}>
+      <View style={styles.liveRow}>
+        <View style={[styles.phaseIcon, { backgroundColor: iconColor }]}>
+          <MaterialIcons name={PHASE_ICON[phase]} size={24} color="#fff" />
+        </View>
+        <View style={styles.searchingTextCol}>
+          <Text style={styles.title}>
+            {t(`bookTaxi.live.${phase}.title`, { name: driverName })}
+          </Text>
+          <Text style={styles.subtitle} numberOfLines={2}>
+            {etaMinutes != null
+              ? t(`bookTaxi.live.${phase}.eta`, { minutes: etaMinutes })
+              : t(`bookTaxi.live.${phase}.message`, { name: driverName })}
+          </Text>
+        </View>
+        {etaMinutes != null && (
+          <View style={styles.etaBadge}>
+            <Text style={styles.etaValue}>{etaMinutes}</Text>
+            <Text style={styles.etaUnit}>{t("bookTaxi.live.minutes")}</Text>
+          </View>
+        )}
+      </View>
+
+      {/* Realtime dropped — positions now come from status polling */}
+      {trackingMode === "polling" && phase !== "completed" && (
+        <View style={styles.pollingNotice}>
+          <MaterialIcons name="wifi-off" size={14} color="#64748B" />
+          <Text style={styles.pollingText}>
+            {t("bookTaxi.live.reconnecting")}
+          </Text>
+        </View>
+      )}
+
       <Pressable
         onPress={onContinue}
         style={[styles.button, styles.primaryButton]}
       >
         <Text style={styles.primaryButtonText}>
-          {t("bookTaxi.continue")}
+          {t(
+            phase === "completed" ? "bookTaxi.live.done" : "bookTaxi.continue",
+          )}
         </Text>
       </Pressable>
     </View>
@@ -368,10 +421,46 @@ const styles = StyleSheet.create({
     flex: 1,
     gap: 4,
   },
-  // Centered layout for accepted
-  contentCenter: {
+  // Live trip layout for accepted
+  liveContent: {
+    gap: Spacing.md,
+  },
+  liveRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  phaseIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  etaBadge: {
     alignItems: "center",
-    gap: Spacing.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 6,
+    borderRadius: BorderRadius.md,
+    backgroundColor: "#F1F5F9",
+  },
+  etaValue: {
+    fontSize: FontSize.lg,
+    fontWeight: "700",
+    color: "#1A1A2E",
+  },
+  etaUnit: {
+    fontSize: FontSize.xs,
+    color: "#64748B",
+  },
+  pollingNotice: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  pollingText: {
+    fontSize: FontSize.xs,
+    color: "#64748B",
   },
 
   // Loading dots
@@ -400,21 +489,6 @@ const styles = StyleSheet.create({
     lineHeight: 20,
   },
 
-  // Success
-  successCircle: {
-    width: 64,
-    height: 64,
-    borderRadius: 32,
-    backgroundColor: Brand.success,
-    justifyContent: "center",
-    alignItems: "center",
-    elevation: 4,
-    shadowColor: Brand.success,
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.4,
-    shadowRadius: 6,
-  },
-
   // Buttons
   button: {
     flexDirection: "row",
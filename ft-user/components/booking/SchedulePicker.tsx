@@ -0,0 +1,347 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  Pressable,
+  Modal,
+  ScrollView,
+  StyleSheet,
+} from "react-native";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+
+import { useTranslation } from "@/lib/i18n";
+import {
+  Brand,
+  Colors,
+  FontSize,
+  Spacing,
+  BorderRadius,
+} from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+
+// ---------------------------------------------------------------------------
+// Booking window — mirrors ft-api/src/rides/ride-schedule.ts
+// ---------------------------------------------------------------------------
+
+const MIN_LEAD_MS = 30 * 60 * 1000;
+const MAX_AHEAD_MS = 7 * 24 * 60 * 60 * 1000;
+const SLOT_MINUTES = 15;
+const SLOT_MS = SLOT_MINUTES * 60 * 1000;
+const DAY_COUNT = 7;
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+/** 15-minute pickup slots on `day` that fall inside the booking window. */
+function slotsForDay(day: Date, now: number): Date[] {
+  const earliest = Math.ceil((now + MIN_LEAD_MS) / SLOT_MS) * SLOT_MS;
+  const latest = now + MAX_AHEAD_MS;
+  const slots: Date[] = [];
+  const end = startOfDay(day).getTime() + 24 * 60 * 60 * 1000;
+  for (let t = startOfDay(day).getTime(); t < end; t += SLOT_MS) {
+    if (t >= earliest && t <= latest) slots.push(new Date(t));
+  }
+  return slots;
+}
+
+// ---------------------------------------------------------------------------
+// Props
+// ---------------------------------------------------------------------------
+
+interface SchedulePickerProps {
+  visible: boolean;
+  /** Currently chosen pickup time (ISO), or null for "now". */
+  value: string | null;
+  onClose: () => void;
+  /** Called with the chosen ISO time, or null to ride now. */
+  onConfirm: (iso: string | null) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function SchedulePicker({
+  visible,
+  value,
+  onClose,
+  onConfirm,
+}: SchedulePickerProps) {
+  const { t, locale } = useTranslation();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  const [now, setNow] = useState(() => Date.now());
+  const [dayIndex, setDayIndex] = useState(0);
+  const [selected, setSelected] = useState<string | null>(value);
+
+  // Re-anchor the window and selection each time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    const current = Date.now();
+    setNow(current);
+    setSelected(value);
+    const offset = value
+      ? Math.round(
+          (startOfDay(new Date(value)).getTime() -
+            startOfDay(new Date(current)).getTime()) /
+            (24 * 60 * 60 * 1000),
+        )
+      : 0;
+    setDayIndex(Math.min(Math.max(offset, 0), DAY_COUNT - 1));
+  }, [visible, value]);
+
+  const days = useMemo(() => {
+    const today = startOfDay(new Date(now));
+    return Array.from({ length: DAY_COUNT }, (_, i) => {
+      const d = new Date(today);
+      d.setDate(today.getDate() + i);
+      return d;
+    });
+  }, [now]);
+
+  const slots = useMemo(
+    () => slotsForDay(days[dayIndex], now),
+    [days, dayIndex, now],
+  );
+
+  const dayLabel = (day: Date, index: number) => {
+    if (index === 0) return t("schedule.today");
+    if (index === 1) return t("schedule.tomorrow");
+    return day.toLocaleDateString(locale, {
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+    });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: colors.border }]}>
+          <Pressable onPress={onClose} hitSlop={8}>
+            <MaterialIcons name="close" size={24} color={colors.text} />
+          </Pressable>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>
+            {t("schedule.title")}
+          </Text>
+          <Pressable onPress={() => onConfirm(selected)} hitSlop={8}>
+            <Text style={[styles.doneText, { color: Brand.primary }]}>
+              {t("schedule.done")}
+            </Text>
+          </Pressable>
+        </View>
+
+        {/* Ride now */}
+        <Pressable
+          onPress={() => setSelected(null)}
+          style={[
+            styles.nowRow,
+            {
+              backgroundColor:
+                selected === null ? Brand.primary : colors.inputBackground,
+              borderColor: selected === null ? Brand.primary : colors.border,
+            },
+          ]}
+        >
+          <MaterialIcons
+            name="bolt"
+            size={20}
+            color={selected === null ? Brand.secondary : colors.textSecondary}
+          />
+          <Text
+            style={[
+              styles.nowText,
+              { color: selected === null ? Brand.secondary : colors.text },
+            ]}
+          >
+            {t("schedule.now")}
+          </Text>
+        </Pressable>
+
+        <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>
+          {t("schedule.later")}
+        </Text>
+
+        {/* Day chips */}
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.dayRow}
+          style={styles.dayScroll}
+        >
+          {days.map((day, i) => {
+            const isActive = i === dayIndex;
+            return (
+              <Pressable
+                key={day.toISOString()}
+                onPress={() => setDayIndex(i)}
+                style={[
+                  styles.chip,
+                  {
+                    backgroundColor: isActive
+                      ? Brand.secondary
+                      : colors.inputBackground,
+                    borderColor: isActive ? Brand.secondary : colors.border,
+                  },
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    { color: isActive ? "#fff" : colors.textSecondary },
+                  ]}
+                >
+                  {dayLabel(day, i)}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+
+        {/* Time slots */}
+        <ScrollView contentContainerStyle={styles.slotGrid}>
+          {slots.length === 0 ? (
+            <Text style={[styles.emptyText, { color: colors.textMuted }]}>
+              {t("schedule.noSlots")}
+            </Text>
+          ) : (
+            slots.map((slot) => {
+              const iso = slot.toISOString();
+              const isActive = selected === iso;
+              return (
+                <Pressable
+                  key={iso}
+                  onPress={() => setSelected(iso)}
+                  style={[
+                    styles.slot,
+                    {
+                      backgroundColor: isActive
+                        ? Brand.primary
+                        : colors.inputBackground,
+                      borderColor: isActive ? Brand.primary : colors.border,
+                    },
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.slotText,
+                      { color: isActive ? Brand.secondary : colors.text },
+                    ]}
+                  >
+                    {slot.toLocaleTimeString(locale, {
+                      hour: "numeric",
+                      minute: "2-digit",
+                    })}
+                  </Text>
+                </Pressable>
+              );
+            })
+          )}
+        </ScrollView>
+
+        <Text style={[styles.hint, { color: colors.textMuted }]}>
+          {t("schedule.hint")}
+        </Text>
+      </View>
+    </Modal>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm + 4,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  headerTitle: {
+    fontSize: FontSize.md,
+    fontWeight: "600",
+  },
+  doneText: {
+    fontSize: FontSize.md,
+    fontWeight: "700",
+  },
+  nowRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    margin: Spacing.md,
+    padding: Spacing.sm + 4,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  nowText: {
+    fontSize: FontSize.sm,
+    fontWeight: "600",
+  },
+  sectionLabel: {
+    fontSize: FontSize.xs,
+    fontWeight: "600",
+    paddingHorizontal: Spacing.md,
+    marginBottom: Spacing.xs,
+  },
+  dayScroll: {
+    flexGrow: 0,
+  },
+  dayRow: {
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm + 4,
+    paddingVertical: Spacing.xs + 2,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: FontSize.xs,
+    fontWeight: "600",
+  },
+  slotGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+  },
+  slot: {
+    width: "22%",
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+  slotText: {
+    fontSize: FontSize.sm,
+    fontWeight: "600",
+  },
+  emptyText: {
+    fontSize: FontSize.sm,
+    paddingVertical: Spacing.lg,
+  },
+  hint: {
+    fontSize: FontSize.xs,
+    textAlign: "center",
+    padding: Spacing.md,
+  },
+});
@@ -0,0 +1,79 @@
+import React, { memo, useEffect, useRef, useState } from "react";
+import { Animated, Easing } from "react-native";
+
+import { bearingDegrees, haversineMeters } from "@/lib/live-eta";
+import { CarMarker } from "./CarMarker";
+
+/** Matches the driver app's publish interval so the car never stalls. */
+const GLIDE_MS = 2_000;
+
+/** Below this the car is treated as stationary and keeps its heading. */
+const MIN_MOVE_METERS = 3;
+
+interface LiveCarMarkerProps {
+  id: string;
+  coordinate: { latitude: number; longitude: number };
+  /** Reported heading in degrees; derived from movement when missing. */
+  heading: number | null;
+  title?: string;
+}
+
+/**
+ * Car marker that glides between successive driver positions instead of
+ * jumping, rotated to the driver's heading.
+ */
+export const LiveCarMarker = memo(function LiveCarMarker({
+  id,
+  coordinate,
+  heading,
+  title,
+}: LiveCarMarkerProps) {
+  const [position, setPosition] = useState(coordinate);
+  const [rotation, setRotation] = useState(heading ?? 0);
+  const positionRef = useRef(coordinate);
+  const progress = useRef(new Animated.Value(0)).current;
+  const { latitude, longitude } = coordinate;
+
+  useEffect(() => {
+    const from = positionRef.current;
+    const to = { latitude, longitude };
+    const moved = haversineMeters(from, to);
+
+    if (heading != null) {
+      setRotation(heading);
+    } else if (moved >= MIN_MOVE_METERS) {
+      setRotation(bearingDegrees(from, to));
+    }
+
+    progress.stopAnimation();
+    progress.setValue(0);
+    const listenerId = progress.addListener(({ value }) => {
+      const next = {
+        latitude: from.latitude + (to.latitude - from.latitude) * value,
+        longitude: from.longitude + (to.longitude - from.longitude) * value,
+      };
+      positionRef.current = next;
+      setPosition(next);
+    });
+    Animated.timing(progress, {
+      toValue: 1,
+      duration: GLIDE_MS,
+      easing: Easing.linear,
+      useNativeDriver: false,
+    }).start();
+
+    return () => {
+      progress.stopAnimation();
+      progress.removeListener(listenerId);
+    };
+  }, [latitude, longitude, heading, progress]);
+
+  return (
+    <CarMarker
+      id={id}
+      coordinate={position}
+      title={title}
+      rotation={rotation}
+    />
+  );
+});
@@ -0,0 +1,352 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+
+import { useTranslation } from "@/lib/i18n";
+import {
+  submitRideRating,
+  getErrorMessage,
+  type PendingRating,
+} from "@/lib/api";
+import {
+  Brand,
+  Colors,
+  FontSize,
+  Spacing,
+  BorderRadius,
+} from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+
+// ---------------------------------------------------------------------------
+// Tags — must match DRIVER_RATING_TAGS on the API
+// ---------------------------------------------------------------------------
+
+const POSITIVE_TAGS = [
+  "clean_car",
+  "friendly",
+  "safe_driving",
+  "on_time",
+  "knows_route",
+  "smooth_ride",
+];
+
+const NEGATIVE_TAGS = [
+  "dirty_car",
+  "rude",
+  "unsafe_driving",
+  "late",
+  "wrong_route",
+];
+
+// ---------------------------------------------------------------------------
+// Props
+// ---------------------------------------------------------------------------
+
+interface RateTripSheetProps {
+  /** Ride to rate; the sheet is hidden while null. */
+  pending: PendingRating | null;
+  /** Called after a successful submit. */
+  onSubmitted: () => void;
+  /** Called when the rider skips rating for now. */
+  onDismiss: () => void;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function RateTripSheet({
+  pending,
+  onSubmitted,
+  onDismiss,
+}: RateTripSheetProps) {
+  const { t } = useTranslation();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+
+  const [stars, setStars] = useState(0);
+  const [tags, setTags] = useState<string[]>([]);
+  const [comment, setComment] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset whenever a different ride is shown
+  useEffect(() => {
+    setStars(0);
+    setTags([]);
+    setComment("");
+    setError(null);
+  }, [pending?.rideId]);
+
+  // Low ratings surface the complaint tags, high ratings the compliments
+  const tagOptions = stars > 0 && stars <= 3 ? NEGATIVE_TAGS : POSITIVE_TAGS;
+
+  const toggleTag = useCallback((tag: string) => {
+    setTags((prev) =>
+      prev.includes(tag) ? prev.filter((x) => x !== tag) : [...prev, tag],
+    );
+  }, []);
+
+  const handleSelectStars = useCallback((value: number) => {
+    setStars(value);
+    // Drop tags from the other group when switching between low/high
+    const allowed = value <= 3 ? NEGATIVE_TAGS : POSITIVE_TAGS;
+    setTags((prev) => prev.filter((tag) => allowed.includes(tag)));
+  }, []);
+
+  const handleSubmit = useCallback(async () => {
+    if (!pending || stars === 0) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await submitRideRating(pending.rideId, {
+        rating: stars,
+        comment: comment.trim() || undefined,
+        tags,
+      });
+      onSubmitted();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [pending, stars, comment, tags, onSubmitted]);
+
+  const canSubmit = stars > 0 && !isSubmitting;
+
+  return (
+    <Modal
+      visible={pending !== null}
+      animationType="slide"
+      transparent
+      onRequestClose={onDismiss}
+    >
+      <KeyboardAvoidingView
+        style={styles.backdrop}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={[styles.sheet, { backgroundColor: colors.background }]}>
+          <Text style={[styles.title, { color: colors.text }]}>
+            {t("rating.title")}
+          </Text>
+          <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+            {pending?.rateeName
+              ? t("rating.subtitle", { name: pending.rateeName })
+              : t("rating.subtitleNoName")}
+          </Text>
+          {pending && (
+            <Text
+              style={[styles.tripInfo, { color: colors.textMuted }]}
+              numberOfLines={1}
+            >
+              {pending.dropoffAddress} ·{" "}
+              {pending.totalFare.toLocaleString()} {pending.currency}
+            </Text>
+          )}
+
+          {/* Stars */}
+          <View style={styles.starsRow}>
+            {[1, 2, 3, 4, 5].map((value) => (
+              <Pressable
+                key={value}
+                onPress={() => handleSelectStars(value)}
+                hitSlop={6}
+              >
+                <MaterialIcons
+                  name={value <= stars ? "star" : "star-border"}
+                  size={40}
+                  color={value <= stars ? Brand.primary : colors.textMuted}
+                />
+              </Pressable>
+            ))}
+          </View>
+
+          {/* Tags */}
+          {stars > 0 && (
+            <View style={styles.tagsRow}>
+              {tagOptions.map((tag) => {
+                const isActive = tags.includes(tag);
+                return (
+                  <Pressable
+                    key={tag}
+                    onPress={() => toggleTag(tag)}
+                    style={[
+                      styles.tagPill,
+                      {
+                        backgroundColor: isActive
+                          ? Brand.primary
+                          : colors.inputBackground,
+                        borderColor: isActive ? Brand.primary : colors.border,
+                      },
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.tagText,
+                        {
+                          color: isActive
+                            ? Brand.secondary
+                            : colors.textSecondary,
+                        },
+                      ]}
+                    >
+                      {t(`rating.tags.${tag}`)}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          )}
+
+          {/* Comment */}
+          {stars > 0 && (
+            <TextInput
+              style={[
+                styles.commentInput,
+                {
+                  backgroundColor: colors.inputBackground,
+                  color: colors.text,
+                  borderColor: colors.inputBorder,
+                },
+              ]}
+              value={comment}
+              onChangeText={setComment}
+              placeholder={t("rating.commentPlaceholder")}
+              placeholderTextColor={colors.inputPlaceholder}
+              multiline
+              maxLength={500}
+            />
+          )}
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          {/* Actions */}
+          <Pressable
+            style={[
+              styles.submitButton,
+              { backgroundColor: canSubmit ? Brand.primary : colors.border },
+            ]}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color={Brand.secondary} />
+            ) : (
+              <Text style={styles.submitText}>{t("rating.submit")}</Text>
+            )}
+          </Pressable>
+          <Pressable
+            style={styles.skipButton}
+            onPress={onDismiss}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.skipText, { color: colors.textSecondary }]}>
+              {t("rating.skip")}
+            </Text>
+          </Pressable>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0,0,0,0.4)",
+  },
+  sheet: {
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    paddingBottom: Spacing.xl,
+  },
+  title: {
+    fontSize: FontSize.xl,
+    fontWeight: "700",
+    textAlign: "center",
+  },
+  subtitle: {
+    fontSize: FontSize.md,
+    textAlign: "center",
+    marginTop: Spacing.xs,
+  },
+  tripInfo: {
+    fontSize: FontSize.sm,
+    textAlign: "center",
+    marginTop: Spacing.xs,
+  },
+  starsRow: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    marginVertical: Spacing.lg,
+  },
+  tagsRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  tagPill: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  tagText: {
+    fontSize: FontSize.sm,
+    fontWeight: "500",
+  },
+  commentInput: {
+    minHeight: 72,
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    fontSize: FontSize.md,
+    textAlignVertical: "top",
+    marginBottom: Spacing.md,
+  },
+  errorText: {
+    color: Brand.error,
+    fontSize: FontSize.sm,
+    textAlign: "center",
+    marginBottom: Spacing.sm,
+  },
+  submitButton: {
+    height: 52,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  submitText: {
+    color: Brand.secondary,
+    fontSize: FontSize.md,
+    fontWeight: "700",
+  },
+  skipButton: {
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+  },
+  skipText: {
+    fontSize: FontSize.md,
+  },
+});
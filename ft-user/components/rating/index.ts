@@ -0,0 +1 @@
+export { RateTripSheet } from "./RateTripSheet";
@@ -1,16 +1,52 @@
 import Ably from "ably";
+import { api } from "./api";
+import {
+  WsRealtimeClient,
+  type RealtimeClient,
+  type RealtimeConnectionStateChange,
+} from "./ws-realtime";
 
-const ABLY_KEY = process.env.EXPO_PUBLIC_ABLY_API_KEY ?? "";
+export type {
+  RealtimeChannel,
+  RealtimeClient,
+  RealtimeConnection,
+  RealtimeConnectionStateChange,
+  RealtimeMessage,
+} from "./ws-realtime";
+
+// ── Transport ──────────────────────────────────────────────
+
+/**
+ * `ws` connects to the API's own WebSocket gateway — set it when the server
+ * runs with REALTIME_TRANSPORT=ws. Anything else uses Ably.
+ */
+const USE_WS_TRANSPORT = process.env.EXPO_PUBLIC_REALTIME_TRANSPORT === "ws";
+
+// ── Token auth ─────────────────────────────────────────────
+
+/**
+ * Fetch a short-lived, role-scoped token request from the API.
+ * Ably calls this on connect and again before each token expires.
+ */
+const authCallback: Ably.AuthOptions["authCallback"] = (_params, callback) => {
+  api
+    .get<Ably.TokenRequest>("/realtime/token")
+    .then((res) => callback(null, res.data))
+    .catch((err: unknown) =>
+      callback(err instanceof Error ? err.message : String(err), null),
+    );
+};
 
 // ── Singleton Ably client ──────────────────────────────────
-let ablyClient: Ably.Realtime | null = null;
+let ablyClient: RealtimeClient | null = null;
 let currentClientId: string | null = null;
 
 /**
- * Return (or lazily create) an Ably Realtime client for the given userId.
+ * Return (or lazily create) an Ably Realtime client for the given userId
+ * (the local WebSocket client with the ws transport).
  * Riders only need subscribe capability — no presence.
  */
-export function getAblyClient(userId: string): Ably.Realtime {
+export function getAblyClient(userId: string): RealtimeClient {
   if (ablyClient && currentClientId === userId) return ablyClient;
 
   // Tear down stale client for a different user
@@ -19,11 +55,13 @@ export function getAblyClient(userId: string): Ably.Realtime {
     ablyClient = null;
   }
 
-  ablyClient = new Ably.Realtime({
-    key: ABLY_KEY,
-    clientId: userId,
-    autoConnect: false,
-  });
+  ablyClient = USE_WS_TRANSPORT
+    ? new WsRealtimeClient()
+    : new Ably.Realtime({
+        authCallback,
+        clientId: userId,
+        autoConnect: false,
+      });
   currentClientId = userId;
   return ablyClient;
 }
@@ -2,6 +2,7 @@ import { Platform } from "react-native";
 import axios, { type AxiosError, isAxiosError } from "axios";
 import * as SecureStore from "expo-secure-store";
 import { signOut } from "@/lib/auth-client";
+import { getLocale } from "@/lib/i18n";
 
 /**
  * Base URL for the backend API (same host as Better Auth).
@@ -57,7 +58,8 @@ interface AutocompleteResponse {
 
 /**
  * Axios instance for all non-auth backend API calls.
- * - Request: attaches Authorization: Bearer <session_token> when the user is logged in.
+ * - Request: attaches Authorization: Bearer <session_token> when the user is logged in,
+ *   and Accept-Language with the app language (ride receipts are emailed in it).
  * - Response: on 401 (e.g. session revoked by admin), calls signOut() so the user is logged out.
  * Use this instance for every call to the API except /api/auth (which uses the auth client).
  */
@@ -72,6 +74,7 @@ api.interceptors.request.use(async (config) => {
   if (token) {
     config.headers.Authorization = `Bearer ${token}`;
   }
+  config.headers["Accept-Language"] = getLocale();
   return config;
 });
 
@@ -232,9 +235,19 @@ export interface RouteQuotePayload {
   dropoffLat: number;
   dropoffLng: number;
   /** Intermediate stops between pickup and final dropoff. */
-  waypoints?: { lat: number; lng: number }[];
+  waypoints?: {
+    lat: number;
+    lng: number;
+    /** Persisted on the quote so the driver sees where each stop is. */
+    address?: string;
+    mainText?: string;
+  }[];
   originTownship?: string;
   destinationTownship?: string;
+  /** Promo code to price the fares with. */
+  promoCode?: string;
+  /** ISO pickup time for an advance booking; omit to ride now. */
+  scheduledFor?: string;
 }
 
 export interface SpeedReadingInterval {
@@ -243,6 +256,24 @@ export interface SpeedReadingInterval {
   speed: "NORMAL" | "SLOW" | "TRAFFIC_JAM";
 }
 
+export type VehicleType =
+  | "STANDARD"
+  | "PLUS"
+  | "ECONOMY"
+  | "COMFORT"
+  | "PREMIUM"
+  | "XL"
+  | "MOTORBIKE";
+
+/** One vehicle type's fare on a quote. */
+export interface QuoteTierFare {
+  vehicleType: VehicleType;
+  /** Fare the rider pays, after any promo discount. */
+  fareMmkt: number;
+  /** Promo discount already taken off `fareMmkt`. */
+  discountMmkt: number;
+}
+
 export interface RouteQuoteResult {
   distanceMeters: number;
   distanceKm: number;
@@ -250,15 +281,20 @@ export interface RouteQuoteResult {
   durationMinutes: number;
   encodedPolyline: string;
   speedReadingIntervals: SpeedReadingInterval[];
-  standardFareMmkt: number;
-  plusFareMmkt: number;
+  /** Every vehicle type on offer, in display order. */
+  fares: QuoteTierFare[];
+  /** Per-rider fare of a SHARED Standard ride; null when it can't be shared. */
+  sharedFareMmkt: number | null;
+  promoCode: string | null;
+  /** Pickup time the fares are locked for; null for "ride now". */
+  scheduledFor: string | null;
   currency: string;
   routeQuoteId: string;
 }
 
 /**
  * Fetch a route quote from the backend (Google Routes API proxy + fare calc).
- * Returns polyline, distance, duration, and fares for Standard & Plus.
+ * Returns polyline, distance, duration, and a fare per offered vehicle type.
  */
 export async function fetchRouteQuote(
   payload: RouteQuotePayload,
@@ -267,6 +303,37 @@ export async function fetchRouteQuote(
   return data;
 }
 
+// =========================================================================
+// Promo Codes
+// =========================================================================
+
+export interface PromoValidation {
+  code: string;
+  description: string | null;
+  discountType: "percentage" | "fixed";
+  discountValue: number;
+  maxDiscount: number | null;
+  minimumFare: number | null;
+  validUntil: string | null;
+  /** Discount on `fare` when one was sent. */
+  discount: number | null;
+}
+
+/**
+ * Check a promo code for the signed-in rider. Rejections come back as 400s
+ * whose message starts with a `PROMO_*` code.
+ */
+export async function validatePromo(
+  code: string,
+  fare?: number,
+): Promise<PromoValidation> {
+  const { data } = await api.post<PromoValidation>("/promos/validate", {
+    code,
+    fare,
+  });
+  return data;
+}
+
 // =========================================================================
 // Rides — Pickup Photo Upload
 // =========================================================================
@@ -328,6 +395,9 @@ export interface CreateRidePayload {
   fuelPreference?: string;
   petFriendly?: boolean;
   extraPassengers?: boolean;
+  promoCode?: string;
+  /** Share the ride — may join a Standard ride already heading this way. */
+  shared?: boolean;
 }
 
 export interface CreateRideResponse {
@@ -338,6 +408,19 @@ export interface CreateRideResponse {
   totalFare: number;
   currency: string;
   vehicleType: string;
+  /** Set when the quote was for an advance booking (status SCHEDULED). */
+  scheduledFor: string | null;
+  /** Set for SHARED bookings; `joined` means a driver is already assigned. */
+  shared: {
+    joined: boolean;
+    detourSeconds?: number;
+    driverName?: string | null;
+    driverLocation?: {
+      latitude: number;
+      longitude: number;
+      heading: number | null;
+    } | null;
+  } | null;
   createdAt: string;
 }
 
@@ -351,6 +434,30 @@ export async function createRide(
   return data;
 }
 
+// =========================================================================
+// Scheduled Rides
+// =========================================================================
+
+export interface ScheduledRide {
+  id: string;
+  status: string;
+  scheduledFor: string;
+  pickupAddress: string;
+  pickupMainText: string | null;
+  dropoffAddress: string;
+  dropoffMainText: string | null;
+  totalFare: number;
+  currency: string;
+  vehicleType: string;
+  createdAt: string;
+}
+
+/** The rider's upcoming advance bookings, soonest first. */
+export async function fetchScheduledRides(): Promise<ScheduledRide[]> {
+  const { data } = await api.get<ScheduledRide[]>("/rides/scheduled");
+  return data ?? [];
+}
+
 // =========================================================================
 // Nearby Drivers
 // =========================================================================
@@ -408,6 +515,40 @@ export async function fetchRideStatus(
   return data;
 }
 
+// =========================================================================
+// Ride Ratings
+// =========================================================================
+
+export interface PendingRating {
+  rideId: string;
+  rateeRole: "DRIVER" | "PASSENGER";
+  rateeName: string | null;
+  totalFare: number;
+  currency: string;
+  dropoffAddress: string;
+  completedAt: string;
+}
+
+export interface SubmitRatingPayload {
+  rating: number;
+  comment?: string;
+  tags?: string[];
+}
+
+/** Latest completed ride the rider hasn't rated yet (null when none). */
+export async function fetchPendingRating(): Promise<PendingRating | null> {
+  const { data } = await api.get<PendingRating | null>("/rides/pending-rating");
+  return data || null;
+}
+
+/** Rate the driver of a completed ride. */
+export async function submitRideRating(
+  rideId: string,
+  payload: SubmitRatingPayload,
+): Promise<void> {
+  await api.post(`/rides/${rideId}/rating`, payload);
+}
+
 // =========================================================================
 // Helpers
 // =========================================================================
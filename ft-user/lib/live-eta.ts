@@ -0,0 +1,105 @@
+/**
+ * Live ETA estimates for an accepted ride, recomputed on every driver
+ * location update without calling the routing API again.
+ *
+ * - To pickup: straight-line distance stretched by a road factor, since
+ *   the quoted polyline only starts at the pickup.
+ * - To dropoff: the part of the quoted polyline the driver hasn't covered.
+ *
+ * Both use the quote's average speed, which already reflects traffic.
+ */
+
+interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+/** Roads are rarely straight — typical city detour over crow-flies distance. */
+const ROAD_DETOUR_FACTOR = 1.3;
+
+/** Used when the quote carries no usable distance / duration. */
+const FALLBACK_SPEED_KMH = 20;
+
+export function haversineMeters(a: LatLng, b: LatLng): number {
+  const R = 6_371_000;
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) *
+      Math.cos(toRad(b.latitude)) *
+      Math.sin(dLng / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/** Compass bearing (0 = north) from `a` to `b`, in degrees. */
+export function bearingDegrees(a: LatLng, b: LatLng): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLng = toRad(b.longitude - a.longitude);
+  const y = Math.sin(dLng) * Math.cos(toRad(b.latitude));
+  const x =
+    Math.cos(toRad(a.latitude)) * Math.sin(toRad(b.latitude)) -
+    Math.sin(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Distance left along `route` from the vertex closest to `position`,
+ * plus the hop from `position` onto the route.
+ */
+export function remainingRouteMeters(
+  route: LatLng[],
+  position: LatLng,
+): number {
+  if (route.length === 0) return 0;
+
+  let nearest = 0;
+  let nearestDistance = Infinity;
+  for (let i = 0; i < route.length; i++) {
+    const d = haversineMeters(position, route[i]);
+    if (d < nearestDistance) {
+      nearest = i;
+      nearestDistance = d;
+    }
+  }
+
+  let remaining = nearestDistance;
+  for (let i = nearest; i < route.length - 1; i++) {
+    remaining += haversineMeters(route[i], route[i + 1]);
+  }
+  return remaining;
+}
+
+/** Average speed of the quoted trip, in km/h. */
+export function quotedSpeedKmh(
+  distanceKm: number | null,
+  durationMinutes: number | null,
+): number {
+  if (!distanceKm || !durationMinutes) return FALLBACK_SPEED_KMH;
+  return distanceKm / (durationMinutes / 60);
+}
+
+/** Minutes for the driver to reach the pickup point. */
+export function etaToPickupMinutes(
+  driver: LatLng,
+  pickup: LatLng,
+  speedKmh: number,
+): number {
+  const meters = haversineMeters(driver, pickup) * ROAD_DETOUR_FACTOR;
+  return toMinutes(meters, speedKmh);
+}
+
+/** Minutes left to the final dropoff along the quoted route. */
+export function etaToDropoffMinutes(
+  driver: LatLng,
+  route: LatLng[],
+  speedKmh: number,
+): number {
+  return toMinutes(remainingRouteMeters(route, driver), speedKmh);
+}
+
+function toMinutes(meters: number, speedKmh: number): number {
+  // Round up so the rider is never told "0 min" while the car is still away
+  return Math.max(1, Math.ceil((meters / 1000 / speedKmh) * 60));
+}
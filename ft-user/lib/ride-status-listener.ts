@@ -1,5 +1,10 @@
-import type Ably from "ably";
-import { getAblyClient } from "./ably";
+import {
+  getAblyClient,
+  type RealtimeChannel,
+  type RealtimeClient,
+  type RealtimeConnectionStateChange,
+  type RealtimeMessage,
+} from "./ably";
 import { fetchRideStatus } from "./api";
 import { useRideBookingStore } from "@/store/ride-booking";
 
@@ -7,15 +12,35 @@ import { useRideBookingStore } from "@/store/ride-booking";
  * Per-booking Ably subscription for the rider.
  *
  * When a ride is created, the rider subscribes to `rider:<userId>`.
- * The backend publishes `ride_accepted`, `no_driver_found`, and
- * `ride_cancelled_by_driver` here.
+ * The backend publishes `ride_accepted`, `no_driver_found`,
+ * `ride_cancelled_by_driver` and the trip status events here.
+ *
+ * Once a driver accepts, the rider also follows `ride:tracking:<rideId>`,
+ * where the driver app publishes its position every 2s.
  *
  * A REST polling fallback runs every 5s to catch messages that were
- * published before the Ably client finished subscribing.
+ * published before the Ably client finished subscribing, and takes over
+ * driver tracking whenever the realtime connection drops.
  */
 
-let subscribedChannel: Ably.RealtimeChannel | null = null;
+let subscribedChannel: RealtimeChannel | null = null;
 let pollingTimer: ReturnType<typeof setInterval> | null = null;
+let listeningUserId: string | null = null;
+
+let trackingClient: RealtimeClient | null = null;
+let trackingChannel: RealtimeChannel | null = null;
+let trackedRideId: string | null = null;
+let connectionListener:
+  | ((change: RealtimeConnectionStateChange) => void)
+  | null = null;
+
+/** Ride statuses the rider channel announces during the trip. */
+const TRIP_STATUS_EVENTS = [
+  "driver_arriving",
+  "driver_arrived",
+  "ride_started",
+  "ride_completed",
+];
 
 /**
  * Connect the Ably client (if needed) and subscribe to the rider's channel.
@@ -38,6 +63,7 @@ export async function startListening(userId: string): Promise<void> {
     subscribedChannel = null;
   }
 
+  listeningUserId = userId;
   const client = getAblyClient(userId);
 
   // Connect if not already connected
@@ -61,7 +87,7 @@ export async function startListening(userId: string): Promise<void> {
           cleanup();
           resolve();
         };
-        const onFailed = (stateChange: Ably.ConnectionStateChange) => {
+        const onFailed = (stateChange: RealtimeConnectionStateChange) => {
           clearTimeout(timeout);
           cleanup();
           reject(stateChange.reason ?? new Error("Ably connection failed"));
@@ -94,7 +120,7 @@ export async function startListening(userId: string): Promise<void> {
   }
 
   // ── ride_accepted ──
-  channel.subscribe("ride_accepted", (message: Ably.Message) => {
+  channel.subscribe("ride_accepted", (message: RealtimeMessage) => {
     const data = message.data as {
       rideId: string;
       driverId: string;
@@ -117,10 +143,11 @@ export async function startListening(userId: string): Promise<void> {
     });
 
     stopPolling();
+    void startTracking(data.rideId);
   });
 
   // ── no_driver_found ──
-  channel.subscribe("no_driver_found", (message: Ably.Message) => {
+  channel.subscribe("no_driver_found", (message: RealtimeMessage) => {
     const data = message.data as { rideId: string } | undefined;
     if (!data?.rideId) return;
 
@@ -132,7 +159,7 @@ export async function startListening(userId: string): Promise<void> {
   });
 
   // ── driver_skipped ──
-  channel.subscribe("driver_skipped", (message: Ably.Message) => {
+  channel.subscribe("driver_skipped", (message: RealtimeMessage) => {
     const data = message.data as { rideId: string; driverUserId: string } | undefined;
     if (!data?.rideId || !data.driverUserId) return;
 
@@ -143,7 +170,7 @@ export async function startListening(userId: string): Promise<void> {
   });
 
   // ── dispatch_progress (sequential waterfall — current driver being contacted) ──
-  channel.subscribe("dispatch_progress", (message: Ably.Message) => {
+  channel.subscribe("dispatch_progress", (message: RealtimeMessage) => {
     const data = message.data as
       | {
           rideId: string;
@@ -162,7 +189,7 @@ export async function startListening(userId: string): Promise<void> {
   });
 
   // ── dispatch_waiting (all rounds exhausted, retrying — clear stale driver name) ──
-  channel.subscribe("dispatch_waiting", (message: Ably.Message) => {
+  channel.subscribe("dispatch_waiting", (message: RealtimeMessage) => {
     const data = message.data as { rideId: string } | undefined;
     if (!data?.rideId) return;
 
@@ -173,7 +200,7 @@ export async function startListening(userId: string): Promise<void> {
   });
 
   // ── ride_cancelled_by_driver ──
-  channel.subscribe("ride_cancelled_by_driver", (message: Ably.Message) => {
+  channel.subscribe("ride_cancelled_by_driver", (message: RealtimeMessage) => {
     const data = message.data as { rideId: string } | undefined;
     if (!data?.rideId) return;
 
@@ -182,11 +209,141 @@ export async function startListening(userId: string): Promise<void> {
 
     store.setBookingDriverCancelled();
     stopPolling();
+    void stopTracking();
   });
 
+  // ── Trip progress (arriving → arrived → started → completed) ──
+  for (const event of TRIP_STATUS_EVENTS) {
+    channel.subscribe(event, (message: RealtimeMessage) => {
+      const data = message.data as
+        | { rideId: string; status: string }
+        | undefined;
+      if (!data?.rideId || !data.status) return;
+
+      const store = useRideBookingStore.getState();
+      if (store.activeRideId && store.activeRideId !== data.rideId) return;
+
+      store.setRideStatus(data.status);
+      if (data.status === "COMPLETED") {
+        stopPolling();
+        void stopTracking();
+      }
+    });
+  }
+
   subscribedChannel = channel;
 }
 
+// ── Live driver tracking ───────────────────────────────────
+
+/**
+ * Follow the accepted driver's position on `ride:tracking:<rideId>`.
+ * Falls back to status polling while realtime is unavailable and returns
+ * to live updates once the connection recovers.
+ */
+export async function startTracking(rideId: string): Promise<void> {
+  if (trackedRideId === rideId) return;
+  await stopTracking();
+  trackedRideId = rideId;
+
+  if (!listeningUserId) {
+    fallBackToPolling(rideId);
+    return;
+  }
+
+  const client = getAblyClient(listeningUserId);
+  trackingClient = client;
+  connectionListener = (change: RealtimeConnectionStateChange) => {
+    if (trackedRideId !== rideId) return;
+    if (change.current === "connected") {
+      void attachTrackingChannel(client, rideId);
+    } else if (
+      change.current === "disconnected" ||
+      change.current === "suspended" ||
+      change.current === "failed"
+    ) {
+      fallBackToPolling(rideId);
+    }
+  };
+  client.connection.on(connectionListener);
+
+  if (client.connection.state === "connected") {
+    await attachTrackingChannel(client, rideId);
+  } else {
+    fallBackToPolling(rideId);
+  }
+}
+
+async function attachTrackingChannel(
+  client: RealtimeClient,
+  rideId: string,
+): Promise<void> {
+  try {
+    // Fresh token — its capability now includes the ride's tracking channel
+    await client.auth.authorize();
+
+    const channel = client.channels.get(`ride:tracking:${rideId}`);
+    await channel.attach();
+    if (trackedRideId !== rideId) {
+      // Tracking stopped or moved on while attaching
+      void channel.detach();
+      return;
+    }
+
+    channel.unsubscribe("location");
+    channel.subscribe("location", (message: RealtimeMessage) => {
+      const data = message.data as
+        | {
+            lat: number;
+            lng: number;
+            heading: number | null;
+            speed: number | null;
+          }
+        | undefined;
+      if (data?.lat == null || data.lng == null) return;
+
+      useRideBookingStore.getState().updateDriverLocation({
+        latitude: data.lat,
+        longitude: data.lng,
+        heading: data.heading,
+        speed: data.speed,
+      });
+    });
+    trackingChannel = channel;
+
+    stopPolling();
+    useRideBookingStore.getState().setTrackingMode("live");
+  } catch {
+    // Channel unavailable (e.g. token refresh failed) — keep polling
+    fallBackToPolling(rideId);
+  }
+}
+
+function fallBackToPolling(rideId: string): void {
+  useRideBookingStore.getState().setTrackingMode("polling");
+  if (!pollingTimer) startPolling(rideId);
+}
+
+async function stopTracking(): Promise<void> {
+  if (trackingClient && connectionListener) {
+    trackingClient.connection.off(connectionListener);
+  }
+  trackingClient = null;
+  connectionListener = null;
+  trackedRideId = null;
+
+  if (!trackingChannel) return;
+  try {
+    trackingChannel.unsubscribe();
+    if (trackingChannel.state === "attached") {
+      await trackingChannel.detach();
+    }
+  } catch {
+    // Swallow — channel might already be detached
+  }
+  trackingChannel = null;
+}
+
 /**
  * Start polling the ride status via REST as a fallback.
  * Should be called AFTER `createRide()` returns with the ride ID.
@@ -200,8 +357,16 @@ export function startPolling(rideId: string): void {
   }, 5_000);
 }
 
+/** A driver is assigned — a shared seat can join a ride already under way. */
+const DRIVER_ASSIGNED_STATUSES = [
+  "ACCEPTED",
+  "DRIVER_ARRIVING",
+  "ARRIVED",
+  "IN_PROGRESS",
+];
+
 async function pollRideStatus(rideId: string): Promise<void> {
-  const store = useRideBookingStore.getState();
+  let store = useRideBookingStore.getState();
   // If booking is no longer in "searching" or "accepted" state, stop polling
   if (
     store.bookingStatus !== "searching" &&
@@ -213,13 +378,30 @@ async function pollRideStatus(rideId: string): Promise<void> {
 
   try {
     const result = await fetchRideStatus(rideId);
+    // The request may have outlived a realtime event — act on fresh state
+    store = useRideBookingStore.getState();
 
-    if (result.status === "ACCEPTED" && store.bookingStatus === "searching") {
+    if (
+      DRIVER_ASSIGNED_STATUSES.includes(result.status) &&
+      store.bookingStatus === "searching"
+    ) {
       store.setBookingAccepted({
         driverName: result.driverName ?? "Driver",
         driverLocation: result.driverLocation,
       });
+      store.setRideStatus(result.status);
+      stopPolling();
+      void startTracking(rideId);
+    } else if (DRIVER_ASSIGNED_STATUSES.includes(result.status)) {
+      // Tracking fallback — the last position the driver sent the API
+      if (result.driverLocation) {
+        store.updateDriverLocation(result.driverLocation);
+      }
+      store.setRideStatus(result.status);
+    } else if (result.status === "COMPLETED") {
+      store.setRideStatus(result.status);
       stopPolling();
+      void stopTracking();
     } else if (result.status === "CANCELLED") {
       // Could be system cancel (no driver) or driver cancel
       if (store.bookingStatus === "accepted") {
@@ -228,6 +410,7 @@ async function pollRideStatus(rideId: string): Promise<void> {
         store.setBookingNoDriver();
       }
       stopPolling();
+      void stopTracking();
     }
   } catch {
     // Network error — keep polling, don't crash
@@ -242,11 +425,13 @@ function stopPolling(): void {
 }
 
 /**
- * Unsubscribe from the rider channel, stop polling, and detach.
+ * Unsubscribe from the rider and tracking channels, stop polling, and detach.
  * Called after booking completes, is cancelled, or user navigates away.
  */
 export async function stopListening(): Promise<void> {
   stopPolling();
+  await stopTracking();
+  listeningUserId = null;
 
   if (!subscribedChannel) return;
 
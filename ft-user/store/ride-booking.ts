@@ -1,5 +1,5 @@
 import { create } from "zustand";
-import type { SpeedReadingInterval } from "@/lib/api";
+import type { QuoteTierFare, SpeedReadingInterval } from "@/lib/api";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -30,15 +30,22 @@ export type BookingStatus =
   | "no_driver"
   | "driver_cancelled";
 
+export interface DriverLocation {
+  latitude: number;
+  longitude: number;
+  heading: number | null;
+  /** km/h, when the driver app reports it. */
+  speed?: number | null;
+}
+
 export interface AcceptedDriver {
   driverName: string;
-  driverLocation: {
-    latitude: number;
-    longitude: number;
-    heading: number | null;
-  } | null;
+  driverLocation: DriverLocation | null;
 }
 
+/** How the rider currently receives the accepted driver's position. */
+export type TrackingMode = "live" | "polling";
+
 /** Info about the driver currently being offered the ride during dispatch. */
 export interface DispatchDriverInfo {
   driverName: string;
@@ -70,14 +77,20 @@ interface RideBookingState {
   routeQuoteId: string | null;
   encodedPolyline: string | null;
   speedReadingIntervals: SpeedReadingInterval[] | null;
-  standardFare: number | null;
-  plusFare: number | null;
+  /** Fare per offered vehicle type, after any promo discount. */
+  fares: QuoteTierFare[];
+  /** Per-rider SHARED fare; null when the route can't be shared. */
+  sharedFare: number | null;
+  promoCode: string | null;
   distanceKm: number | null;
   durationMinutes: number | null;
   currency: string;
   /** Timestamp (ms) when the route quote was fetched — used for 10-min expiry. */
   quoteFetchedAt: number | null;
 
+  /** Pickup time (ISO) for an advance booking; null = ride now. */
+  scheduledFor: string | null;
+
   // Booking flow (post-ride-creation)
   bookingStatus: BookingStatus;
   activeRideId: string | null;
@@ -85,6 +98,9 @@ interface RideBookingState {
   skippedDriverUserIds: string[];
   /** The driver currently being contacted during sequential dispatch. */
   currentDispatchDriver: DispatchDriverInfo | null;
+  /** Server ride status once a driver is assigned (ACCEPTED → COMPLETED). */
+  rideStatus: string | null;
+  trackingMode: TrackingMode;
 
   // Actions — stops
   setStop: (index: number, location: StopLocation | null) => void;
@@ -102,14 +118,16 @@ interface RideBookingState {
   setPickup: (location: StopLocation | null) => void;
   setPickupNote: (note: string) => void;
   setPickupPhotoUri: (uri: string | null) => void;
+  setScheduledFor: (iso: string | null) => void;
 
   // Actions — route quote
   setRouteQuote: (data: {
     routeQuoteId: string;
     encodedPolyline: string;
     speedReadingIntervals: SpeedReadingInterval[];
-    standardFare: number;
-    plusFare: number;
+    fares: QuoteTierFare[];
+    sharedFare: number | null;
+    promoCode: string | null;
     distanceKm: number;
     durationMinutes: number;
     currency: string;
@@ -126,6 +144,9 @@ interface RideBookingState {
   addSkippedDriver: (userId: string) => void;
   setCurrentDispatchDriver: (info: DispatchDriverInfo) => void;
   clearCurrentDispatchDriver: () => void;
+  updateDriverLocation: (location: DriverLocation) => void;
+  setRideStatus: (status: string) => void;
+  setTrackingMode: (mode: TrackingMode) => void;
   resetBookingStatus: () => void;
 
   // Reset everything
@@ -142,6 +163,8 @@ const BOOKING_FLOW_INITIAL = {
   acceptedDriver: null as AcceptedDriver | null,
   skippedDriverUserIds: [] as string[],
   currentDispatchDriver: null as DispatchDriverInfo | null,
+  rideStatus: null as string | null,
+  trackingMode: "live" as TrackingMode,
 };
 
 const INITIAL_STATE = {
@@ -157,12 +180,14 @@ const INITIAL_STATE = {
   routeQuoteId: null as string | null,
   encodedPolyline: null as string | null,
   speedReadingIntervals: null as SpeedReadingInterval[] | null,
-  standardFare: null as number | null,
-  plusFare: null as number | null,
+  fares: [] as QuoteTierFare[],
+  sharedFare: null as number | null,
+  promoCode: null as string | null,
   distanceKm: null as number | null,
   durationMinutes: null as number | null,
   currency: "MMK",
   quoteFetchedAt: null as number | null,
+  scheduledFor: null as string | null,
   ...BOOKING_FLOW_INITIAL,
 };
 
@@ -229,13 +254,18 @@ export const useRideBookingStore = create<RideBookingState>()((set, get) => ({
     set({ pickupPhotoUri: uri });
   },
 
+  setScheduledFor(iso) {
+    set({ scheduledFor: iso });
+  },
+
   setRouteQuote(data) {
     set({
       routeQuoteId: data.routeQuoteId,
       encodedPolyline: data.encodedPolyline,
       speedReadingIntervals: data.speedReadingIntervals,
-      standardFare: data.standardFare,
-      plusFare: data.plusFare,
+      fares: data.fares,
+      sharedFare: data.sharedFare,
+      promoCode: data.promoCode,
       distanceKm: data.distanceKm,
       durationMinutes: data.durationMinutes,
       currency: data.currency,
@@ -248,8 +278,9 @@ export const useRideBookingStore = create<RideBookingState>()((set, get) => ({
       routeQuoteId: null,
       encodedPolyline: null,
       speedReadingIntervals: null,
-      standardFare: null,
-      plusFare: null,
+      fares: [],
+      sharedFare: null,
+      promoCode: null,
       distanceKm: null,
       durationMinutes: null,
       quoteFetchedAt: null,
@@ -268,6 +299,7 @@ export const useRideBookingStore = create<RideBookingState>()((set, get) => ({
       bookingStatus: "accepted",
       acceptedDriver: driver,
       currentDispatchDriver: null,
+      rideStatus: "ACCEPTED",
     });
   },
 
@@ -295,6 +327,22 @@ export const useRideBookingStore = create<RideBookingState>()((set, get) => ({
     set({ currentDispatchDriver: null });
   },
 
+  updateDriverLocation(location) {
+    set((s) =>
+      s.acceptedDriver
+        ? { acceptedDriver: { ...s.acceptedDriver, driverLocation: location } }
+        : s,
+    );
+  },
+
+  setRideStatus(status) {
+    set({ rideStatus: status });
+  },
+
+  setTrackingMode(mode) {
+    set({ trackingMode: mode });
+  },
+
   resetBookingStatus() {
     set({ ...BOOKING_FLOW_INITIAL });
   },